@@ -1,5 +1,6 @@
 import { PrismaClient, UserRole } from '@prisma/client'
 import bcrypt from 'bcryptjs'
+import { seedDefaultAlertTemplates } from '../src/lib/alert-templates'
 
 const prisma = new PrismaClient()
 
@@ -336,6 +337,10 @@ async function main() {
     },
   })
 
+  // Built-in alert templates, editable afterwards through /api/alerts/templates
+  const alertTemplates = await seedDefaultAlertTemplates(prisma, admin.id)
+  console.log(`Created ${alertTemplates} default alert templates`)
+
   console.log('Seeding finished.')
 }
 
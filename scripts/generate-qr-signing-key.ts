@@ -0,0 +1,17 @@
+import { generateKeyPairSync, randomBytes } from 'crypto';
+
+// Prints a fresh Ed25519 key pair as .env lines for batch QR signing.
+// The public key is registered automatically the first time the key signs a code.
+
+const { privateKey, publicKey } = generateKeyPairSync('ed25519');
+
+const keyId = `qr-${new Date().toISOString().slice(0, 10)}-${randomBytes(3).toString('hex')}`;
+const privatePem = privateKey.export({ type: 'pkcs8', format: 'pem' }).toString();
+const publicPem = publicKey.export({ type: 'spki', format: 'pem' }).toString();
+
+console.log('# Add to .env (keep the private key secret)');
+console.log(`QR_SIGNING_KEY_ID="${keyId}"`);
+console.log(`QR_SIGNING_PRIVATE_KEY="${privatePem.trim().replace(/\n/g, '\\n')}"`);
+console.log('');
+console.log('# Public key (also served from /api/qr-keys once active)');
+console.log(publicPem.trim());
@@ -0,0 +1,91 @@
+import net from 'net';
+import path from 'path';
+import { mkdirSync, writeFileSync } from 'fs';
+
+// Local SMTP catcher for developing notification delivery offline.
+// Accepts every message and saves it as an .eml file instead of sending it.
+// Point the app at it with SMTP_HOST=localhost SMTP_PORT=1025.
+
+const port = parseInt(process.env.SMTP_CATCHER_PORT || '1025');
+const outDir = process.env.SMTP_CATCHER_DIR || path.join(process.cwd(), '.notifications', 'mail');
+
+mkdirSync(outDir, { recursive: true });
+
+const server = net.createServer((socket) => {
+  let buffer = '';
+  let inData = false;
+  let data: string[] = [];
+  let envelope: { from?: string; to: string[] } = { to: [] };
+
+  const reply = (line: string) => socket.write(`${line}\r\n`);
+  socket.setEncoding('utf8');
+  reply('220 localhost smtp-catcher ready');
+
+  socket.on('data', (chunk: string) => {
+    buffer += chunk;
+    let index: number;
+
+    while ((index = buffer.indexOf('\r\n')) >= 0) {
+      const line = buffer.slice(0, index);
+      buffer = buffer.slice(index + 2);
+
+      if (inData) {
+        if (line === '.') {
+          inData = false;
+          const file = path.join(outDir, `${Date.now()}-${Math.random().toString(36).slice(2, 8)}.eml`);
+          writeFileSync(file, data.join('\r\n'));
+          console.log(`Caught mail from ${envelope.from} to ${envelope.to.join(', ')} -> ${file}`);
+          data = [];
+          envelope = { to: [] };
+          reply('250 OK: message saved');
+        } else {
+          data.push(line.startsWith('..') ? line.slice(1) : line);
+        }
+        continue;
+      }
+
+      const command = line.slice(0, 4).toUpperCase();
+      switch (command) {
+        case 'EHLO':
+          reply('250-localhost');
+          reply('250 AUTH PLAIN');
+          break;
+        case 'HELO':
+          reply('250 localhost');
+          break;
+        case 'AUTH':
+          reply('235 Authentication accepted');
+          break;
+        case 'MAIL':
+          envelope.from = line.slice(10).replace(/[<>]/g, '');
+          reply('250 OK');
+          break;
+        case 'RCPT':
+          envelope.to.push(line.slice(8).replace(/[<>]/g, ''));
+          reply('250 OK');
+          break;
+        case 'DATA':
+          inData = true;
+          reply('354 End data with <CR><LF>.<CR><LF>');
+          break;
+        case 'RSET':
+          envelope = { to: [] };
+          reply('250 OK');
+          break;
+        case 'NOOP':
+          reply('250 OK');
+          break;
+        case 'QUIT':
+          reply('221 Bye');
+          socket.end();
+          break;
+        default:
+          reply('502 Command not implemented');
+      }
+    }
+  });
+});
+
+server.listen(port, () => {
+  console.log(`SMTP catcher listening on port ${port}, saving mail to ${outDir}`);
+});
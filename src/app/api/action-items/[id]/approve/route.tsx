@@ -1,25 +1,28 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { db } from '@/lib/db';
+import { prisma } from '@/lib/db';
+import { getRequestMeta } from '@/lib/auth';
+import { appendAuditLog, diffValues } from '@/lib/audit-log';
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac';
 
 const ApproveActionItemSchema = z.object({
   approved: z.boolean(),
-  rejectionReason: z.string().optional(),
-  reviewedBy: z.string()
+  rejectionReason: z.string().optional()
 });
 
 // POST /api/action-items/[id]/approve - Approve or reject completed action item
-export async function POST(
+export const POST = withAuth('action-item:approve', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const body = await request.json();
     const validatedData = ApproveActionItemSchema.parse(body);
+    const reviewedBy = session.user.id;
 
     // Get the action item first
-    const actionItem = await db.actionItem.findUnique({
-      where: { id: params.id }
+    const actionItem = await prisma.actionItem.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) }
     });
 
     if (!actionItem) {
@@ -38,12 +41,12 @@ export async function POST(
 
     if (validatedData.approved) {
       // Approve the action item
-      const updatedActionItem = await db.actionItem.update({
+      const updatedActionItem = await prisma.actionItem.update({
         where: { id: params.id },
         data: {
-          approvedBy: validatedData.reviewedBy,
+          approvedBy: reviewedBy,
           approvedAt: new Date(),
-          reviewedBy: validatedData.reviewedBy,
+          reviewedBy,
           reviewedAt: new Date(),
           updatedAt: new Date()
         }
@@ -51,28 +54,25 @@ export async function POST(
 
       // Update the related alert status if exists
       if (actionItem.alertId) {
-        await db.alert.update({
+        await prisma.alert.update({
           where: { id: actionItem.alertId },
           data: {
             status: 'RESOLVED',
+            isResolved: true,
             resolvedAt: new Date(),
-            resolvedById: validatedData.reviewedBy
+            resolvedBy: reviewedBy
           }
         });
       }
 
       // Create audit log
-      await db.auditLog.create({
-        data: {
-          userId: validatedData.reviewedBy,
-          action: 'APPROVE_ACTION_ITEM',
-          resourceType: 'ACTION_ITEM',
-          resourceId: params.id,
-          newValues: JSON.stringify({
-            approved: true,
-            approvedAt: new Date()
-          })
-        }
+      await appendAuditLog(prisma, {
+        userId: reviewedBy,
+        action: 'APPROVE_ACTION_ITEM',
+        resourceType: 'ACTION_ITEM',
+        resourceId: params.id,
+        ...diffValues(actionItem, updatedActionItem),
+        meta: getRequestMeta(request)
       });
 
       return NextResponse.json({
@@ -90,11 +90,11 @@ export async function POST(
         );
       }
 
-      const updatedActionItem = await db.actionItem.update({
+      const updatedActionItem = await prisma.actionItem.update({
         where: { id: params.id },
         data: {
           status: 'IN_PROGRESS',
-          reviewedBy: validatedData.reviewedBy,
+          reviewedBy,
           reviewedAt: new Date(),
           rejectionReason: validatedData.rejectionReason,
           completedAt: null, // Reset completion
@@ -103,17 +103,13 @@ export async function POST(
       });
 
       // Create audit log
-      await db.auditLog.create({
-        data: {
-          userId: validatedData.reviewedBy,
-          action: 'REJECT_ACTION_ITEM_COMPLETION',
-          resourceType: 'ACTION_ITEM',
-          resourceId: params.id,
-          newValues: JSON.stringify({
-            status: 'IN_PROGRESS',
-            rejectionReason: validatedData.rejectionReason
-          })
-        }
+      await appendAuditLog(prisma, {
+        userId: reviewedBy,
+        action: 'REJECT_ACTION_ITEM_COMPLETION',
+        resourceType: 'ACTION_ITEM',
+        resourceId: params.id,
+        ...diffValues(actionItem, updatedActionItem),
+        meta: getRequestMeta(request)
       });
 
       return NextResponse.json({
@@ -136,4 +132,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,6 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { db } from '@/lib/db';
+import { prisma } from '@/lib/db';
+import { getRequestMeta } from '@/lib/auth';
+import { appendAuditLog, diffValues } from '@/lib/audit-log';
+import { queueAlertNotifications } from '@/lib/notification-preferences';
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac';
 
 const CompleteActionItemSchema = z.object({
   completionNotes: z.string().optional(),
@@ -9,17 +13,17 @@ const CompleteActionItemSchema = z.object({
 });
 
 // POST /api/action-items/[id]/complete - Complete action item
-export async function POST(
+export const POST = withAuth('action-item:update', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const body = await request.json();
     const validatedData = CompleteActionItemSchema.parse(body);
 
     // Get the action item first
-    const actionItem = await db.actionItem.findUnique({
-      where: { id: params.id }
+    const actionItem = await prisma.actionItem.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) }
     });
 
     if (!actionItem) {
@@ -37,7 +41,7 @@ export async function POST(
     }
 
     // Update action item with completion details
-    const updatedActionItem = await db.actionItem.update({
+    const updatedActionItem = await prisma.actionItem.update({
       where: { id: params.id },
       data: {
         status: 'COMPLETED',
@@ -53,6 +57,7 @@ export async function POST(
           select: {
             id: true,
             type: true,
+            category: true,
             severity: true,
             title: true
           }
@@ -61,23 +66,19 @@ export async function POST(
     });
 
     // Create audit log
-    await db.auditLog.create({
-      data: {
-        action: 'COMPLETE_ACTION_ITEM',
-        resourceType: 'ACTION_ITEM',
-        resourceId: params.id,
-        newValues: JSON.stringify({
-          status: 'COMPLETED',
-          completedAt: new Date(),
-          completionNotes: validatedData.completionNotes
-        })
-      }
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'COMPLETE_ACTION_ITEM',
+      resourceType: 'ACTION_ITEM',
+      resourceId: params.id,
+      ...diffValues(actionItem, updatedActionItem),
+      meta: getRequestMeta(request)
     });
 
     // Notify manager for review if needed
     if (actionItem.priority === 'CRITICAL' || actionItem.priority === 'HIGH') {
       // Find manager in the same mill
-      const manager = await db.user.findFirst({
+      const manager = await prisma.user.findFirst({
         where: {
           millId: actionItem.millId,
           role: 'MILL_MANAGER',
@@ -86,15 +87,20 @@ export async function POST(
       });
 
       if (manager) {
-        await db.notificationPreference.create({
-          data: {
-            userId: manager.id,
-            alertId: actionItem.alertId,
-            type: 'ACTION_ITEM_REVIEW_REQUIRED',
-            isEnabled: true,
-            channels: JSON.stringify(['in_app', 'email'])
-          }
-        });
+        const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
+        await queueAlertNotifications(
+          actionItem.alertId,
+          {
+            title: `Action item ready for review: ${actionItem.title}`,
+            message: `${actionItem.assignedToName} completed "${actionItem.title}" for alert "${updatedActionItem.alert.title}".`,
+            severity: actionItem.priority,
+            category: updatedActionItem.alert.category,
+            actionRequired: 'Review and approve or reject the completed action item'
+          },
+          [manager.id],
+          `${baseUrl}/alerts/${actionItem.alertId}`,
+          prisma
+        );
       }
     }
 
@@ -117,4 +123,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { db } from '@/lib/db';
+import { prisma } from '@/lib/db';
+import { getRequestMeta } from '@/lib/auth';
+import { appendAuditLog, auditSnapshot } from '@/lib/audit-log';
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac';
 
 const UploadEvidenceSchema = z.object({
   fileName: z.string(),
@@ -14,13 +17,13 @@ const UploadEvidenceSchema = z.object({
 });
 
 // GET /api/action-items/[id]/evidence - Get evidence for action item
-export async function GET(
+export const GET = withAuth('action-item:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
-    const evidence = await db.actionItemEvidence.findMany({
-      where: { actionItemId: params.id },
+    const evidence = await prisma.actionItemEvidence.findMany({
+      where: { actionItemId: params.id, ...millScopeWhere(session, 'actionItem') },
       orderBy: { uploadedAt: 'desc' }
     });
 
@@ -36,20 +39,20 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 // POST /api/action-items/[id]/evidence - Upload evidence for action item
-export async function POST(
+export const POST = withAuth('action-item:update', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const body = await request.json();
     const validatedData = UploadEvidenceSchema.parse(body);
 
     // Verify action item exists
-    const actionItem = await db.actionItem.findUnique({
-      where: { id: params.id }
+    const actionItem = await prisma.actionItem.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) }
     });
 
     if (!actionItem) {
@@ -59,7 +62,7 @@ export async function POST(
       );
     }
 
-    const evidence = await db.actionItemEvidence.create({
+    const evidence = await prisma.actionItemEvidence.create({
       data: {
         actionItemId: params.id,
         fileName: validatedData.fileName,
@@ -74,11 +77,20 @@ export async function POST(
     });
 
     // Update action item timestamp
-    await db.actionItem.update({
+    await prisma.actionItem.update({
       where: { id: params.id },
       data: { updatedAt: new Date() }
     });
 
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'ADD_ACTION_ITEM_EVIDENCE',
+      resourceType: 'ACTION_ITEM_EVIDENCE',
+      resourceId: evidence.id,
+      newValues: auditSnapshot(evidence),
+      meta: getRequestMeta(request)
+    });
+
     return NextResponse.json({
       success: true,
       evidence,
@@ -98,4 +110,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
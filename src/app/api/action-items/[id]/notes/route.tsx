@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { db } from '@/lib/db';
+import { prisma } from '@/lib/db';
+import { getRequestMeta } from '@/lib/auth';
+import { appendAuditLog, auditSnapshot } from '@/lib/audit-log';
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac';
 
 const CreateNoteSchema = z.object({
   content: z.string().min(1, 'Note content is required'),
@@ -10,13 +13,13 @@ const CreateNoteSchema = z.object({
 });
 
 // GET /api/action-items/[id]/notes - Get notes for action item
-export async function GET(
+export const GET = withAuth('action-item:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
-    const notes = await db.actionItemNote.findMany({
-      where: { actionItemId: params.id },
+    const notes = await prisma.actionItemNote.findMany({
+      where: { actionItemId: params.id, ...millScopeWhere(session, 'actionItem') },
       orderBy: { createdAt: 'desc' }
     });
 
@@ -32,20 +35,20 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 // POST /api/action-items/[id]/notes - Add note to action item
-export async function POST(
+export const POST = withAuth('action-item:update', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const body = await request.json();
     const validatedData = CreateNoteSchema.parse(body);
 
     // Verify action item exists
-    const actionItem = await db.actionItem.findUnique({
-      where: { id: params.id }
+    const actionItem = await prisma.actionItem.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) }
     });
 
     if (!actionItem) {
@@ -55,7 +58,7 @@ export async function POST(
       );
     }
 
-    const note = await db.actionItemNote.create({
+    const note = await prisma.actionItemNote.create({
       data: {
         actionItemId: params.id,
         userId: validatedData.userId,
@@ -66,11 +69,20 @@ export async function POST(
     });
 
     // Update action item timestamp
-    await db.actionItem.update({
+    await prisma.actionItem.update({
       where: { id: params.id },
       data: { updatedAt: new Date() }
     });
 
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'ADD_ACTION_ITEM_NOTE',
+      resourceType: 'ACTION_ITEM_NOTE',
+      resourceId: note.id,
+      newValues: auditSnapshot(note),
+      meta: getRequestMeta(request)
+    });
+
     return NextResponse.json({
       success: true,
       note,
@@ -90,4 +102,4 @@ export async function POST(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
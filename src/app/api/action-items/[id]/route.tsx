@@ -1,16 +1,32 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { z } from 'zod';
-import { db } from '@/lib/db';
-import { UpdateActionItemRequestSchema } from '@/lib/action-items';
+import { prisma } from '@/lib/db';
+import { getRequestMeta } from '@/lib/auth';
+import { appendAuditLog, auditSnapshot, diffValues } from '@/lib/audit-log';
+import { ActionItemPriority } from '@prisma/client';
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac';
+
+// Edits to the plan; completion and approval go through their own routes
+const updateActionItemSchema = z.object({
+  title: z.string().min(1).optional(),
+  description: z.string().min(1).optional(),
+  requiredAction: z.string().min(1).optional(),
+  priority: z.nativeEnum(ActionItemPriority).optional(),
+  status: z.enum(['PENDING', 'IN_PROGRESS', 'CANCELLED']).optional(),
+  dueDate: z.string().datetime().transform((value) => new Date(value)).optional(),
+  estimatedHours: z.number().int().positive().optional(),
+  actualHours: z.number().int().nonnegative().optional(),
+  tags: z.array(z.string()).optional()
+});
 
 // GET /api/action-items/[id] - Get single action item
-export async function GET(
+export const GET = withAuth('action-item:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
-    const actionItem = await db.actionItem.findUnique({
-      where: { id: params.id },
+    const actionItem = await prisma.actionItem.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) },
       include: {
         alert: {
           select: {
@@ -60,18 +76,29 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 // PUT /api/action-items/[id] - Update action item
-export async function PUT(
+export const PUT = withAuth('action-item:update', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const body = await request.json();
-    const validatedData = UpdateActionItemRequestSchema.parse(body);
+    const validatedData = updateActionItemSchema.parse(body);
+
+    const existing = await prisma.actionItem.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) }
+    });
 
-    const actionItem = await db.actionItem.update({
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Action item not found' },
+        { status: 404 }
+      );
+    }
+
+    const actionItem = await prisma.actionItem.update({
       where: { id: params.id },
       data: {
         ...validatedData,
@@ -90,6 +117,15 @@ export async function PUT(
       }
     });
 
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'UPDATE_ACTION_ITEM',
+      resourceType: 'ACTION_ITEM',
+      resourceId: params.id,
+      ...diffValues(existing, actionItem),
+      meta: getRequestMeta(request)
+    });
+
     return NextResponse.json({
       success: true,
       actionItem
@@ -108,18 +144,38 @@ export async function PUT(
       { status: 500 }
     );
   }
-}
+});
 
 // DELETE /api/action-items/[id] - Delete action item
-export async function DELETE(
+export const DELETE = withAuth('action-item:delete', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
-    await db.actionItem.delete({
+    const existing = await prisma.actionItem.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) }
+    });
+
+    if (!existing) {
+      return NextResponse.json(
+        { success: false, error: 'Action item not found' },
+        { status: 404 }
+      );
+    }
+
+    await prisma.actionItem.delete({
       where: { id: params.id }
     });
 
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'DELETE_ACTION_ITEM',
+      resourceType: 'ACTION_ITEM',
+      resourceId: params.id,
+      oldValues: auditSnapshot(existing),
+      meta: getRequestMeta(request)
+    });
+
     return NextResponse.json({
       success: true,
       message: 'Action item deleted successfully'
@@ -132,4 +188,4 @@ export async function DELETE(
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
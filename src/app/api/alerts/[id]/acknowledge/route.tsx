@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { prisma } from '@/lib/db';
+import { getRequestMeta } from '@/lib/auth';
+import { appendAuditLog } from '@/lib/audit-log';
 import { z } from 'zod';
+import { withAuth, RouteContext, alertScopeWhere } from '@/lib/rbac';
 
 const acknowledgeAlertSchema = z.object({
   userId: z.string(),
@@ -8,17 +11,17 @@ const acknowledgeAlertSchema = z.object({
 });
 
 // POST /api/alerts/[id]/acknowledge - Acknowledge an alert
-export async function POST(
+export const POST = withAuth('alert:acknowledge', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const alertId = params.id;
     const body = await request.json();
     const { userId, notes } = acknowledgeAlertSchema.parse(body);
 
     // Verify user exists and has permission
-    const user = await db.user.findUnique({
+    const user = await prisma.user.findUnique({
       where: { id: userId, isActive: true }
     });
 
@@ -30,8 +33,8 @@ export async function POST(
     }
 
     // Get the alert
-    const alert = await db.alert.findUnique({
-      where: { id: alertId },
+    const alert = await prisma.alert.findUnique({
+      where: { id: alertId, ...alertScopeWhere(session) },
       include: {
         notifications: {
           where: { userId }
@@ -56,7 +59,7 @@ export async function POST(
     }
 
     // Update alert acknowledgment
-    const updatedAlert = await db.alert.update({
+    const updatedAlert = await prisma.alert.update({
       where: { id: alertId },
       data: {
         isAcknowledged: true,
@@ -85,7 +88,7 @@ export async function POST(
     // Update notification status
     await Promise.all(
       alert.notifications.map(notification =>
-        db.alertNotification.update({
+        prisma.alertNotification.update({
           where: { id: notification.id },
           data: {
             readAt: new Date()
@@ -95,23 +98,29 @@ export async function POST(
     );
 
     // Log the acknowledgment
-    await db.auditLog.create({
+    await appendAuditLog(prisma, {
+      userId,
+      action: 'ACKNOWLEDGE_ALERT',
+      resourceType: 'ALERT',
+      resourceId: alertId,
+      newValues: {
+        acknowledgedAt: new Date(),
+        acknowledgedBy: userId,
+        notes
+      },
+      meta: getRequestMeta(request)
+    });
+
+    // Escalations still waiting on someone are answered by this acknowledgment;
+    // any further escalation is left to the escalation job
+    await prisma.alertEscalation.updateMany({
+      where: { alertId, status: 'PENDING' },
       data: {
-        userId,
-        action: 'ACKNOWLEDGE_ALERT',
-        resourceType: 'ALERT',
-        resourceId: alertId,
-        newValues: JSON.stringify({
-          acknowledgedAt: new Date(),
-          acknowledgedBy: userId,
-          notes
-        })
+        status: 'ACKNOWLEDGED',
+        acknowledgedAt: new Date()
       }
     });
 
-    // Check if escalation should be triggered based on acknowledgment timing
-    await checkEscalationTriggers(alertId, 'ACKNOWLEDGMENT');
-
     return NextResponse.json({
       alert: updatedAlert,
       message: 'Alert acknowledged successfully'
@@ -129,7 +138,7 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
 async function checkAcknowledgePermission(user: any, alert: any): Promise<boolean> {
   // FWGA users can acknowledge any alert
@@ -143,7 +152,7 @@ async function checkAcknowledgePermission(user: any, alert: any): Promise<boolea
   }
 
   // Check if user has a direct notification for this alert
-  const hasNotification = await db.alertNotification.findFirst({
+  const hasNotification = await prisma.alertNotification.findFirst({
     where: {
       alertId: alert.id,
       userId: user.id
@@ -151,131 +160,4 @@ async function checkAcknowledgePermission(user: any, alert: any): Promise<boolea
   });
 
   return !!hasNotification;
-}
-
-async function checkEscalationTriggers(alertId: string, triggerType: string) {
-  const alert = await db.alert.findUnique({
-    where: { id: alertId },
-    include: {
-      escalations: {
-        orderBy: { level: 'desc' },
-        take: 1
-      }
-    }
-  });
-
-  if (!alert) return;
-
-  // Check if acknowledgment is late (based on severity)
-  const now = new Date();
-  const acknowledgmentThresholds = {
-    CRITICAL: 30 * 60 * 1000, // 30 minutes
-    HIGH: 2 * 60 * 60 * 1000, // 2 hours
-    MEDIUM: 8 * 60 * 60 * 1000, // 8 hours
-    LOW: 24 * 60 * 60 * 1000, // 24 hours
-  };
-
-  const threshold = acknowledgmentThresholds[alert.severity as keyof typeof acknowledgmentThresholds];
-  const timeSinceCreation = now.getTime() - alert.createdAt.getTime();
-
-  if (timeSinceCreation > threshold) {
-    // Trigger escalation for late acknowledgment
-    await triggerEscalation(alertId, 'NO_ACKNOWLEDGMENT', `Alert acknowledged ${Math.round(timeSinceCreation / (60 * 60 * 1000))} hours after creation`);
-  }
-}
-
-async function triggerEscalation(alertId: string, reason: string, notes?: string) {
-  const alert = await db.alert.findUnique({
-    where: { id: alertId },
-    include: {
-      escalations: {
-        orderBy: { level: 'desc' },
-        take: 1
-      }
-    }
-  });
-
-  if (!alert) return;
-
-  const currentLevel = alert.escalations[0]?.level || 0;
-  const nextLevel = currentLevel + 1;
-
-  // Define escalation paths based on alert type
-  const escalationPaths = {
-    QC_FAILURE: [
-      { role: 'MILL_MANAGER', delay: 2 * 60 * 60 * 1000 }, // 2 hours
-      { role: 'FWGA_INSPECTOR', delay: 24 * 60 * 60 * 1000 }, // 24 hours
-      { role: 'FWGA_PROGRAM_MANAGER', delay: 72 * 60 * 60 * 1000 } // 72 hours
-    ],
-    CRITICAL_NON_COMPLIANCE: [
-      { role: 'FWGA_INSPECTOR', delay: 24 * 60 * 60 * 1000 }, // 24 hours
-      { role: 'FWGA_PROGRAM_MANAGER', delay: 72 * 60 * 60 * 1000 } // 72 hours
-    ],
-    // Add other alert types as needed
-  };
-
-  const path = escalationPaths[alert.type as keyof typeof escalationPaths];
-  if (!path || nextLevel >= path.length) return;
-
-  const nextRecipient = path[nextLevel];
-
-  // Find users at the next escalation level
-  const recipients = await db.user.findMany({
-    where: {
-      role: nextRecipient.role,
-      isActive: true,
-      ...(alert.millId && nextRecipient.role !== 'FWGA_INSPECTOR' && nextRecipient.role !== 'FWGA_PROGRAM_MANAGER' 
-        ? { millId: alert.millId } 
-        : {})
-    }
-  });
-
-  // Create escalation records
-  await Promise.all(
-    recipients.map(recipient =>
-      db.alertEscalation.create({
-        data: {
-          alertId,
-          fromUserId: alert.acknowledgedBy,
-          toUserId: recipient.id,
-          level: nextLevel,
-          reason: reason as any,
-          triggerCondition: JSON.stringify({
-            triggerType,
-            currentLevel,
-            nextLevel,
-            notes
-          }),
-          notes
-        }
-      })
-    )
-  );
-
-  // Create notifications for escalated users
-  await Promise.all(
-    recipients.map(recipient =>
-      db.alertNotification.create({
-        data: {
-          alertId,
-          userId: recipient.id,
-          channel: 'EMAIL', // Escalations always use email
-          content: JSON.stringify({
-            title: `ESCALATED: ${alert.title}`,
-            message: `Alert has been escalated to ${recipient.role}. ${notes || ''}`,
-            severity: alert.severity,
-            escalationLevel: nextLevel,
-            responseUrl: `${process.env.NEXT_PUBLIC_APP_URL}/alerts/${alertId}`
-          }),
-          responseUrl: `${process.env.NEXT_PUBLIC_APP_URL}/alerts/${alertId}`
-        }
-      })
-    )
-  );
-
-  // Update alert status
-  await db.alert.update({
-    where: { id: alertId },
-    data: { status: 'ESCALATED' }
-  });
 }
\ No newline at end of file
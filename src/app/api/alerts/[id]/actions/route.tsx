@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { prisma } from '@/lib/db';
+import { getRequestMeta } from '@/lib/auth';
+import { appendAuditLog } from '@/lib/audit-log';
 import { z } from 'zod';
 import { ActionType, ActionStatus } from '@prisma/client';
+import { withAuth, RouteContext, alertScopeWhere } from '@/lib/rbac';
 
 const createActionSchema = z.object({
   userId: z.string(),
@@ -21,15 +24,15 @@ const updateActionSchema = z.object({
 });
 
 // GET /api/alerts/[id]/actions - Get all actions for an alert
-export async function GET(
+export const GET = withAuth('alert:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const alertId = params.id;
 
-    const actions = await db.alertAction.findMany({
-      where: { alertId },
+    const actions = await prisma.alertAction.findMany({
+      where: { alertId, ...alertScopeWhere(session, 'alert') },
       include: {
         user: {
           select: {
@@ -53,20 +56,20 @@ export async function GET(
       { status: 500 }
     );
   }
-}
+});
 
 // POST /api/alerts/[id]/actions - Create a new action for an alert
-export async function POST(
+export const POST = withAuth('alert:acknowledge', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const alertId = params.id;
     const body = await request.json();
     const validatedData = createActionSchema.parse(body);
 
     // Verify user exists and has permission
-    const user = await db.user.findUnique({
+    const user = await prisma.user.findUnique({
       where: { id: validatedData.userId, isActive: true }
     });
 
@@ -78,8 +81,8 @@ export async function POST(
     }
 
     // Get the alert
-    const alert = await db.alert.findUnique({
-      where: { id: alertId }
+    const alert = await prisma.alert.findUnique({
+      where: { id: alertId, ...alertScopeWhere(session) }
     });
 
     if (!alert) {
@@ -99,7 +102,7 @@ export async function POST(
     }
 
     // Create the action
-    const action = await db.alertAction.create({
+    const action = await prisma.alertAction.create({
       data: {
         alertId,
         userId: validatedData.userId,
@@ -123,23 +126,22 @@ export async function POST(
     });
 
     // Log the action creation
-    await db.auditLog.create({
-      data: {
-        userId: validatedData.userId,
-        action: 'CREATE_ALERT_ACTION',
-        resourceType: 'ALERT_ACTION',
-        resourceId: action.id,
-        newValues: JSON.stringify({
-          alertId,
-          actionType: validatedData.actionType,
-          description: validatedData.description
-        })
-      }
+    await appendAuditLog(prisma, {
+      userId: validatedData.userId,
+      action: 'CREATE_ALERT_ACTION',
+      resourceType: 'ALERT_ACTION',
+      resourceId: action.id,
+      newValues: {
+        alertId,
+        actionType: validatedData.actionType,
+        description: validatedData.description
+      },
+      meta: getRequestMeta(request)
     });
 
     // If this is a corrective action, update alert status
     if (validatedData.actionType === 'CORRECTIVE_ACTION') {
-      await db.alert.update({
+      await prisma.alert.update({
         where: { id: alertId },
         data: { status: 'ACKNOWLEDGED' }
       });
@@ -162,7 +164,7 @@ export async function POST(
       { status: 500 }
     );
   }
-}
+});
 
 async function checkActionPermission(user: any, alert: any): Promise<boolean> {
   // FWGA users can create actions for any alert
@@ -176,7 +178,7 @@ async function checkActionPermission(user: any, alert: any): Promise<boolean> {
   }
 
   // Check if user has a direct notification for this alert
-  const hasNotification = await db.alertNotification.findFirst({
+  const hasNotification = await prisma.alertNotification.findFirst({
     where: {
       alertId: alert.id,
       userId: user.id
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/rbac'
+import { ESCALATION_PAGE_SIZE, runEscalations } from '@/lib/alert-escalation'
+
+// POST - Scheduled (every 5 minutes) run: escalate alerts nobody acknowledged or acted on
+// in time, and overdue action items, to the next level of their escalation path
+export const POST = withAuth('job:run', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const pageSize = parseInt(searchParams.get('pageSize') || String(ESCALATION_PAGE_SIZE))
+
+    const { summary, alerts, actionItems, errors } = await runEscalations(prisma, { pageSize })
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      results: { alerts, actionItems },
+      errors: errors.length > 0 ? errors : undefined,
+    })
+  } catch (error) {
+    console.error('Error running alert escalations:', error)
+    return NextResponse.json(
+      { error: 'Failed to run alert escalations' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
+import { prisma } from '@/lib/db';
 import { z } from 'zod';
 import { 
   AlertType, 
   AlertCategory, 
   AlertSeverity, 
-  AlertStatus,
-  NotificationChannel,
-  UserRole 
+  AlertStatus
 } from '@prisma/client';
+import { withAuth, RouteContext, canAccessMill, alertScopeWhere } from '@/lib/rbac';
+import { processNotificationQueue } from '@/lib/notification-delivery';
+import { queueAlertNotifications } from '@/lib/notification-preferences';
 
 // Create alert schema
 const createAlertSchema = z.object({
@@ -29,7 +30,10 @@ const createAlertSchema = z.object({
 });
 
 // GET /api/alerts - Fetch alerts with filtering and pagination
-export async function GET(request: NextRequest) {
+export const GET = withAuth('alert:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url);
     const page = parseInt(searchParams.get('page') || '1');
@@ -44,7 +48,8 @@ export async function GET(request: NextRequest) {
     const skip = (page - 1) * limit;
 
     // Build where clause
-    const where: any = {};
+    // Mill users see their mill's alerts; buyers and planners only those they were notified of
+    const where: any = alertScopeWhere(session);
     
     if (status) where.status = status;
     if (severity) where.severity = severity;
@@ -53,7 +58,7 @@ export async function GET(request: NextRequest) {
     
     // Filter by user's alerts (either directly assigned or through their mill)
     if (userId) {
-      const user = await db.user.findUnique({
+      const user = await prisma.user.findUnique({
         where: { id: userId },
         include: { mill: true }
       });
@@ -80,7 +85,7 @@ export async function GET(request: NextRequest) {
 
     // Get alerts with pagination
     const [alerts, total] = await Promise.all([
-      db.alert.findMany({
+      prisma.alert.findMany({
         where,
         include: {
           mill: {
@@ -159,7 +164,7 @@ export async function GET(request: NextRequest) {
         skip,
         take: limit,
       }),
-      db.alert.count({ where })
+      prisma.alert.count({ where })
     ]);
 
     return NextResponse.json({
@@ -178,16 +183,24 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // POST /api/alerts - Create a new alert
-export async function POST(request: NextRequest) {
+export const POST = withAuth('alert:create', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const body = await request.json();
     const validatedData = createAlertSchema.parse(body);
 
+    // Mill-scoped users may only raise alerts against their own mill
+    if (!canAccessMill(session, validatedData.millId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 });
+    }
+
     // Create the alert
-    const alert = await db.alert.create({
+    const alert = await prisma.alert.create({
       data: {
         ...validatedData,
         deadline: validatedData.deadline ? new Date(validatedData.deadline) : null,
@@ -212,43 +225,31 @@ export async function POST(request: NextRequest) {
       validatedData.sourceId
     );
 
-    // Create notifications for recipients
-    const notifications = await Promise.all(
-      recipients.map(async (recipient) => {
-        const channels = determineNotificationChannels(
-          validatedData.severity,
-          recipient.role
-        );
-
-        return Promise.all(
-          channels.map(channel =>
-            db.alertNotification.create({
-              data: {
-                alertId: alert.id,
-                userId: recipient.id,
-                channel,
-                content: JSON.stringify({
-                  title: alert.title,
-                  message: alert.message,
-                  severity: alert.severity,
-                  actionRequired: alert.actionRequired,
-                  deadline: alert.deadline,
-                  responseUrl: generateResponseUrl(alert)
-                }),
-                responseUrl: generateResponseUrl(alert)
-              }
-            })
-          )
-        );
-      })
+    // Notify each recipient on the channels their preferences allow
+    const { notificationCount } = await queueAlertNotifications(
+      alert.id,
+      {
+        title: alert.title,
+        message: alert.message,
+        severity: alert.severity,
+        category: alert.category,
+        actionRequired: alert.actionRequired,
+        deadline: alert.deadline
+      },
+      recipients.map((recipient) => recipient.id),
+      generateResponseUrl(alert),
+      prisma
     );
 
-    // Trigger notification delivery
-    await triggerNotificationDelivery(alert.id);
+    // Critical alerts go out now; everything else is picked up by the delivery worker
+    if (alert.severity === 'CRITICAL') {
+      await processNotificationQueue(prisma, { alertId: alert.id });
+    }
 
     return NextResponse.json({
       alert,
-      notifications: notifications.flat()
+      recipientsNotified: recipients.length,
+      notificationsQueued: notificationCount
     }, { status: 201 });
   } catch (error) {
     console.error('Error creating alert:', error);
@@ -263,7 +264,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 // Helper functions
 async function determineAlertRecipients(
@@ -276,7 +277,7 @@ async function determineAlertRecipients(
   const recipients: any[] = [];
 
   // Get mill information if available
-  const mill = millId ? await db.mill.findUnique({
+  const mill = millId ? await prisma.mill.findUnique({
     where: { id: millId },
     include: {
       users: {
@@ -300,7 +301,7 @@ async function determineAlertRecipients(
       }
       
       // Add FWGA QA Officer
-      const fWGAOfficers = await db.user.findMany({
+      const fWGAOfficers = await prisma.user.findMany({
         where: { 
           role: { in: ['FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'] },
           isActive: true 
@@ -318,7 +319,7 @@ async function determineAlertRecipients(
         if (manager) recipients.push(manager);
       }
       
-      const inspectors = await db.user.findMany({
+      const inspectors = await prisma.user.findMany({
         where: { 
           role: { in: ['FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'] },
           isActive: true 
@@ -371,27 +372,6 @@ async function determineAlertRecipients(
   );
 }
 
-function determineNotificationChannels(severity: AlertSeverity, userRole: UserRole): NotificationChannel[] {
-  const channels: NotificationChannel[] = [NotificationChannel.IN_SYSTEM];
-
-  switch (severity) {
-    case 'CRITICAL':
-      channels.push(NotificationChannel.PUSH, NotificationChannel.SMS, NotificationChannel.EMAIL);
-      break;
-    case 'HIGH':
-      channels.push(NotificationChannel.PUSH, NotificationChannel.EMAIL);
-      break;
-    case 'MEDIUM':
-      channels.push(NotificationChannel.PUSH, NotificationChannel.EMAIL);
-      break;
-    case 'LOW':
-      channels.push(NotificationChannel.EMAIL);
-      break;
-  }
-
-  return channels;
-}
-
 function generateResponseUrl(alert: any): string {
   const baseUrl = process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000';
   
@@ -412,23 +392,3 @@ function generateResponseUrl(alert: any): string {
       return `${baseUrl}/alerts/${alert.id}`;
   }
 }
-
-async function triggerNotificationDelivery(alertId: string) {
-  // This would typically be handled by a background job
-  // For now, we'll mark notifications as sent immediately
-  const notifications = await db.alertNotification.findMany({
-    where: { alertId, status: 'PENDING' }
-  });
-
-  await Promise.all(
-    notifications.map(notification =>
-      db.alertNotification.update({
-        where: { id: notification.id },
-        data: {
-          status: 'SENT',
-          sentAt: new Date()
-        }
-      })
-    )
-  );
-}
\ No newline at end of file
@@ -0,0 +1,131 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog, auditSnapshot, diffValues } from '@/lib/audit-log'
+import {
+  alertTemplateSchema,
+  deactivateActiveTemplates,
+  toResolvedTemplate,
+  toTemplateUpdateData,
+} from '@/lib/alert-templates'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const updateAlertTemplateSchema = alertTemplateSchema.partial()
+
+// GET - One alert template
+export const GET = withAuth('alert:read', async (
+  request: NextRequest,
+  { params }: RouteContext<{ id: string }>
+) => {
+  try {
+    const template = await prisma.alertTemplate.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!template) {
+      return NextResponse.json({ error: 'Alert template not found' }, { status: 404 })
+    }
+
+    return NextResponse.json({ ...template, ...toResolvedTemplate(template) })
+  } catch (error) {
+    console.error('Error fetching alert template:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch alert template' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT - Update a template; activating it deactivates the other template for its type and country.
+// Alerts already raised keep the wording and escalation path they were created with.
+export const PUT = withAuth('alert:template:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const input = updateAlertTemplateSchema.parse(body)
+
+    const existing = await prisma.alertTemplate.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Alert template not found' }, { status: 404 })
+    }
+
+    const type = input.type ?? existing.type
+    const country = input.country !== undefined ? input.country : existing.country
+    const isActive = input.isActive ?? existing.isActive
+
+    const results = await prisma.$transaction([
+      ...(isActive ? [deactivateActiveTemplates(prisma, type, country, params.id)] : []),
+      prisma.alertTemplate.update({
+        where: { id: params.id },
+        data: toTemplateUpdateData(input),
+      }),
+    ])
+    const template = results[results.length - 1]
+
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'UPDATE_ALERT_TEMPLATE',
+      resourceType: 'ALERT_TEMPLATE',
+      resourceId: params.id,
+      ...diffValues(existing, template),
+      meta: getRequestMeta(request),
+    })
+
+    return NextResponse.json({ ...template, ...toResolvedTemplate(template) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating alert template:', error)
+    return NextResponse.json(
+      { error: 'Failed to update alert template' },
+      { status: 500 }
+    )
+  }
+})
+
+// DELETE - Remove a template; its type falls back to the country-independent or built-in template
+export const DELETE = withAuth('alert:template:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const existing = await prisma.alertTemplate.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Alert template not found' }, { status: 404 })
+    }
+
+    await prisma.alertTemplate.delete({
+      where: { id: params.id },
+    })
+
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'DELETE_ALERT_TEMPLATE',
+      resourceType: 'ALERT_TEMPLATE',
+      resourceId: params.id,
+      oldValues: auditSnapshot(existing),
+      meta: getRequestMeta(request),
+    })
+
+    return NextResponse.json({ success: true, message: 'Alert template deleted' })
+  } catch (error) {
+    console.error('Error deleting alert template:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete alert template' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog, auditSnapshot } from '@/lib/audit-log'
+import {
+  alertTemplateSchema,
+  deactivateActiveTemplates,
+  toResolvedTemplate,
+  toTemplateCreateData,
+} from '@/lib/alert-templates'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+// GET - Alert templates, filterable by type, country and isActive
+export const GET = withAuth('alert:read', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const type = searchParams.get('type')
+    const country = searchParams.get('country')
+    const isActive = searchParams.get('isActive')
+
+    const where: any = {}
+    if (type) where.type = type
+    if (country) where.country = country === 'default' ? null : country
+    if (isActive !== null) where.isActive = isActive === 'true'
+
+    const templates = await prisma.alertTemplate.findMany({
+      where,
+      orderBy: [{ type: 'asc' }, { country: 'asc' }, { updatedAt: 'desc' }],
+    })
+
+    return NextResponse.json(
+      templates.map((template: any) => ({ ...template, ...toResolvedTemplate(template) }))
+    )
+  } catch (error) {
+    console.error('Error fetching alert templates:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch alert templates' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST - Create a template. An active template replaces the active one for the same
+// type and country, which is deactivated.
+export const POST = withAuth('alert:template:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    const body = await request.json()
+    const input = alertTemplateSchema.parse(body)
+    const country = input.country ?? null
+
+    const results = await prisma.$transaction([
+      ...(input.isActive ? [deactivateActiveTemplates(prisma, input.type, country)] : []),
+      prisma.alertTemplate.create({
+        data: {
+          ...toTemplateCreateData(input),
+          country,
+          createdBy: session.user.id,
+        },
+      }),
+    ])
+    const template = results[results.length - 1]
+
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'CREATE_ALERT_TEMPLATE',
+      resourceType: 'ALERT_TEMPLATE',
+      resourceId: template.id,
+      newValues: auditSnapshot(template),
+      meta: getRequestMeta(request),
+    })
+
+    return NextResponse.json({ ...template, ...toResolvedTemplate(template) }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating alert template:', error)
+    return NextResponse.json(
+      { error: 'Failed to create alert template' },
+      { status: 500 }
+    )
+  }
+})
@@ -1,7 +1,11 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, resolveMillId } from '@/lib/rbac'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('analytics:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const searchParams = request.nextUrl.searchParams
     const chartType = searchParams.get('chartType') || 'timeSeries'
@@ -9,7 +13,7 @@ export async function GET(request: NextRequest) {
     const period = searchParams.get('period') || '30'
     const granularity = searchParams.get('granularity') || 'daily' // daily, weekly, monthly
     const groupBy = searchParams.get('groupBy') // mill, product, country, etc.
-    const millId = searchParams.get('millId')
+    const millId = resolveMillId(session, searchParams.get('millId'))
     const country = searchParams.get('country')
 
     const periodDays = parseInt(period)
@@ -59,7 +63,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 async function getTimeSeriesData(filter: any, metric: string, granularity: string) {
   const batches = await prisma.batchLog.findMany({
@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, resolveMillId } from '@/lib/rbac'
 
 /**
  * Cross-filtering and drill-down API
  * Supports hierarchical data exploration and multi-dimensional filtering
  */
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('analytics:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const body = await request.json()
     const {
@@ -29,7 +33,8 @@ export async function POST(request: NextRequest) {
     // Apply filters
     if (filters.country) batchFilter.mill = { ...batchFilter.mill, country: filters.country }
     if (filters.region) batchFilter.mill = { ...batchFilter.mill, region: filters.region }
-    if (filters.millId) batchFilter.millId = filters.millId
+    const millId = resolveMillId(session, filters.millId)
+    if (millId) batchFilter.millId = millId
     if (filters.productType) batchFilter.productType = filters.productType
     if (filters.cropType) batchFilter.cropType = filters.cropType
     if (filters.shift) batchFilter.shift = filters.shift
@@ -108,7 +113,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 async function getCountryLevel(filter: any, metric: string) {
   const batches = await prisma.batchLog.findMany({
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/rbac'
 
 /**
  * Excel Export API
@@ -11,7 +12,7 @@ import { NextRequest, NextResponse } from 'next/server'
 
 // import * as XLSX from 'xlsx'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('analytics:export', async (request: NextRequest) => {
   try {
     const body = await request.json()
     const {
@@ -87,7 +88,7 @@ export async function POST(request: NextRequest) {
     console.error('Error generating Excel:', error)
     return NextResponse.json({ error: 'Failed to generate Excel' }, { status: 500 })
   }
-}
+})
 
 function buildWorkbookData(reportType: string, data: any, options: any) {
   const sheets: any[] = []
@@ -345,7 +346,7 @@ function calculateTotalRecords(data: any): number {
   return count
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('analytics:export', async (request: NextRequest) => {
   try {
     const searchParams = request.nextUrl.searchParams
     const id = searchParams.get('id')
@@ -362,4 +363,4 @@ export async function GET(request: NextRequest) {
     console.error('Error downloading Excel:', error)
     return NextResponse.json({ error: 'Failed to download Excel' }, { status: 500 })
   }
-}
+})
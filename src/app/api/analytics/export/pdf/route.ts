@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/rbac'
 
 /**
  * PDF Export API
@@ -10,7 +11,7 @@ import { prisma } from '@/lib/db'
  * and render them on the server side.
  */
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('analytics:export', async (request: NextRequest) => {
   try {
     const body = await request.json()
     const {
@@ -99,7 +100,7 @@ export async function POST(request: NextRequest) {
     console.error('Error generating PDF:', error)
     return NextResponse.json({ error: 'Failed to generate PDF' }, { status: 500 })
   }
-}
+})
 
 function buildDocumentSections(reportType: string, data: any, options: any) {
   const sections: any[] = []
@@ -221,7 +222,7 @@ function buildDocumentSections(reportType: string, data: any, options: any) {
 }
 
 // GET endpoint to download generated PDF
-export async function GET(request: NextRequest) {
+export const GET = withAuth('analytics:export', async (request: NextRequest) => {
   try {
     const searchParams = request.nextUrl.searchParams
     const id = searchParams.get('id')
@@ -241,4 +242,4 @@ export async function GET(request: NextRequest) {
     console.error('Error downloading PDF:', error)
     return NextResponse.json({ error: 'Failed to download PDF' }, { status: 500 })
   }
-}
+})
@@ -1,4 +1,5 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { withAuth } from '@/lib/rbac'
 
 /**
  * PowerPoint Export API
@@ -11,7 +12,7 @@ import { NextRequest, NextResponse } from 'next/server'
 
 // import PptxGenJS from 'pptxgenjs'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('analytics:export', async (request: NextRequest) => {
   try {
     const body = await request.json()
     const {
@@ -88,7 +89,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 function buildPresentationStructure(
   reportType: string,
@@ -398,7 +399,7 @@ function formatLabel(str: string): string {
     .trim()
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('analytics:export', async (request: NextRequest) => {
   try {
     const searchParams = request.nextUrl.searchParams
     const id = searchParams.get('id')
@@ -418,4 +419,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
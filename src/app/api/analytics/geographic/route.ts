@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/rbac'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('analytics:read', async (request: NextRequest) => {
   try {
     const searchParams = request.nextUrl.searchParams
     const mapType = searchParams.get('mapType') || 'pin' // pin, heat, choropleth
@@ -291,4 +292,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
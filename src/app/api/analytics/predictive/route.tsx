@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
+import { withAuth, RouteContext } from '@/lib/rbac';
 
 // Simple linear regression for trend forecasting
 function linearRegression(data: number[]) {
@@ -138,13 +137,11 @@ async function calculateMillRiskScore(millId: string, timeframe: number = 30) {
   };
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('analytics:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const type = searchParams.get('type');
     const millId = searchParams.get('millId');
@@ -495,4 +492,4 @@ export async function GET(request: NextRequest) {
     console.error('Predictive analytics error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
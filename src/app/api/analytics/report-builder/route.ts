@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
+import { withAuth } from '@/lib/rbac'
 
 /**
  * Custom Report Builder API
@@ -63,7 +64,7 @@ const customReportSchema = z.object({
 })
 
 // GET - List available data sources and templates
-export async function GET(request: NextRequest) {
+export const GET = withAuth('report:manage', async (request: NextRequest) => {
   try {
     const searchParams = request.nextUrl.searchParams
     const action = searchParams.get('action')
@@ -117,10 +118,10 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // POST - Create custom report
-export async function POST(request: NextRequest) {
+export const POST = withAuth('report:manage', async (request: NextRequest) => {
   try {
     const body = await request.json()
     const { userId, ...reportData } = body
@@ -180,10 +181,10 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // PUT - Update custom report
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth('report:manage', async (request: NextRequest) => {
   try {
     const body = await request.json()
     const { id, userId, ...updates } = body
@@ -225,10 +226,10 @@ export async function PUT(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // DELETE - Delete custom report
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth('report:manage', async (request: NextRequest) => {
   try {
     const searchParams = request.nextUrl.searchParams
     const id = searchParams.get('id')
@@ -268,7 +269,7 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 function getAvailableDataSources() {
   return {
@@ -1,7 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
 import { db } from '@/lib/db';
+import { withAuth, RouteContext } from '@/lib/rbac';
 
 // Report templates
 const REPORT_TEMPLATES = {
@@ -336,13 +335,11 @@ async function generateReportData(type: string, params: any, session: any) {
   }
 }
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('report:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const action = searchParams.get('action');
 
@@ -404,15 +401,13 @@ export async function GET(request: NextRequest) {
     console.error('Reports API error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('report:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const body = await request.json();
     const { action, ...data } = body;
 
@@ -469,15 +464,10 @@ export async function POST(request: NextRequest) {
     console.error('Reports POST error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth('report:manage', async (request: NextRequest) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const body = await request.json();
     const { id, ...updates } = body;
 
@@ -499,15 +489,10 @@ export async function PUT(request: NextRequest) {
     console.error('Reports PUT error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth('report:manage', async (request: NextRequest) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const id = searchParams.get('id');
 
@@ -525,7 +510,7 @@ export async function DELETE(request: NextRequest) {
     console.error('Reports DELETE error:', error);
     return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
   }
-}
+});
 
 // Helper function to calculate next run time
 function calculateNextRun(schedule: any): Date {
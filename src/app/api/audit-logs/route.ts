@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/rbac'
+
+// GET - Audit trail entries, newest first
+export const GET = withAuth('audit-log:read', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const resourceType = searchParams.get('resourceType')
+    const resourceId = searchParams.get('resourceId')
+    const userId = searchParams.get('userId')
+    const action = searchParams.get('action')
+    const limit = searchParams.get('limit') || '50'
+    const offset = searchParams.get('offset') || '0'
+
+    const where: any = {}
+    if (resourceType) where.resourceType = resourceType
+    if (resourceId) where.resourceId = resourceId
+    if (userId) where.userId = userId
+    if (action) where.action = action
+
+    const entries = await prisma.auditLog.findMany({
+      where,
+      include: {
+        user: {
+          select: {
+            name: true,
+            email: true,
+            role: true,
+          },
+        },
+      },
+      orderBy: [{ sequence: 'desc' }, { createdAt: 'desc' }],
+      take: parseInt(limit),
+      skip: parseInt(offset),
+    })
+
+    const total = await prisma.auditLog.count({ where })
+
+    return NextResponse.json({
+      entries: entries.map((entry) => ({
+        ...entry,
+        oldValues: entry.oldValues ? JSON.parse(entry.oldValues) : null,
+        newValues: entry.newValues ? JSON.parse(entry.newValues) : null,
+      })),
+      total,
+      limit: parseInt(limit),
+      offset: parseInt(offset),
+    })
+  } catch (error) {
+    console.error('Error fetching audit log:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch audit log' },
+      { status: 500 }
+    )
+  }
+})
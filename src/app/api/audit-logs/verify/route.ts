@@ -0,0 +1,21 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/rbac'
+import { verifyAuditChain } from '@/lib/audit-log'
+
+// GET - Recompute the hash chain and report any tampered, missing or inserted rows.
+// Deleting the newest rows cannot be seen from the chain itself, so compare
+// headSequence/headHash against a previously recorded value.
+export const GET = withAuth('audit-log:read', async () => {
+  try {
+    const result = await verifyAuditChain(prisma)
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error verifying audit log:', error)
+    return NextResponse.json(
+      { error: 'Failed to verify audit log' },
+      { status: 500 }
+    )
+  }
+})
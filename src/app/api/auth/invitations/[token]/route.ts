@@ -0,0 +1,172 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { z } from 'zod';
+import { prisma } from '@/lib/db';
+import { getRequestMeta } from '@/lib/auth';
+import {
+  createUserAccount,
+  getInvitationStatus,
+  hashInvitationToken,
+  logUserChange,
+  passwordSchema,
+} from '@/lib/user-management';
+
+const acceptInvitationSchema = z.object({
+  name: z.string().min(2, 'Name must be at least 2 characters'),
+  password: passwordSchema,
+});
+
+async function findInvitation(token: string) {
+  return prisma.userInvitation.findUnique({
+    where: { tokenHash: hashInvitationToken(token) },
+    include: {
+      mill: { select: { id: true, name: true } },
+      invitedBy: { select: { name: true } },
+    },
+  });
+}
+
+function invitationUnavailable(status: string) {
+  return NextResponse.json(
+    { error: `This invitation is ${status.toLowerCase()}` },
+    { status: 410 }
+  );
+}
+
+// GET /api/auth/invitations/[token] - Preview an invitation before accepting it
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const invitation = await findInvitation(params.token);
+    if (!invitation) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    const status = getInvitationStatus(invitation);
+    if (status !== 'PENDING') {
+      return invitationUnavailable(status);
+    }
+
+    return NextResponse.json({
+      email: invitation.email,
+      role: invitation.role,
+      mill: invitation.mill,
+      invitedBy: invitation.invitedBy.name,
+      expiresAt: invitation.expiresAt,
+    });
+  } catch (error) {
+    console.error('Error fetching invitation:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
+
+// POST /api/auth/invitations/[token] - Accept an invitation and create the account
+export async function POST(
+  request: NextRequest,
+  { params }: { params: { token: string } }
+) {
+  try {
+    const body = await request.json();
+    const { name, password } = acceptInvitationSchema.parse(body);
+
+    const invitation = await findInvitation(params.token);
+    if (!invitation) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 });
+    }
+
+    const status = getInvitationStatus(invitation);
+    if (status !== 'PENDING') {
+      return invitationUnavailable(status);
+    }
+
+    const existingUser = await prisma.user.findUnique({
+      where: { email: invitation.email },
+      select: { id: true },
+    });
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'User with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    // Claim the invitation first so it cannot be redeemed twice
+    const claimed = await prisma.userInvitation.updateMany({
+      where: { id: invitation.id, acceptedAt: null, revokedAt: null },
+      data: { acceptedAt: new Date() },
+    });
+    if (claimed.count === 0) {
+      return invitationUnavailable('ACCEPTED');
+    }
+
+    const user = await createUserAccount(
+      {
+        name,
+        email: invitation.email,
+        password,
+        role: invitation.role,
+        millId: invitation.millId,
+      },
+      prisma
+    );
+
+    if (!user) {
+      await prisma.userInvitation.update({
+        where: { id: invitation.id },
+        data: { acceptedAt: null },
+      });
+      return NextResponse.json(
+        { error: 'User with this email already exists' },
+        { status: 409 }
+      );
+    }
+
+    await prisma.userInvitation.update({
+      where: { id: invitation.id },
+      data: { acceptedUserId: user.id },
+    });
+
+    await logUserChange(prisma, {
+      actorId: user.id,
+      action: 'USER_INVITATION_ACCEPTED',
+      resourceId: user.id,
+      newValues: {
+        email: user.email,
+        role: user.role,
+        millId: user.millId,
+        invitationId: invitation.id,
+        invitedById: invitation.invitedById,
+      },
+      meta: getRequestMeta(request),
+    });
+
+    return NextResponse.json({
+      success: true,
+      message: 'Account created successfully. Please login to continue.',
+      user: {
+        id: user.id,
+        name: user.name,
+        email: user.email,
+        role: user.role,
+        millId: user.millId,
+      },
+    }, { status: 201 });
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid input', details: error.errors },
+        { status: 400 }
+      );
+    }
+
+    console.error('Error accepting invitation:', error);
+    return NextResponse.json(
+      { error: 'Internal server error' },
+      { status: 500 }
+    );
+  }
+}
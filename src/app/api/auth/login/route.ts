@@ -1,70 +1,54 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { AuthManager, User } from '@/lib/auth';
+import {
+  AuthManager,
+  getRequestMeta,
+  verifyCredentials,
+  SESSION_COOKIE_NAME,
+  SESSION_MAX_AGE,
+} from '@/lib/auth';
 import { z } from 'zod';
 
-// Mock user database - in production, this would be a real database
-const users: User[] = [
-  {
-    id: '1',
-    email: 'admin@fortifymis.com',
-    name: 'Admin User',
-    role: 'admin',
-    millId: undefined,
-  },
-  {
-    id: '2',
-    email: 'manager@mill.com',
-    name: 'Mill Manager',
-    role: 'mill_manager',
-    millId: 'mill-1',
-  },
-  {
-    id: '3',
-    email: 'operator@mill.com',
-    name: 'Mill Operator',
-    role: 'operator',
-    millId: 'mill-1',
-  },
-  {
-    id: '4',
-    email: 'inspector@fwga.com',
-    name: 'FWGA Inspector',
-    role: 'inspector',
-    millId: undefined,
-  },
-];
-
 const loginSchema = z.object({
   email: z.string().email('Invalid email address'),
-  password: z.string().min(6, 'Password must be at least 6 characters'),
+  password: z.string().min(1, 'Password is required'),
 });
 
 export async function POST(request: NextRequest) {
   try {
     const body = await request.json();
     const { email, password } = loginSchema.parse(body);
+    const meta = getRequestMeta(request);
 
-    // Find user by email (in production, verify password hash)
-    const user = users.find(u => u.email === email);
-    
-    if (!user) {
-      return NextResponse.json(
-        { error: 'Invalid email or password' },
-        { status: 401 }
-      );
-    }
+    const result = await verifyCredentials(email, password, meta);
+
+    if (!result.success) {
+      if (result.reason === 'ACCOUNT_LOCKED') {
+        return NextResponse.json(
+          {
+            error: 'Account temporarily locked after repeated failed logins',
+            lockedUntil: result.lockedUntil,
+          },
+          { status: 423 }
+        );
+      }
+
+      if (result.reason === 'ACCOUNT_INACTIVE') {
+        return NextResponse.json(
+          { error: 'This account has been deactivated' },
+          { status: 403 }
+        );
+      }
 
-    // Mock password verification (in production, use bcrypt)
-    // For demo purposes, any password with 6+ characters works
-    if (password.length < 6) {
       return NextResponse.json(
         { error: 'Invalid email or password' },
         { status: 401 }
       );
     }
 
+    const { user } = result;
+
     // Create session
-    const token = AuthManager.createSession(user);
+    const token = await AuthManager.createSession(user, meta);
 
     // Set authentication cookie
     const response = NextResponse.json({
@@ -79,11 +63,11 @@ export async function POST(request: NextRequest) {
       message: 'Login successful',
     });
 
-    response.cookies.set('auth-token', token, {
+    response.cookies.set(SESSION_COOKIE_NAME, token, {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
-      maxAge: 24 * 60 * 60, // 24 hours
+      sameSite: 'lax',
+      maxAge: SESSION_MAX_AGE,
       path: '/',
     });
 
@@ -102,4 +86,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
@@ -1,13 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { AuthManager } from '@/lib/auth';
+import { AuthManager, getRequestMeta, SESSION_COOKIE_NAME } from '@/lib/auth';
 
 export async function POST(request: NextRequest) {
   try {
-    const token = request.cookies.get('auth-token')?.value;
+    const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
     
     if (token) {
-      // Remove session from server-side storage
-      AuthManager.removeSession(token);
+      // Revoke the server-side session so the token stops working everywhere
+      await AuthManager.removeSession(token, getRequestMeta(request));
     }
 
     // Clear the authentication cookie
@@ -16,10 +16,10 @@ export async function POST(request: NextRequest) {
       message: 'Logout successful',
     });
 
-    response.cookies.set('auth-token', '', {
+    response.cookies.set(SESSION_COOKIE_NAME, '', {
       httpOnly: true,
       secure: process.env.NODE_ENV === 'production',
-      sameSite: 'strict',
+      sameSite: 'lax',
       expires: new Date(0),
       path: '/',
     });
@@ -32,4 +32,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+}
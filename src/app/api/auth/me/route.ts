@@ -1,9 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { AuthManager } from '@/lib/auth';
+import { AuthManager, SESSION_COOKIE_NAME } from '@/lib/auth';
 
 export async function GET(request: NextRequest) {
   try {
-    const token = request.cookies.get('auth-token')?.value;
+    const token = request.cookies.get(SESSION_COOKIE_NAME)?.value;
     
     if (!token) {
       return NextResponse.json(
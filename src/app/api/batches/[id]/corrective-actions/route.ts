@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog, auditSnapshot, diffValues } from '@/lib/audit-log'
 
 const correctiveActionSchema = z.object({
   assignedBy: z.string(),
@@ -21,16 +24,16 @@ const correctiveActionSchema = z.object({
   preventiveActions: z.string().optional(), // JSON array
 })
 
-export async function POST(
+export const POST = withAuth('qc:create', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const body = await request.json()
     const data = correctiveActionSchema.parse(body)
 
     const batch = await prisma.batchLog.findUnique({
-      where: { id: params.id },
+      where: { id: params.id, ...millScopeWhere(session) },
     })
 
     if (!batch) {
@@ -58,6 +61,16 @@ export async function POST(
       },
     })
 
+    const meta = getRequestMeta(request)
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'CREATE_CORRECTIVE_ACTION',
+      resourceType: 'CORRECTIVE_ACTION',
+      resourceId: action.id,
+      newValues: auditSnapshot(action),
+      meta,
+    })
+
     // Update batch status based on disposition
     if (data.batchDisposition) {
       let newStatus = batch.status
@@ -67,13 +80,25 @@ export async function POST(
         newStatus = 'QC_PENDING'
       }
 
-      await prisma.batchLog.update({
+      const updatedBatch = await prisma.batchLog.update({
         where: { id: params.id },
         data: {
           status: newStatus,
           quarantineReason: data.dispositionReason,
         },
       })
+
+      const batchChanges = diffValues(batch, updatedBatch)
+      if (Object.keys(batchChanges.newValues).length > 0) {
+        await appendAuditLog(prisma, {
+          userId: session.user.id,
+          action: 'UPDATE_BATCH',
+          resourceType: 'BATCH',
+          resourceId: params.id,
+          ...batchChanges,
+          meta,
+        })
+      }
     }
 
     return NextResponse.json(action)
@@ -90,15 +115,15 @@ export async function POST(
       { status: 500 }
     )
   }
-}
+})
 
-export async function GET(
+export const GET = withAuth('batch:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const actions = await prisma.correctiveAction.findMany({
-      where: { batchId: params.id },
+      where: { batchId: params.id, ...millScopeWhere(session, 'batch') },
       orderBy: { createdAt: 'desc' },
     })
 
@@ -110,17 +135,25 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
 // Update corrective action status
-export async function PATCH(
+export const PATCH = withAuth('qc:create', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const body = await request.json()
     const { actionId, status, completedBy, approvedBy, notes } = body
 
+    const existing = await prisma.correctiveAction.findFirst({
+      where: { id: actionId, batchId: params.id, ...millScopeWhere(session, 'batch') },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Corrective action not found' }, { status: 404 })
+    }
+
     const updateData: any = {}
     if (status) updateData.status = status
     if (completedBy) {
@@ -137,6 +170,15 @@ export async function PATCH(
       data: updateData,
     })
 
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'UPDATE_CORRECTIVE_ACTION',
+      resourceType: 'CORRECTIVE_ACTION',
+      resourceId: action.id,
+      ...diffValues(existing, action),
+      meta: getRequestMeta(request),
+    })
+
     return NextResponse.json(action)
   } catch (error) {
     console.error('Error updating corrective action:', error)
@@ -145,4 +187,4 @@ export async function PATCH(
       { status: 500 }
     )
   }
-}
+})
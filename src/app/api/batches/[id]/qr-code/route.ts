@@ -1,15 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import { generateQRCodeData } from '@/lib/batch-utils'
-import crypto from 'crypto'
+import { signQrPayload } from '@/lib/qr-signing'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog } from '@/lib/audit-log'
 
-export async function POST(
+export const POST = withAuth('batch:update', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const batch = await prisma.batchLog.findUnique({
-      where: { id: params.id },
+      where: { id: params.id, ...millScopeWhere(session) },
       include: {
         mill: {
           select: {
@@ -41,37 +43,47 @@ export async function POST(
       )
     }
 
-    // Generate cryptographic signature
-    const dataToSign = `${batch.batchId}:${batch.millId}:${batch.batchDateTime.toISOString()}`
-    const signature = crypto
-      .createHash('sha256')
-      .update(dataToSign)
-      .digest('hex')
-      .substring(0, 16)
+    // Sign the full payload (including QC status) with the active Ed25519 key
+    const { token, payload } = await signQrPayload(
+      {
+        batchId: batch.batchId,
+        millCode: batch.mill.code,
+        cropType: batch.cropType,
+        productType: batch.productType,
+        productionDate: batch.batchDateTime.toISOString().split('T')[0],
+        qcStatus: batch.qcStatus,
+        certificationStatus: batch.mill.certificationStatus,
+      },
+      prisma
+    )
 
     // Generate QR code data
     const qrData = {
-      batchId: batch.batchId,
+      ...payload,
       millName: batch.mill.name,
-      millCode: batch.mill.code,
-      cropType: batch.cropType,
-      productType: batch.productType,
-      productionDate: batch.batchDateTime.toISOString().split('T')[0],
-      qcStatus: batch.qcStatus,
-      certificationStatus: batch.mill.certificationStatus,
-      verificationCode: signature,
-      verificationUrl: `/api/batches/verify/${signature}`,
+      verificationCode: token,
+      verificationUrl: `/api/batches/verify/${token}`,
     }
 
     // Update batch with QR code info
     await prisma.batchLog.update({
       where: { id: params.id },
       data: {
-        qrCodeUrl: `/qr/${signature}`,
+        qrCodeUrl: `/qr/${token}`,
         qrCodeGenerated: true,
       },
     })
 
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'ISSUE_BATCH_QR_CODE',
+      resourceType: 'BATCH',
+      resourceId: params.id,
+      oldValues: { qrCodeUrl: batch.qrCodeUrl, qrCodeGenerated: batch.qrCodeGenerated },
+      newValues: { qrCodeUrl: `/qr/${token}`, qrCodeGenerated: true, keyId: payload.kid },
+      meta: getRequestMeta(request),
+    })
+
     // Create traceability record
     await prisma.traceabilityRecord.create({
       data: {
@@ -87,8 +99,9 @@ export async function POST(
     return NextResponse.json({
       success: true,
       qrData,
-      qrCodeUrl: `/qr/${signature}`,
-      verificationCode: signature,
+      qrCodeUrl: `/qr/${token}`,
+      verificationCode: token,
+      keyId: payload.kid,
     })
   } catch (error) {
     console.error('Error generating QR code:', error)
@@ -97,15 +110,15 @@ export async function POST(
       { status: 500 }
     )
   }
-}
+})
 
-export async function GET(
+export const GET = withAuth('batch:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const batch = await prisma.batchLog.findUnique({
-      where: { id: params.id },
+      where: { id: params.id, ...millScopeWhere(session) },
       select: {
         qrCodeUrl: true,
         qrCodeGenerated: true,
@@ -135,4 +148,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
@@ -1,14 +1,17 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { calculateYield, calculatePremixVariance } from '@/lib/batch-utils'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog, auditSnapshot, diffValues } from '@/lib/audit-log'
+import { withAuth, RouteContext, canAccessMill, millScopeWhere } from '@/lib/rbac'
 
-export async function GET(
+export const GET = withAuth('batch:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const batch = await prisma.batchLog.findUnique({
-      where: { id: params.id },
+      where: { id: params.id, ...millScopeWhere(session) },
       include: {
         operator: {
           select: {
@@ -62,29 +65,43 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-export async function PUT(
+export const PUT = withAuth('batch:update', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const body = await request.json()
     const { outputWeight, status, qcStatus, ...otherFields } = body
 
+    const batch = await prisma.batchLog.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) },
+    })
+
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 })
+    }
+
+    // Recall status is owned by the recall workflow
+    if (status && status !== batch.status && (status === 'RECALLED' || batch.status === 'RECALLED')) {
+      return NextResponse.json(
+        { error: 'Recall status can only be changed through a batch recall' },
+        { status: 400 }
+      )
+    }
+
+    // Moving a batch is only possible into a mill the user can access
+    if (otherFields.millId && !canAccessMill(session, otherFields.millId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     const updateData: any = { ...otherFields }
 
     // Recalculate yield if output weight changed
     if (outputWeight !== undefined) {
-      const batch = await prisma.batchLog.findUnique({
-        where: { id: params.id },
-        select: { inputWeight: true },
-      })
-
-      if (batch) {
-        updateData.outputWeight = outputWeight
-        updateData.yieldPercentage = calculateYield(batch.inputWeight, outputWeight)
-      }
+      updateData.outputWeight = outputWeight
+      updateData.yieldPercentage = calculateYield(batch.inputWeight, outputWeight)
     }
 
     if (status) updateData.status = status
@@ -109,6 +126,15 @@ export async function PUT(
       },
     })
 
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'UPDATE_BATCH',
+      resourceType: 'BATCH',
+      resourceId: params.id,
+      ...diffValues(batch, updated),
+      meta: getRequestMeta(request),
+    })
+
     return NextResponse.json(updated)
   } catch (error) {
     console.error('Error updating batch:', error)
@@ -117,17 +143,34 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+})
 
-export async function DELETE(
+export const DELETE = withAuth('batch:delete', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
+    const batch = await prisma.batchLog.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) },
+    })
+
+    if (!batch) {
+      return NextResponse.json({ error: 'Batch not found' }, { status: 404 })
+    }
+
     await prisma.batchLog.delete({
       where: { id: params.id },
     })
 
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'DELETE_BATCH',
+      resourceType: 'BATCH',
+      resourceId: params.id,
+      oldValues: auditSnapshot(batch),
+      meta: getRequestMeta(request),
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Error deleting batch:', error)
@@ -136,4 +179,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+})
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
 
 const sampleSchema = z.object({
   sampleId: z.string().optional(),
@@ -13,17 +14,17 @@ const sampleSchema = z.object({
   notes: z.string().optional(),
 })
 
-export async function POST(
+export const POST = withAuth('qc:create', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const body = await request.json()
     const data = sampleSchema.parse(body)
 
     // Verify batch exists
     const batch = await prisma.batchLog.findUnique({
-      where: { id: params.id },
+      where: { id: params.id, ...millScopeWhere(session) },
     })
 
     if (!batch) {
@@ -63,15 +64,15 @@ export async function POST(
       { status: 500 }
     )
   }
-}
+})
 
-export async function GET(
+export const GET = withAuth('batch:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const samples = await prisma.qcSample.findMany({
-      where: { batchId: params.id },
+      where: { batchId: params.id, ...millScopeWhere(session, 'batch') },
       include: {
         tests: {
           include: {
@@ -95,4 +96,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
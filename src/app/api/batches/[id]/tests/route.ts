@@ -2,6 +2,11 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
 import { validateQCTest, determineBatchQCStatus } from '@/lib/batch-utils'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog, auditSnapshot, diffValues } from '@/lib/audit-log'
+import { processNotificationQueue } from '@/lib/notification-delivery'
+import { queueAlertNotifications } from '@/lib/notification-preferences'
 
 const testSchema = z.object({
   sampleId: z.string().optional(),
@@ -19,17 +24,17 @@ const testSchema = z.object({
   notes: z.string().optional(),
 })
 
-export async function POST(
+export const POST = withAuth('qc:create', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const body = await request.json()
     const data = testSchema.parse(body)
 
     // Verify batch exists
     const batch = await prisma.batchLog.findUnique({
-      where: { id: params.id },
+      where: { id: params.id, ...millScopeWhere(session) },
       include: {
         mill: true,
       },
@@ -88,8 +93,18 @@ export async function POST(
 
     const batchStatus = determineBatchQCStatus(allTests)
 
+    const meta = getRequestMeta(request)
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'CREATE_QC_TEST',
+      resourceType: 'QC_TEST',
+      resourceId: test.id,
+      newValues: auditSnapshot(test),
+      meta,
+    })
+
     // Update batch QC status
-    await prisma.batchLog.update({
+    const updatedBatch = await prisma.batchLog.update({
       where: { id: params.id },
       data: {
         qcStatus: batchStatus.status,
@@ -102,9 +117,21 @@ export async function POST(
       },
     })
 
+    const batchChanges = diffValues(batch, updatedBatch)
+    if (Object.keys(batchChanges.newValues).length > 0) {
+      await appendAuditLog(prisma, {
+        userId: session.user.id,
+        action: 'UPDATE_BATCH',
+        resourceType: 'BATCH',
+        resourceId: params.id,
+        ...batchChanges,
+        meta,
+      })
+    }
+
     // Create alert for failed or critical tests
     if (validation.status === 'FAIL' || batchStatus.status === 'FAIL') {
-      await prisma.alert.create({
+      const alert = await prisma.alert.create({
         data: {
           type: 'QC_FAILURE',
           category: 'QUALITY_SAFETY',
@@ -113,7 +140,6 @@ export async function POST(
           message: `Batch ${batch.batchId} FAILED ${data.testType} test. Result: ${data.result} ${data.unit} (Target: ${data.target} ${data.unit}). Batch automatically quarantined.`,
           sourceType: 'QC_TEST',
           sourceId: test.id,
-          targetId: batch.id,
           millId: batch.millId,
           deadline: new Date(Date.now() + 2 * 60 * 60 * 1000), // 2 hours
           metadata: JSON.stringify({
@@ -127,32 +153,33 @@ export async function POST(
         },
       })
 
-      // Create notifications for critical personnel
+      // The mill's managers and FWGA inspectors, on the channels their preferences allow
       const notificationUsers = await prisma.user.findMany({
         where: {
-          millId: batch.millId,
-          role: { in: ['MILL_MANAGER', 'FWGA_INSPECTOR'] },
+          isActive: true,
+          OR: [
+            { millId: batch.millId, role: 'MILL_MANAGER' },
+            { role: 'FWGA_INSPECTOR' },
+          ],
         },
         select: { id: true },
       })
 
-      const alert = await prisma.alert.findFirst({
-        where: { sourceId: test.id },
-        orderBy: { createdAt: 'desc' },
-      })
-
-      if (alert) {
-        for (const user of notificationUsers) {
-          await prisma.alertNotification.create({
-            data: {
-              alertId: alert.id,
-              userId: user.id,
-              channel: 'EMAIL',
-              status: 'PENDING',
-            },
-          })
-        }
-      }
+      await queueAlertNotifications(
+        alert.id,
+        {
+          title: alert.title,
+          message: alert.message,
+          severity: alert.severity,
+          category: alert.category,
+          actionRequired: alert.actionRequired,
+          deadline: alert.deadline,
+        },
+        notificationUsers.map((user) => user.id),
+        `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/production/batches/${batch.id}`,
+        prisma
+      )
+      await processNotificationQueue(prisma, { alertId: alert.id })
     }
 
     return NextResponse.json({
@@ -173,15 +200,15 @@ export async function POST(
       { status: 500 }
     )
   }
-}
+})
 
-export async function GET(
+export const GET = withAuth('batch:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const tests = await prisma.qcTest.findMany({
-      where: { batchId: params.id },
+      where: { batchId: params.id, ...millScopeWhere(session, 'batch') },
       include: {
         tester: {
           select: {
@@ -221,4 +248,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
+import { GENEALOGY_ORIGINS, traceForward } from '@/lib/genealogy'
+
+// GET - Forward trace from one of ?rawMaterialLot=, ?premixBatchNumber=, ?batchId= or ?lotId=
+export const GET = withAuth('batch:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const origins = GENEALOGY_ORIGINS.filter((origin) => searchParams.get(origin))
+
+    if (origins.length !== 1) {
+      return NextResponse.json(
+        { error: `Provide exactly one of ${GENEALOGY_ORIGINS.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const origin = origins[0]
+    const genealogy = await traceForward(
+      origin,
+      searchParams.get(origin)!,
+      millScopeWhere(session),
+      prisma
+    )
+
+    if (genealogy.batches.length === 0) {
+      return NextResponse.json({ error: 'No batches found for this lot' }, { status: 404 })
+    }
+
+    return NextResponse.json(genealogy)
+  } catch (error) {
+    console.error('Error tracing genealogy:', error)
+    return NextResponse.json(
+      { error: 'Failed to trace genealogy' },
+      { status: 500 }
+    )
+  }
+})
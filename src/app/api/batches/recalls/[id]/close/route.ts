@@ -0,0 +1,87 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { withAuth, RouteContext, getMillScope } from '@/lib/rbac'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog } from '@/lib/audit-log'
+
+const closeRecallSchema = z.object({
+  closureNotes: z.string().min(1),
+})
+
+// POST - Close a recall once stock has been withdrawn; batches stay RECALLED
+export const POST = withAuth('batch:recall', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { closureNotes } = closeRecallSchema.parse(body)
+
+    const recall = await prisma.batchRecall.findUnique({
+      where: { id: params.id },
+      include: { items: { select: { batch: { select: { millId: true } } } } },
+    })
+
+    if (!recall) {
+      return NextResponse.json({ error: 'Recall not found' }, { status: 404 })
+    }
+
+    // A mill user can only close a recall confined to their own mill
+    const millId = getMillScope(session.user)
+    if (millId) {
+      const mills = new Set(recall.items.map((item) => item.batch.millId))
+      if (!mills.has(millId)) {
+        return NextResponse.json({ error: 'Recall not found' }, { status: 404 })
+      }
+      if (mills.size > 1) {
+        return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+      }
+    }
+
+    if (recall.status === 'CLOSED') {
+      return NextResponse.json({ error: 'Recall is already closed' }, { status: 400 })
+    }
+
+    const updated = await prisma.batchRecall.update({
+      where: { id: params.id },
+      data: {
+        status: 'CLOSED',
+        closedAt: new Date(),
+        closedById: session.user.id,
+        closureNotes,
+      },
+      select: {
+        id: true,
+        recallNumber: true,
+        status: true,
+        closedAt: true,
+        closureNotes: true,
+      },
+    })
+
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'CLOSE_RECALL',
+      resourceType: 'BATCH_RECALL',
+      resourceId: recall.id,
+      oldValues: { status: recall.status },
+      newValues: { status: updated.status, closedAt: updated.closedAt, closureNotes },
+      meta: getRequestMeta(request),
+    })
+
+    return NextResponse.json({ success: true, recall: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error closing recall:', error)
+    return NextResponse.json(
+      { error: 'Failed to close recall' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,57 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, getMillScope, millScopeWhere } from '@/lib/rbac'
+import { scopeRecallReport } from '@/lib/recall-utils'
+
+// GET - A recall with its batches and recall report
+export const GET = withAuth('batch:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const millId = getMillScope(session.user)
+
+    const recall = await prisma.batchRecall.findUnique({
+      where: {
+        id: params.id,
+        ...(millId ? { items: { some: millScopeWhere(session, 'batch') } } : {}),
+      },
+      include: {
+        initiatedBy: { select: { id: true, name: true } },
+        items: {
+          where: millScopeWhere(session, 'batch'),
+          include: {
+            batch: {
+              select: {
+                id: true,
+                batchId: true,
+                millId: true,
+                status: true,
+                batchDateTime: true,
+                premixBatchNumber: true,
+                mill: { select: { id: true, name: true, code: true } },
+              },
+            },
+          },
+        },
+      },
+    })
+
+    if (!recall) {
+      return NextResponse.json({ error: 'Recall not found' }, { status: 404 })
+    }
+
+    const report = recall.report ? JSON.parse(recall.report) : null
+
+    return NextResponse.json({
+      ...recall,
+      report: scopeRecallReport(report, millId),
+    })
+  } catch (error) {
+    console.error('Error fetching recall:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch recall' },
+      { status: 500 }
+    )
+  }
+})
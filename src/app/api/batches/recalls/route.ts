@@ -0,0 +1,196 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { withAuth, RouteContext, getMillScope, millScopeWhere } from '@/lib/rbac'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog } from '@/lib/audit-log'
+import {
+  RECALL_BATCH_SELECT,
+  buildRecallReport,
+  createRecallAlerts,
+  findAffectedOrders,
+  generateRecallNumber,
+  recallSchema,
+} from '@/lib/recall-utils'
+
+// POST - Open a recall on specific batches or on every batch from a premix lot
+export const POST = withAuth('batch:recall', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    const body = await request.json()
+    const data = recallSchema.parse(body)
+
+    // Mill-scoped users can only recall their own mill's batches
+    const batches = await prisma.batchLog.findMany({
+      where: {
+        ...(data.batchIds
+          ? { id: { in: data.batchIds } }
+          : { premixBatchNumber: data.premixBatchNumber }),
+        ...millScopeWhere(session),
+      },
+      select: RECALL_BATCH_SELECT,
+    })
+
+    if (data.batchIds) {
+      const missing = data.batchIds.filter((id) => !batches.some((b) => b.id === id))
+      if (missing.length > 0) {
+        return NextResponse.json({ error: 'Batches not found', missing }, { status: 404 })
+      }
+
+      const alreadyRecalled = batches.filter((b) => b.status === 'RECALLED')
+      if (alreadyRecalled.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Some batches are already recalled',
+            batchIds: alreadyRecalled.map((b) => b.batchId),
+          },
+          { status: 400 }
+        )
+      }
+    }
+
+    // For a premix lot, batches already pulled by an earlier recall are skipped
+    const targets = batches.filter((b) => b.status !== 'RECALLED')
+    if (targets.length === 0) {
+      return NextResponse.json(
+        { error: 'No recallable batches found for this premix lot' },
+        { status: 404 }
+      )
+    }
+
+    const targetIds = targets.map((b) => b.id)
+    const orders = await findAffectedOrders(targetIds, prisma)
+
+    const now = new Date()
+    const recallNumber = await generateRecallNumber(now, prisma)
+    const scope = data.batchIds ? 'BATCH' : 'PREMIX_LOT'
+    const report = buildRecallReport(
+      {
+        recallNumber,
+        scope,
+        premixBatchNumber: data.premixBatchNumber,
+        reason: data.reason,
+        severity: data.severity,
+        createdAt: now,
+      },
+      targets,
+      orders
+    )
+
+    const [recall] = await prisma.$transaction([
+      prisma.batchRecall.create({
+        data: {
+          recallNumber,
+          scope,
+          premixBatchNumber: data.premixBatchNumber,
+          reason: data.reason,
+          severity: data.severity,
+          initiatedById: session.user.id,
+          report: JSON.stringify(report),
+          createdAt: now,
+          items: {
+            create: targets.map((b) => ({ batchId: b.id, previousStatus: b.status })),
+          },
+        },
+      }),
+      prisma.batchLog.updateMany({
+        where: { id: { in: targetIds } },
+        data: { status: 'RECALLED' },
+      }),
+      prisma.traceabilityRecord.createMany({
+        data: targets.map((b) => ({
+          batchId: b.id,
+          eventType: 'RECALL',
+          eventTime: now,
+          userId: session.user.id,
+          description: `Batch recalled under ${recallNumber}: ${data.reason}`,
+          metadata: JSON.stringify({ recallNumber, previousStatus: b.status }),
+        })),
+      }),
+    ])
+
+    const meta = getRequestMeta(request)
+    for (const b of targets) {
+      await appendAuditLog(prisma, {
+        userId: session.user.id,
+        action: 'RECALL_BATCH',
+        resourceType: 'BATCH',
+        resourceId: b.id,
+        oldValues: { status: b.status },
+        newValues: { status: 'RECALLED', recallId: recall.id, recallNumber },
+        meta,
+      })
+    }
+
+    const alerts = await createRecallAlerts(recall, targets, orders, prisma)
+
+    return NextResponse.json(
+      {
+        success: true,
+        recall: { ...recall, report: undefined },
+        report,
+        alertIds: alerts.map((alert) => alert.id),
+      },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating recall:', error)
+    return NextResponse.json(
+      { error: 'Failed to create recall' },
+      { status: 500 }
+    )
+  }
+})
+
+// GET - Recalls touching the caller's batches (all recalls for FWGA)
+export const GET = withAuth('batch:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const premixBatchNumber = searchParams.get('premixBatchNumber')
+
+    const where: any = {}
+    if (status) where.status = status
+    if (premixBatchNumber) where.premixBatchNumber = premixBatchNumber
+    if (getMillScope(session.user)) {
+      where.items = { some: millScopeWhere(session, 'batch') }
+    }
+
+    const recalls = await prisma.batchRecall.findMany({
+      where,
+      select: {
+        id: true,
+        recallNumber: true,
+        scope: true,
+        premixBatchNumber: true,
+        reason: true,
+        severity: true,
+        status: true,
+        closedAt: true,
+        createdAt: true,
+        initiatedBy: { select: { id: true, name: true } },
+        _count: { select: { items: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    return NextResponse.json({ recalls })
+  } catch (error) {
+    console.error('Error fetching recalls:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch recalls' },
+      { status: 500 }
+    )
+  }
+})
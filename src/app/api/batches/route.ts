@@ -2,6 +2,10 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
 import { generateBatchId, calculatePremixVariance, calculateYield } from '@/lib/batch-utils'
+import { withAuth, RouteContext, canAccessMill, resolveMillId } from '@/lib/rbac'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog, auditSnapshot } from '@/lib/audit-log'
+import { checkPremixAlerts, consumePremix, isPremixExpired } from '@/lib/premix-inventory'
 
 const batchSchema = z.object({
   millId: z.string(),
@@ -48,13 +52,21 @@ const batchSchema = z.object({
   packagingDate: z.string().optional(),
   packagingType: z.string().optional(),
   numberOfUnits: z.number().optional(),
+  expiryDate: z.string().optional(),
 })
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('batch:create', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const body = await request.json()
     const data = batchSchema.parse(body)
 
+    if (!canAccessMill(session, data.millId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     // Get mill code for batch ID generation
     const mill = await prisma.mill.findUnique({
       where: { id: data.millId },
@@ -67,6 +79,35 @@ export async function POST(request: NextRequest) {
 
     const batchDateTime = data.batchDateTime ? new Date(data.batchDateTime) : new Date()
 
+    // Premix from inventory fills in lot details the operator left blank
+    const premixLot = data.premixBatchNumber
+      ? await prisma.premixLot.findUnique({
+          where: {
+            millId_premixBatchNumber: {
+              millId: data.millId,
+              premixBatchNumber: data.premixBatchNumber,
+            },
+          },
+        })
+      : null
+
+    const premixExpiryDate = premixLot
+      ? premixLot.expiryDate
+      : data.premixExpiryDate
+        ? new Date(data.premixExpiryDate)
+        : null
+
+    // Judged on today's date, so a backdated batch cannot use expired premix
+    if (premixExpiryDate && isPremixExpired(premixExpiryDate)) {
+      return NextResponse.json(
+        {
+          error: `Premix expired on ${premixExpiryDate.toISOString().split('T')[0]} and cannot be used`,
+          premixBatchNumber: data.premixBatchNumber,
+        },
+        { status: 400 }
+      )
+    }
+
     // Generate unique batch ID
     const batchId = await generateBatchId(
       mill.code,
@@ -92,67 +133,93 @@ export async function POST(request: NextRequest) {
       yieldPercentage = calculateYield(data.inputWeight, data.outputWeight)
     }
 
-    // Create batch
-    const batch = await prisma.batchLog.create({
-      data: {
-        millId: data.millId,
-        operatorId: data.operatorId,
-        batchId,
-        productionLine: data.productionLine,
-        shift: data.shift,
-        batchDateTime,
-
-        cropType: data.cropType,
-        productType: data.productType,
-        grade: data.grade,
-        rawMaterialLot: data.rawMaterialLot,
-        rawMaterialSource: data.rawMaterialSource,
-
-        inputWeight: data.inputWeight,
-        expectedOutputWeight: data.expectedOutputWeight,
-        outputWeight: data.outputWeight,
-        yieldPercentage,
-
-        premixType: data.premixType,
-        premixBatchNumber: data.premixBatchNumber,
-        premixManufacturer: data.premixManufacturer,
-        premixExpiryDate: data.premixExpiryDate ? new Date(data.premixExpiryDate) : null,
-        targetFortification: data.targetFortification,
-        dosingRate: data.dosingRate,
-        expectedPremix: data.expectedPremix,
-        actualPremixUsed: data.actualPremixUsed,
-        variance,
-        varianceExplanation: data.varianceExplanation,
-
-        doserId: data.doserId,
-        doserSettings: data.doserSettings,
-        mixerId: data.mixerId,
-        mixingTime: data.mixingTime,
-        mixerSpeed: data.mixerSpeed,
-
-        processParameters: data.processParameters,
-
-        storageLocation: data.storageLocation,
-        packagingDate: data.packagingDate ? new Date(data.packagingDate) : null,
-        packagingType: data.packagingType,
-        numberOfUnits: data.numberOfUnits,
-
-        status: 'IN_PROGRESS',
-      },
-      include: {
-        operator: {
-          select: {
-            name: true,
-            email: true,
-          },
+    // Create the batch and draw its premix from stock together, so neither lands without the other
+    const inventoryWarnings: string[] = []
+    const batch = await prisma.$transaction(async (tx) => {
+      const created = await tx.batchLog.create({
+        data: {
+          millId: data.millId,
+          operatorId: data.operatorId,
+          batchId,
+          productionLine: data.productionLine,
+          shift: data.shift,
+          batchDateTime,
+
+          cropType: data.cropType,
+          productType: data.productType,
+          grade: data.grade,
+          rawMaterialLot: data.rawMaterialLot,
+          rawMaterialSource: data.rawMaterialSource,
+
+          inputWeight: data.inputWeight,
+          expectedOutputWeight: data.expectedOutputWeight,
+          outputWeight: data.outputWeight,
+          yieldPercentage,
+
+          premixType: data.premixType || premixLot?.premixType,
+          premixBatchNumber: data.premixBatchNumber,
+          premixManufacturer: data.premixManufacturer || premixLot?.manufacturer,
+          premixExpiryDate,
+          targetFortification: data.targetFortification,
+          dosingRate: data.dosingRate,
+          expectedPremix: data.expectedPremix,
+          actualPremixUsed: data.actualPremixUsed,
+          variance,
+          varianceExplanation: data.varianceExplanation,
+
+          doserId: data.doserId,
+          doserSettings: data.doserSettings,
+          mixerId: data.mixerId,
+          mixingTime: data.mixingTime,
+          mixerSpeed: data.mixerSpeed,
+
+          processParameters: data.processParameters,
+
+          storageLocation: data.storageLocation,
+          packagingDate: data.packagingDate ? new Date(data.packagingDate) : null,
+          packagingType: data.packagingType,
+          numberOfUnits: data.numberOfUnits,
+          expiryDate: data.expiryDate ? new Date(data.expiryDate) : null,
+
+          status: 'IN_PROGRESS',
         },
-        mill: {
-          select: {
-            name: true,
-            code: true,
+        include: {
+          operator: {
+            select: {
+              name: true,
+              email: true,
+            },
+          },
+          mill: {
+            select: {
+              name: true,
+              code: true,
+            },
           },
         },
-      },
+      })
+
+      if (premixLot && data.actualPremixUsed) {
+        const warning = await consumePremix(
+          premixLot,
+          data.actualPremixUsed,
+          { id: created.id, batchId },
+          session.user.id,
+          tx
+        )
+        if (warning) inventoryWarnings.push(warning)
+      }
+
+      return created
+    })
+
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'CREATE_BATCH',
+      resourceType: 'BATCH',
+      resourceId: batch.id,
+      newValues: auditSnapshot(batch),
+      meta: getRequestMeta(request),
     })
 
     // Check for critical variances and create alerts
@@ -177,11 +244,19 @@ export async function POST(request: NextRequest) {
       })
     }
 
+    // Check reorder and expiry levels after the draw
+    if (premixLot && data.actualPremixUsed) {
+      await checkPremixAlerts(data.millId, prisma)
+    } else if (data.premixBatchNumber && data.actualPremixUsed) {
+      inventoryWarnings.push(`Premix lot ${data.premixBatchNumber} is not in inventory; stock was not updated`)
+    }
+
     return NextResponse.json({
       success: true,
       batch,
       batchId,
       variance: variance ? variance.toFixed(2) : null,
+      inventoryWarnings,
     })
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -196,12 +271,15 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('batch:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
-    const millId = searchParams.get('millId')
+    const millId = resolveMillId(session, searchParams.get('millId'))
     const status = searchParams.get('status')
     const cropType = searchParams.get('cropType')
     const limit = searchParams.get('limit') || '50'
@@ -263,4 +341,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
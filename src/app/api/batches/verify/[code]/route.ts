@@ -1,22 +1,73 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
-import crypto from 'crypto'
+import { verifyQrToken } from '@/lib/qr-signing'
+import {
+  SCAN_ANOMALY_RULES,
+  detectScanAnomalies,
+  getProductExpiry,
+  raiseScanAnomalyAlert,
+} from '@/lib/scan-anomaly'
+
+// Scanner apps send ?lat=&lng= (or a place name as ?location=)
+function getScanLocation(request: NextRequest): string | null {
+  const { searchParams } = new URL(request.url)
+  const lat = searchParams.get('lat')
+  const lng = searchParams.get('lng')
+  if (lat && lng) return `${lat},${lng}`
+  return searchParams.get('location')
+}
+
+function suspiciousResponse(reason: string) {
+  return NextResponse.json(
+    {
+      verified: false,
+      status: 'SUSPICIOUS',
+      reason,
+      message:
+        reason === 'KEY_REVOKED'
+          ? 'Verification failed - this code was signed with a revoked key'
+          : 'Verification failed - possible counterfeit',
+    },
+    { status: 403 }
+  )
+}
+
+// A genuine code only proves where a batch came from; these states mean it is not fit to sell
+function getWithheldStatus(batch: { status: string; qcStatus: string | null }) {
+  if (batch.status === 'QUARANTINED') return 'QUARANTINED'
+  if (batch.status === 'FAILED' || batch.qcStatus === 'FAIL') return 'QC_FAILED'
+  return null
+}
+
+const WITHHELD_MESSAGES: Record<string, string> = {
+  QUARANTINED: 'This batch is quarantined pending investigation. Do not sell or consume it.',
+  QC_FAILED: 'This batch failed quality control. Do not sell or consume it.',
+}
 
 export async function GET(
   request: NextRequest,
   { params }: { params: { code: string } }
 ) {
   try {
-    const verificationCode = params.code
+    const result = await verifyQrToken(params.code, prisma)
+    const scanLocation = getScanLocation(request)
+    const scanTime = new Date()
 
-    // Find batch by verification code (stored in qrCodeUrl)
-    const batches = await prisma.batchLog.findMany({
-      where: {
-        qrCodeUrl: {
-          contains: verificationCode,
+    if (!result.valid && !result.payload) {
+      return NextResponse.json(
+        {
+          verified: false,
+          status: 'NOT_FOUND',
+          message: 'Batch not found or verification code invalid',
         },
-        qrCodeGenerated: true,
-      },
+        { status: 404 }
+      )
+    }
+
+    const payload = result.payload!
+
+    const batch = await prisma.batchLog.findUnique({
+      where: { batchId: payload.batchId },
       include: {
         mill: {
           select: {
@@ -44,7 +95,10 @@ export async function GET(
       },
     })
 
-    if (batches.length === 0) {
+    if (!batch || !batch.qrCodeGenerated) {
+      if (!result.valid) {
+        return suspiciousResponse(result.reason)
+      }
       return NextResponse.json(
         {
           verified: false,
@@ -55,39 +109,126 @@ export async function GET(
       )
     }
 
-    const batch = batches[0]
+    const failure = !result.valid
+      ? result.reason
+      : batch.mill.code !== payload.millCode
+        ? 'MILL_MISMATCH'
+        : null
+
+    if (failure) {
+      // Keep a trail of suspicious scans against the batch the code claims to be
+      await prisma.traceabilityRecord.create({
+        data: {
+          batchId: batch.id,
+          eventType: 'SCAN',
+          eventTime: scanTime,
+          eventLocation: scanLocation,
+          description: `Suspicious QR code scan (${failure})`,
+          qrCodeData: params.code,
+          verificationStatus: 'SUSPICIOUS',
+          deviceInfo: request.headers.get('user-agent') || undefined,
+        },
+      })
+
+      return suspiciousResponse(failure)
+    }
+
+    // Genuine code, but the batch has been pulled from the market
+    if (batch.status === 'RECALLED') {
+      const recallItem = await prisma.batchRecallItem.findFirst({
+        where: { batchId: batch.id },
+        orderBy: { createdAt: 'desc' },
+        include: {
+          recall: { select: { recallNumber: true, reason: true, createdAt: true } },
+        },
+      })
 
-    // Verify cryptographic signature
-    const dataToSign = `${batch.batchId}:${batch.millId}:${batch.batchDateTime.toISOString()}`
-    const expectedSignature = crypto
-      .createHash('sha256')
-      .update(dataToSign)
-      .digest('hex')
-      .substring(0, 16)
+      await prisma.traceabilityRecord.create({
+        data: {
+          batchId: batch.id,
+          eventType: 'SCAN',
+          eventTime: scanTime,
+          eventLocation: scanLocation,
+          description: 'Recalled batch scanned',
+          verificationStatus: 'RECALLED',
+          deviceInfo: request.headers.get('user-agent') || undefined,
+        },
+      })
 
-    if (!batch.qrCodeUrl?.includes(expectedSignature)) {
-      return NextResponse.json(
-        {
-          verified: false,
-          status: 'SUSPICIOUS',
-          message: 'Verification failed - possible counterfeit',
+      return NextResponse.json({
+        verified: false,
+        status: 'RECALLED',
+        message: 'This batch has been recalled. Do not consume; return it to the point of purchase.',
+        batch: {
+          batchId: batch.batchId,
+          productionDate: batch.batchDateTime.toISOString().split('T')[0],
+          cropType: batch.cropType,
+          productType: batch.productType,
         },
-        { status: 403 }
-      )
+        mill: {
+          name: batch.mill.name,
+        },
+        recall: recallItem
+          ? {
+              recallNumber: recallItem.recall.recallNumber,
+              reason: recallItem.recall.reason,
+              recalledAt: recallItem.recall.createdAt,
+            }
+          : null,
+        verificationTime: new Date().toISOString(),
+      })
     }
 
+    // Look for counterfeit patterns in the scan history before recording this scan
+    const [recentScans, previousScanCount] = await Promise.all([
+      prisma.traceabilityRecord.findMany({
+        where: {
+          batchId: batch.id,
+          eventType: 'SCAN',
+          eventLocation: { not: null },
+          eventTime: {
+            gte: new Date(scanTime.getTime() - SCAN_ANOMALY_RULES.travelWindowHours * 60 * 60 * 1000),
+          },
+        },
+        select: { eventLocation: true, eventTime: true },
+        orderBy: { eventTime: 'desc' },
+      }),
+      prisma.traceabilityRecord.count({
+        where: { batchId: batch.id, eventType: 'SCAN' },
+      }),
+    ])
+
+    const anomalies = detectScanAnomalies(
+      batch,
+      { location: scanLocation, time: scanTime },
+      recentScans,
+      previousScanCount
+    )
+
+    const withheld = getWithheldStatus(batch)
+
     // Record verification scan
-    await prisma.traceabilityRecord.create({
+    const scanRecord = await prisma.traceabilityRecord.create({
       data: {
         batchId: batch.id,
         eventType: 'SCAN',
-        eventTime: new Date(),
-        description: 'Batch verified via QR code scan',
-        verificationStatus: 'VERIFIED',
+        eventTime: scanTime,
+        eventLocation: scanLocation,
+        description: anomalies.length > 0
+          ? 'Suspicious scan pattern detected on QR code scan'
+          : withheld
+            ? `Genuine QR code scanned on a ${withheld === 'QUARANTINED' ? 'quarantined' : 'QC-failed'} batch`
+            : 'Batch verified via QR code scan',
+        verificationStatus: anomalies.length > 0 ? 'SUSPICIOUS' : withheld ?? 'VERIFIED',
+        metadata: anomalies.length > 0 ? JSON.stringify({ anomalies }) : undefined,
         deviceInfo: request.headers.get('user-agent') || undefined,
       },
     })
 
+    if (anomalies.length > 0) {
+      await raiseScanAnomalyAlert(batch, anomalies, scanRecord.id, prisma)
+    }
+
     // Get scan count
     const scanCount = await prisma.traceabilityRecord.count({
       where: {
@@ -108,15 +249,19 @@ export async function GET(
     }, {})
 
     return NextResponse.json({
-      verified: true,
-      status: 'VERIFIED',
+      verified: anomalies.length === 0 && !withheld,
+      status: anomalies.length > 0 ? 'SUSPICIOUS' : withheld ?? 'VERIFIED',
+      message: withheld ? WITHHELD_MESSAGES[withheld] : undefined,
+      warnings: anomalies.map((a) => a.message),
       batch: {
         batchId: batch.batchId,
+        status: batch.status,
         productionDate: batch.batchDateTime.toISOString().split('T')[0],
         cropType: batch.cropType,
         productType: batch.productType,
         grade: batch.grade,
         qcStatus: batch.qcStatus,
+        expiryDate: getProductExpiry(batch).toISOString().split('T')[0],
       },
       mill: {
         name: batch.mill.name,
@@ -147,6 +292,14 @@ export async function GET(
             location: r.eventLocation,
           })),
       },
+      // The signature itself checked out; the current batch state is reported above
+      signature: {
+        valid: true,
+        keyId: payload.kid,
+        keyStatus: result.valid ? result.keyStatus : null,
+        issuedAt: payload.issuedAt,
+        signedQcStatus: payload.qcStatus,
+      },
       verificationTime: new Date().toISOString(),
     })
   } catch (error) {
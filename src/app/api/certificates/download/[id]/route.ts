@@ -1,12 +1,24 @@
 import { NextRequest, NextResponse } from 'next/server'
+import { Session } from 'next-auth'
 import { renderToBuffer } from '@react-pdf/renderer'
 import { prisma } from '@/lib/db'
 import { TrainingCertificatePDF } from '@/components/certificates/TrainingCertificatePDF'
+import { withAuth, RouteContext, isCrossMillRole, isMillRole } from '@/lib/rbac'
 
-export async function GET(
+// Holders see their own certificates, mill users those of their mill's staff and FWGA
+// and admins all of them; anyone else is told the certificate does not exist
+async function canDownload(session: Session, holderId: string): Promise<boolean> {
+  if (holderId === session.user.id || isCrossMillRole(session.user.role)) return true
+  if (!isMillRole(session.user.role)) return false
+
+  const holder = await prisma.user.findUnique({ where: { id: holderId }, select: { millId: true } })
+  return !!holder && holder.millId === session.user.millId
+}
+
+export const GET = withAuth('certificate:download', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const certificateId = params.id
 
@@ -34,7 +46,7 @@ export async function GET(
       },
     })
 
-    if (!certificate) {
+    if (!certificate || !(await canDownload(session, certificate.userId))) {
       return NextResponse.json(
         { error: 'Certificate not found' },
         { status: 404 }
@@ -68,4 +80,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
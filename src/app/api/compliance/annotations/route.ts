@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog, auditSnapshot } from '@/lib/audit-log'
 
 const annotationSchema = z.object({
   auditId: z.string(),
@@ -16,7 +19,10 @@ const annotationSchema = z.object({
   color: z.string().optional(),
 })
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('compliance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
     const auditId = searchParams.get('auditId')
@@ -26,7 +32,7 @@ export async function GET(request: NextRequest) {
     }
 
     const annotations = await prisma.complianceAnnotation.findMany({
-      where: { auditId },
+      where: { auditId, ...millScopeWhere(session, 'audit') },
       include: {
         annotator: {
           select: { id: true, name: true },
@@ -43,15 +49,26 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('compliance:create', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const body = await request.json()
     const { auditId, itemId, type, position, content, color } = annotationSchema.parse(body)
 
-    // Get annotator from session (simplified)
-    const annotatorId = body.annotatorId
+    const annotatorId = session.user.id
+
+    const audit = await prisma.complianceAudit.findUnique({
+      where: { id: auditId, ...millScopeWhere(session) },
+      select: { id: true },
+    })
+
+    if (!audit) {
+      return NextResponse.json({ error: 'Audit not found' }, { status: 404 })
+    }
 
     const annotation = await prisma.complianceAnnotation.create({
       data: {
@@ -70,6 +87,15 @@ export async function POST(request: NextRequest) {
       },
     })
 
+    await appendAuditLog(prisma, {
+      userId: annotatorId,
+      action: 'CREATE_COMPLIANCE_ANNOTATION',
+      resourceType: 'COMPLIANCE_ANNOTATION',
+      resourceId: annotation.id,
+      newValues: auditSnapshot(annotation),
+      meta: getRequestMeta(request),
+    })
+
     return NextResponse.json(annotation)
   } catch (error) {
     if (error instanceof z.ZodError) {
@@ -84,9 +110,12 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth('compliance:create', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
     const annotationId = searchParams.get('id')
@@ -95,10 +124,27 @@ export async function DELETE(request: NextRequest) {
       return NextResponse.json({ error: 'Annotation ID is required' }, { status: 400 })
     }
 
+    const annotation = await prisma.complianceAnnotation.findUnique({
+      where: { id: annotationId, ...millScopeWhere(session, 'audit') },
+    })
+
+    if (!annotation) {
+      return NextResponse.json({ error: 'Annotation not found' }, { status: 404 })
+    }
+
     await prisma.complianceAnnotation.delete({
       where: { id: annotationId },
     })
 
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'DELETE_COMPLIANCE_ANNOTATION',
+      resourceType: 'COMPLIANCE_ANNOTATION',
+      resourceId: annotationId,
+      oldValues: auditSnapshot(annotation),
+      meta: getRequestMeta(request),
+    })
+
     return NextResponse.json({ success: true })
   } catch (error) {
     console.error('Error deleting annotation:', error)
@@ -107,4 +153,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,17 +1,20 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { calculateOverallScore } from '@/lib/compliance-scoring'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog, diffValues } from '@/lib/audit-log'
 
-export async function POST(
+export const POST = withAuth('compliance:create', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const auditId = params.id
 
     // Fetch audit with template
     const audit = await prisma.complianceAudit.findUnique({
-      where: { id: auditId },
+      where: { id: auditId, ...millScopeWhere(session) },
       include: {
         template: true,
       },
@@ -30,7 +33,7 @@ export async function POST(
     const scoringResult = calculateOverallScore(sections, responses, scoringRules)
 
     // Update audit with calculated scores
-    await prisma.complianceAudit.update({
+    const updatedAudit = await prisma.complianceAudit.update({
       where: { id: auditId },
       data: {
         score: scoringResult.overallPercentage,
@@ -39,6 +42,15 @@ export async function POST(
       },
     })
 
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'SCORE_COMPLIANCE_AUDIT',
+      resourceType: 'COMPLIANCE_AUDIT',
+      resourceId: auditId,
+      ...diffValues(audit, updatedAudit),
+      meta: getRequestMeta(request),
+    })
+
     return NextResponse.json({
       success: true,
       scoringResult,
@@ -50,4 +62,4 @@ export async function POST(
       { status: 500 }
     )
   }
-}
+})
@@ -3,17 +3,18 @@ import { renderToBuffer } from '@react-pdf/renderer'
 import { prisma } from '@/lib/db'
 import { ComplianceReportPDF } from '@/components/compliance/ComplianceReportPDF'
 import { calculateOverallScore } from '@/lib/compliance-scoring'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
 
-export async function GET(
+export const GET = withAuth('compliance:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const auditId = params.id
 
     // Fetch complete audit data
     const audit = await prisma.complianceAudit.findUnique({
-      where: { id: auditId },
+      where: { id: auditId, ...millScopeWhere(session) },
       include: {
         mill: true,
         template: true,
@@ -62,4 +63,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
@@ -1,6 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog, auditSnapshot, diffValues } from '@/lib/audit-log'
 
 const reviewSchema = z.object({
   action: z.enum(['APPROVE', 'APPROVE_WITH_CONDITIONS', 'REQUEST_REVISION', 'REJECT']),
@@ -13,21 +16,20 @@ const reviewSchema = z.object({
   })).optional(),
 })
 
-export async function POST(
+export const POST = withAuth('compliance:review', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const auditId = params.id
     const body = await request.json()
     const { action, comments, conditions, revisionsRequired } = reviewSchema.parse(body)
 
-    // Get reviewer from session (simplified - should use actual auth)
-    const reviewerId = body.reviewerId
+    const reviewerId = session.user.id
 
     // Fetch audit
     const audit = await prisma.complianceAudit.findUnique({
-      where: { id: auditId },
+      where: { id: auditId, ...millScopeWhere(session) },
       include: {
         mill: true,
         submitter: true,
@@ -62,12 +64,22 @@ export async function POST(
       },
     })
 
+    const meta = getRequestMeta(request)
+    await appendAuditLog(prisma, {
+      userId: reviewerId,
+      action: 'REVIEW_COMPLIANCE_AUDIT',
+      resourceType: 'COMPLIANCE_AUDIT',
+      resourceId: auditId,
+      ...diffValues(audit, updatedAudit),
+      meta,
+    })
+
     // If approved, generate certificate
     if (action === 'APPROVE' && audit.score && audit.score >= 75) {
       const expiryDate = new Date()
       expiryDate.setFullYear(expiryDate.getFullYear() + 1) // 1 year validity
 
-      await prisma.complianceReport.create({
+      const certificate = await prisma.complianceReport.create({
         data: {
           auditId: audit.id,
           reportType: 'CERTIFICATION',
@@ -78,10 +90,18 @@ export async function POST(
           status: 'ACTIVE',
         },
       })
+
+      await appendAuditLog(prisma, {
+        userId: reviewerId,
+        action: 'ISSUE_CERTIFICATE',
+        resourceType: 'COMPLIANCE_REPORT',
+        resourceId: certificate.id,
+        newValues: auditSnapshot(certificate),
+        meta,
+      })
     }
 
     // TODO: Send notification to mill
-    // TODO: Create audit log entry
 
     return NextResponse.json({
       success: true,
@@ -98,4 +118,4 @@ export async function POST(
     console.error('Error reviewing audit:', error)
     return NextResponse.json({ error: 'Failed to review audit' }, { status: 500 })
   }
-}
+})
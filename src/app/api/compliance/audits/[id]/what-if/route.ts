@@ -1,11 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { whatIfAnalysis } from '@/lib/compliance-scoring'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
 
-export async function POST(
+export const POST = withAuth('compliance:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const auditId = params.id
     const body = await request.json()
@@ -13,7 +14,7 @@ export async function POST(
 
     // Fetch audit with template
     const audit = await prisma.complianceAudit.findUnique({
-      where: { id: auditId },
+      where: { id: auditId, ...millScopeWhere(session) },
       include: {
         template: true,
       },
@@ -45,4 +46,4 @@ export async function POST(
       { status: 500 }
     )
   }
-}
+})
@@ -1,27 +1,22 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { prisma } from '@/lib/db';
+import { getRequestMeta } from '@/lib/auth';
+import { appendAuditLog, auditSnapshot } from '@/lib/audit-log';
+import { withAuth, RouteContext, resolveMillId } from '@/lib/rbac';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('compliance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const status = searchParams.get('status');
-    const millId = searchParams.get('millId');
+    const millId = resolveMillId(session, searchParams.get('millId'));
     const auditType = searchParams.get('auditType');
 
-    // Build filter conditions based on user role
     const where: any = {};
 
-    if (session.user.role === 'MILL_OPERATOR' || session.user.role === 'MILL_MANAGER') {
-      // Mill users can only see their own audits
-      where.millId = session.user.profile?.mill?.id || millId;
-    } else if (millId) {
+    if (millId) {
       where.millId = millId;
     }
 
@@ -32,7 +27,7 @@ export async function GET(request: NextRequest) {
       where.auditType = auditType;
     }
 
-    const audits = await db.complianceAudit.findMany({
+    const audits = await prisma.complianceAudit.findMany({
       where,
       include: {
         mill: {
@@ -94,15 +89,13 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('compliance:create', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const {
       templateId,
       auditType,
@@ -112,18 +105,14 @@ export async function POST(request: NextRequest) {
     } = await request.json();
 
     // Get user's mill
-    const user = await db.user.findUnique({
+    const user = await prisma.user.findUnique({
       where: { id: session.user.id },
       include: {
-        profile: {
-          include: {
-            mill: true
-          }
-        }
+        mill: true
       }
     });
 
-    if (!user?.profile?.mill) {
+    if (!user?.mill) {
       return NextResponse.json(
         { error: 'User is not associated with a mill' },
         { status: 400 }
@@ -131,7 +120,7 @@ export async function POST(request: NextRequest) {
     }
 
     // Verify template exists and is applicable
-    const template = await db.complianceTemplate.findUnique({
+    const template = await prisma.complianceTemplate.findUnique({
       where: { id: templateId }
     });
 
@@ -143,9 +132,9 @@ export async function POST(request: NextRequest) {
     }
 
     // Create new audit
-    const audit = await db.complianceAudit.create({
+    const audit = await prisma.complianceAudit.create({
       data: {
-        millId: user.profile.mill.id,
+        millId: user.mill.id,
         templateId,
         auditorId: session.user.id,
         auditType,
@@ -163,6 +152,15 @@ export async function POST(request: NextRequest) {
       }
     });
 
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'CREATE_COMPLIANCE_AUDIT',
+      resourceType: 'COMPLIANCE_AUDIT',
+      resourceId: audit.id,
+      newValues: auditSnapshot(audit),
+      meta: getRequestMeta(request)
+    });
+
     return NextResponse.json(audit);
   } catch (error) {
     console.error('Error creating compliance audit:', error);
@@ -171,4 +169,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
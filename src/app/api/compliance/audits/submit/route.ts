@@ -1,19 +1,18 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { db } from '@/lib/db';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
-
-export async function POST(request: NextRequest) {
+import { prisma } from '@/lib/db';
+import { getRequestMeta } from '@/lib/auth';
+import { appendAuditLog, diffValues } from '@/lib/audit-log';
+import { withAuth, RouteContext } from '@/lib/rbac';
+
+export const POST = withAuth('compliance:submit', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { auditId, responses, evidence, notes } = await request.json();
 
     // Verify audit exists and user has permission
-    const audit = await db.complianceAudit.findFirst({
+    const audit = await prisma.complianceAudit.findFirst({
       where: {
         id: auditId,
         OR: [
@@ -43,7 +42,7 @@ export async function POST(request: NextRequest) {
     const scoringResult = calculateComplianceScore(responses, template, scoringRules);
 
     // Update audit with results
-    const updatedAudit = await db.complianceAudit.update({
+    const updatedAudit = await prisma.complianceAudit.update({
       where: { id: auditId },
       data: {
         responses: JSON.stringify(responses),
@@ -64,23 +63,16 @@ export async function POST(request: NextRequest) {
       }
     });
 
-    // Create notification for FWGA inspectors
-    if (audit.auditType === 'SELF_AUDIT') {
-      await db.notification.create({
-        data: {
-          type: 'COMPLIANCE_SUBMISSION',
-          title: 'New Compliance Audit Submitted',
-          message: `${audit.mill.name} has submitted a ${audit.template.certificationType} compliance audit for review`,
-          priority: scoringResult.overallScore < 60 ? 'HIGH' : 'MEDIUM',
-          actionUrl: `/compliance/review/${auditId}`,
-          metadata: JSON.stringify({
-            auditId,
-            millId: audit.millId,
-            score: scoringResult.overallScore
-          })
-        }
-      });
-    }
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'SUBMIT_COMPLIANCE_AUDIT',
+      resourceType: 'COMPLIANCE_AUDIT',
+      resourceId: auditId,
+      ...diffValues(audit, updatedAudit),
+      meta: getRequestMeta(request)
+    });
+
+    // FWGA inspectors pick submitted audits up from GET /api/compliance/audits?status=SUBMITTED
 
     return NextResponse.json({
       audit: updatedAudit,
@@ -93,12 +85,12 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 function calculateComplianceScore(responses: any, template: any, scoringRules: any) {
-  const sectionScores = {};
-  const flaggedIssues = [];
-  const correctiveActions = [];
+  const sectionScores: Record<string, any> = {};
+  const flaggedIssues: any[] = [];
+  const correctiveActions: any[] = [];
   let totalPoints = 0;
   let earnedPoints = 0;
 
@@ -106,8 +98,8 @@ function calculateComplianceScore(responses: any, template: any, scoringRules: a
   template.sections.forEach((section: any) => {
     let sectionTotal = 0;
     let sectionEarned = 0;
-    const sectionIssues = [];
-    const sectionActions = [];
+    const sectionIssues: any[] = [];
+    const sectionActions: any[] = [];
 
     section.items.forEach((item: any) => {
       const response = responses[item.id];
@@ -2,8 +2,13 @@ import { NextRequest, NextResponse } from 'next/server'
 import { writeFile } from 'fs/promises'
 import { join } from 'path'
 import { v4 as uuidv4 } from 'uuid'
+import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('compliance:create', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const formData = await request.formData()
     const file = formData.get('file') as File
@@ -15,6 +20,15 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'No file provided' }, { status: 400 })
     }
 
+    const audit = await prisma.complianceAudit.findUnique({
+      where: { id: auditId, ...millScopeWhere(session) },
+      select: { id: true },
+    })
+
+    if (!audit) {
+      return NextResponse.json({ error: 'Audit not found' }, { status: 404 })
+    }
+
     // Validate file type
     const allowedTypes = type === 'photo'
       ? ['image/jpeg', 'image/png', 'image/jpg']
@@ -79,9 +93,9 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('compliance:read', async (request: NextRequest) => {
   try {
     const { searchParams } = new URL(request.url)
     const auditId = searchParams.get('auditId')
@@ -107,4 +121,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
 
 interface Suggestion {
   id: string
@@ -14,14 +15,17 @@ interface Suggestion {
   trainingModules?: string[]
 }
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('compliance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const body = await request.json()
     const { auditId, targetScore } = body
 
     // Fetch audit
     const audit = await prisma.complianceAudit.findUnique({
-      where: { id: auditId },
+      where: { id: auditId, ...millScopeWhere(session) },
       include: {
         template: true,
         mill: true,
@@ -134,7 +138,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 function getDetailedActions(flag: any): string[] {
   const questionLower = flag.question.toLowerCase()
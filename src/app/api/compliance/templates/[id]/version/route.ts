@@ -1,10 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth, RouteContext } from '@/lib/rbac'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog, auditSnapshot } from '@/lib/audit-log'
 
-export async function POST(
+export const POST = withAuth('compliance:template:manage', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const templateId = params.id
     const body = await request.json()
@@ -39,11 +42,30 @@ export async function POST(
         certificationType: currentTemplate.certificationType,
         sections: changes.sections || currentTemplate.sections,
         scoringRules: changes.scoringRules || currentTemplate.scoringRules,
-        createdBy: body.createdBy,
+        createdBy: session.user.id,
         isActive: true,
       },
     })
 
+    const meta = getRequestMeta(request)
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'UPDATE_COMPLIANCE_TEMPLATE',
+      resourceType: 'COMPLIANCE_TEMPLATE',
+      resourceId: templateId,
+      oldValues: { isActive: true },
+      newValues: { isActive: false, supersededBy: newTemplate.id },
+      meta,
+    })
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'CREATE_COMPLIANCE_TEMPLATE',
+      resourceType: 'COMPLIANCE_TEMPLATE',
+      resourceId: newTemplate.id,
+      newValues: { ...auditSnapshot(newTemplate), previousVersionId: templateId, reason },
+      meta,
+    })
+
     // TODO: Notify mills using this template
     // const affectedAudits = await prisma.complianceAudit.findMany({
     //   where: {
@@ -65,12 +87,12 @@ export async function POST(
       { status: 500 }
     )
   }
-}
+})
 
-export async function GET(
+export const GET = withAuth('compliance:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params }: RouteContext<{ id: string }>
+) => {
   try {
     const templateId = params.id
 
@@ -114,4 +136,4 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
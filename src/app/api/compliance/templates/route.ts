@@ -1,15 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { withAuth, RouteContext } from '@/lib/rbac';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('compliance:read', async (request: NextRequest) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { searchParams } = new URL(request.url);
     const commodity = searchParams.get('commodity');
     const country = searchParams.get('country');
@@ -55,15 +49,13 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('compliance:template:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session || !['FWGA_INSPECTOR', 'SYSTEM_ADMIN'].includes(session.user.role)) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const {
       name,
       commodity,
@@ -112,4 +104,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
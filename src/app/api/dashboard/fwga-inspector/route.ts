@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/rbac'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('dashboard:inspector', async (request: NextRequest) => {
   try {
     const searchParams = request.nextUrl.searchParams
     const userId = searchParams.get('userId')
@@ -307,7 +308,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 function calculateRiskLevel(
   qcPassRate: number,
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/rbac'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('dashboard:buyer', async (request: NextRequest) => {
   try {
     const searchParams = request.nextUrl.searchParams
     const buyerId = searchParams.get('buyerId')
@@ -279,4 +280,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
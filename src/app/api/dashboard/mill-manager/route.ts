@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, resolveMillId } from '@/lib/rbac'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('dashboard:mill-manager', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const searchParams = request.nextUrl.searchParams
-    const millId = searchParams.get('millId')
+    const millId = resolveMillId(session, searchParams.get('millId'))
     const period = searchParams.get('period') || '30' // days
 
     if (!millId) {
@@ -270,4 +274,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
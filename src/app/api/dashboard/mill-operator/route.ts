@@ -1,11 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, resolveMillId } from '@/lib/rbac'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('dashboard:mill-operator', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const searchParams = request.nextUrl.searchParams
     const userId = searchParams.get('userId')
-    const millId = searchParams.get('millId')
+    const millId = resolveMillId(session, searchParams.get('millId'))
 
     if (!userId || !millId) {
       return NextResponse.json(
@@ -234,7 +238,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 function getCurrentShift(): 'MORNING' | 'AFTERNOON' | 'NIGHT' {
   const hour = new Date().getHours()
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/rbac'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('dashboard:program-manager', async (request: NextRequest) => {
   try {
     const searchParams = request.nextUrl.searchParams
     const period = searchParams.get('period') || '90' // days
@@ -284,4 +285,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,15 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/lib/auth";
 import { generateMockManagerDashboard } from '@/lib/mockData';
+import { withAuth } from '@/lib/rbac';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('dashboard:mill-manager', async (request: NextRequest) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     // For now, return mock data
     const dashboardData = generateMockManagerDashboard();
     return NextResponse.json(dashboardData);
@@ -22,4 +16,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,15 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { getServerSession } from "next-auth/next";
-import { authOptions } from "@/lib/auth";
 import { generateMockOperatorDashboard } from '@/lib/mockData';
+import { withAuth, RouteContext, resolveMillId } from '@/lib/rbac';
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('dashboard:mill-operator', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session?.user?.id) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     // For now, return mock data
     const dashboardData = generateMockOperatorDashboard();
     return NextResponse.json(dashboardData);
@@ -17,7 +14,7 @@ export async function GET(request: NextRequest) {
     // TODO: Implement real data fetching when database is properly set up
     /*
     const url = new URL(request.url);
-    const millId = url.searchParams.get('millId');
+    const millId = resolveMillId(session, url.searchParams.get('millId'));
     
     if (!millId) {
       return NextResponse.json({ error: 'Mill ID required' }, { status: 400 });
@@ -32,4 +29,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, resolveMillId } from '@/lib/rbac'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('diagnostics:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const searchParams = request.nextUrl.searchParams
-    const millId = searchParams.get('millId')
+    const millId = resolveMillId(session, searchParams.get('millId'))
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
 
@@ -190,4 +194,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,7 +1,8 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
+import { withAuth } from '@/lib/rbac';
 
-export async function GET() {
+export const GET = withAuth('diagnostics:read', async () => {
   try {
     const categories = [
       {
@@ -69,4 +70,4 @@ export async function GET() {
       { status: 500 }
     );
   }
-}
\ No newline at end of file
+});
\ No newline at end of file
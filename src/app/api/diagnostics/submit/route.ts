@@ -1,15 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server';
 import { db } from '@/lib/db';
-import { getServerSession } from 'next-auth';
-import { authOptions } from '@/lib/auth';
+import { withAuth } from '@/lib/rbac';
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('diagnostics:submit', async (request: NextRequest) => {
   try {
-    const session = await getServerSession(authOptions);
-    if (!session) {
-      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 });
-    }
-
     const { diagnosticId, responses, currentStep } = await request.json();
 
     // Update diagnostic result
@@ -58,7 +52,7 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-}
+});
 
 function analyzeResponses(responses: any, category: string) {
   const flaggedIssues = [];
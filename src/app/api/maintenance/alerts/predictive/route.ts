@@ -1,16 +1,21 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { detectDrift, calculateEquipmentHealth } from '@/lib/maintenance-utils'
+import { withAuth, RouteContext, millScopeWhere, resolveMillId } from '@/lib/rbac'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('maintenance:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const alertsGenerated: any[] = []
     const errors: any[] = []
 
-    // Get all active equipment
+    // Get all active equipment the caller can see
     const equipment = await prisma.equipment.findMany({
       where: {
         status: 'ACTIVE',
+        ...millScopeWhere(session),
       },
       include: {
         maintenanceTasks: {
@@ -262,14 +267,17 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Get predictive insights for specific equipment
-export async function GET(request: NextRequest) {
+export const GET = withAuth('maintenance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
     const equipmentId = searchParams.get('equipmentId')
-    const millId = searchParams.get('millId')
+    const millId = resolveMillId(session, searchParams.get('millId'))
 
     if (!equipmentId && !millId) {
       return NextResponse.json(
@@ -396,7 +404,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 function determineSeverity(
   current: 'LOW' | 'MEDIUM' | 'HIGH' | 'CRITICAL',
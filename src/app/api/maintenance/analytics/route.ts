@@ -1,10 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, canAccessMill, resolveMillId } from '@/lib/rbac'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('maintenance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
-    const millId = searchParams.get('millId')
+    const millId = resolveMillId(session, searchParams.get('millId'))
     const equipmentId = searchParams.get('equipmentId')
     const startDate = searchParams.get('startDate')
     const endDate = searchParams.get('endDate')
@@ -251,19 +255,28 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Export analytics report
-export async function POST(request: NextRequest) {
+export const POST = withAuth('maintenance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const body = await request.json()
-    const { millId, startDate, endDate, format = 'json' } = body
+    const { startDate, endDate, format = 'json' } = body
+    const millId = resolveMillId(session, body.millId)
+
+    if (body.millId && !canAccessMill(session, body.millId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
 
     // For now, return JSON format
     // In the future, this could generate PDF/Excel reports
 
     const analyticsData = await fetch(
-      `${request.nextUrl.origin}/api/maintenance/analytics?millId=${millId}&startDate=${startDate}&endDate=${endDate}`
+      `${request.nextUrl.origin}/api/maintenance/analytics?millId=${millId}&startDate=${startDate}&endDate=${endDate}`,
+      { headers: { cookie: request.headers.get('cookie') || '' } }
     ).then((res) => res.json())
 
     if (format === 'csv') {
@@ -287,4 +300,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,8 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { getMaintenanceStatus } from '@/lib/maintenance-utils'
+import { withAuth, RouteContext, resolveMillId } from '@/lib/rbac'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('maintenance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
     const view = searchParams.get('view') || 'month' // month, week, list
@@ -11,7 +15,7 @@ export async function GET(request: NextRequest) {
     const equipmentType = searchParams.get('equipmentType')
     const location = searchParams.get('location')
     const assignedTo = searchParams.get('assignedTo')
-    const millId = searchParams.get('millId')
+    const millId = resolveMillId(session, searchParams.get('millId'))
 
     // Build date range
     let dateRange: any = {}
@@ -175,7 +179,7 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 function getEventColor(urgency: string, taskStatus: string): string {
   if (taskStatus === 'COMPLETED') return 'green'
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { validateCalibration, CalibrationMeasurement } from '@/lib/maintenance-utils'
 import { z } from 'zod'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
 
 const measurementSchema = z.object({
   testPoint: z.number(),
@@ -27,7 +28,10 @@ const calibrationSchema = z.object({
     .optional(),
 })
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('maintenance:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const body = await request.json()
     const data = calibrationSchema.parse(body)
@@ -37,7 +41,7 @@ export async function POST(request: NextRequest) {
 
     // Get task and equipment details
     const task = await prisma.maintenanceTask.findUnique({
-      where: { id: data.taskId },
+      where: { id: data.taskId, ...millScopeWhere(session) },
       include: {
         equipment: true,
       },
@@ -47,6 +51,13 @@ export async function POST(request: NextRequest) {
       return NextResponse.json({ error: 'Task not found' }, { status: 404 })
     }
 
+    if (task.equipmentId !== data.equipmentId) {
+      return NextResponse.json(
+        { error: 'Task does not belong to this equipment' },
+        { status: 400 }
+      )
+    }
+
     // Create calibration record
     const calibrationData = {
       measurements: data.measurements,
@@ -152,10 +163,13 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Get calibration history for equipment
-export async function GET(request: NextRequest) {
+export const GET = withAuth('maintenance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
     const equipmentId = searchParams.get('equipmentId')
@@ -171,6 +185,7 @@ export async function GET(request: NextRequest) {
     const tasks = await prisma.maintenanceTask.findMany({
       where: {
         equipmentId,
+        ...millScopeWhere(session),
         type: 'CALIBRATION',
         status: 'COMPLETED',
         calibrationData: { not: null },
@@ -255,4 +270,4 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,13 +1,14 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, canAccessMill, millScopeWhere } from '@/lib/rbac'
 
-export async function GET(
+export const GET = withAuth('maintenance:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const equipment = await prisma.equipment.findUnique({
-      where: { id: params.id },
+      where: { id: params.id, ...millScopeWhere(session) },
       include: {
         mill: true,
         maintenanceSchedules: {
@@ -48,15 +49,28 @@ export async function GET(
       { status: 500 }
     )
   }
-}
+})
 
-export async function PUT(
+export const PUT = withAuth('equipment:manage', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const body = await request.json()
 
+    const existing = await prisma.equipment.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) },
+      select: { id: true },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Equipment not found' }, { status: 404 })
+    }
+
+    if (body.millId && !canAccessMill(session, body.millId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     const equipment = await prisma.equipment.update({
       where: { id: params.id },
       data: {
@@ -76,13 +90,22 @@ export async function PUT(
       { status: 500 }
     )
   }
-}
+})
 
-export async function DELETE(
+export const DELETE = withAuth('equipment:manage', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
+    const existing = await prisma.equipment.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) },
+      select: { id: true },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Equipment not found' }, { status: 404 })
+    }
+
     await prisma.equipment.delete({
       where: { id: params.id },
     })
@@ -95,4 +118,4 @@ export async function DELETE(
       { status: 500 }
     )
   }
-}
+})
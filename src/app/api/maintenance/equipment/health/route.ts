@@ -1,12 +1,16 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { calculateEquipmentHealth, getDaysUntilDue } from '@/lib/maintenance-utils'
+import { withAuth, RouteContext, millScopeWhere, resolveMillId } from '@/lib/rbac'
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('maintenance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
     const equipmentId = searchParams.get('equipmentId')
-    const millId = searchParams.get('millId')
+    const millId = resolveMillId(session, searchParams.get('millId'))
     const riskLevel = searchParams.get('riskLevel') // Filter by risk level
     const status = searchParams.get('status') // Filter by health status
 
@@ -205,10 +209,13 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Update equipment health manually (for manual inspections)
-export async function POST(request: NextRequest) {
+export const POST = withAuth('maintenance:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const body = await request.json()
     const { equipmentId, notes, inspectionData } = body
@@ -220,13 +227,20 @@ export async function POST(request: NextRequest) {
       )
     }
 
+    const equipment = await prisma.equipment.findUnique({
+      where: { id: equipmentId, ...millScopeWhere(session) },
+      select: { millId: true },
+    })
+
+    if (!equipment) {
+      return NextResponse.json({ error: 'Equipment not found' }, { status: 404 })
+    }
+
     // Create a manual inspection record as a maintenance task
     const task = await prisma.maintenanceTask.create({
       data: {
         equipmentId,
-        millId: (
-          await prisma.equipment.findUnique({ where: { id: equipmentId } })
-        )!.millId,
+        millId: equipment.millId,
         type: 'INSPECTION',
         status: 'COMPLETED',
         priority: 'MEDIUM',
@@ -238,9 +252,10 @@ export async function POST(request: NextRequest) {
       },
     })
 
-    // Recalculate health
+    // Recalculate health, forwarding the caller's session to the authenticated GET
     const healthResponse = await fetch(
-      `${request.nextUrl.origin}/api/maintenance/equipment/health?equipmentId=${equipmentId}`
+      `${request.nextUrl.origin}/api/maintenance/equipment/health?equipmentId=${equipmentId}`,
+      { headers: { cookie: request.headers.get('cookie') || '' } }
     ).then((res) => res.json())
 
     return NextResponse.json({
@@ -255,4 +270,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
+import { withAuth, RouteContext, canAccessMill, resolveMillId } from '@/lib/rbac'
 
 const equipmentSchema = z.object({
   name: z.string(),
@@ -15,10 +16,13 @@ const equipmentSchema = z.object({
   status: z.enum(['ACTIVE', 'INACTIVE', 'MAINTENANCE', 'DECOMMISSIONED']).optional(),
 })
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('maintenance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
-    const millId = searchParams.get('millId')
+    const millId = resolveMillId(session, searchParams.get('millId'))
     const type = searchParams.get('type')
     const status = searchParams.get('status')
 
@@ -62,13 +66,20 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('equipment:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const body = await request.json()
     const data = equipmentSchema.parse(body)
 
+    if (!canAccessMill(session, data.millId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     const equipment = await prisma.equipment.create({
       data: {
         ...data,
@@ -94,4 +105,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,6 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { z } from 'zod'
+import { withAuth, RouteContext, canAccessMill, millScopeWhere } from '@/lib/rbac'
 
 const evidenceSchema = z.object({
   taskId: z.string().optional(),
@@ -15,11 +16,18 @@ const evidenceSchema = z.object({
   uploadedBy: z.string(),
 })
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('maintenance:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const body = await request.json()
     const data = evidenceSchema.parse(body)
 
+    if (!canAccessMill(session, data.millId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
     // In production, file upload would happen here:
     // 1. Validate file type and size
     // 2. Upload to cloud storage (S3, Azure Blob, etc.)
@@ -87,17 +95,20 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Get evidence for equipment or task
-export async function GET(request: NextRequest) {
+export const GET = withAuth('maintenance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
     const equipmentId = searchParams.get('equipmentId')
     const taskId = searchParams.get('taskId')
     const type = searchParams.get('type')
 
-    const where: any = {}
+    const where: any = { ...millScopeWhere(session) }
     if (equipmentId) where.equipmentId = equipmentId
     if (taskId) where.taskId = taskId
     if (type) where.type = type
@@ -129,10 +140,13 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Delete evidence
-export async function DELETE(request: NextRequest) {
+export const DELETE = withAuth('maintenance:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
     const id = searchParams.get('id')
@@ -142,7 +156,7 @@ export async function DELETE(request: NextRequest) {
     }
 
     const evidence = await prisma.maintenanceEvidence.findUnique({
-      where: { id },
+      where: { id, ...millScopeWhere(session) },
     })
 
     if (!evidence) {
@@ -189,4 +203,4 @@ export async function DELETE(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
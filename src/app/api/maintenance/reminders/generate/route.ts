@@ -1,8 +1,9 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { shouldSendReminder, getDaysUntilDue } from '@/lib/maintenance-utils'
+import { withAuth } from '@/lib/rbac'
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('job:run', async (request: NextRequest) => {
   try {
     const remindersGenerated: any[] = []
     const errors: any[] = []
@@ -229,10 +230,10 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
 // Manual trigger for specific schedule or task
-export async function PUT(request: NextRequest) {
+export const PUT = withAuth('job:run', async (request: NextRequest) => {
   try {
     const body = await request.json()
     const { scheduleId, taskId, reminderDay } = body
@@ -333,4 +334,4 @@ export async function PUT(request: NextRequest) {
     console.error('Error creating manual reminder:', error)
     return NextResponse.json({ error: 'Failed to create reminder' }, { status: 500 })
   }
-}
+})
@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { calculateNextDueDate } from '@/lib/maintenance-utils'
 import { z } from 'zod'
+import { withAuth, RouteContext, canAccessMill, resolveMillId } from '@/lib/rbac'
 
 const scheduleSchema = z.object({
   equipmentId: z.string(),
@@ -15,11 +16,14 @@ const scheduleSchema = z.object({
   isActive: z.boolean().optional(),
 })
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('maintenance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
     const equipmentId = searchParams.get('equipmentId')
-    const millId = searchParams.get('millId')
+    const millId = resolveMillId(session, searchParams.get('millId'))
     const type = searchParams.get('type')
 
     const where: any = {}
@@ -61,13 +65,29 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('equipment:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const body = await request.json()
     const data = scheduleSchema.parse(body)
 
+    if (!canAccessMill(session, data.millId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const equipment = await prisma.equipment.findUnique({
+      where: { id: data.equipmentId, millId: data.millId },
+      select: { id: true },
+    })
+
+    if (!equipment) {
+      return NextResponse.json({ error: 'Equipment not found' }, { status: 404 })
+    }
+
     const lastPerformedDate = new Date() // Or get from request
     const nextDueDate = calculateNextDueDate(
       lastPerformedDate,
@@ -101,4 +121,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -1,14 +1,15 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { calculateNextDueDate } from '@/lib/maintenance-utils'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
 
-export async function GET(
+export const GET = withAuth('maintenance:read', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const task = await prisma.maintenanceTask.findUnique({
-      where: { id: params.id },
+      where: { id: params.id, ...millScopeWhere(session) },
       include: {
         equipment: true,
         assignee: true,
@@ -25,16 +26,25 @@ export async function GET(
     console.error('Error fetching task:', error)
     return NextResponse.json({ error: 'Failed to fetch task' }, { status: 500 })
   }
-}
+})
 
-export async function PATCH(
+export const PATCH = withAuth('maintenance:manage', async (
   request: NextRequest,
-  { params }: { params: { id: string } }
-) {
+  { params, session }: RouteContext<{ id: string }>
+) => {
   try {
     const body = await request.json()
     const { action, ...updateData } = body
 
+    const existing = await prisma.maintenanceTask.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) },
+      select: { id: true },
+    })
+
+    if (!existing) {
+      return NextResponse.json({ error: 'Task not found' }, { status: 404 })
+    }
+
     if (action === 'complete') {
       // Complete the task and update schedule
       const task = await prisma.maintenanceTask.update({
@@ -97,4 +107,4 @@ export async function PATCH(
     console.error('Error updating task:', error)
     return NextResponse.json({ error: 'Failed to update task' }, { status: 500 })
   }
-}
+})
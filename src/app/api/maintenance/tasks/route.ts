@@ -2,6 +2,7 @@ import { NextRequest, NextResponse } from 'next/server'
 import { prisma } from '@/lib/db'
 import { calculateNextDueDate } from '@/lib/maintenance-utils'
 import { z } from 'zod'
+import { withAuth, RouteContext, canAccessMill, resolveMillId } from '@/lib/rbac'
 
 const taskSchema = z.object({
   equipmentId: z.string(),
@@ -14,13 +15,16 @@ const taskSchema = z.object({
   priority: z.enum(['LOW', 'MEDIUM', 'HIGH', 'CRITICAL']).optional(),
 })
 
-export async function GET(request: NextRequest) {
+export const GET = withAuth('maintenance:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const { searchParams } = new URL(request.url)
     const equipmentId = searchParams.get('equipmentId')
     const assignedTo = searchParams.get('assignedTo')
     const status = searchParams.get('status')
-    const millId = searchParams.get('millId')
+    const millId = resolveMillId(session, searchParams.get('millId'))
 
     const where: any = {}
     if (equipmentId) where.equipmentId = equipmentId
@@ -62,13 +66,29 @@ export async function GET(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
 
-export async function POST(request: NextRequest) {
+export const POST = withAuth('maintenance:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
   try {
     const body = await request.json()
     const data = taskSchema.parse(body)
 
+    if (!canAccessMill(session, data.millId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const equipment = await prisma.equipment.findUnique({
+      where: { id: data.equipmentId, millId: data.millId },
+      select: { id: true },
+    })
+
+    if (!equipment) {
+      return NextResponse.json({ error: 'Equipment not found' }, { status: 404 })
+    }
+
     const task = await prisma.maintenanceTask.create({
       data: {
         ...data,
@@ -96,4 +116,4 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     )
   }
-}
+})
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/rbac'
+import { DELIVERY_BATCH_SIZE, processNotificationQueue } from '@/lib/notification-delivery'
+
+// POST - Scheduled worker run: deliver due notifications and retry failed ones
+export const POST = withAuth('job:run', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = parseInt(searchParams.get('limit') || String(DELIVERY_BATCH_SIZE))
+
+    const { summary, results, errors } = await processNotificationQueue(prisma, { limit })
+
+    return NextResponse.json({
+      success: true,
+      summary,
+      results,
+      errors: errors.length > 0 ? errors : undefined,
+    })
+  } catch (error) {
+    console.error('Error delivering notifications:', error)
+    return NextResponse.json(
+      { error: 'Failed to deliver notifications' },
+      { status: 500 }
+    )
+  }
+})
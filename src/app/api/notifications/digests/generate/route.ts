@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/rbac'
+import { generateDigests } from '@/lib/notification-digest'
+
+// POST - Scheduled (hourly) run: build the daily and weekly digests that have come due.
+// The digests are sent by the next notification delivery run.
+export const POST = withAuth('job:run', async (request: NextRequest) => {
+  try {
+    const { usersChecked, results, errors } = await generateDigests(prisma)
+
+    return NextResponse.json({
+      success: true,
+      summary: {
+        usersChecked,
+        digestsGenerated: results.reduce((sum, r) => sum + r.channels.length, 0),
+        itemsIncluded: results.reduce((sum, r) => sum + r.itemCount, 0),
+        errors: errors.length,
+      },
+      results,
+      errors: errors.length > 0 ? errors : undefined,
+    })
+  } catch (error) {
+    console.error('Error generating notification digests:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate notification digests' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,95 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { withAuth, RouteContext } from '@/lib/rbac'
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  notificationPreferenceSchema,
+  toPreferenceSettings,
+} from '@/lib/notification-preferences'
+
+function formatPreferences(preference: any | null) {
+  return {
+    ...toPreferenceSettings(preference),
+    language: preference?.language ?? 'en',
+    updatedAt: preference?.updatedAt ?? null,
+  }
+}
+
+// GET - The signed-in user's notification preferences (defaults if never saved)
+export const GET = withAuth(null, async (request: NextRequest, { session }: RouteContext) => {
+  try {
+    const preference = await prisma.notificationPreference.findUnique({
+      where: { userId: session.user.id },
+    })
+
+    return NextResponse.json({ preferences: formatPreferences(preference) })
+  } catch (error) {
+    console.error('Error fetching notification preferences:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch notification preferences' },
+      { status: 500 }
+    )
+  }
+})
+
+// PUT - Update channel toggles, quiet hours, timezone, per-category overrides and digests.
+// Fields left out keep their current value; categorySettings and digestSettings are
+// replaced as a whole.
+export const PUT = withAuth(null, async (request: NextRequest, { session }: RouteContext) => {
+  try {
+    const body = await request.json()
+    const data = notificationPreferenceSchema.parse(body)
+
+    const existing = await prisma.notificationPreference.findUnique({
+      where: { userId: session.user.id },
+    })
+
+    const current = toPreferenceSettings(existing)
+    const quietHoursEnabled = data.quietHoursEnabled ?? current.quietHoursEnabled
+    const quietHoursStart = data.quietHoursStart !== undefined ? data.quietHoursStart : current.quietHoursStart
+    const quietHoursEnd = data.quietHoursEnd !== undefined ? data.quietHoursEnd : current.quietHoursEnd
+
+    if (quietHoursEnabled && (!quietHoursStart || !quietHoursEnd)) {
+      return NextResponse.json(
+        { error: 'quietHoursStart and quietHoursEnd are required when quiet hours are enabled' },
+        { status: 400 }
+      )
+    }
+
+    const { categorySettings, digestSettings, ...fields } = data
+    const values = {
+      ...fields,
+      ...(categorySettings !== undefined ? { categorySettings: JSON.stringify(categorySettings) } : {}),
+      ...(digestSettings !== undefined
+        ? { digestSettings: digestSettings ? JSON.stringify(digestSettings) : null }
+        : {}),
+    }
+
+    const preference = await prisma.notificationPreference.upsert({
+      where: { userId: session.user.id },
+      update: values,
+      create: {
+        userId: session.user.id,
+        ...DEFAULT_NOTIFICATION_PREFERENCES,
+        categorySettings: JSON.stringify(DEFAULT_NOTIFICATION_PREFERENCES.categorySettings),
+        digestSettings: null,
+        ...values,
+      },
+    })
+
+    return NextResponse.json({ success: true, preferences: formatPreferences(preference) })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating notification preferences:', error)
+    return NextResponse.json(
+      { error: 'Failed to update notification preferences' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/rbac'
+import { checkPremixAlerts } from '@/lib/premix-inventory'
+
+// POST - Scheduled check for low premix stock and lots nearing expiry at every mill
+export const POST = withAuth('job:run', async (request: NextRequest) => {
+  try {
+    // Mills that keep premix inventory, including those whose stock has run out
+    const mills = await prisma.premixLot.findMany({
+      select: { millId: true },
+      distinct: ['millId'],
+    })
+
+    const results = []
+    const errors: any[] = []
+
+    for (const { millId } of mills) {
+      try {
+        const alerts = await checkPremixAlerts(millId, prisma)
+        results.push({ millId, alertsRaised: alerts.length })
+      } catch (error) {
+        console.error(`Error checking premix for mill ${millId}:`, error)
+        errors.push({ millId, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      summary: {
+        millsChecked: mills.length,
+        alertsRaised: results.reduce((sum, r) => sum + r.alertsRaised, 0),
+        errors: errors.length,
+      },
+      results,
+      errors: errors.length > 0 ? errors : undefined,
+    })
+  } catch (error) {
+    console.error('Error running premix alert check:', error)
+    return NextResponse.json(
+      { error: 'Failed to run premix alert check' },
+      { status: 500 }
+    )
+  }
+})
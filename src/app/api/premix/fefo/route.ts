@@ -0,0 +1,36 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, resolveMillId } from '@/lib/rbac'
+import { suggestFefoLots } from '@/lib/premix-inventory'
+
+// GET - First-expiry-first-out lot suggestions for the batch form
+export const GET = withAuth('premix:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const millId = resolveMillId(session, searchParams.get('millId'))
+    const premixType = searchParams.get('premixType')
+    const quantity = searchParams.get('quantity')
+
+    if (!millId) {
+      return NextResponse.json({ error: 'millId is required' }, { status: 400 })
+    }
+
+    const result = await suggestFefoLots(
+      millId,
+      premixType,
+      quantity ? parseFloat(quantity) : null,
+      prisma
+    )
+
+    return NextResponse.json(result)
+  } catch (error) {
+    console.error('Error suggesting premix lots:', error)
+    return NextResponse.json(
+      { error: 'Failed to suggest premix lots' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
+import { checkPremixAlerts, getPremixLotStatus, premixAdjustmentSchema } from '@/lib/premix-inventory'
+
+// POST - Correct stock after a count, or write off damaged or expired premix
+export const POST = withAuth('premix:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const data = premixAdjustmentSchema.parse(body)
+
+    const lot = await prisma.premixLot.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) },
+    })
+
+    if (!lot) {
+      return NextResponse.json({ error: 'Premix lot not found' }, { status: 404 })
+    }
+
+    if (data.type === 'WRITE_OFF' && data.quantity > 0) {
+      return NextResponse.json(
+        { error: 'A write-off must remove stock (negative quantity)' },
+        { status: 400 }
+      )
+    }
+
+    if (lot.quantityOnHand + data.quantity < 0) {
+      return NextResponse.json(
+        { error: `Only ${lot.quantityOnHand} kg is on hand` },
+        { status: 400 }
+      )
+    }
+
+    // Apply the change in the database; a removal only goes through while the stock covers it
+    const { updated, transaction } = await prisma.$transaction(async (tx) => {
+      const adjusted = await tx.premixLot.updateMany({
+        where: {
+          id: lot.id,
+          ...(data.quantity < 0 ? { quantityOnHand: { gte: -data.quantity } } : {}),
+        },
+        data: { quantityOnHand: { increment: data.quantity } },
+      })
+      if (adjusted.count === 0) return { updated: null, transaction: null }
+
+      const updated = await tx.premixLot.findUniqueOrThrow({ where: { id: lot.id } })
+      const transaction = await tx.premixLotTransaction.create({
+        data: {
+          lotId: lot.id,
+          type: data.type,
+          quantity: data.quantity,
+          balanceAfter: updated.quantityOnHand,
+          userId: session.user.id,
+          notes: data.notes,
+        },
+      })
+      return { updated, transaction }
+    })
+
+    if (!updated) {
+      return NextResponse.json(
+        { error: 'Stock changed while adjusting; not enough premix is on hand' },
+        { status: 409 }
+      )
+    }
+
+    await checkPremixAlerts(lot.millId, prisma)
+
+    return NextResponse.json({
+      success: true,
+      lot: { ...updated, status: getPremixLotStatus(updated) },
+      transaction,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error adjusting premix stock:', error)
+    return NextResponse.json(
+      { error: 'Failed to adjust premix stock' },
+      { status: 500 }
+    )
+  }
+})
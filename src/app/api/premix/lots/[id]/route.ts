@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { withAuth, RouteContext, millScopeWhere } from '@/lib/rbac'
+import { getPremixLotStatus } from '@/lib/premix-inventory'
+
+// GET - A premix lot with its stock movements
+export const GET = withAuth('premix:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const lot = await prisma.premixLot.findUnique({
+      where: { id: params.id, ...millScopeWhere(session) },
+      include: {
+        mill: { select: { id: true, name: true, code: true } },
+        transactions: { orderBy: { createdAt: 'desc' } },
+      },
+    })
+
+    if (!lot) {
+      return NextResponse.json({ error: 'Premix lot not found' }, { status: 404 })
+    }
+
+    // Batches made with this lot, including any logged before it was in inventory
+    const batches = await prisma.batchLog.findMany({
+      where: { millId: lot.millId, premixBatchNumber: lot.premixBatchNumber },
+      select: {
+        id: true,
+        batchId: true,
+        batchDateTime: true,
+        actualPremixUsed: true,
+        status: true,
+      },
+      orderBy: { batchDateTime: 'desc' },
+    })
+
+    return NextResponse.json({ ...lot, status: getPremixLotStatus(lot), batches })
+  } catch (error) {
+    console.error('Error fetching premix lot:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch premix lot' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,162 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { withAuth, RouteContext, canAccessMill, resolveMillId } from '@/lib/rbac'
+import {
+  checkPremixAlerts,
+  getPremixLotStatus,
+  isPremixExpired,
+  premixReceiptSchema,
+} from '@/lib/premix-inventory'
+
+// POST - Record a premix receipt; repeat receipts of a lot add to its stock
+export const POST = withAuth('premix:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    const body = await request.json()
+    const data = premixReceiptSchema.parse(body)
+
+    if (!canAccessMill(session, data.millId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const expiryDate = new Date(data.expiryDate)
+    if (isPremixExpired(expiryDate)) {
+      return NextResponse.json(
+        { error: 'Cannot receive premix that has already expired' },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.premixLot.findUnique({
+      where: {
+        millId_premixBatchNumber: {
+          millId: data.millId,
+          premixBatchNumber: data.premixBatchNumber,
+        },
+      },
+    })
+
+    if (
+      existing &&
+      (existing.premixType !== data.premixType ||
+        existing.expiryDate.toISOString().split('T')[0] !== expiryDate.toISOString().split('T')[0])
+    ) {
+      return NextResponse.json(
+        { error: `Lot ${data.premixBatchNumber} is already recorded with a different premix type or expiry date` },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date()
+
+    // Receipts add to whatever is on hand at write time, not a balance read earlier
+    const lot = await prisma.$transaction(async (tx) => {
+      const received = existing
+        ? await tx.premixLot.update({
+            where: { id: existing.id },
+            data: {
+              quantityReceived: { increment: data.quantity },
+              quantityOnHand: { increment: data.quantity },
+              lastReceivedAt: now,
+            },
+          })
+        : await tx.premixLot.create({
+            data: {
+              millId: data.millId,
+              premixType: data.premixType,
+              premixBatchNumber: data.premixBatchNumber,
+              manufacturer: data.manufacturer,
+              expiryDate,
+              quantityReceived: data.quantity,
+              quantityOnHand: data.quantity,
+              firstReceivedAt: now,
+              lastReceivedAt: now,
+            },
+          })
+
+      await tx.premixLotTransaction.create({
+        data: {
+          lotId: received.id,
+          type: 'RECEIPT',
+          quantity: data.quantity,
+          balanceAfter: received.quantityOnHand,
+          userId: session.user.id,
+          reference: data.reference,
+          notes: data.notes,
+        },
+      })
+
+      return received
+    })
+
+    await checkPremixAlerts(data.millId, prisma)
+
+    return NextResponse.json(
+      { success: true, lot: { ...lot, status: getPremixLotStatus(lot) } },
+      { status: existing ? 200 : 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error recording premix receipt:', error)
+    return NextResponse.json(
+      { error: 'Failed to record premix receipt' },
+      { status: 500 }
+    )
+  }
+})
+
+// GET - Stock on hand per lot, soonest expiry first
+export const GET = withAuth('premix:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const millId = resolveMillId(session, searchParams.get('millId'))
+    const premixType = searchParams.get('premixType')
+    const status = searchParams.get('status')
+    const includeDepleted = searchParams.get('includeDepleted') === 'true'
+
+    const where: any = {}
+    if (millId) where.millId = millId
+    if (premixType) where.premixType = premixType
+    if (!includeDepleted && status !== 'DEPLETED') where.quantityOnHand = { gt: 0 }
+
+    const lots = await prisma.premixLot.findMany({
+      where,
+      include: {
+        mill: { select: { id: true, name: true, code: true } },
+      },
+      orderBy: [{ expiryDate: 'asc' }, { firstReceivedAt: 'asc' }],
+    })
+
+    const now = new Date()
+    const withStatus = lots
+      .map((lot) => ({ ...lot, status: getPremixLotStatus(lot, now) }))
+      .filter((lot) => !status || lot.status === status)
+
+    // Usable stock per premix type (expired lots excluded)
+    const stockByType = withStatus.reduce((acc: Record<string, number>, lot) => {
+      if (lot.status === 'AVAILABLE' || lot.status === 'EXPIRING') {
+        acc[lot.premixType] = (acc[lot.premixType] || 0) + lot.quantityOnHand
+      }
+      return acc
+    }, {})
+
+    return NextResponse.json({ lots: withStatus, stockByType })
+  } catch (error) {
+    console.error('Error fetching premix lots:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch premix lots' },
+      { status: 500 }
+    )
+  }
+})
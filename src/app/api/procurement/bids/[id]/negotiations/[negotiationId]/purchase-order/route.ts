@@ -0,0 +1,118 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import {
+  buildPurchaseOrderFromBid,
+  buildPurchaseOrderTerms,
+  canTransitionRFP,
+} from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+// POST - Convert an accepted negotiation round into a purchase order
+export const POST = withAuth('purchase-order:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string; negotiationId: string }>
+) => {
+  try {
+    const negotiation = await prisma.negotiation.findUnique({
+      where: { id: params.negotiationId },
+      include: {
+        bid: {
+          include: {
+            rfp: { include: { buyer: { select: { userId: true } } } },
+          },
+        },
+      },
+    })
+
+    if (!negotiation || negotiation.bidId !== params.id) {
+      return NextResponse.json({ error: 'Negotiation not found' }, { status: 404 })
+    }
+
+    const bid = negotiation.bid
+    if (bid.rfp.buyer.userId !== session.user.id) {
+      return NextResponse.json(
+        { error: 'Only the buyer can issue a purchase order' },
+        { status: 403 }
+      )
+    }
+
+    if (negotiation.status !== 'ACCEPTED' || negotiation.offerType !== 'COUNTER_OFFER') {
+      return NextResponse.json(
+        { error: 'Only accepted offers can be converted into a purchase order' },
+        { status: 400 }
+      )
+    }
+
+    const existingOrder = await prisma.purchaseOrder.findFirst({
+      where: { bidId: bid.id, status: { not: 'CANCELLED' } },
+    })
+    if (existingOrder && existingOrder.status !== 'DRAFT') {
+      return NextResponse.json(
+        { error: 'A confirmed purchase order already exists for this bid', poId: existingOrder.id },
+        { status: 409 }
+      )
+    }
+
+    // Converting an accepted offer awards the RFP to this bid if not yet awarded
+    const awardedElsewhere = bid.rfp.awardedBidId && bid.rfp.awardedBidId !== bid.id
+    const needsAward = bid.rfp.status !== 'AWARDED'
+    if (awardedElsewhere || (needsAward && !canTransitionRFP(bid.rfp.status, 'AWARDED'))) {
+      return NextResponse.json(
+        { error: 'RFP must be closed, or awarded to this bid, before issuing a purchase order' },
+        { status: 400 }
+      )
+    }
+
+    const offerDetails = JSON.parse(negotiation.offerDetails)
+    const overrides = { quantity: offerDetails.volume }
+
+    // A draft order issued at award time is rewritten with the negotiated terms
+    const operations: Prisma.PrismaPromise<unknown>[] = []
+    if (existingOrder) {
+      const terms: Prisma.PurchaseOrderUncheckedUpdateInput = buildPurchaseOrderTerms(bid, overrides)
+      operations.push(prisma.purchaseOrder.update({ where: { id: existingOrder.id }, data: terms }))
+    } else {
+      const order: Prisma.PurchaseOrderUncheckedCreateInput = await buildPurchaseOrderFromBid(
+        bid,
+        prisma,
+        overrides
+      )
+      operations.push(prisma.purchaseOrder.create({ data: order }))
+    }
+
+    if (needsAward) {
+      operations.push(
+        prisma.rFP.update({
+          where: { id: bid.rfp.id },
+          data: { status: 'AWARDED', awardedBidId: bid.id },
+        }),
+        prisma.bid.update({
+          where: { id: bid.id },
+          data: { status: 'AWARDED' },
+        }),
+        prisma.bid.updateMany({
+          where: {
+            rfpId: bid.rfp.id,
+            id: { not: bid.id },
+            status: { in: ['SUBMITTED', 'SHORTLISTED'] },
+          },
+          data: { status: 'NOT_SELECTED' },
+        })
+      )
+    }
+
+    const [purchaseOrder] = await prisma.$transaction(operations)
+
+    return NextResponse.json(
+      { success: true, purchaseOrder },
+      { status: existingOrder ? 200 : 201 }
+    )
+  } catch (error) {
+    console.error('Error converting negotiation to purchase order:', error)
+    return NextResponse.json(
+      { error: 'Failed to create purchase order' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,122 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import {
+  applyOfferToBid,
+  expireStaleNegotiations,
+  getBidParty,
+} from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const respondSchema = z.object({
+  action: z.enum(['ACCEPT', 'REJECT']),
+  response: z.string().optional(),
+})
+
+export const POST = withAuth('bid:negotiate', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string; negotiationId: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { action, response } = respondSchema.parse(body)
+
+    const bid = await prisma.bid.findUnique({
+      where: { id: params.id },
+      include: {
+        rfp: { include: { buyer: { select: { userId: true } } } },
+      },
+    })
+
+    const party = bid ? getBidParty(bid, session.user) : null
+    if (!bid || !party) {
+      return NextResponse.json({ error: 'Bid not found' }, { status: 404 })
+    }
+
+    await expireStaleNegotiations(bid.id, prisma)
+
+    const negotiation = await prisma.negotiation.findUnique({
+      where: { id: params.negotiationId },
+    })
+
+    if (!negotiation || negotiation.bidId !== bid.id) {
+      return NextResponse.json({ error: 'Negotiation not found' }, { status: 404 })
+    }
+
+    if (negotiation.status !== 'ACTIVE') {
+      return NextResponse.json(
+        { error: `Negotiation round is ${negotiation.status.toLowerCase()}` },
+        { status: 400 }
+      )
+    }
+
+    // Only the counterparty of the offer may respond
+    const initiatorParty = negotiation.initiatorId === bid.rfp.buyer.userId ? 'BUYER' : 'MILL'
+    if (
+      party === 'ADMIN' ||
+      party === initiatorParty ||
+      (party === 'MILL' && session.user.role !== 'MILL_MANAGER')
+    ) {
+      return NextResponse.json(
+        { error: 'Only the counterparty can respond to this offer' },
+        { status: 403 }
+      )
+    }
+
+    const now = new Date()
+    const offerDetails = JSON.parse(negotiation.offerDetails)
+    const accepted = action === 'ACCEPT'
+
+    const operations: any[] = [
+      prisma.negotiation.update({
+        where: { id: negotiation.id },
+        data: {
+          status: accepted ? 'ACCEPTED' : 'REJECTED',
+          response,
+          respondedAt: now,
+          respondedBy: session.user.id,
+        },
+      }),
+      // Record the response as its own entry in the thread
+      prisma.negotiation.create({
+        data: {
+          bidId: bid.id,
+          initiatorId: session.user.id,
+          offerType: action,
+          offerDetails: negotiation.offerDetails,
+          response,
+          status: accepted ? 'ACCEPTED' : 'REJECTED',
+        },
+      }),
+    ]
+
+    if (accepted) {
+      operations.push(
+        prisma.bid.update({
+          where: { id: bid.id },
+          data: applyOfferToBid(bid, offerDetails, bid.rfp.totalVolume),
+        })
+      )
+    }
+
+    const results = await prisma.$transaction(operations)
+
+    return NextResponse.json({
+      success: true,
+      negotiation: results[0],
+      bid: accepted ? results[2] : bid,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error responding to negotiation:', error)
+    return NextResponse.json(
+      { error: 'Failed to respond to negotiation' },
+      { status: 500 }
+    )
+  }
+})
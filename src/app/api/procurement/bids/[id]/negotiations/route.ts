@@ -0,0 +1,163 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import {
+  offerDetailsSchema,
+  expireStaleNegotiations,
+  getBidParty,
+  NEGOTIATION_EXPIRY_HOURS,
+} from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const counterOfferSchema = z.object({
+  offerDetails: offerDetailsSchema,
+  expiresInHours: z.number().positive().max(24 * 30).optional(),
+})
+
+// Bids that are still open to negotiation
+const NEGOTIABLE_BID_STATUSES = ['SUBMITTED', 'SHORTLISTED', 'AWARDED']
+
+export const GET = withAuth('bid:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const bid = await prisma.bid.findUnique({
+      where: { id: params.id },
+      include: {
+        rfp: { include: { buyer: { select: { userId: true } } } },
+      },
+    })
+
+    if (!bid || !getBidParty(bid, session.user)) {
+      return NextResponse.json({ error: 'Bid not found' }, { status: 404 })
+    }
+
+    await expireStaleNegotiations(bid.id, prisma)
+
+    const negotiations = await prisma.negotiation.findMany({
+      where: { bidId: bid.id },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    const thread = negotiations.map((n) => ({
+      ...n,
+      offerDetails: JSON.parse(n.offerDetails),
+      initiatorParty: n.initiatorId === bid.rfp.buyer.userId ? 'BUYER' : 'MILL',
+    }))
+
+    return NextResponse.json({
+      negotiations: thread,
+      activeRound: thread.find((n) => n.status === 'ACTIVE') || null,
+    })
+  } catch (error) {
+    console.error('Error fetching negotiations:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch negotiations' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST - Open a new round or counter the active one
+export const POST = withAuth('bid:negotiate', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { offerDetails, expiresInHours } = counterOfferSchema.parse(body)
+
+    const bid = await prisma.bid.findUnique({
+      where: { id: params.id },
+      include: {
+        rfp: { include: { buyer: { select: { userId: true } } } },
+      },
+    })
+
+    const party = bid ? getBidParty(bid, session.user) : null
+    if (!bid || !party) {
+      return NextResponse.json({ error: 'Bid not found' }, { status: 404 })
+    }
+
+    if (party === 'ADMIN' || (party === 'MILL' && session.user.role !== 'MILL_MANAGER')) {
+      return NextResponse.json(
+        { error: 'Only the buyer or the mill manager can negotiate' },
+        { status: 403 }
+      )
+    }
+
+    if (!NEGOTIABLE_BID_STATUSES.includes(bid.status)) {
+      return NextResponse.json(
+        { error: `Cannot negotiate a bid with status ${bid.status}` },
+        { status: 400 }
+      )
+    }
+
+    await expireStaleNegotiations(bid.id, prisma)
+
+    const activeRound = await prisma.negotiation.findFirst({
+      where: { bidId: bid.id, status: 'ACTIVE' },
+    })
+
+    if (activeRound) {
+      const activeParty = activeRound.initiatorId === bid.rfp.buyer.userId ? 'BUYER' : 'MILL'
+      if (activeParty === party) {
+        return NextResponse.json(
+          { error: 'Waiting for the counterparty to respond to your offer' },
+          { status: 409 }
+        )
+      }
+    }
+
+    const now = new Date()
+    const expiresAt = new Date(
+      now.getTime() + (expiresInHours ?? NEGOTIATION_EXPIRY_HOURS) * 60 * 60 * 1000
+    )
+
+    const operations: any[] = []
+    if (activeRound) {
+      // A counter-offer closes the round it answers
+      operations.push(
+        prisma.negotiation.update({
+          where: { id: activeRound.id },
+          data: {
+            status: 'REJECTED',
+            response: 'Countered',
+            respondedAt: now,
+            respondedBy: session.user.id,
+          },
+        })
+      )
+    }
+    operations.push(
+      prisma.negotiation.create({
+        data: {
+          bidId: bid.id,
+          initiatorId: session.user.id,
+          offerType: 'COUNTER_OFFER',
+          offerDetails: JSON.stringify(offerDetails),
+          status: 'ACTIVE',
+          expiresAt,
+        },
+      })
+    )
+
+    const results = await prisma.$transaction(operations)
+    const negotiation = results[results.length - 1]
+
+    return NextResponse.json({ success: true, negotiation }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating counter-offer:', error)
+    return NextResponse.json(
+      { error: 'Failed to create counter-offer' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const answerSchema = z.object({
+  answer: z.string().min(1),
+})
+
+export const POST = withAuth('bid:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string; questionId: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { answer } = answerSchema.parse(body)
+
+    const question = await prisma.bidQuestion.findUnique({
+      where: { id: params.questionId },
+      include: { bid: { select: { millId: true } } },
+    })
+
+    if (!question || question.bidId !== params.id) {
+      return NextResponse.json({ error: 'Question not found' }, { status: 404 })
+    }
+
+    if (question.bid.millId !== session.user.millId) {
+      return NextResponse.json(
+        { error: 'Only the bidding mill can answer questions' },
+        { status: 403 }
+      )
+    }
+
+    if (question.status === 'ANSWERED') {
+      return NextResponse.json(
+        { error: 'Question has already been answered' },
+        { status: 400 }
+      )
+    }
+
+    const updated = await prisma.bidQuestion.update({
+      where: { id: params.questionId },
+      data: {
+        answer,
+        answeredAt: new Date(),
+        answeredBy: session.user.id,
+        status: 'ANSWERED',
+      },
+    })
+
+    return NextResponse.json({ success: true, question: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error answering bid question:', error)
+    return NextResponse.json(
+      { error: 'Failed to answer question' },
+      { status: 500 }
+    )
+  }
+})
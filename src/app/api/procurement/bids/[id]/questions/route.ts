@@ -0,0 +1,101 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { getBidParty } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const questionSchema = z.object({
+  question: z.string().min(1),
+})
+
+export const GET = withAuth('bid:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const bid = await prisma.bid.findUnique({
+      where: { id: params.id },
+      include: {
+        rfp: { include: { buyer: { select: { userId: true } } } },
+      },
+    })
+
+    if (!bid || !getBidParty(bid, session.user)) {
+      return NextResponse.json({ error: 'Bid not found' }, { status: 404 })
+    }
+
+    const questions = await prisma.bidQuestion.findMany({
+      where: { bidId: bid.id },
+      orderBy: { createdAt: 'asc' },
+    })
+
+    return NextResponse.json({
+      questions,
+      pending: questions.filter((q) => q.status === 'PENDING').length,
+    })
+  } catch (error) {
+    console.error('Error fetching bid questions:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch questions' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAuth('rfp:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { question } = questionSchema.parse(body)
+
+    const bid = await prisma.bid.findUnique({
+      where: { id: params.id },
+      include: {
+        rfp: { include: { buyer: { select: { userId: true } } } },
+      },
+    })
+
+    if (!bid || !getBidParty(bid, session.user)) {
+      return NextResponse.json({ error: 'Bid not found' }, { status: 404 })
+    }
+
+    if (getBidParty(bid, session.user) !== 'BUYER') {
+      return NextResponse.json(
+        { error: 'Only the buyer who issued the RFP can ask questions' },
+        { status: 403 }
+      )
+    }
+
+    if (bid.status === 'WITHDRAWN' || bid.status === 'NOT_SELECTED') {
+      return NextResponse.json(
+        { error: `Cannot ask questions on a bid with status ${bid.status}` },
+        { status: 400 }
+      )
+    }
+
+    const bidQuestion = await prisma.bidQuestion.create({
+      data: {
+        bidId: bid.id,
+        questionerId: session.user.id,
+        question,
+        status: 'PENDING',
+      },
+    })
+
+    return NextResponse.json({ success: true, question: bidQuestion }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating bid question:', error)
+    return NextResponse.json(
+      { error: 'Failed to create question' },
+      { status: 500 }
+    )
+  }
+})
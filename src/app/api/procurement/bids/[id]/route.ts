@@ -0,0 +1,160 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { bidSchema, calculateBidTotals, getBidParty } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+export const GET = withAuth('bid:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const bid = await prisma.bid.findUnique({
+      where: { id: params.id },
+      include: {
+        rfp: {
+          include: {
+            buyer: {
+              select: {
+                userId: true,
+                organizationName: true,
+              },
+            },
+          },
+        },
+        mill: {
+          select: {
+            name: true,
+            code: true,
+            country: true,
+            region: true,
+            certificationStatus: true,
+          },
+        },
+        questions: {
+          orderBy: { createdAt: 'asc' },
+        },
+        negotiations: {
+          orderBy: { createdAt: 'asc' },
+        },
+      },
+    })
+
+    if (!bid || !getBidParty(bid, session.user)) {
+      return NextResponse.json({ error: 'Bid not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(bid)
+  } catch (error) {
+    console.error('Error fetching bid:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch bid' },
+      { status: 500 }
+    )
+  }
+})
+
+export const PUT = withAuth('bid:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const data = bidSchema.partial().parse(body)
+
+    const bid = await prisma.bid.findUnique({
+      where: { id: params.id },
+      include: { rfp: true },
+    })
+
+    if (!bid || bid.millId !== session.user.millId) {
+      return NextResponse.json({ error: 'Bid not found' }, { status: 404 })
+    }
+
+    if (bid.status !== 'DRAFT') {
+      return NextResponse.json(
+        { error: 'Only draft bids can be edited' },
+        { status: 400 }
+      )
+    }
+
+    if (bid.rfp.status !== 'OPEN') {
+      return NextResponse.json(
+        { error: 'RFP is no longer open for bidding' },
+        { status: 400 }
+      )
+    }
+
+    if (new Date() > bid.rfp.bidDeadline) {
+      return NextResponse.json(
+        { error: 'Bid deadline has passed', bidDeadline: bid.rfp.bidDeadline },
+        { status: 400 }
+      )
+    }
+
+    // Recalculate totals from the merged pricing fields
+    const totals = calculateBidTotals(
+      data.unitPrice ?? bid.unitPrice,
+      bid.rfp.totalVolume,
+      data.deliveryCost !== undefined ? data.deliveryCost : bid.deliveryCost,
+      data.additionalCosts !== undefined ? data.additionalCosts : bid.additionalCosts
+    )
+
+    const updated = await prisma.bid.update({
+      where: { id: params.id },
+      data: {
+        ...data,
+        ...totals,
+      },
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating bid:', error)
+    return NextResponse.json(
+      { error: 'Failed to update bid' },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = withAuth('bid:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const bid = await prisma.bid.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!bid || bid.millId !== session.user.millId) {
+      return NextResponse.json({ error: 'Bid not found' }, { status: 404 })
+    }
+
+    // Submitted bids must be withdrawn so the buyer keeps a record
+    if (bid.status !== 'DRAFT') {
+      return NextResponse.json(
+        { error: 'Only draft bids can be deleted; withdraw submitted bids instead' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.bid.delete({
+      where: { id: params.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting bid:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete bid' },
+      { status: 500 }
+    )
+  }
+})
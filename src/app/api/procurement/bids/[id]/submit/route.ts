@@ -0,0 +1,74 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { calculateBidTotals } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+export const POST = withAuth('bid:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const bid = await prisma.bid.findUnique({
+      where: { id: params.id },
+      include: { rfp: true },
+    })
+
+    if (!bid || bid.millId !== session.user.millId) {
+      return NextResponse.json({ error: 'Bid not found' }, { status: 404 })
+    }
+
+    if (session.user.role !== 'MILL_MANAGER') {
+      return NextResponse.json(
+        { error: 'Only mill managers can submit bids' },
+        { status: 403 }
+      )
+    }
+
+    if (bid.status !== 'DRAFT') {
+      return NextResponse.json(
+        { error: `Cannot submit a bid with status ${bid.status}` },
+        { status: 400 }
+      )
+    }
+
+    if (bid.rfp.status !== 'OPEN') {
+      return NextResponse.json(
+        { error: 'RFP is no longer open for bidding' },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date()
+    if (now > bid.rfp.bidDeadline) {
+      return NextResponse.json(
+        { error: 'Bid deadline has passed', bidDeadline: bid.rfp.bidDeadline },
+        { status: 400 }
+      )
+    }
+
+    // Totals are recomputed at submission in case the RFP volume changed
+    const totals = calculateBidTotals(
+      bid.unitPrice,
+      bid.rfp.totalVolume,
+      bid.deliveryCost,
+      bid.additionalCosts
+    )
+
+    const updated = await prisma.bid.update({
+      where: { id: params.id },
+      data: {
+        ...totals,
+        status: 'SUBMITTED',
+        submittedAt: now,
+      },
+    })
+
+    return NextResponse.json({ success: true, bid: updated })
+  } catch (error) {
+    console.error('Error submitting bid:', error)
+    return NextResponse.json(
+      { error: 'Failed to submit bid' },
+      { status: 500 }
+    )
+  }
+})
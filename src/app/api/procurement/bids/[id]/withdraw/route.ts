@@ -0,0 +1,78 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { parseJsonArray } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const withdrawSchema = z.object({
+  reason: z.string().min(1),
+})
+
+export const POST = withAuth('bid:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { reason } = withdrawSchema.parse(body)
+
+    const bid = await prisma.bid.findUnique({
+      where: { id: params.id },
+      include: { rfp: { select: { id: true, shortlistedBids: true } } },
+    })
+
+    if (!bid || bid.millId !== session.user.millId) {
+      return NextResponse.json({ error: 'Bid not found' }, { status: 404 })
+    }
+
+    if (session.user.role !== 'MILL_MANAGER') {
+      return NextResponse.json(
+        { error: 'Only mill managers can withdraw bids' },
+        { status: 403 }
+      )
+    }
+
+    if (bid.status !== 'SUBMITTED' && bid.status !== 'SHORTLISTED') {
+      return NextResponse.json(
+        { error: `Cannot withdraw a bid with status ${bid.status}` },
+        { status: 400 }
+      )
+    }
+
+    // A withdrawn bid also leaves the RFP's shortlist
+    const shortlisted = parseJsonArray(bid.rfp.shortlistedBids)
+
+    const [updated] = await prisma.$transaction([
+      prisma.bid.update({
+        where: { id: params.id },
+        data: {
+          status: 'WITHDRAWN',
+          withdrawnAt: new Date(),
+          withdrawalReason: reason,
+        },
+      }),
+      ...(shortlisted.includes(bid.id)
+        ? [
+            prisma.rFP.update({
+              where: { id: bid.rfp.id },
+              data: { shortlistedBids: JSON.stringify(shortlisted.filter((id) => id !== bid.id)) },
+            }),
+          ]
+        : []),
+    ])
+
+    return NextResponse.json({ success: true, bid: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error withdrawing bid:', error)
+    return NextResponse.json(
+      { error: 'Failed to withdraw bid' },
+      { status: 500 }
+    )
+  }
+})
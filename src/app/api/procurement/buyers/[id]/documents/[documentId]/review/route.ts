@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { isProcurementAdmin } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const reviewSchema = z
+  .object({
+    status: z.enum(['VERIFIED', 'REJECTED']),
+    reason: z.string().optional(),
+  })
+  .refine((data) => data.status !== 'REJECTED' || !!data.reason, {
+    message: 'A reason is required when rejecting a document',
+    path: ['reason'],
+  })
+
+// POST - FWGA review of a single buyer document
+export const POST = withAuth('buyer:verify', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string; documentId: string }>
+) => {
+  try {
+    if (!isProcurementAdmin(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Only FWGA staff can review buyer documents' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { status, reason } = reviewSchema.parse(body)
+
+    const document = await prisma.buyerDocument.findFirst({
+      where: { id: params.documentId, buyerId: params.id },
+    })
+
+    if (!document) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const updated = await prisma.buyerDocument.update({
+      where: { id: document.id },
+      data: {
+        status,
+        verifiedAt: new Date(),
+        verifiedBy: session.user.id,
+        rejectionReason: status === 'REJECTED' ? reason : null,
+      },
+    })
+
+    return NextResponse.json({ success: true, document: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error reviewing buyer document:', error)
+    return NextResponse.json(
+      { error: 'Failed to review buyer document' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,81 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { readFile, unlink } from 'fs/promises'
+import { join } from 'path'
+import { prisma } from '@/lib/db'
+import { BUYER_DOCUMENT_UPLOAD_DIR, isProcurementAdmin } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+// GET - Download a buyer document (owner or FWGA reviewers)
+export const GET = withAuth(null, async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string; documentId: string }>
+) => {
+  try {
+    const document = await prisma.buyerDocument.findFirst({
+      where: { id: params.documentId, buyerId: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    if (
+      !document ||
+      (document.buyer.userId !== session.user.id && !isProcurementAdmin(session.user.role))
+    ) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    const contents = await readFile(join(process.cwd(), BUYER_DOCUMENT_UPLOAD_DIR, document.filePath))
+
+    return new NextResponse(contents, {
+      headers: {
+        'Content-Type': document.mimeType,
+        'Content-Disposition': `attachment; filename="${document.fileName.replace(/"/g, '')}"`,
+      },
+    })
+  } catch (error) {
+    console.error('Error downloading buyer document:', error)
+    return NextResponse.json(
+      { error: 'Failed to download buyer document' },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = withAuth('buyer:register', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string; documentId: string }>
+) => {
+  try {
+    const document = await prisma.buyerDocument.findFirst({
+      where: { id: params.documentId, buyerId: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    if (!document || document.buyer.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Document not found' }, { status: 404 })
+    }
+
+    // Verified documents back an approval decision and must be kept
+    if (document.status === 'VERIFIED') {
+      return NextResponse.json(
+        { error: 'Verified documents cannot be deleted' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.buyerDocument.delete({
+      where: { id: document.id },
+    })
+
+    await unlink(join(process.cwd(), BUYER_DOCUMENT_UPLOAD_DIR, document.filePath)).catch(() => {
+      // File may already be gone; the record is what matters
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting buyer document:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete buyer document' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { mkdir, writeFile } from 'fs/promises'
+import { join } from 'path'
+import { randomUUID } from 'crypto'
+import { prisma } from '@/lib/db'
+import {
+  BUYER_DOCUMENT_MIME_TYPES,
+  BUYER_DOCUMENT_TYPES,
+  BUYER_DOCUMENT_UPLOAD_DIR,
+  isProcurementAdmin,
+} from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+export const GET = withAuth(null, async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const buyer = await prisma.buyerProfile.findUnique({
+      where: { id: params.id },
+      select: { userId: true },
+    })
+
+    if (!buyer || (buyer.userId !== session.user.id && !isProcurementAdmin(session.user.role))) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 })
+    }
+
+    const documents = await prisma.buyerDocument.findMany({
+      where: { buyerId: params.id },
+      orderBy: { uploadedAt: 'desc' },
+    })
+
+    return NextResponse.json(documents)
+  } catch (error) {
+    console.error('Error fetching buyer documents:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch buyer documents' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST - Upload a registration or tax document (multipart form data)
+export const POST = withAuth('buyer:register', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const buyer = await prisma.buyerProfile.findUnique({
+      where: { id: params.id },
+      select: { id: true, userId: true },
+    })
+
+    if (!buyer || buyer.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 })
+    }
+
+    const formData = await request.formData()
+    const file = formData.get('file') as File | null
+    const documentType = formData.get('documentType') as string
+
+    if (!file) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 })
+    }
+
+    if (!(BUYER_DOCUMENT_TYPES as readonly string[]).includes(documentType)) {
+      return NextResponse.json(
+        { error: `documentType must be one of ${BUYER_DOCUMENT_TYPES.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    if (!BUYER_DOCUMENT_MIME_TYPES.includes(file.type)) {
+      return NextResponse.json(
+        { error: 'Invalid file type' },
+        { status: 400 }
+      )
+    }
+
+    // Validate file size (10MB max)
+    const maxSize = 10 * 1024 * 1024
+    if (file.size > maxSize) {
+      return NextResponse.json(
+        { error: 'File size exceeds 10MB limit' },
+        { status: 400 }
+      )
+    }
+
+    const ext = file.name.split('.').pop()
+    const storedName = `${randomUUID()}.${ext}`
+    const uploadDir = join(process.cwd(), BUYER_DOCUMENT_UPLOAD_DIR, 'buyers', buyer.id)
+
+    await mkdir(uploadDir, { recursive: true })
+    await writeFile(join(uploadDir, storedName), Buffer.from(await file.arrayBuffer()))
+
+    const document = await prisma.buyerDocument.create({
+      data: {
+        buyerId: buyer.id,
+        documentType,
+        fileName: file.name,
+        filePath: `buyers/${buyer.id}/${storedName}`,
+        fileSize: file.size,
+        mimeType: file.type,
+        status: 'PENDING',
+      },
+    })
+
+    return NextResponse.json({ success: true, document }, { status: 201 })
+  } catch (error) {
+    console.error('Error uploading buyer document:', error)
+    return NextResponse.json(
+      { error: 'Failed to upload buyer document' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,123 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import {
+  buyerProfileSchema,
+  BUYER_IDENTITY_FIELDS,
+  isProcurementAdmin,
+} from '@/lib/procurement-utils'
+import { getBuyerReputation } from '@/lib/review-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+// GET - Buyer procurement profile with mill-review reputation
+export const GET = withAuth(null, async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const buyer = await prisma.buyerProfile.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!buyer) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 })
+    }
+
+    const [reputation, recentReviews] = await Promise.all([
+      getBuyerReputation(buyer.id, prisma),
+      prisma.orderReview.findMany({
+        where: { reviewerType: 'MILL', purchaseOrder: { buyerId: buyer.id } },
+        select: {
+          id: true,
+          overallRating: true,
+          review: true,
+          wouldWorkAgain: true,
+          createdAt: true,
+          purchaseOrder: {
+            select: { poNumber: true, mill: { select: { name: true } } },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      }),
+    ])
+
+    // Contact, billing and budget details stay private to the buyer and FWGA
+    const isPrivileged = buyer.userId === session.user.id || isProcurementAdmin(session.user.role)
+    const profile = isPrivileged
+      ? buyer
+      : {
+          id: buyer.id,
+          organizationName: buyer.organizationName,
+          organizationType: buyer.organizationType,
+          verificationStatus: buyer.verificationStatus,
+          preferredPaymentTerms: buyer.preferredPaymentTerms,
+          rating: buyer.rating,
+          totalOrders: buyer.totalOrders,
+          isActive: buyer.isActive,
+        }
+
+    return NextResponse.json({
+      ...profile,
+      reputation,
+      recentReviews,
+    })
+  } catch (error) {
+    console.error('Error fetching buyer profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch buyer profile' },
+      { status: 500 }
+    )
+  }
+})
+
+export const PUT = withAuth('buyer:register', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const data = buyerProfileSchema.partial().parse(body)
+
+    const buyer = await prisma.buyerProfile.findUnique({
+      where: { id: params.id },
+    })
+
+    if (!buyer || buyer.userId !== session.user.id) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 })
+    }
+
+    const identityChanged = BUYER_IDENTITY_FIELDS.some(
+      (field) => data[field] !== undefined && data[field] !== buyer[field]
+    )
+
+    const updateData: any = { ...data }
+
+    // Identity changes and resubmissions after rejection go back into the review queue
+    if (buyer.verificationStatus === 'REJECTED' || (buyer.verificationStatus === 'VERIFIED' && identityChanged)) {
+      updateData.verificationStatus = 'PENDING'
+      updateData.verifiedAt = null
+      updateData.verifiedBy = null
+      updateData.rejectionReason = null
+    }
+
+    const updated = await prisma.buyerProfile.update({
+      where: { id: params.id },
+      data: updateData,
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating buyer profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to update buyer profile' },
+      { status: 500 }
+    )
+  }
+})
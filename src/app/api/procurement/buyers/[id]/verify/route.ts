@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { getMissingBuyerDocuments, isProcurementAdmin } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const verifySchema = z
+  .object({
+    decision: z.enum(['APPROVE', 'REJECT']),
+    reason: z.string().optional(),
+  })
+  .refine((data) => data.decision !== 'REJECT' || !!data.reason, {
+    message: 'A reason is required when rejecting a buyer',
+    path: ['reason'],
+  })
+
+// POST - FWGA approval or rejection of a buyer profile
+export const POST = withAuth('buyer:verify', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    if (!isProcurementAdmin(session.user.role)) {
+      return NextResponse.json(
+        { error: 'Only FWGA staff can verify buyers' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const { decision, reason } = verifySchema.parse(body)
+
+    const buyer = await prisma.buyerProfile.findUnique({
+      where: { id: params.id },
+      include: { documents: { select: { documentType: true, status: true } } },
+    })
+
+    if (!buyer) {
+      return NextResponse.json({ error: 'Buyer not found' }, { status: 404 })
+    }
+
+    if (decision === 'APPROVE') {
+      const missing = getMissingBuyerDocuments(buyer.documents)
+      if (missing.length > 0) {
+        return NextResponse.json(
+          { error: 'Required documents have not been verified', missingDocuments: missing },
+          { status: 400 }
+        )
+      }
+    }
+
+    const updated = await prisma.buyerProfile.update({
+      where: { id: params.id },
+      data: {
+        verificationStatus: decision === 'APPROVE' ? 'VERIFIED' : 'REJECTED',
+        verifiedAt: decision === 'APPROVE' ? new Date() : null,
+        verifiedBy: session.user.id,
+        rejectionReason: decision === 'REJECT' ? reason : null,
+      },
+    })
+
+    return NextResponse.json({ success: true, buyer: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error verifying buyer:', error)
+    return NextResponse.json(
+      { error: 'Failed to verify buyer' },
+      { status: 500 }
+    )
+  }
+})
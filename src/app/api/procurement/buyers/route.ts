@@ -0,0 +1,105 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { buyerProfileSchema, isProcurementAdmin } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+// POST - Register the signed-in buyer's organisation profile
+export const POST = withAuth('buyer:register', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    if (session.user.role !== 'INSTITUTIONAL_BUYER') {
+      return NextResponse.json(
+        { error: 'Only institutional buyer accounts can register a buyer profile' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const data = buyerProfileSchema.parse(body)
+
+    const existing = await prisma.buyerProfile.findUnique({
+      where: { userId: session.user.id },
+    })
+    if (existing) {
+      return NextResponse.json(
+        { error: 'A buyer profile already exists for this account', buyerId: existing.id },
+        { status: 409 }
+      )
+    }
+
+    const buyer = await prisma.buyerProfile.create({
+      data: {
+        ...data,
+        userId: session.user.id,
+        verificationStatus: 'PENDING',
+      },
+    })
+
+    return NextResponse.json({ success: true, buyer }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error registering buyer profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to register buyer profile' },
+      { status: 500 }
+    )
+  }
+})
+
+// GET - Buyer profiles for FWGA review
+export const GET = withAuth('buyer:verify', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    if (!isProcurementAdmin(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const { searchParams } = new URL(request.url)
+    const verificationStatus = searchParams.get('verificationStatus')
+    const organizationType = searchParams.get('organizationType')
+    const limit = searchParams.get('limit') || '50'
+    const offset = searchParams.get('offset') || '0'
+
+    const where: any = {}
+    if (verificationStatus) where.verificationStatus = verificationStatus
+    if (organizationType) where.organizationType = organizationType
+
+    const buyers = await prisma.buyerProfile.findMany({
+      where,
+      include: {
+        user: { select: { email: true, name: true } },
+        documents: {
+          select: { id: true, documentType: true, status: true, uploadedAt: true },
+        },
+      },
+      orderBy: { createdAt: 'asc' },
+      take: parseInt(limit),
+      skip: parseInt(offset),
+    })
+
+    const total = await prisma.buyerProfile.count({ where })
+
+    return NextResponse.json({
+      buyers,
+      total,
+      limit: parseInt(limit),
+      offset: parseInt(offset),
+    })
+  } catch (error) {
+    console.error('Error fetching buyer profiles:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch buyer profiles' },
+      { status: 500 }
+    )
+  }
+})
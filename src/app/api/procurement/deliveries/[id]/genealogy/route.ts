@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { getPurchaseOrderParty } from '@/lib/procurement-utils'
+import { traceBackward } from '@/lib/genealogy'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+// GET - Backward trace from a delivery to the batches and input lots behind it
+export const GET = withAuth('batch:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const delivery = await prisma.delivery.findUnique({
+      where: { id: params.id },
+      include: {
+        purchaseOrder: {
+          include: {
+            buyer: { select: { userId: true, organizationName: true } },
+            mill: { select: { id: true, name: true, code: true } },
+          },
+        },
+      },
+    })
+
+    if (!delivery || !getPurchaseOrderParty(delivery.purchaseOrder, session.user)) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+    }
+
+    const genealogy = await traceBackward(delivery, prisma)
+
+    return NextResponse.json(genealogy)
+  } catch (error) {
+    console.error('Error tracing delivery genealogy:', error)
+    return NextResponse.json(
+      { error: 'Failed to trace delivery genealogy' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,177 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { parseJsonArray } from '@/lib/procurement-utils'
+import {
+  assessDeliveryShortfall,
+  canManageDeliveries,
+  canTransitionDelivery,
+  parseDeliveryLocations,
+} from '@/lib/logistics-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const proofOfDeliverySchema = z.object({
+  receivedBy: z.string().min(1),
+  receivedQuantity: z.number().min(0),
+  conditionNotes: z.string().optional(),
+  signatureUrl: z.string().optional(),
+  photoUrls: z.array(z.string()).optional(),
+  gpsLocation: z
+    .object({
+      latitude: z.number(),
+      longitude: z.number(),
+    })
+    .optional(),
+})
+
+// POST - Capture proof of delivery and mark the delivery DELIVERED
+export const POST = withAuth('delivery:confirm', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const data = proofOfDeliverySchema.parse(body)
+
+    const delivery = await prisma.delivery.findUnique({
+      where: { id: params.id },
+      include: {
+        purchaseOrder: {
+          include: {
+            buyer: { select: { userId: true } },
+            rfp: { select: { deliveryLocations: true } },
+          },
+        },
+      },
+    })
+
+    if (!delivery) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+    }
+
+    const order = delivery.purchaseOrder
+    const isReceivingBuyer = order.buyer.userId === session.user.id
+    if (!isReceivingBuyer && !canManageDeliveries(order, session.user)) {
+      return NextResponse.json(
+        { error: 'Only the buyer or the delivery team can confirm receipt' },
+        { status: 403 }
+      )
+    }
+
+    if (!canTransitionDelivery(delivery.status, 'DELIVERED')) {
+      return NextResponse.json(
+        { error: `Cannot confirm receipt of a delivery with status ${delivery.status}` },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date()
+    const shortfall = assessDeliveryShortfall(delivery.quantity, data.receivedQuantity)
+
+    const issues = delivery.issues ? JSON.parse(delivery.issues) : []
+    if (shortfall.isShort) {
+      issues.push({
+        type: 'SHORT_DELIVERY',
+        description: `Received ${data.receivedQuantity} of ${delivery.quantity} kg`,
+        shortfall: shortfall.shortfall,
+        reportedBy: session.user.id,
+        reportedAt: now.toISOString(),
+      })
+    }
+
+    const updated = await prisma.delivery.update({
+      where: { id: params.id },
+      data: {
+        status: 'DELIVERED',
+        actualDate: now,
+        receivedBy: data.receivedBy,
+        receivedQuantity: data.receivedQuantity,
+        conditionNotes: data.conditionNotes,
+        proofOfDelivery: JSON.stringify({
+          signatureUrl: data.signatureUrl,
+          photoUrls: data.photoUrls || [],
+          gpsLocation: data.gpsLocation,
+          confirmedBy: session.user.id,
+          confirmedAt: now.toISOString(),
+        }),
+        issues: issues.length > 0 ? JSON.stringify(issues) : null,
+      },
+    })
+
+    if (shortfall.isShort) {
+      await prisma.alert.create({
+        data: {
+          type: 'DELIVERY_ISSUE',
+          category: 'PROCUREMENT_DELIVERY',
+          severity: shortfall.severity!,
+          title: 'Short Delivery Reported',
+          message: `${order.poNumber}: received ${data.receivedQuantity} of ${delivery.quantity} kg (${shortfall.shortfallPercent.toFixed(1)}% short).`,
+          actionRequired: 'Investigate the shortfall and arrange a make-up delivery',
+          sourceType: 'DELIVERY',
+          sourceId: delivery.id,
+          millId: order.millId,
+          metadata: JSON.stringify({
+            deliveryId: delivery.id,
+            poId: order.id,
+            poNumber: order.poNumber,
+            scheduledQuantity: delivery.quantity,
+            receivedQuantity: data.receivedQuantity,
+            shortfall: shortfall.shortfall,
+            conditionNotes: data.conditionNotes,
+          }),
+        },
+      })
+    }
+
+    // Record the delivery against every batch filling this order
+    const location = parseDeliveryLocations(order.rfp?.deliveryLocations)
+      .find((l) => l.id === delivery.locationId)
+    const eventLocation = data.gpsLocation
+      ? `${data.gpsLocation.latitude},${data.gpsLocation.longitude}`
+      : location?.name || delivery.locationId
+
+    const batchIds = parseJsonArray(order.batchLinkage)
+    await Promise.all(
+      batchIds.map((batchId) =>
+        prisma.traceabilityRecord.create({
+          data: {
+            batchId,
+            eventType: 'DELIVERY',
+            eventLocation,
+            eventTime: now,
+            userId: session.user.id,
+            buyerId: order.buyerId,
+            description: `Delivered to ${location?.name || delivery.locationId} under ${order.poNumber}`,
+            metadata: JSON.stringify({
+              deliveryId: delivery.id,
+              poId: order.id,
+              poNumber: order.poNumber,
+              receivedBy: data.receivedBy,
+              receivedQuantity: data.receivedQuantity,
+            }),
+            verificationStatus: 'VERIFIED',
+          },
+        })
+      )
+    )
+
+    return NextResponse.json({
+      success: true,
+      delivery: updated,
+      shortfall: shortfall.isShort ? shortfall : null,
+      traceabilityRecords: batchIds.length,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error confirming delivery:', error)
+    return NextResponse.json(
+      { error: 'Failed to confirm delivery' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,117 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { getPurchaseOrderParty } from '@/lib/procurement-utils'
+import { canManageDeliveries, parseDeliveryLocations } from '@/lib/logistics-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const updateDeliverySchema = z.object({
+  scheduledDate: z.string().optional(),
+  quantity: z.number().positive().optional(),
+  driverId: z.string().optional(),
+  vehicleInfo: z.string().optional(), // JSON
+})
+
+export const GET = withAuth('delivery:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const delivery = await prisma.delivery.findUnique({
+      where: { id: params.id },
+      include: {
+        purchaseOrder: {
+          include: {
+            buyer: { select: { userId: true, organizationName: true } },
+            mill: { select: { name: true, code: true } },
+            rfp: { select: { deliveryLocations: true } },
+          },
+        },
+      },
+    })
+
+    if (
+      !delivery ||
+      (!getPurchaseOrderParty(delivery.purchaseOrder, session.user) &&
+        !canManageDeliveries(delivery.purchaseOrder, session.user))
+    ) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+    }
+
+    const location = parseDeliveryLocations(delivery.purchaseOrder.rfp?.deliveryLocations)
+      .find((l) => l.id === delivery.locationId)
+
+    return NextResponse.json({ ...delivery, location: location || null })
+  } catch (error) {
+    console.error('Error fetching delivery:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch delivery' },
+      { status: 500 }
+    )
+  }
+})
+
+export const PUT = withAuth('delivery:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const data = updateDeliverySchema.parse(body)
+
+    const delivery = await prisma.delivery.findUnique({
+      where: { id: params.id },
+      include: {
+        purchaseOrder: {
+          include: { deliveries: { select: { id: true, quantity: true, status: true } } },
+        },
+      },
+    })
+
+    if (!delivery || !canManageDeliveries(delivery.purchaseOrder, session.user)) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+    }
+
+    if (delivery.status !== 'SCHEDULED') {
+      return NextResponse.json(
+        { error: 'Only scheduled deliveries can be changed' },
+        { status: 400 }
+      )
+    }
+
+    if (data.quantity !== undefined) {
+      const otherScheduled = delivery.purchaseOrder.deliveries
+        .filter((d) => d.id !== delivery.id && d.status !== 'FAILED')
+        .reduce((sum, d) => sum + d.quantity, 0)
+
+      if (otherScheduled + data.quantity > delivery.purchaseOrder.quantity) {
+        return NextResponse.json(
+          { error: 'Scheduled quantity exceeds the order quantity' },
+          { status: 400 }
+        )
+      }
+    }
+
+    const updated = await prisma.delivery.update({
+      where: { id: params.id },
+      data: {
+        ...data,
+        scheduledDate: data.scheduledDate ? new Date(data.scheduledDate) : undefined,
+      },
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating delivery:', error)
+    return NextResponse.json(
+      { error: 'Failed to update delivery' },
+      { status: 500 }
+    )
+  }
+})
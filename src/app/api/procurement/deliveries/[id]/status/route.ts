@@ -0,0 +1,108 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { canManageDeliveries, canTransitionDelivery } from '@/lib/logistics-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const statusSchema = z
+  .object({
+    status: z.enum(['DISPATCHED', 'IN_TRANSIT', 'FAILED']),
+    reason: z.string().optional(),
+    trackingUrl: z.string().optional(),
+  })
+  .refine((data) => data.status !== 'FAILED' || !!data.reason, {
+    message: 'A reason is required when a delivery fails',
+    path: ['reason'],
+  })
+
+// Order statuses from which goods may leave the mill
+const DISPATCHABLE_PO_STATUSES = ['IN_PRODUCTION', 'READY', 'DELIVERED']
+
+export const POST = withAuth('delivery:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { status, reason, trackingUrl } = statusSchema.parse(body)
+
+    const delivery = await prisma.delivery.findUnique({
+      where: { id: params.id },
+      include: { purchaseOrder: true },
+    })
+
+    if (!delivery || !canManageDeliveries(delivery.purchaseOrder, session.user)) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+    }
+
+    if (!canTransitionDelivery(delivery.status, status)) {
+      return NextResponse.json(
+        { error: `Cannot move delivery from ${delivery.status} to ${status}` },
+        { status: 400 }
+      )
+    }
+
+    if (status === 'DISPATCHED' && !DISPATCHABLE_PO_STATUSES.includes(delivery.purchaseOrder.status)) {
+      return NextResponse.json(
+        { error: `Cannot dispatch against a purchase order with status ${delivery.purchaseOrder.status}` },
+        { status: 400 }
+      )
+    }
+
+    const updateData: any = { status }
+    if (trackingUrl) updateData.trackingUrl = trackingUrl
+
+    if (status === 'FAILED') {
+      const issues = delivery.issues ? JSON.parse(delivery.issues) : []
+      issues.push({
+        type: 'DELIVERY_FAILED',
+        description: reason,
+        reportedBy: session.user.id,
+        reportedAt: new Date().toISOString(),
+      })
+      updateData.issues = JSON.stringify(issues)
+    }
+
+    const updated = await prisma.delivery.update({
+      where: { id: params.id },
+      data: updateData,
+    })
+
+    if (status === 'FAILED') {
+      await prisma.alert.create({
+        data: {
+          type: 'DELIVERY_ISSUE',
+          category: 'PROCUREMENT_DELIVERY',
+          severity: 'HIGH',
+          title: 'Delivery Failed',
+          message: `Delivery of ${delivery.quantity} kg for ${delivery.purchaseOrder.poNumber} failed: ${reason}`,
+          actionRequired: 'Reschedule the delivery and inform the buyer',
+          sourceType: 'DELIVERY',
+          sourceId: delivery.id,
+          millId: delivery.purchaseOrder.millId,
+          metadata: JSON.stringify({
+            deliveryId: delivery.id,
+            poId: delivery.poId,
+            poNumber: delivery.purchaseOrder.poNumber,
+            locationId: delivery.locationId,
+            reason,
+          }),
+        },
+      })
+    }
+
+    return NextResponse.json({ success: true, delivery: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating delivery status:', error)
+    return NextResponse.json(
+      { error: 'Failed to update delivery status' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,270 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { queueAlertNotifications } from '@/lib/notification-preferences'
+import { getPurchaseOrderParty } from '@/lib/procurement-utils'
+import {
+  assessDeliveryDelay,
+  calculateDistanceRemaining,
+  canManageDeliveries,
+  estimateArrival,
+  estimateTravelSpeed,
+  parseDeliveryLocations,
+} from '@/lib/logistics-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const pingSchema = z.object({
+  latitude: z.number().min(-90).max(90),
+  longitude: z.number().min(-180).max(180),
+  accuracy: z.number().min(0).optional(),
+  speed: z.number().min(0).optional(),
+  heading: z.number().min(0).max(360).optional(),
+  recordedAt: z.string().datetime().optional(),
+})
+
+// Drivers may buffer pings while offline and upload them together
+const trackingSchema = z.object({
+  points: z.array(pingSchema).min(1).max(500),
+})
+
+// Trail used for the rolling speed estimate
+const SPEED_WINDOW_MINUTES = 30
+
+export const GET = withAuth(['delivery:read', 'delivery:track'], async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const limit = searchParams.get('limit') || '500'
+
+    const delivery = await prisma.delivery.findUnique({
+      where: { id: params.id },
+      include: {
+        purchaseOrder: {
+          include: {
+            buyer: { select: { userId: true } },
+            rfp: { select: { deliveryLocations: true } },
+          },
+        },
+      },
+    })
+
+    if (
+      !delivery ||
+      (delivery.driverId !== session.user.id &&
+        !getPurchaseOrderParty(delivery.purchaseOrder, session.user) &&
+        !canManageDeliveries(delivery.purchaseOrder, session.user))
+    ) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+    }
+
+    const trail = await prisma.deliveryTrackingPoint.findMany({
+      where: { deliveryId: delivery.id },
+      orderBy: { recordedAt: 'desc' },
+      take: parseInt(limit),
+    })
+
+    const destination = parseDeliveryLocations(delivery.purchaseOrder.rfp?.deliveryLocations)
+      .find((l) => l.id === delivery.locationId)
+
+    return NextResponse.json({
+      deliveryId: delivery.id,
+      status: delivery.status,
+      scheduledDate: delivery.scheduledDate,
+      estimatedArrival: delivery.estimatedArrival,
+      distanceRemaining: delivery.distanceRemaining,
+      lastLocationAt: delivery.lastLocationAt,
+      destination: destination || null,
+      trail: trail.reverse(),
+    })
+  } catch (error) {
+    console.error('Error fetching delivery tracking:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch delivery tracking' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST - Ingest GPS pings from the driver and refresh the ETA
+export const POST = withAuth('delivery:track', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { points } = trackingSchema.parse(body)
+
+    const delivery = await prisma.delivery.findUnique({
+      where: { id: params.id },
+      include: {
+        purchaseOrder: {
+          include: {
+            buyer: { select: { userId: true } },
+            rfp: { select: { deliveryLocations: true } },
+          },
+        },
+      },
+    })
+
+    if (
+      !delivery ||
+      (delivery.driverId !== session.user.id &&
+        !canManageDeliveries(delivery.purchaseOrder, session.user))
+    ) {
+      return NextResponse.json({ error: 'Delivery not found' }, { status: 404 })
+    }
+
+    if (!['DISPATCHED', 'IN_TRANSIT'].includes(delivery.status)) {
+      return NextResponse.json(
+        { error: `Cannot track a delivery with status ${delivery.status}` },
+        { status: 400 }
+      )
+    }
+
+    const now = new Date()
+    const destination = parseDeliveryLocations(delivery.purchaseOrder.rfp?.deliveryLocations)
+      .find((l) => l.id === delivery.locationId)
+
+    const pings = points
+      .map((p) => ({ ...p, recordedAt: p.recordedAt ? new Date(p.recordedAt) : now }))
+      .sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+
+    const since = new Date(
+      pings[pings.length - 1].recordedAt.getTime() - SPEED_WINDOW_MINUTES * 60 * 1000
+    )
+    const recentTrail = await prisma.deliveryTrackingPoint.findMany({
+      where: { deliveryId: delivery.id, recordedAt: { gte: since } },
+      select: { latitude: true, longitude: true, recordedAt: true, speed: true },
+    })
+
+    // Compute distance and ETA per ping so the stored trail shows how the ETA moved
+    const trail = [...recentTrail]
+    const records = pings.map((ping) => {
+      trail.push({ ...ping, speed: ping.speed ?? null })
+      const distanceRemaining = destination
+        ? calculateDistanceRemaining(ping, destination)
+        : null
+      const speed = estimateTravelSpeed(trail, SPEED_WINDOW_MINUTES)
+      return {
+        deliveryId: delivery.id,
+        latitude: ping.latitude,
+        longitude: ping.longitude,
+        accuracy: ping.accuracy,
+        speed: ping.speed,
+        heading: ping.heading,
+        recordedAt: ping.recordedAt,
+        distanceRemaining,
+        estimatedArrival:
+          distanceRemaining !== null
+            ? estimateArrival(distanceRemaining, speed, ping.recordedAt)
+            : null,
+      }
+    })
+
+    const latest = records[records.length - 1]
+    const isNewer = !delivery.lastLocationAt || latest.recordedAt >= delivery.lastLocationAt
+
+    const updateData: any = {}
+    if (delivery.status === 'DISPATCHED') updateData.status = 'IN_TRANSIT'
+    if (!delivery.trackingUrl) {
+      updateData.trackingUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/procurement/deliveries/${delivery.id}/tracking`
+    }
+    if (isNewer) {
+      updateData.lastLocationAt = latest.recordedAt
+      updateData.distanceRemaining = latest.distanceRemaining
+      updateData.estimatedArrival = latest.estimatedArrival
+    }
+
+    const [, updated] = await prisma.$transaction([
+      prisma.deliveryTrackingPoint.createMany({ data: records }),
+      prisma.delivery.update({
+        where: { id: delivery.id },
+        data: updateData,
+      }),
+    ])
+
+    // Raise one delay alert per delivery while it remains unresolved
+    let delayAlert = null
+    if (updated.estimatedArrival) {
+      const delay = assessDeliveryDelay(updated.estimatedArrival, delivery.scheduledDate)
+
+      if (delay.isDelayed) {
+        const existingAlert = await prisma.alert.findFirst({
+          where: {
+            type: 'DELIVERY_DELAY',
+            sourceType: 'DELIVERY',
+            sourceId: delivery.id,
+            isResolved: false,
+          },
+        })
+
+        if (!existingAlert) {
+          delayAlert = await prisma.alert.create({
+            data: {
+              type: 'DELIVERY_DELAY',
+              category: 'PROCUREMENT_DELIVERY',
+              severity: delay.severity!,
+              title: 'Delivery Running Late',
+              message: `Delivery for ${delivery.purchaseOrder.poNumber} to ${destination?.name || delivery.locationId} is expected ${delay.delayMinutes} minutes after its scheduled time.`,
+              actionRequired: 'Confirm the revised arrival time with the buyer',
+              sourceType: 'DELIVERY',
+              sourceId: delivery.id,
+              millId: delivery.purchaseOrder.millId,
+              metadata: JSON.stringify({
+                deliveryId: delivery.id,
+                poId: delivery.poId,
+                poNumber: delivery.purchaseOrder.poNumber,
+                scheduledDate: delivery.scheduledDate,
+                estimatedArrival: updated.estimatedArrival,
+                delayMinutes: delay.delayMinutes,
+                distanceRemaining: updated.distanceRemaining,
+              }),
+            },
+          })
+
+          const managers = await prisma.user.findMany({
+            where: { millId: delivery.purchaseOrder.millId, role: 'MILL_MANAGER', isActive: true },
+            select: { id: true },
+          })
+          await queueAlertNotifications(
+            delayAlert.id,
+            {
+              title: delayAlert.title,
+              message: delayAlert.message,
+              severity: delayAlert.severity,
+              category: delayAlert.category,
+              actionRequired: delayAlert.actionRequired,
+            },
+            [...managers.map((m) => m.id), delivery.purchaseOrder.buyer.userId],
+            updated.trackingUrl!,
+            prisma
+          )
+        }
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      pointsRecorded: records.length,
+      status: updated.status,
+      distanceRemaining: updated.distanceRemaining,
+      estimatedArrival: updated.estimatedArrival,
+      trackingUrl: updated.trackingUrl,
+      delayAlert,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error recording delivery tracking:', error)
+    return NextResponse.json(
+      { error: 'Failed to record delivery tracking' },
+      { status: 500 }
+    )
+  }
+})
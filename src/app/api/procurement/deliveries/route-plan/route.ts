@@ -0,0 +1,137 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { isProcurementAdmin } from '@/lib/procurement-utils'
+import {
+  DEFAULT_TRAVEL_SPEED_KMH,
+  canManageDeliveries,
+  parseDeliveryLocations,
+} from '@/lib/logistics-utils'
+import { planDeliveryRoute, RouteStopInput } from '@/lib/route-planner'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const routePlanSchema = z.object({
+  deliveryIds: z.array(z.string()).min(1).max(100),
+  depot: z.object({
+    latitude: z.number().min(-90).max(90),
+    longitude: z.number().min(-180).max(180),
+  }),
+  departureTime: z.string().datetime().optional(),
+  vehicleCapacity: z.number().positive(), // kg
+  averageSpeedKmh: z.number().positive().optional(),
+  serviceMinutes: z.number().min(0).optional(),
+  timeWindows: z
+    .record(
+      z.object({
+        start: z.string().datetime().optional(),
+        end: z.string().datetime().optional(),
+      })
+    )
+    .optional(), // Keyed by delivery ID
+})
+
+const plannedDeliveryInclude = {
+  purchaseOrder: {
+    select: {
+      id: true,
+      poNumber: true,
+      millId: true,
+      rfp: { select: { deliveryLocations: true } },
+    },
+  },
+} satisfies Prisma.DeliveryInclude
+
+type PlannedDelivery = Prisma.DeliveryGetPayload<{ include: typeof plannedDeliveryInclude }>
+
+// POST - Plan an ordered multi-stop route for pending deliveries
+export const POST = withAuth('delivery:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    const body = await request.json()
+    const data = routePlanSchema.parse(body)
+
+    const deliveries: PlannedDelivery[] = await prisma.delivery.findMany({
+      where: { id: { in: data.deliveryIds } },
+      include: plannedDeliveryInclude,
+    })
+
+    const missing = data.deliveryIds.filter((id) => !deliveries.some((d) => d.id === id))
+    if (missing.length > 0) {
+      return NextResponse.json(
+        { error: 'Some deliveries were not found', deliveryIds: missing },
+        { status: 404 }
+      )
+    }
+
+    const forbidden = deliveries.filter(
+      (d) => !isProcurementAdmin(session.user.role) && !canManageDeliveries(d.purchaseOrder, session.user)
+    )
+    if (forbidden.length > 0) {
+      return NextResponse.json(
+        { error: 'You cannot plan routes for some of these deliveries', deliveryIds: forbidden.map((d) => d.id) },
+        { status: 403 }
+      )
+    }
+
+    const notPending = deliveries.filter((d: PlannedDelivery) => d.status !== 'SCHEDULED')
+    if (notPending.length > 0) {
+      return NextResponse.json(
+        { error: 'Only scheduled deliveries can be routed', deliveryIds: notPending.map((d) => d.id) },
+        { status: 400 }
+      )
+    }
+
+    const stops: RouteStopInput[] = []
+    const unlocated: Array<{ deliveryId: string; reason: string }> = []
+
+    deliveries.forEach((delivery: PlannedDelivery) => {
+      const location = parseDeliveryLocations(delivery.purchaseOrder.rfp?.deliveryLocations)
+        .find((l) => l.id === delivery.locationId)
+
+      if (!location || location.latitude === undefined || location.longitude === undefined) {
+        unlocated.push({ deliveryId: delivery.id, reason: 'Delivery location has no coordinates' })
+        return
+      }
+
+      const window = data.timeWindows?.[delivery.id]
+      stops.push({
+        deliveryId: delivery.id,
+        locationId: delivery.locationId,
+        name: location.name,
+        latitude: location.latitude,
+        longitude: location.longitude,
+        quantity: delivery.quantity,
+        windowStart: window?.start ? new Date(window.start) : null,
+        windowEnd: window?.end ? new Date(window.end) : null,
+      })
+    })
+
+    const plan = planDeliveryRoute(stops, {
+      depot: data.depot,
+      departureTime: data.departureTime ? new Date(data.departureTime) : new Date(),
+      vehicleCapacity: data.vehicleCapacity,
+      averageSpeedKmh: data.averageSpeedKmh ?? DEFAULT_TRAVEL_SPEED_KMH,
+      serviceMinutes: data.serviceMinutes ?? 15,
+    })
+
+    return NextResponse.json({
+      ...plan,
+      unassigned: [...unlocated, ...plan.unassigned],
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error planning delivery route:', error)
+    return NextResponse.json(
+      { error: 'Failed to plan delivery route' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,65 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { getMillReputation } from '@/lib/review-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+// GET - Mill procurement profile with buyer-review reputation
+export const GET = withAuth(null, async (
+  request: NextRequest,
+  { params }: RouteContext<{ id: string }>
+) => {
+  try {
+    const mill = await prisma.mill.findUnique({
+      where: { id: params.id },
+      select: {
+        id: true,
+        name: true,
+        code: true,
+        country: true,
+        region: true,
+        certificationStatus: true,
+        certificationDate: true,
+        isActive: true,
+      },
+    })
+
+    if (!mill) {
+      return NextResponse.json({ error: 'Mill not found' }, { status: 404 })
+    }
+
+    const [reputation, completedOrders, recentReviews] = await Promise.all([
+      getMillReputation(mill.id, prisma),
+      prisma.purchaseOrder.count({
+        where: { millId: mill.id, status: 'COMPLETED' },
+      }),
+      prisma.orderReview.findMany({
+        where: { reviewerType: 'BUYER', purchaseOrder: { millId: mill.id } },
+        select: {
+          id: true,
+          overallRating: true,
+          review: true,
+          wouldWorkAgain: true,
+          createdAt: true,
+          purchaseOrder: {
+            select: { poNumber: true, buyer: { select: { organizationName: true } } },
+          },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: 10,
+      }),
+    ])
+
+    return NextResponse.json({
+      ...mill,
+      reputation,
+      completedOrders,
+      recentReviews,
+    })
+  } catch (error) {
+    console.error('Error fetching mill profile:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch mill profile' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,222 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { BatchLog, PurchaseOrder } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import {
+  getPurchaseOrderParty,
+  parseJsonArray,
+  PO_ELIGIBLE_QC_STATUSES,
+} from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const linkBatchesSchema = z.object({
+  batchIds: z.array(z.string()).min(1), // BatchLog record IDs
+})
+
+// Orders the mill is still filling
+const LINKABLE_PO_STATUSES = ['CONFIRMED', 'IN_PRODUCTION', 'READY']
+
+export const GET = withAuth('purchase-order:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    if (!purchaseOrder || !getPurchaseOrderParty(purchaseOrder, session.user)) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    const batchIds = parseJsonArray(purchaseOrder.batchLinkage)
+    const batches = await prisma.batchLog.findMany({
+      where: { id: { in: batchIds } },
+      select: {
+        id: true,
+        batchId: true,
+        batchDateTime: true,
+        cropType: true,
+        productType: true,
+        outputWeight: true,
+        numberOfUnits: true,
+        packagingType: true,
+        status: true,
+        qcStatus: true,
+        qrCodeUrl: true,
+        qcTests: {
+          select: {
+            testType: true,
+            result: true,
+            unit: true,
+            status: true,
+          },
+        },
+      },
+      orderBy: { batchDateTime: 'asc' },
+    })
+
+    const linkedQuantity = batches.reduce(
+      (sum: number, b: Pick<BatchLog, 'outputWeight'>) => sum + (b.outputWeight || 0),
+      0
+    )
+
+    return NextResponse.json({
+      batches,
+      fulfilment: {
+        orderedQuantity: purchaseOrder.quantity,
+        linkedQuantity,
+        percentage:
+          purchaseOrder.quantity > 0
+            ? Math.min(100, (linkedQuantity / purchaseOrder.quantity) * 100)
+            : 0,
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching linked batches:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch linked batches' },
+      { status: 500 }
+    )
+  }
+})
+
+export const POST = withAuth('purchase-order:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { batchIds } = linkBatchesSchema.parse(body)
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    if (!purchaseOrder || getPurchaseOrderParty(purchaseOrder, session.user) !== 'MILL') {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    if (!LINKABLE_PO_STATUSES.includes(purchaseOrder.status)) {
+      return NextResponse.json(
+        { error: `Cannot link batches to a purchase order with status ${purchaseOrder.status}` },
+        { status: 400 }
+      )
+    }
+
+    const batches = await prisma.batchLog.findMany({
+      where: { id: { in: batchIds } },
+      select: {
+        id: true,
+        batchId: true,
+        millId: true,
+        status: true,
+        qcStatus: true,
+      },
+    })
+
+    const rejected: { batchId: string; reason: string }[] = []
+    batchIds.forEach((id) => {
+      const batch = batches.find((b: Pick<BatchLog, 'id'>) => b.id === id)
+      if (!batch || batch.millId !== purchaseOrder.millId) {
+        rejected.push({ batchId: id, reason: 'Batch not found for this mill' })
+      } else if (!batch.qcStatus || !PO_ELIGIBLE_QC_STATUSES.includes(batch.qcStatus)) {
+        rejected.push({ batchId: id, reason: `QC status ${batch.qcStatus || 'PENDING'} is not PASS or EXCELLENT` })
+      } else if (['QUARANTINED', 'FAILED', 'RECALLED'].includes(batch.status)) {
+        rejected.push({ batchId: id, reason: `Batch is ${batch.status}` })
+      }
+    })
+
+    // A batch can only fill one active order
+    const otherOrders = await prisma.purchaseOrder.findMany({
+      where: {
+        id: { not: purchaseOrder.id },
+        millId: purchaseOrder.millId,
+        status: { not: 'CANCELLED' },
+        OR: batchIds.map((id) => ({ batchLinkage: { contains: id } })),
+      },
+      select: { poNumber: true, batchLinkage: true },
+    })
+    otherOrders.forEach((order: Pick<PurchaseOrder, 'poNumber' | 'batchLinkage'>) => {
+      parseJsonArray(order.batchLinkage)
+        .filter((id) => batchIds.includes(id))
+        .forEach((id) => rejected.push({ batchId: id, reason: `Already linked to ${order.poNumber}` }))
+    })
+
+    if (rejected.length > 0) {
+      return NextResponse.json(
+        { error: 'Some batches cannot be linked', rejected },
+        { status: 400 }
+      )
+    }
+
+    const linked = Array.from(
+      new Set([...parseJsonArray(purchaseOrder.batchLinkage), ...batchIds])
+    )
+
+    const updated = await prisma.purchaseOrder.update({
+      where: { id: params.id },
+      data: { batchLinkage: JSON.stringify(linked) },
+    })
+
+    return NextResponse.json({ success: true, purchaseOrder: updated, linkedBatches: linked })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error linking batches:', error)
+    return NextResponse.json(
+      { error: 'Failed to link batches' },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = withAuth('purchase-order:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const batchId = searchParams.get('batchId')
+    if (!batchId) {
+      return NextResponse.json({ error: 'batchId is required' }, { status: 400 })
+    }
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    if (!purchaseOrder || getPurchaseOrderParty(purchaseOrder, session.user) !== 'MILL') {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    if (!LINKABLE_PO_STATUSES.includes(purchaseOrder.status)) {
+      return NextResponse.json(
+        { error: `Cannot unlink batches from a purchase order with status ${purchaseOrder.status}` },
+        { status: 400 }
+      )
+    }
+
+    const linked = parseJsonArray(purchaseOrder.batchLinkage).filter((id) => id !== batchId)
+
+    const updated = await prisma.purchaseOrder.update({
+      where: { id: params.id },
+      data: { batchLinkage: JSON.stringify(linked) },
+    })
+
+    return NextResponse.json({ success: true, purchaseOrder: updated, linkedBatches: linked })
+  } catch (error) {
+    console.error('Error unlinking batch:', error)
+    return NextResponse.json(
+      { error: 'Failed to unlink batch' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,175 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Delivery } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { getPurchaseOrderParty } from '@/lib/procurement-utils'
+import { DeliveryLocation, canManageDeliveries, parseDeliveryLocations } from '@/lib/logistics-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const scheduleDeliveriesSchema = z.object({
+  deliveries: z
+    .array(
+      z.object({
+        locationId: z.string(),
+        quantity: z.number().positive(),
+        scheduledDate: z.string(),
+        driverId: z.string().optional(),
+        vehicleInfo: z.string().optional(), // JSON
+      })
+    )
+    .min(1),
+})
+
+// Orders that can still have deliveries scheduled against them
+const SCHEDULABLE_PO_STATUSES = ['CONFIRMED', 'IN_PRODUCTION', 'READY', 'DELIVERED']
+
+export const GET = withAuth(['purchase-order:read', 'delivery:read'], async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: params.id },
+      include: {
+        buyer: { select: { userId: true } },
+        rfp: { select: { deliveryLocations: true } },
+        deliveries: { orderBy: { scheduledDate: 'asc' } },
+      },
+    })
+
+    if (
+      !purchaseOrder ||
+      (!getPurchaseOrderParty(purchaseOrder, session.user) &&
+        !canManageDeliveries(purchaseOrder, session.user))
+    ) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    const locations = parseDeliveryLocations(purchaseOrder.rfp?.deliveryLocations)
+    const deliveries = purchaseOrder.deliveries.map((d: Delivery) => ({
+      ...d,
+      location: locations.find((l: DeliveryLocation) => l.id === d.locationId) || null,
+    }))
+
+    const scheduledQuantity = purchaseOrder.deliveries
+      .filter((d: Delivery) => d.status !== 'FAILED')
+      .reduce((sum: number, d: Delivery) => sum + d.quantity, 0)
+    const receivedQuantity = purchaseOrder.deliveries
+      .filter((d: Delivery) => d.status === 'DELIVERED')
+      .reduce((sum: number, d: Delivery) => sum + (d.receivedQuantity ?? d.quantity), 0)
+
+    return NextResponse.json({
+      deliveries,
+      summary: {
+        orderedQuantity: purchaseOrder.quantity,
+        scheduledQuantity,
+        unscheduledQuantity: Math.max(0, purchaseOrder.quantity - scheduledQuantity),
+        receivedQuantity,
+      },
+    })
+  } catch (error) {
+    console.error('Error fetching deliveries:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch deliveries' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST - Split the order into scheduled deliveries per location
+export const POST = withAuth('delivery:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { deliveries } = scheduleDeliveriesSchema.parse(body)
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: params.id },
+      include: {
+        rfp: { select: { deliveryLocations: true } },
+        deliveries: { select: { quantity: true, status: true } },
+      },
+    })
+
+    if (!purchaseOrder) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    if (!canManageDeliveries(purchaseOrder, session.user)) {
+      return NextResponse.json(
+        { error: 'Only logistics planners or the mill manager can schedule deliveries' },
+        { status: 403 }
+      )
+    }
+
+    if (!SCHEDULABLE_PO_STATUSES.includes(purchaseOrder.status)) {
+      return NextResponse.json(
+        { error: `Cannot schedule deliveries for a purchase order with status ${purchaseOrder.status}` },
+        { status: 400 }
+      )
+    }
+
+    const locations = parseDeliveryLocations(purchaseOrder.rfp?.deliveryLocations)
+    if (locations.length > 0) {
+      const unknown = deliveries.filter((d) => !locations.some((l) => l.id === d.locationId))
+      if (unknown.length > 0) {
+        return NextResponse.json(
+          {
+            error: 'Unknown delivery location',
+            locationIds: unknown.map((d) => d.locationId),
+          },
+          { status: 400 }
+        )
+      }
+    }
+
+    const alreadyScheduled = purchaseOrder.deliveries
+      .filter((d: Pick<Delivery, 'status'>) => d.status !== 'FAILED')
+      .reduce((sum: number, d: Pick<Delivery, 'quantity'>) => sum + d.quantity, 0)
+    const requested = deliveries.reduce((sum, d) => sum + d.quantity, 0)
+
+    if (alreadyScheduled + requested > purchaseOrder.quantity) {
+      return NextResponse.json(
+        {
+          error: 'Scheduled quantity exceeds the order quantity',
+          orderedQuantity: purchaseOrder.quantity,
+          alreadyScheduled,
+          requested,
+        },
+        { status: 400 }
+      )
+    }
+
+    const created = await prisma.$transaction(
+      deliveries.map((d) =>
+        prisma.delivery.create({
+          data: {
+            poId: purchaseOrder.id,
+            locationId: d.locationId,
+            quantity: d.quantity,
+            scheduledDate: new Date(d.scheduledDate),
+            driverId: d.driverId,
+            vehicleInfo: d.vehicleInfo,
+            status: 'SCHEDULED',
+          },
+        })
+      )
+    )
+
+    return NextResponse.json({ success: true, deliveries: created }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error scheduling deliveries:', error)
+    return NextResponse.json(
+      { error: 'Failed to schedule deliveries' },
+      { status: 500 }
+    )
+  }
+})
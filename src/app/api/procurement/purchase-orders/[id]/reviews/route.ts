@@ -0,0 +1,158 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { OrderReview } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { getPurchaseOrderParty } from '@/lib/procurement-utils'
+import {
+  orderReviewSchema,
+  getInapplicableDimensions,
+  getBuyerReputation,
+} from '@/lib/review-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+export const GET = withAuth('purchase-order:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: params.id },
+      include: {
+        buyer: { select: { userId: true } },
+        reviews: { orderBy: { createdAt: 'asc' } },
+      },
+    })
+
+    const party = purchaseOrder ? getPurchaseOrderParty(purchaseOrder, session.user) : null
+    if (!purchaseOrder || !party) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    const reviewedBy: string[] = purchaseOrder.reviews.map((r: OrderReview) => r.reviewerType)
+
+    return NextResponse.json({
+      reviews: purchaseOrder.reviews,
+      canReview: purchaseOrder.status === 'COMPLETED' && party !== 'ADMIN' && !reviewedBy.includes(party),
+      pending: purchaseOrder.status === 'COMPLETED'
+        ? ['BUYER', 'MILL'].filter((p: string) => !reviewedBy.includes(p))
+        : [],
+    })
+  } catch (error) {
+    console.error('Error fetching order reviews:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch order reviews' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST - Review the other party once the order is completed
+export const POST = withAuth('review:create', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const data = orderReviewSchema.parse(body)
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    const party = purchaseOrder ? getPurchaseOrderParty(purchaseOrder, session.user) : null
+    if (!purchaseOrder || !party) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    if (party === 'ADMIN') {
+      return NextResponse.json(
+        { error: 'Only the buyer or the mill on this order can review it' },
+        { status: 403 }
+      )
+    }
+
+    if (purchaseOrder.status !== 'COMPLETED') {
+      return NextResponse.json(
+        { error: 'Orders can only be reviewed once completed' },
+        { status: 400 }
+      )
+    }
+
+    const inapplicable = getInapplicableDimensions(party, data)
+    if (inapplicable.length > 0) {
+      return NextResponse.json(
+        { error: `Ratings not applicable to a ${party === 'BUYER' ? 'mill' : 'buyer'}: ${inapplicable.join(', ')}` },
+        { status: 400 }
+      )
+    }
+
+    const existing = await prisma.orderReview.findUnique({
+      where: { poId_reviewerType: { poId: purchaseOrder.id, reviewerType: party } },
+    })
+    if (existing) {
+      return NextResponse.json(
+        { error: 'You have already reviewed this order' },
+        { status: 409 }
+      )
+    }
+
+    // Mirror the headline rating into the party-level review tables
+    const partyReview =
+      party === 'BUYER'
+        ? prisma.millReview.create({
+            data: {
+              millId: purchaseOrder.millId,
+              reviewerId: purchaseOrder.buyerId,
+              poId: purchaseOrder.id,
+              rating: data.overallRating,
+              review: data.review,
+              wouldOrderAgain: data.wouldWorkAgain,
+            },
+          })
+        : prisma.buyerReview.create({
+            data: {
+              buyerId: purchaseOrder.buyerId,
+              reviewerId: purchaseOrder.millId,
+              poId: purchaseOrder.id,
+              rating: data.overallRating,
+              review: data.review,
+              wouldAcceptAgain: data.wouldWorkAgain,
+            },
+          })
+
+    const [review] = await prisma.$transaction([
+      prisma.orderReview.create({
+        data: {
+          ...data,
+          poId: purchaseOrder.id,
+          reviewerId: session.user.id,
+          reviewerType: party,
+        },
+      }),
+      partyReview,
+    ])
+
+    if (party === 'MILL') {
+      const reputation = await getBuyerReputation(purchaseOrder.buyerId, prisma)
+      await prisma.buyerProfile.update({
+        where: { id: purchaseOrder.buyerId },
+        data: { rating: reputation.overallRating },
+      })
+    }
+
+    return NextResponse.json({ success: true, review }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating order review:', error)
+    return NextResponse.json(
+      { error: 'Failed to create order review' },
+      { status: 500 }
+    )
+  }
+})
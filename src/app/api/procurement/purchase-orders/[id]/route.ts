@@ -0,0 +1,116 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { getPurchaseOrderParty } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const updatePurchaseOrderSchema = z.object({
+  deliverySchedule: z.string().optional(), // JSON
+  paymentTerms: z.string().optional(),
+  qualityCheckpoints: z.string().optional(), // JSON
+  expectedDeliveryDate: z.string().optional(),
+  paymentDueDate: z.string().optional(),
+})
+
+export const GET = withAuth('purchase-order:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: params.id },
+      include: {
+        buyer: {
+          select: {
+            userId: true,
+            organizationName: true,
+            organizationType: true,
+            primaryContactName: true,
+            primaryContactEmail: true,
+          },
+        },
+        mill: {
+          select: {
+            name: true,
+            code: true,
+            country: true,
+            region: true,
+          },
+        },
+        rfp: {
+          select: {
+            referenceNumber: true,
+            title: true,
+            deliveryLocations: true,
+          },
+        },
+        deliveries: {
+          orderBy: { scheduledDate: 'asc' },
+        },
+      },
+    })
+
+    if (!purchaseOrder || !getPurchaseOrderParty(purchaseOrder, session.user)) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(purchaseOrder)
+  } catch (error) {
+    console.error('Error fetching purchase order:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch purchase order' },
+      { status: 500 }
+    )
+  }
+})
+
+export const PUT = withAuth('purchase-order:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const data = updatePurchaseOrderSchema.parse(body)
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    if (!purchaseOrder || getPurchaseOrderParty(purchaseOrder, session.user) !== 'BUYER') {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    if (purchaseOrder.status !== 'DRAFT') {
+      return NextResponse.json(
+        { error: 'Only draft purchase orders can be edited' },
+        { status: 400 }
+      )
+    }
+
+    const updated = await prisma.purchaseOrder.update({
+      where: { id: params.id },
+      data: {
+        ...data,
+        expectedDeliveryDate: data.expectedDeliveryDate
+          ? new Date(data.expectedDeliveryDate)
+          : undefined,
+        paymentDueDate: data.paymentDueDate ? new Date(data.paymentDueDate) : undefined,
+      },
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating purchase order:', error)
+    return NextResponse.json(
+      { error: 'Failed to update purchase order' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,157 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { queueAlertNotifications } from '@/lib/notification-preferences'
+import { getPOTransitionActor, getPurchaseOrderParty } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const statusSchema = z.object({
+  status: z.enum(['CONFIRMED', 'IN_PRODUCTION', 'READY', 'DELIVERED', 'COMPLETED', 'CANCELLED']),
+})
+
+export const POST = withAuth('purchase-order:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { status } = statusSchema.parse(body)
+
+    const purchaseOrder = await prisma.purchaseOrder.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    const party = purchaseOrder ? getPurchaseOrderParty(purchaseOrder, session.user) : null
+    if (!purchaseOrder || !party) {
+      return NextResponse.json({ error: 'Purchase order not found' }, { status: 404 })
+    }
+
+    const actor = getPOTransitionActor(purchaseOrder.status, status)
+    if (!actor) {
+      return NextResponse.json(
+        { error: `Cannot move purchase order from ${purchaseOrder.status} to ${status}` },
+        { status: 400 }
+      )
+    }
+
+    if (actor !== party) {
+      return NextResponse.json(
+        { error: `Only the ${actor.toLowerCase()} can mark this order ${status}` },
+        { status: 403 }
+      )
+    }
+
+    const now = new Date()
+    const updateData: any = { status }
+
+    switch (status) {
+      case 'CONFIRMED':
+        updateData.confirmedAt = now
+        updateData.confirmedBy = session.user.id
+        break
+      case 'IN_PRODUCTION':
+        updateData.productionStartDate = now
+        break
+      case 'DELIVERED':
+        updateData.actualDeliveryDate = now
+        break
+    }
+
+    const operations: any[] = [
+      prisma.purchaseOrder.update({
+        where: { id: params.id },
+        data: updateData,
+      }),
+    ]
+
+    if (status === 'COMPLETED') {
+      operations.push(
+        prisma.buyerProfile.update({
+          where: { id: purchaseOrder.buyerId },
+          data: { totalOrders: { increment: 1 } },
+        })
+      )
+    }
+
+    const [updated] = await prisma.$transaction(operations)
+
+    if (status === 'COMPLETED') {
+      await requestOrderReviews(updated)
+    }
+
+    return NextResponse.json({ success: true, purchaseOrder: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating purchase order status:', error)
+    return NextResponse.json(
+      { error: 'Failed to update purchase order status' },
+      { status: 500 }
+    )
+  }
+})
+
+/**
+ * Prompt the buyer and the mill's managers to review each other
+ */
+async function requestOrderReviews(order: {
+  id: string
+  poNumber: string
+  millId: string
+  buyerId: string
+}) {
+  const [buyer, managers] = await Promise.all([
+    prisma.buyerProfile.findUnique({
+      where: { id: order.buyerId },
+      select: { userId: true },
+    }),
+    prisma.user.findMany({
+      where: { millId: order.millId, role: 'MILL_MANAGER', isActive: true },
+      select: { id: true },
+    }),
+  ])
+
+  const alert = await prisma.alert.create({
+    data: {
+      type: 'ORDER_REVIEW_REQUESTED',
+      category: 'PROCUREMENT_DELIVERY',
+      severity: 'LOW',
+      title: `Review Order ${order.poNumber}`,
+      message: `${order.poNumber} is complete. Please rate your experience with the other party.`,
+      actionRequired: 'Submit an order review',
+      sourceType: 'PURCHASE_ORDER',
+      sourceId: order.id,
+      millId: order.millId,
+      metadata: JSON.stringify({
+        poId: order.id,
+        poNumber: order.poNumber,
+        buyerId: order.buyerId,
+      }),
+    },
+  })
+
+  const responseUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/procurement/purchase-orders/${order.id}/reviews`
+  const recipients: string[] = [
+    ...managers.map((m: { id: string }) => m.id),
+    ...(buyer ? [buyer.userId] : []),
+  ]
+
+  await queueAlertNotifications(
+    alert.id,
+    {
+      title: alert.title,
+      message: alert.message,
+      severity: alert.severity,
+      category: alert.category,
+      actionRequired: alert.actionRequired,
+    },
+    recipients,
+    responseUrl,
+    prisma
+  )
+}
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { isProcurementAdmin } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+export const GET = withAuth('purchase-order:read', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const limit = searchParams.get('limit') || '50'
+    const offset = searchParams.get('offset') || '0'
+
+    const where: any = {}
+    if (status) where.status = status
+
+    if (session.user.role === 'INSTITUTIONAL_BUYER') {
+      where.buyer = { userId: session.user.id }
+    } else if (session.user.millId) {
+      where.millId = session.user.millId
+    } else if (!isProcurementAdmin(session.user.role)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const purchaseOrders = await prisma.purchaseOrder.findMany({
+      where,
+      include: {
+        buyer: {
+          select: {
+            organizationName: true,
+            organizationType: true,
+          },
+        },
+        mill: {
+          select: {
+            name: true,
+            code: true,
+          },
+        },
+        rfp: {
+          select: {
+            referenceNumber: true,
+            title: true,
+          },
+        },
+        _count: {
+          select: { deliveries: true },
+        },
+      },
+      orderBy: { orderDate: 'desc' },
+      take: parseInt(limit),
+      skip: parseInt(offset),
+    })
+
+    const total = await prisma.purchaseOrder.count({ where })
+
+    return NextResponse.json({
+      purchaseOrders,
+      total,
+      limit: parseInt(limit),
+      offset: parseInt(offset),
+    })
+  } catch (error) {
+    console.error('Error fetching purchase orders:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch purchase orders' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,168 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Alert, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { queueAlertNotifications } from '@/lib/notification-preferences'
+import { parseJsonArray, shouldSendBidDeadlineReminder } from '@/lib/procurement-utils'
+import { withAuth } from '@/lib/rbac'
+
+const reminderRfpInclude = {
+  bids: {
+    select: {
+      id: true,
+      millId: true,
+      status: true,
+    },
+  },
+} satisfies Prisma.RFPInclude
+
+type ReminderRFP = Prisma.RFPGetPayload<{ include: typeof reminderRfpInclude }>
+type ReminderBid = ReminderRFP['bids'][number]
+
+// Generate BID_DEADLINE_APPROACHING alerts for mill managers with unsubmitted bids
+export const POST = withAuth('job:run', async (request: NextRequest) => {
+  try {
+    const remindersGenerated: any[] = []
+    const errors: any[] = []
+    const now = new Date()
+
+    // Open RFPs closing within the widest reminder window
+    const rfps: ReminderRFP[] = await prisma.rFP.findMany({
+      where: {
+        status: 'OPEN',
+        bidDeadline: {
+          gt: now,
+          lte: new Date(now.getTime() + 72 * 60 * 60 * 1000),
+        },
+      },
+      include: reminderRfpInclude,
+    })
+
+    for (const rfp of rfps) {
+      // Mills with a draft bid, plus invited mills that have not started one
+      const millIds = new Set<string>(
+        rfp.bids.filter((b: ReminderBid) => b.status === 'DRAFT').map((b: ReminderBid) => b.millId)
+      )
+      if (rfp.visibility === 'INVITATION_ONLY') {
+        const biddingMills = new Set(rfp.bids.map((b: ReminderBid) => b.millId))
+        parseJsonArray(rfp.invitedMills)
+          .filter((millId: string) => !biddingMills.has(millId))
+          .forEach((millId: string) => millIds.add(millId))
+      }
+
+      for (const millId of Array.from(millIds)) {
+        try {
+          const previousAlerts: Pick<Alert, 'metadata'>[] = await prisma.alert.findMany({
+            where: {
+              type: 'BID_DEADLINE_APPROACHING',
+              sourceId: rfp.id,
+              millId,
+            },
+            select: { metadata: true },
+          })
+
+          const remindersSent = previousAlerts
+            .map((a: Pick<Alert, 'metadata'>) => {
+              try {
+                return JSON.parse(a.metadata || '{}').reminderHours
+              } catch {
+                return undefined
+              }
+            })
+            .filter((h: unknown): h is number => typeof h === 'number')
+
+          const reminderCheck = shouldSendBidDeadlineReminder(rfp.bidDeadline, remindersSent, now)
+          if (!reminderCheck.shouldSend) continue
+
+          const hoursRemaining = Math.max(
+            1,
+            Math.round((rfp.bidDeadline.getTime() - now.getTime()) / (60 * 60 * 1000))
+          )
+          const draftBid = rfp.bids.find(
+            (b: ReminderBid) => b.millId === millId && b.status === 'DRAFT'
+          )
+          const severity = reminderCheck.reminderHours <= 24 ? 'HIGH' : 'MEDIUM'
+
+          const alert = await prisma.alert.create({
+            data: {
+              type: 'BID_DEADLINE_APPROACHING',
+              category: 'PROCUREMENT_DELIVERY',
+              severity,
+              title: `Bid Deadline Approaching: ${rfp.referenceNumber}`,
+              message: draftBid
+                ? `Your draft bid for "${rfp.title}" has not been submitted. Bidding closes in ${hoursRemaining} hours.`
+                : `Your mill was invited to bid on "${rfp.title}". Bidding closes in ${hoursRemaining} hours.`,
+              actionRequired: 'Submit bid before the deadline',
+              deadline: rfp.bidDeadline,
+              sourceType: 'PROCUREMENT',
+              sourceId: rfp.id,
+              millId,
+              metadata: JSON.stringify({
+                rfpId: rfp.id,
+                referenceNumber: rfp.referenceNumber,
+                bidId: draftBid?.id,
+                bidDeadline: rfp.bidDeadline,
+                hoursRemaining,
+                reminderHours: reminderCheck.reminderHours,
+              }),
+            },
+          })
+
+          const managers: { id: string }[] = await prisma.user.findMany({
+            where: { millId, role: 'MILL_MANAGER', isActive: true },
+            select: { id: true },
+          })
+
+          const responseUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/procurement/rfps/${rfp.id}`
+          await queueAlertNotifications(
+            alert.id,
+            {
+              title: alert.title,
+              message: alert.message,
+              severity: alert.severity,
+              category: alert.category,
+              actionRequired: alert.actionRequired,
+              deadline: alert.deadline,
+            },
+            managers.map((manager: { id: string }) => manager.id),
+            responseUrl,
+            prisma
+          )
+
+          remindersGenerated.push({
+            rfpId: rfp.id,
+            referenceNumber: rfp.referenceNumber,
+            millId,
+            hoursRemaining,
+            reminderHours: reminderCheck.reminderHours,
+            managersNotified: managers.length,
+            alertId: alert.id,
+          })
+        } catch (error) {
+          console.error(`Error processing bid reminder for RFP ${rfp.id}, mill ${millId}:`, error)
+          errors.push({
+            rfpId: rfp.id,
+            millId,
+            error: error instanceof Error ? error.message : 'Unknown error',
+          })
+        }
+      }
+    }
+
+    return NextResponse.json({
+      success: true,
+      summary: {
+        rfpsProcessed: rfps.length,
+        remindersGenerated: remindersGenerated.length,
+        errors: errors.length,
+      },
+      reminders: remindersGenerated,
+      errors: errors.length > 0 ? errors : undefined,
+    })
+  } catch (error) {
+    console.error('Error generating bid deadline reminders:', error)
+    return NextResponse.json(
+      { error: 'Failed to generate reminders' },
+      { status: 500 }
+    )
+  }
+})
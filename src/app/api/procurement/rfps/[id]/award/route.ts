@@ -0,0 +1,102 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Bid, Prisma } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { buildPurchaseOrderFromBid, canTransitionRFP } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const awardSchema = z.object({
+  bidId: z.string(),
+})
+
+export const POST = withAuth('rfp:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { bidId } = awardSchema.parse(body)
+
+    const rfp = await prisma.rFP.findUnique({
+      where: { id: params.id },
+      include: {
+        buyer: { select: { userId: true } },
+        bids: { select: { id: true, status: true } },
+      },
+    })
+
+    if (!rfp || rfp.buyer.userId !== session.user.id) {
+      return NextResponse.json({ error: 'RFP not found' }, { status: 404 })
+    }
+
+    if (!canTransitionRFP(rfp.status, 'AWARDED')) {
+      return NextResponse.json(
+        { error: 'RFP must be closed before it can be awarded' },
+        { status: 400 }
+      )
+    }
+
+    const bid = rfp.bids.find((b: Pick<Bid, 'id' | 'status'>) => b.id === bidId)
+    if (!bid || (bid.status !== 'SUBMITTED' && bid.status !== 'SHORTLISTED')) {
+      return NextResponse.json(
+        { error: 'Only submitted or shortlisted bids can be awarded' },
+        { status: 400 }
+      )
+    }
+
+    const awardedBid = await prisma.bid.findUnique({
+      where: { id: bidId },
+      include: { rfp: true },
+    })
+
+    // Awarding issues a draft purchase order for the mill to confirm
+    const orderData: Prisma.PurchaseOrderUncheckedCreateInput = await buildPurchaseOrderFromBid(
+      awardedBid!,
+      prisma
+    )
+
+    const [updated, , , purchaseOrder] = await prisma.$transaction([
+      prisma.rFP.update({
+        where: { id: rfp.id },
+        data: {
+          status: 'AWARDED',
+          awardedBidId: bidId,
+        },
+      }),
+      prisma.bid.update({
+        where: { id: bidId },
+        data: { status: 'AWARDED' },
+      }),
+      prisma.bid.updateMany({
+        where: {
+          rfpId: rfp.id,
+          id: { not: bidId },
+          status: { in: ['SUBMITTED', 'SHORTLISTED'] },
+        },
+        data: { status: 'NOT_SELECTED' },
+      }),
+      prisma.purchaseOrder.create({
+        data: orderData,
+      }),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      rfp: updated,
+      awardedBidId: bidId,
+      purchaseOrder,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error awarding RFP:', error)
+    return NextResponse.json(
+      { error: 'Failed to award RFP' },
+      { status: 500 }
+    )
+  }
+})
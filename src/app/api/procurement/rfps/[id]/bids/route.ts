@@ -0,0 +1,144 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import {
+  bidSchema,
+  calculateBidTotals,
+  canViewRFP,
+  isProcurementAdmin,
+} from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+export const POST = withAuth('bid:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    if (session.user.role !== 'MILL_MANAGER' || !session.user.millId) {
+      return NextResponse.json(
+        { error: 'Only mill managers can prepare bids' },
+        { status: 403 }
+      )
+    }
+
+    const body = await request.json()
+    const data = bidSchema.parse(body)
+
+    const rfp = await prisma.rFP.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    if (!rfp || !canViewRFP(rfp, session.user)) {
+      return NextResponse.json({ error: 'RFP not found' }, { status: 404 })
+    }
+
+    if (rfp.status !== 'OPEN') {
+      return NextResponse.json(
+        { error: 'RFP is not open for bidding' },
+        { status: 400 }
+      )
+    }
+
+    // One active bid per mill per RFP
+    const existingBid = await prisma.bid.findFirst({
+      where: {
+        rfpId: rfp.id,
+        millId: session.user.millId,
+        status: { not: 'WITHDRAWN' },
+      },
+    })
+
+    if (existingBid) {
+      return NextResponse.json(
+        { error: 'Your mill already has a bid on this RFP', bidId: existingBid.id },
+        { status: 409 }
+      )
+    }
+
+    const totals = calculateBidTotals(
+      data.unitPrice,
+      rfp.totalVolume,
+      data.deliveryCost,
+      data.additionalCosts
+    )
+
+    const bid = await prisma.bid.create({
+      data: {
+        ...data,
+        ...totals,
+        rfpId: rfp.id,
+        millId: session.user.millId,
+        status: 'DRAFT',
+      },
+    })
+
+    return NextResponse.json({ success: true, bid }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating bid:', error)
+    return NextResponse.json(
+      { error: 'Failed to create bid' },
+      { status: 500 }
+    )
+  }
+})
+
+export const GET = withAuth('bid:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const rfp = await prisma.rFP.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    if (!rfp || !canViewRFP(rfp, session.user)) {
+      return NextResponse.json({ error: 'RFP not found' }, { status: 404 })
+    }
+
+    const where: any = { rfpId: rfp.id }
+
+    if (rfp.buyer.userId === session.user.id || isProcurementAdmin(session.user.role)) {
+      // Drafts stay private to the mill preparing them
+      where.status = { not: 'DRAFT' }
+    } else if (session.user.millId) {
+      where.millId = session.user.millId
+    } else {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    const bids = await prisma.bid.findMany({
+      where,
+      include: {
+        mill: {
+          select: {
+            name: true,
+            code: true,
+            country: true,
+            region: true,
+            certificationStatus: true,
+          },
+        },
+        _count: {
+          select: { questions: true, negotiations: true },
+        },
+      },
+      orderBy: { submittedAt: 'asc' },
+    })
+
+    return NextResponse.json({ bids, total: bids.length })
+  } catch (error) {
+    console.error('Error fetching bids:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch bids' },
+      { status: 500 }
+    )
+  }
+})
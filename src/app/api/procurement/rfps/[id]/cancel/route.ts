@@ -0,0 +1,58 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { canTransitionRFP } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const cancelSchema = z.object({
+  reason: z.string().min(1),
+})
+
+export const POST = withAuth('rfp:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { reason } = cancelSchema.parse(body)
+
+    const rfp = await prisma.rFP.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    if (!rfp || rfp.buyer.userId !== session.user.id) {
+      return NextResponse.json({ error: 'RFP not found' }, { status: 404 })
+    }
+
+    if (!canTransitionRFP(rfp.status, 'CANCELLED')) {
+      return NextResponse.json(
+        { error: `Cannot cancel an RFP with status ${rfp.status}` },
+        { status: 400 }
+      )
+    }
+
+    const updated = await prisma.rFP.update({
+      where: { id: params.id },
+      data: {
+        status: 'CANCELLED',
+        cancelledAt: new Date(),
+        cancellationReason: reason,
+      },
+    })
+
+    return NextResponse.json({ success: true, rfp: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error cancelling RFP:', error)
+    return NextResponse.json(
+      { error: 'Failed to cancel RFP' },
+      { status: 500 }
+    )
+  }
+})
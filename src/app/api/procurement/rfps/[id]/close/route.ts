@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { canTransitionRFP } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+export const POST = withAuth('rfp:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const rfp = await prisma.rFP.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    if (!rfp || rfp.buyer.userId !== session.user.id) {
+      return NextResponse.json({ error: 'RFP not found' }, { status: 404 })
+    }
+
+    if (!canTransitionRFP(rfp.status, 'CLOSED')) {
+      return NextResponse.json(
+        { error: `Cannot close an RFP with status ${rfp.status}` },
+        { status: 400 }
+      )
+    }
+
+    const updated = await prisma.rFP.update({
+      where: { id: params.id },
+      data: {
+        status: 'CLOSED',
+        closedAt: new Date(),
+      },
+    })
+
+    return NextResponse.json({ success: true, rfp: updated })
+  } catch (error) {
+    console.error('Error closing RFP:', error)
+    return NextResponse.json(
+      { error: 'Failed to close RFP' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Bid } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { isProcurementAdmin, parseJsonArray } from '@/lib/procurement-utils'
+import {
+  BidScoringInput,
+  loadBidScoringInputs,
+  parseEvaluationCriteria,
+  normalizeWeights,
+  rankBids,
+} from '@/lib/bid-scoring'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+async function evaluateRFP(rfpId: string, user: { id: string; role: string }) {
+  const rfp = await prisma.rFP.findUnique({
+    where: { id: rfpId },
+    include: {
+      buyer: { select: { userId: true } },
+      bids: {
+        where: { status: { in: ['SUBMITTED', 'SHORTLISTED', 'AWARDED', 'NOT_SELECTED'] } },
+        include: {
+          mill: {
+            select: {
+              name: true,
+              code: true,
+              region: true,
+              country: true,
+              certificationStatus: true,
+            },
+          },
+        },
+      },
+    },
+  })
+
+  if (!rfp || (rfp.buyer.userId !== user.id && !isProcurementAdmin(user.role))) {
+    return null
+  }
+
+  const criteria = parseEvaluationCriteria(rfp.evaluationCriteria)
+  const inputs = await loadBidScoringInputs(rfp.bids, prisma)
+  const scores = rankBids(
+    inputs,
+    {
+      maxUnitPrice: rfp.maxUnitPrice,
+      capacityRequirement: rfp.capacityRequirement,
+    },
+    criteria
+  )
+
+  const shortlisted = parseJsonArray(rfp.shortlistedBids)
+  const comparison = scores.map((score) => {
+    const bid = rfp.bids.find((b: Bid) => b.id === score.bidId)!
+    const input = inputs.find((i: BidScoringInput) => i.bidId === score.bidId)!
+    return {
+      ...score,
+      mill: bid.mill,
+      status: bid.status,
+      shortlisted: shortlisted.includes(bid.id),
+      unitPrice: bid.unitPrice,
+      totalBidAmount: bid.totalBidAmount,
+      leadTime: bid.leadTime,
+      paymentTerms: bid.paymentTerms,
+      complianceScore: input.complianceScore,
+      qcPassRate: input.qcPassRate,
+      averageRating: input.averageRating,
+      dailyCapacity: input.dailyCapacity,
+    }
+  })
+
+  return {
+    rfp: {
+      id: rfp.id,
+      referenceNumber: rfp.referenceNumber,
+      title: rfp.title,
+      status: rfp.status,
+      maxUnitPrice: rfp.maxUnitPrice,
+      capacityRequirement: rfp.capacityRequirement,
+      awardedBidId: rfp.awardedBidId,
+    },
+    criteria: normalizeWeights(criteria),
+    comparison,
+  }
+}
+
+// GET - Ranked comparison of bids without persisting scores
+export const GET = withAuth('bid:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const evaluation = await evaluateRFP(params.id, session.user)
+    if (!evaluation) {
+      return NextResponse.json({ error: 'RFP not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(evaluation)
+  } catch (error) {
+    console.error('Error comparing bids:', error)
+    return NextResponse.json(
+      { error: 'Failed to compare bids' },
+      { status: 500 }
+    )
+  }
+})
+
+// POST - Score bids and store matchScore / evaluationScore on each bid
+export const POST = withAuth('rfp:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const evaluation = await evaluateRFP(params.id, session.user)
+    if (!evaluation) {
+      return NextResponse.json({ error: 'RFP not found' }, { status: 404 })
+    }
+
+    await Promise.all(
+      evaluation.comparison.map((score) =>
+        prisma.bid.update({
+          where: { id: score.bidId },
+          data: {
+            matchScore: score.matchScore,
+            evaluationScore: score.evaluationScore,
+          },
+        })
+      )
+    )
+
+    return NextResponse.json({
+      success: true,
+      ...evaluation,
+    })
+  } catch (error) {
+    console.error('Error evaluating bids:', error)
+    return NextResponse.json(
+      { error: 'Failed to evaluate bids' },
+      { status: 500 }
+    )
+  }
+})
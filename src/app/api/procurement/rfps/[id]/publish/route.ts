@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { canTransitionRFP, validateRFPTimeline } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+export const POST = withAuth('rfp:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const rfp = await prisma.rFP.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true, verificationStatus: true } } },
+    })
+
+    if (!rfp || rfp.buyer.userId !== session.user.id) {
+      return NextResponse.json({ error: 'RFP not found' }, { status: 404 })
+    }
+
+    if (rfp.buyer.verificationStatus !== 'VERIFIED') {
+      return NextResponse.json(
+        { error: 'Your organisation must be verified by FWGA before publishing RFPs' },
+        { status: 403 }
+      )
+    }
+
+    if (!canTransitionRFP(rfp.status, 'OPEN')) {
+      return NextResponse.json(
+        { error: `Cannot publish an RFP with status ${rfp.status}` },
+        { status: 400 }
+      )
+    }
+
+    const timelineError = validateRFPTimeline(rfp.openDate, rfp.bidDeadline, true)
+    if (timelineError) {
+      return NextResponse.json({ error: timelineError }, { status: 400 })
+    }
+
+    const updated = await prisma.rFP.update({
+      where: { id: params.id },
+      data: {
+        status: 'OPEN',
+        publishedAt: new Date(),
+      },
+    })
+
+    return NextResponse.json({ success: true, rfp: updated })
+  } catch (error) {
+    console.error('Error publishing RFP:', error)
+    return NextResponse.json(
+      { error: 'Failed to publish RFP' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,167 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import {
+  rfpSchema,
+  validateRFPTimeline,
+  calculateNumberOfUnits,
+  canViewRFP,
+} from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+export const GET = withAuth('rfp:read', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const rfp = await prisma.rFP.findUnique({
+      where: { id: params.id },
+      include: {
+        buyer: {
+          select: {
+            userId: true,
+            organizationName: true,
+            organizationType: true,
+            verificationStatus: true,
+            rating: true,
+          },
+        },
+        _count: {
+          select: { bids: true },
+        },
+      },
+    })
+
+    if (!rfp || !canViewRFP(rfp, session.user)) {
+      return NextResponse.json({ error: 'RFP not found' }, { status: 404 })
+    }
+
+    return NextResponse.json(rfp)
+  } catch (error) {
+    console.error('Error fetching RFP:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch RFP' },
+      { status: 500 }
+    )
+  }
+})
+
+export const PUT = withAuth('rfp:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const data = rfpSchema.partial().parse(body)
+
+    const rfp = await prisma.rFP.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    if (!rfp || rfp.buyer.userId !== session.user.id) {
+      return NextResponse.json({ error: 'RFP not found' }, { status: 404 })
+    }
+
+    if (rfp.status !== 'DRAFT') {
+      return NextResponse.json(
+        { error: 'Only draft RFPs can be edited' },
+        { status: 400 }
+      )
+    }
+
+    const openDate = data.openDate ? new Date(data.openDate) : rfp.openDate
+    const bidDeadline = data.bidDeadline ? new Date(data.bidDeadline) : rfp.bidDeadline
+
+    const timelineError = validateRFPTimeline(openDate, bidDeadline)
+    if (timelineError) {
+      return NextResponse.json({ error: timelineError }, { status: 400 })
+    }
+
+    const visibility = data.visibility ?? rfp.visibility
+    const invitedMills = data.invitedMills
+      ? JSON.stringify(data.invitedMills)
+      : rfp.invitedMills
+    if (visibility === 'INVITATION_ONLY' && (!invitedMills || invitedMills === '[]')) {
+      return NextResponse.json(
+        { error: 'Invitation-only RFPs must invite at least one mill' },
+        { status: 400 }
+      )
+    }
+
+    const { invitedMills: _invited, ...fields } = data
+    const updateData: any = {
+      ...fields,
+      openDate,
+      bidDeadline,
+      invitedMills,
+    }
+
+    if (data.estimatedAwardDate) {
+      updateData.estimatedAwardDate = new Date(data.estimatedAwardDate)
+    }
+
+    // Recalculate units when volume or packaging changed without an explicit count
+    if ((data.totalVolume || data.unitPackaging) && data.numberOfUnits === undefined) {
+      updateData.numberOfUnits = calculateNumberOfUnits(
+        data.totalVolume ?? rfp.totalVolume,
+        data.unitPackaging ?? rfp.unitPackaging
+      )
+    }
+
+    const updated = await prisma.rFP.update({
+      where: { id: params.id },
+      data: updateData,
+    })
+
+    return NextResponse.json(updated)
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating RFP:', error)
+    return NextResponse.json(
+      { error: 'Failed to update RFP' },
+      { status: 500 }
+    )
+  }
+})
+
+export const DELETE = withAuth('rfp:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const rfp = await prisma.rFP.findUnique({
+      where: { id: params.id },
+      include: { buyer: { select: { userId: true } } },
+    })
+
+    if (!rfp || rfp.buyer.userId !== session.user.id) {
+      return NextResponse.json({ error: 'RFP not found' }, { status: 404 })
+    }
+
+    // Published RFPs must be cancelled instead so bidders keep an audit trail
+    if (rfp.status !== 'DRAFT') {
+      return NextResponse.json(
+        { error: 'Only draft RFPs can be deleted; cancel published RFPs instead' },
+        { status: 400 }
+      )
+    }
+
+    await prisma.rFP.delete({
+      where: { id: params.id },
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error deleting RFP:', error)
+    return NextResponse.json(
+      { error: 'Failed to delete RFP' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,90 @@
+import { NextRequest, NextResponse } from 'next/server'
+import type { Bid } from '@prisma/client'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { parseJsonArray } from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const shortlistSchema = z.object({
+  bidIds: z.array(z.string()),
+})
+
+export const POST = withAuth('rfp:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { bidIds } = shortlistSchema.parse(body)
+
+    const rfp = await prisma.rFP.findUnique({
+      where: { id: params.id },
+      include: {
+        buyer: { select: { userId: true } },
+        bids: { select: { id: true, status: true } },
+      },
+    })
+
+    if (!rfp || rfp.buyer.userId !== session.user.id) {
+      return NextResponse.json({ error: 'RFP not found' }, { status: 404 })
+    }
+
+    if (rfp.status !== 'OPEN' && rfp.status !== 'CLOSED') {
+      return NextResponse.json(
+        { error: `Cannot shortlist bids on an RFP with status ${rfp.status}` },
+        { status: 400 }
+      )
+    }
+
+    const eligible = rfp.bids.filter(
+      (b: Pick<Bid, 'id' | 'status'>) => b.status === 'SUBMITTED' || b.status === 'SHORTLISTED'
+    )
+    const invalid = bidIds.filter(
+      (id: string) => !eligible.some((b: Pick<Bid, 'id'>) => b.id === id)
+    )
+    if (invalid.length > 0) {
+      return NextResponse.json(
+        { error: 'Some bids cannot be shortlisted', bidIds: invalid },
+        { status: 400 }
+      )
+    }
+
+    // Bids dropped from the shortlist go back to SUBMITTED
+    const previous = parseJsonArray(rfp.shortlistedBids)
+    const removed = previous.filter((id) => !bidIds.includes(id))
+
+    const [updated] = await prisma.$transaction([
+      prisma.rFP.update({
+        where: { id: rfp.id },
+        data: { shortlistedBids: JSON.stringify(bidIds) },
+      }),
+      prisma.bid.updateMany({
+        where: { id: { in: bidIds } },
+        data: { status: 'SHORTLISTED' },
+      }),
+      prisma.bid.updateMany({
+        where: { id: { in: removed }, status: 'SHORTLISTED' },
+        data: { status: 'SUBMITTED' },
+      }),
+    ])
+
+    return NextResponse.json({
+      success: true,
+      rfp: updated,
+      shortlisted: bidIds,
+      removed,
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error shortlisting bids:', error)
+    return NextResponse.json(
+      { error: 'Failed to shortlist bids' },
+      { status: 500 }
+    )
+  }
+})
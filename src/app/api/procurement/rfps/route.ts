@@ -0,0 +1,141 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import {
+  rfpSchema,
+  generateRFPReferenceNumber,
+  validateRFPTimeline,
+  calculateNumberOfUnits,
+  isProcurementAdmin,
+} from '@/lib/procurement-utils'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+export const POST = withAuth('rfp:manage', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    const body = await request.json()
+    const data = rfpSchema.parse(body)
+
+    const buyer = await prisma.buyerProfile.findUnique({
+      where: { userId: session.user.id },
+    })
+
+    if (!buyer) {
+      return NextResponse.json(
+        { error: 'Only institutional buyers can create RFPs' },
+        { status: 403 }
+      )
+    }
+
+    const openDate = data.openDate ? new Date(data.openDate) : new Date()
+    const bidDeadline = new Date(data.bidDeadline)
+
+    const timelineError = validateRFPTimeline(openDate, bidDeadline)
+    if (timelineError) {
+      return NextResponse.json({ error: timelineError }, { status: 400 })
+    }
+
+    if (data.visibility === 'INVITATION_ONLY' && !data.invitedMills?.length) {
+      return NextResponse.json(
+        { error: 'Invitation-only RFPs must invite at least one mill' },
+        { status: 400 }
+      )
+    }
+
+    const referenceNumber = await generateRFPReferenceNumber(new Date(), prisma)
+    const { invitedMills, ...fields } = data
+
+    const rfp = await prisma.rFP.create({
+      data: {
+        ...fields,
+        buyerId: buyer.id,
+        referenceNumber,
+        numberOfUnits:
+          data.numberOfUnits ?? calculateNumberOfUnits(data.totalVolume, data.unitPackaging),
+        openDate,
+        bidDeadline,
+        estimatedAwardDate: data.estimatedAwardDate ? new Date(data.estimatedAwardDate) : null,
+        invitedMills: invitedMills ? JSON.stringify(invitedMills) : null,
+        status: 'DRAFT',
+      },
+    })
+
+    return NextResponse.json({ success: true, rfp }, { status: 201 })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating RFP:', error)
+    return NextResponse.json(
+      { error: 'Failed to create RFP' },
+      { status: 500 }
+    )
+  }
+})
+
+export const GET = withAuth('rfp:read', async (request: NextRequest, { session }: RouteContext) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+    const commodity = searchParams.get('commodity')
+    const limit = searchParams.get('limit') || '50'
+    const offset = searchParams.get('offset') || '0'
+
+    const where: any = {}
+    if (status) where.status = status
+    if (commodity) where.commodity = commodity
+
+    // Scope results by role
+    if (session.user.role === 'INSTITUTIONAL_BUYER') {
+      where.buyer = { userId: session.user.id }
+    } else if (!isProcurementAdmin(session.user.role)) {
+      // Mills see published RFPs that are public or that invited them
+      where.status = status && status !== 'DRAFT' ? status : { not: 'DRAFT' }
+      where.OR = [
+        { visibility: 'PUBLIC' },
+        session.user.millId
+          ? { visibility: 'INVITATION_ONLY', invitedMills: { contains: session.user.millId } }
+          : null,
+      ].filter(Boolean)
+    }
+
+    const rfps = await prisma.rFP.findMany({
+      where,
+      include: {
+        buyer: {
+          select: {
+            organizationName: true,
+            organizationType: true,
+            verificationStatus: true,
+          },
+        },
+        _count: {
+          select: { bids: true },
+        },
+      },
+      orderBy: { bidDeadline: 'asc' },
+      take: parseInt(limit),
+      skip: parseInt(offset),
+    })
+
+    const total = await prisma.rFP.count({ where })
+
+    return NextResponse.json({
+      rfps,
+      total,
+      limit: parseInt(limit),
+      offset: parseInt(offset),
+    })
+  } catch (error) {
+    console.error('Error fetching RFPs:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch RFPs' },
+      { status: 500 }
+    )
+  }
+})
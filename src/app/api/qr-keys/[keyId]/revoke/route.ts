@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { getRequestMeta } from '@/lib/auth'
+import { appendAuditLog } from '@/lib/audit-log'
+import { withAuth, RouteContext } from '@/lib/rbac'
+
+const revokeKeySchema = z.object({
+  reason: z.string().min(1),
+})
+
+// POST - Revoke a signing key; every code it signed then verifies as SUSPICIOUS
+export const POST = withAuth('qr-key:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ keyId: string }>
+) => {
+  try {
+    const body = await request.json()
+    const { reason } = revokeKeySchema.parse(body)
+
+    const key = await prisma.qrSigningKey.findUnique({
+      where: { keyId: params.keyId },
+    })
+
+    if (!key) {
+      return NextResponse.json({ error: 'Signing key not found' }, { status: 404 })
+    }
+
+    if (key.status === 'REVOKED') {
+      return NextResponse.json({ error: 'Signing key is already revoked' }, { status: 400 })
+    }
+
+    const updated = await prisma.qrSigningKey.update({
+      where: { keyId: params.keyId },
+      data: {
+        status: 'REVOKED',
+        revokedAt: new Date(),
+        revocationReason: reason,
+      },
+      select: { keyId: true, status: true, revokedAt: true, revocationReason: true },
+    })
+
+    await appendAuditLog(prisma, {
+      userId: session.user.id,
+      action: 'QR_SIGNING_KEY_REVOKED',
+      resourceType: 'QR_SIGNING_KEY',
+      resourceId: key.id,
+      oldValues: { status: key.status },
+      newValues: { status: 'REVOKED', reason },
+      meta: getRequestMeta(request),
+    })
+
+    return NextResponse.json({
+      success: true,
+      key: updated,
+      // Signing stops until a new QR_SIGNING_KEY_ID is deployed
+      requiresNewKey: key.status === 'ACTIVE',
+    })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error revoking QR signing key:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke QR signing key' },
+      { status: 500 }
+    )
+  }
+})
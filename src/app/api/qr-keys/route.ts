@@ -0,0 +1,28 @@
+import { NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+
+// GET - Public keys for offline verification of batch QR codes (public)
+// Revoked keys stay listed so verifiers can reject codes they signed.
+export async function GET() {
+  try {
+    const keys = await prisma.qrSigningKey.findMany({
+      select: {
+        keyId: true,
+        publicKey: true,
+        status: true,
+        activatedAt: true,
+        retiredAt: true,
+        revokedAt: true,
+      },
+      orderBy: { activatedAt: 'desc' },
+    })
+
+    return NextResponse.json({ algorithm: 'Ed25519', keys })
+  } catch (error) {
+    console.error('Error fetching QR signing keys:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch QR signing keys' },
+      { status: 500 }
+    )
+  }
+}
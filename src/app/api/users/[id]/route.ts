@@ -0,0 +1,159 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { getRequestMeta } from '@/lib/auth'
+import { withAuth, RouteContext, UserRole } from '@/lib/rbac'
+import { USER_ROLES, logUserChange, requiresMill } from '@/lib/user-management'
+
+const updateUserSchema = z.object({
+  role: z.enum(USER_ROLES as [UserRole, ...UserRole[]]).optional(),
+  millId: z.string().nullable().optional(),
+  isActive: z.boolean().optional(),
+})
+
+const userSelect = {
+  id: true,
+  email: true,
+  name: true,
+  role: true,
+  isActive: true,
+  millId: true,
+  lastLoginAt: true,
+  lockedUntil: true,
+  createdAt: true,
+  updatedAt: true,
+  mill: { select: { id: true, name: true, code: true } },
+}
+
+// GET - A single user with their recent account history
+export const GET = withAuth('user:manage', async (
+  request: NextRequest,
+  { params }: RouteContext<{ id: string }>
+) => {
+  try {
+    const user = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: userSelect,
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    const history = await prisma.auditLog.findMany({
+      where: { resourceType: 'USER', resourceId: params.id },
+      orderBy: { createdAt: 'desc' },
+      take: 50,
+    })
+
+    return NextResponse.json({ user, history })
+  } catch (error) {
+    console.error('Error fetching user:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch user' },
+      { status: 500 }
+    )
+  }
+})
+
+// PATCH - Change role, reassign mill or (de)activate a user
+export const PATCH = withAuth('user:manage', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const body = await request.json()
+    const data = updateUserSchema.parse(body)
+
+    const user = await prisma.user.findUnique({
+      where: { id: params.id },
+      select: { id: true, role: true, millId: true, isActive: true },
+    })
+
+    if (!user) {
+      return NextResponse.json({ error: 'User not found' }, { status: 404 })
+    }
+
+    // Stop administrators locking themselves out
+    if (
+      params.id === session.user.id &&
+      ((data.role && data.role !== user.role) || data.isActive === false)
+    ) {
+      return NextResponse.json(
+        { error: 'You cannot change your own role or deactivate your own account' },
+        { status: 400 }
+      )
+    }
+
+    const role = data.role ?? user.role
+    const millId = data.millId !== undefined ? data.millId : user.millId
+
+    if (requiresMill(role) && !millId) {
+      return NextResponse.json(
+        { error: `A mill is required for ${role}` },
+        { status: 400 }
+      )
+    }
+
+    if (data.millId) {
+      const mill = await prisma.mill.findUnique({ where: { id: data.millId }, select: { id: true } })
+      if (!mill) {
+        return NextResponse.json({ error: 'Mill not found' }, { status: 404 })
+      }
+    }
+
+    const updated = await prisma.user.update({
+      where: { id: params.id },
+      data: {
+        role,
+        millId,
+        isActive: data.isActive ?? user.isActive,
+      },
+      select: userSelect,
+    })
+
+    // Deactivation ends every open session immediately
+    if (data.isActive === false && user.isActive) {
+      await prisma.userSession.updateMany({
+        where: { userId: params.id, revokedAt: null },
+        data: { revokedAt: new Date() },
+      })
+    }
+
+    const meta = getRequestMeta(request)
+    const changes: Array<{ action: string; field: 'role' | 'millId' | 'isActive' }> = [
+      { action: 'USER_ROLE_CHANGED', field: 'role' },
+      { action: 'USER_MILL_REASSIGNED', field: 'millId' },
+      {
+        action: updated.isActive ? 'USER_REACTIVATED' : 'USER_DEACTIVATED',
+        field: 'isActive',
+      },
+    ]
+
+    for (const change of changes) {
+      if (user[change.field] === updated[change.field]) continue
+      await logUserChange(prisma, {
+        actorId: session.user.id,
+        action: change.action,
+        resourceId: params.id,
+        oldValues: { [change.field]: user[change.field] },
+        newValues: { [change.field]: updated[change.field] },
+        meta,
+      })
+    }
+
+    return NextResponse.json({ success: true, user: updated })
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error updating user:', error)
+    return NextResponse.json(
+      { error: 'Failed to update user' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { getRequestMeta } from '@/lib/auth'
+import { withAuth, RouteContext, hasPermission } from '@/lib/rbac'
+import { getInvitationStatus, logUserChange } from '@/lib/user-management'
+
+// DELETE - Revoke a pending invitation
+export const DELETE = withAuth('user:invite', async (
+  request: NextRequest,
+  { params, session }: RouteContext<{ id: string }>
+) => {
+  try {
+    const invitation = await prisma.userInvitation.findUnique({
+      where: { id: params.id },
+    })
+
+    if (
+      !invitation ||
+      (invitation.invitedById !== session.user.id &&
+        !hasPermission(session.user.role, 'user:manage'))
+    ) {
+      return NextResponse.json({ error: 'Invitation not found' }, { status: 404 })
+    }
+
+    const status = getInvitationStatus(invitation)
+    if (status !== 'PENDING') {
+      return NextResponse.json(
+        { error: `Cannot revoke an invitation that is ${status.toLowerCase()}` },
+        { status: 400 }
+      )
+    }
+
+    await prisma.userInvitation.update({
+      where: { id: params.id },
+      data: { revokedAt: new Date() },
+    })
+
+    await logUserChange(prisma, {
+      actorId: session.user.id,
+      action: 'USER_INVITATION_REVOKED',
+      resourceType: 'USER_INVITATION',
+      resourceId: invitation.id,
+      oldValues: { email: invitation.email, role: invitation.role, millId: invitation.millId },
+      meta: getRequestMeta(request),
+    })
+
+    return NextResponse.json({ success: true })
+  } catch (error) {
+    console.error('Error revoking invitation:', error)
+    return NextResponse.json(
+      { error: 'Failed to revoke invitation' },
+      { status: 500 }
+    )
+  }
+})
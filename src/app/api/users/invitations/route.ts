@@ -0,0 +1,188 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { z } from 'zod'
+import { getRequestMeta } from '@/lib/auth'
+import {
+  withAuth,
+  RouteContext,
+  UserRole,
+  canAccessMill,
+  hasPermission,
+  resolveMillId,
+} from '@/lib/rbac'
+import {
+  INVITATION_TTL_DAYS,
+  USER_ROLES,
+  canInvite,
+  emailSchema,
+  generateInvitationToken,
+  getInvitationStatus,
+  getInvitationUrl,
+  logUserChange,
+  requiresMill,
+} from '@/lib/user-management'
+
+const invitationSchema = z.object({
+  email: emailSchema,
+  role: z.enum(USER_ROLES as [UserRole, ...UserRole[]]),
+  millId: z.string().optional(),
+})
+
+// POST - Invite a user into a role (and mill, for mill roles)
+export const POST = withAuth('user:invite', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    const body = await request.json()
+    const data = invitationSchema.parse(body)
+    const { email } = data
+
+    if (!canInvite(session.user.role, data.role)) {
+      return NextResponse.json(
+        { error: `You cannot invite users as ${data.role}` },
+        { status: 403 }
+      )
+    }
+
+    if (data.millId && !canAccessMill(session, data.millId)) {
+      return NextResponse.json({ error: 'Forbidden' }, { status: 403 })
+    }
+
+    // Mill managers always invite into their own mill
+    const millId = resolveMillId(session, data.millId) ?? null
+
+    if (requiresMill(data.role) && !millId) {
+      return NextResponse.json(
+        { error: `A mill is required for ${data.role}` },
+        { status: 400 }
+      )
+    }
+
+    if (millId) {
+      const mill = await prisma.mill.findUnique({ where: { id: millId }, select: { id: true } })
+      if (!mill) {
+        return NextResponse.json({ error: 'Mill not found' }, { status: 404 })
+      }
+    }
+
+    const existingUser = await prisma.user.findUnique({ where: { email }, select: { id: true } })
+    if (existingUser) {
+      return NextResponse.json(
+        { error: 'A user with this email already exists' },
+        { status: 409 }
+      )
+    }
+
+    const pending = await prisma.userInvitation.findFirst({
+      where: {
+        email,
+        acceptedAt: null,
+        revokedAt: null,
+        expiresAt: { gt: new Date() },
+      },
+      select: { id: true },
+    })
+    if (pending) {
+      return NextResponse.json(
+        { error: 'An invitation is already pending for this email', invitationId: pending.id },
+        { status: 409 }
+      )
+    }
+
+    const { token, tokenHash } = generateInvitationToken()
+    const expiresAt = new Date(Date.now() + INVITATION_TTL_DAYS * 24 * 60 * 60 * 1000)
+
+    const invitation = await prisma.userInvitation.create({
+      data: {
+        email,
+        role: data.role,
+        millId,
+        tokenHash,
+        invitedById: session.user.id,
+        expiresAt,
+      },
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        millId: true,
+        expiresAt: true,
+        createdAt: true,
+      },
+    })
+
+    await logUserChange(prisma, {
+      actorId: session.user.id,
+      action: 'USER_INVITED',
+      resourceType: 'USER_INVITATION',
+      resourceId: invitation.id,
+      newValues: { email, role: data.role, millId, expiresAt },
+      meta: getRequestMeta(request),
+    })
+
+    // The token is only ever returned here; share the link with the invitee
+    return NextResponse.json(
+      { success: true, invitation, invitationUrl: getInvitationUrl(token) },
+      { status: 201 }
+    )
+  } catch (error) {
+    if (error instanceof z.ZodError) {
+      return NextResponse.json(
+        { error: 'Invalid request', details: error.errors },
+        { status: 400 }
+      )
+    }
+    console.error('Error creating invitation:', error)
+    return NextResponse.json(
+      { error: 'Failed to create invitation' },
+      { status: 500 }
+    )
+  }
+})
+
+// GET - Invitations sent by the caller (all invitations for user administrators)
+export const GET = withAuth('user:invite', async (
+  request: NextRequest,
+  { session }: RouteContext
+) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const status = searchParams.get('status')
+
+    const where: any = {}
+    if (!hasPermission(session.user.role, 'user:manage')) {
+      where.invitedById = session.user.id
+    }
+
+    const invitations = await prisma.userInvitation.findMany({
+      where,
+      select: {
+        id: true,
+        email: true,
+        role: true,
+        millId: true,
+        expiresAt: true,
+        acceptedAt: true,
+        acceptedUserId: true,
+        revokedAt: true,
+        createdAt: true,
+        mill: { select: { id: true, name: true, code: true } },
+        invitedBy: { select: { id: true, name: true, email: true } },
+      },
+      orderBy: { createdAt: 'desc' },
+    })
+
+    const withStatus = invitations
+      .map((invitation: any) => ({ ...invitation, status: getInvitationStatus(invitation) }))
+      .filter((invitation: any) => !status || invitation.status === status)
+
+    return NextResponse.json({ invitations: withStatus })
+  } catch (error) {
+    console.error('Error fetching invitations:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch invitations' },
+      { status: 500 }
+    )
+  }
+})
@@ -0,0 +1,59 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { prisma } from '@/lib/db'
+import { withAuth } from '@/lib/rbac'
+
+// GET - User directory for administrators
+export const GET = withAuth('user:manage', async (request: NextRequest) => {
+  try {
+    const { searchParams } = new URL(request.url)
+    const role = searchParams.get('role')
+    const millId = searchParams.get('millId')
+    const isActive = searchParams.get('isActive')
+    const search = searchParams.get('search')
+    const limit = searchParams.get('limit') || '50'
+    const offset = searchParams.get('offset') || '0'
+
+    const where: any = {}
+    if (role) where.role = role
+    if (millId) where.millId = millId
+    if (isActive !== null) where.isActive = isActive === 'true'
+    if (search) {
+      where.OR = [{ email: { contains: search } }, { name: { contains: search } }]
+    }
+
+    const [users, total] = await Promise.all([
+      prisma.user.findMany({
+        where,
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          isActive: true,
+          millId: true,
+          lastLoginAt: true,
+          lockedUntil: true,
+          createdAt: true,
+          mill: { select: { id: true, name: true, code: true } },
+        },
+        orderBy: { createdAt: 'desc' },
+        take: parseInt(limit),
+        skip: parseInt(offset),
+      }),
+      prisma.user.count({ where }),
+    ])
+
+    return NextResponse.json({
+      users,
+      total,
+      limit: parseInt(limit),
+      offset: parseInt(offset),
+    })
+  } catch (error) {
+    console.error('Error fetching users:', error)
+    return NextResponse.json(
+      { error: 'Failed to fetch users' },
+      { status: 500 }
+    )
+  }
+})
@@ -59,6 +59,7 @@ export default function NewBatchPage() {
 
   const [expectedPremix, setExpectedPremix] = useState(0)
   const [premixVariance, setPremixVariance] = useState<any>(null)
+  const [premixSuggestions, setPremixSuggestions] = useState<any[]>([])
   const [loading, setLoading] = useState(false)
 
   // Calculate expected premix when inputs change
@@ -71,6 +72,22 @@ export default function NewBatchPage() {
     }
   }, [formData.inputWeight, formData.dosingRate])
 
+  // Suggest premix lots from inventory, soonest expiry first (FEFO)
+  useEffect(() => {
+    if (!formData.premixType) {
+      setPremixSuggestions([])
+      return
+    }
+
+    const params = new URLSearchParams({ premixType: formData.premixType })
+    if (expectedPremix > 0) params.set('quantity', expectedPremix.toString())
+
+    fetch(`/api/premix/fefo?${params}`)
+      .then((res) => (res.ok ? res.json() : { suggestions: [] }))
+      .then((data) => setPremixSuggestions(data.suggestions || []))
+      .catch(() => setPremixSuggestions([]))
+  }, [formData.premixType, expectedPremix])
+
   // Calculate variance when actual premix is entered
   useEffect(() => {
     if (formData.actualPremixUsed && expectedPremix > 0) {
@@ -131,7 +148,10 @@ export default function NewBatchPage() {
       const data = await response.json()
 
       if (data.success) {
-        alert(`Batch ${data.batchId} created successfully!`)
+        const warnings = data.inventoryWarnings?.length
+          ? `\n\n${data.inventoryWarnings.join('\n')}`
+          : ''
+        alert(`Batch ${data.batchId} created successfully!${warnings}`)
         router.push(`/production/batches/${data.batch.id}`)
       } else {
         alert('Failed to create batch: ' + data.error)
@@ -379,6 +399,36 @@ export default function NewBatchPage() {
                       }
                       className="w-full px-3 py-2 border rounded-md"
                     />
+                    {premixSuggestions.length > 0 && (
+                      <div className="mt-2 space-y-1">
+                        <p className="text-xs text-gray-500">Use first (earliest expiry):</p>
+                        {premixSuggestions.slice(0, 3).map((lot) => (
+                          <button
+                            key={lot.lotId}
+                            type="button"
+                            onClick={() =>
+                              setFormData({
+                                ...formData,
+                                premixBatchNumber: lot.premixBatchNumber,
+                                premixManufacturer: lot.manufacturer,
+                                premixExpiryDate: lot.expiryDate.slice(0, 10),
+                              })
+                            }
+                            className={`block w-full text-left text-xs px-2 py-1 rounded border ${
+                              formData.premixBatchNumber === lot.premixBatchNumber
+                                ? 'bg-blue-50 border-blue-300'
+                                : lot.status === 'EXPIRING'
+                                ? 'bg-yellow-50 border-yellow-300'
+                                : 'bg-gray-50 border-gray-200'
+                            }`}
+                          >
+                            {lot.premixBatchNumber} · expires {lot.expiryDate.slice(0, 10)} ·{' '}
+                            {lot.quantityOnHand.toFixed(1)} kg on hand
+                            {lot.suggestedQuantity ? ` · use ${lot.suggestedQuantity.toFixed(3)} kg` : ''}
+                          </button>
+                        ))}
+                      </div>
+                    )}
                   </div>
 
                   <div>
@@ -0,0 +1,402 @@
+// Time-driven escalation of alerts nobody acknowledged or acted on, and of overdue action items
+//
+// Each alert type has a path of roles (operator → manager → FWGA inspector → program
+// manager) that is walked one level per threshold. Mill roles are scoped to the
+// alert's mill; FWGA roles are not.
+
+import { appendAuditLog } from '@/lib/audit-log'
+import { processNotificationQueue } from '@/lib/notification-delivery'
+import { queueAlertNotifications } from '@/lib/notification-preferences'
+
+const HOUR_MS = 60 * 60 * 1000
+
+// Open alerts and action items are read this many at a time
+export const ESCALATION_PAGE_SIZE = 200
+
+export type EscalationRole = 'MILL_OPERATOR' | 'MILL_MANAGER' | 'FWGA_INSPECTOR' | 'FWGA_PROGRAM_MANAGER'
+
+export type EscalationReason = 'NO_ACKNOWLEDGMENT' | 'NO_ACTION_TAKEN'
+
+const MILL_ROLES: EscalationRole[] = ['MILL_OPERATOR', 'MILL_MANAGER']
+
+const DEFAULT_ESCALATION_PATH: EscalationRole[] = ['MILL_MANAGER', 'FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER']
+
+// Level 1 is the first entry; the alert's original recipients are level 0
+export const ESCALATION_PATHS: Record<string, EscalationRole[]> = {
+  QC_FAILURE: ['MILL_MANAGER', 'FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'],
+  CONTAMINATION_RISK: ['MILL_MANAGER', 'FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'],
+  COUNTERFEIT_SUSPECTED: ['FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'],
+  CRITICAL_NON_COMPLIANCE: ['FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'],
+  COMPLIANCE_SCORE_DROP: ['FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'],
+  CERTIFICATION_EXPIRY: ['FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'],
+  CALIBRATION_DUE: ['MILL_OPERATOR', 'MILL_MANAGER'],
+  CALIBRATION_OVERDUE: ['MILL_MANAGER', 'FWGA_INSPECTOR'],
+  EQUIPMENT_DRIFT: ['MILL_MANAGER', 'FWGA_INSPECTOR'],
+  PREMIX_EXPIRY: ['MILL_MANAGER', 'FWGA_INSPECTOR'],
+  PREMIX_USAGE_ANOMALY: ['MILL_MANAGER', 'FWGA_INSPECTOR'],
+  LOW_PREMIX_INVENTORY: ['MILL_MANAGER'],
+  PRODUCTION_TARGET_MISS: ['MILL_MANAGER'],
+  DELIVERY_DELAY: ['MILL_MANAGER'],
+  DELIVERY_ISSUE: ['MILL_MANAGER', 'FWGA_INSPECTOR'],
+  TRAINING_OVERDUE: ['MILL_MANAGER'],
+  // Informational; nothing to escalate
+  NEW_RFP_MATCH: [],
+  BID_DEADLINE_APPROACHING: [],
+  ORDER_REVIEW_REQUESTED: [],
+  NEW_TRAINING_AVAILABLE: [],
+}
+
+// Time allowed at each level before moving up, by severity
+export const ESCALATION_THRESHOLDS: Record<EscalationReason, Record<string, number>> = {
+  NO_ACKNOWLEDGMENT: {
+    CRITICAL: 0.5 * HOUR_MS,
+    HIGH: 2 * HOUR_MS,
+    MEDIUM: 8 * HOUR_MS,
+    LOW: 24 * HOUR_MS,
+  },
+  // Used when an acknowledged alert has no deadline, and between later levels
+  NO_ACTION_TAKEN: {
+    CRITICAL: 4 * HOUR_MS,
+    HIGH: 24 * HOUR_MS,
+    MEDIUM: 72 * HOUR_MS,
+    LOW: 7 * 24 * HOUR_MS,
+  },
+}
+
+// Overdue action items: manager first, then FWGA
+const ACTION_ITEM_ESCALATION_PATH: EscalationRole[] = ['MILL_MANAGER', 'FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER']
+
+// Time between action item escalation levels, by priority
+const ACTION_ITEM_ESCALATION_INTERVALS: Record<string, number> = {
+  CRITICAL: 4 * HOUR_MS,
+  HIGH: 24 * HOUR_MS,
+  MEDIUM: 48 * HOUR_MS,
+  LOW: 72 * HOUR_MS,
+}
+
+/**
+ * The path stored on the alert from its template when it was raised, else the
+ * built-in path for its type
+ */
+export function getEscalationPath(alert: { type: string; metadata?: string | null }): EscalationRole[] {
+  if (alert.metadata) {
+    try {
+      const { escalationPath } = JSON.parse(alert.metadata)
+      if (Array.isArray(escalationPath)) return escalationPath
+    } catch {
+      // Not written by the trigger route; fall back to the type's path
+    }
+  }
+  return ESCALATION_PATHS[alert.type] ?? DEFAULT_ESCALATION_PATH
+}
+
+/**
+ * Why an open alert would escalate now, and from when. Unacknowledged alerts
+ * escalate a threshold after creation; acknowledged ones once their deadline passes.
+ * Further levels for the same reason follow a threshold after the previous one.
+ */
+export function getAlertEscalationDue(
+  alert: any,
+  lastEscalation: { reason: string; escalatedAt: Date } | null
+): { reason: EscalationReason; dueAt: Date } {
+  const reason: EscalationReason = alert.isAcknowledged ? 'NO_ACTION_TAKEN' : 'NO_ACKNOWLEDGMENT'
+  const threshold = ESCALATION_THRESHOLDS[reason][alert.severity] ?? ESCALATION_THRESHOLDS[reason].LOW
+
+  let dueAt: number
+  if (lastEscalation && lastEscalation.reason === reason) {
+    dueAt = new Date(lastEscalation.escalatedAt).getTime() + threshold
+  } else if (reason === 'NO_ACKNOWLEDGMENT') {
+    dueAt = new Date(alert.createdAt).getTime() + threshold
+  } else {
+    dueAt = alert.deadline
+      ? new Date(alert.deadline).getTime()
+      : new Date(alert.acknowledgedAt ?? alert.createdAt).getTime() + threshold
+  }
+
+  return { reason, dueAt: new Date(dueAt) }
+}
+
+/**
+ * Active users at the first level from `fromLevel` on that has anyone in it.
+ * Levels whose role has no one (e.g. a mill without a manager) are skipped.
+ */
+async function findNextLevel(
+  path: EscalationRole[],
+  fromLevel: number,
+  millId: string | null,
+  prisma: any
+): Promise<{ level: number; role: EscalationRole; users: any[] } | null> {
+  for (let level = fromLevel; level <= path.length; level++) {
+    const role = path[level - 1]
+    if (MILL_ROLES.includes(role) && !millId) continue
+
+    const users = await prisma.user.findMany({
+      where: {
+        role,
+        isActive: true,
+        ...(MILL_ROLES.includes(role) ? { millId } : {}),
+      },
+      select: { id: true, name: true, role: true },
+    })
+    if (users.length > 0) return { level, role, users }
+  }
+  return null
+}
+
+function alertResponseUrl(alertId: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/alerts/${alertId}`
+}
+
+/**
+ * Move one alert to the next level of its path if it is due. The alert's updatedAt
+ * is used as a claim so two overlapping runs cannot escalate the same level twice.
+ */
+export async function escalateAlert(alert: any, prisma: any, now: Date = new Date()) {
+  const lastEscalation = alert.escalations[0] ?? null
+  const { reason, dueAt } = getAlertEscalationDue(alert, lastEscalation)
+  if (dueAt > now) return null
+
+  const path = getEscalationPath(alert)
+  const next = await findNextLevel(path, (lastEscalation?.level ?? 0) + 1, alert.millId, prisma)
+  if (!next) return null
+
+  const overdueHours = Math.round((now.getTime() - dueAt.getTime()) / HOUR_MS)
+  const notes =
+    reason === 'NO_ACKNOWLEDGMENT'
+      ? `Not acknowledged ${Math.round((now.getTime() - new Date(alert.createdAt).getTime()) / HOUR_MS)} hour(s) after it was raised`
+      : alert.deadline && !lastEscalation
+      ? `No action taken by the deadline (${new Date(alert.deadline).toUTCString()})`
+      : `Still unresolved ${overdueHours} hour(s) past the escalation threshold`
+
+  const claimed = await prisma.$transaction(async (tx: any) => {
+    const { count } = await tx.alert.updateMany({
+      where: { id: alert.id, updatedAt: alert.updatedAt, isResolved: false },
+      data: { status: 'ESCALATED' },
+    })
+    if (count !== 1) return false
+
+    await tx.alertEscalation.createMany({
+      data: next.users.map((user) => ({
+        alertId: alert.id,
+        fromUserId: alert.acknowledgedBy,
+        toUserId: user.id,
+        level: next.level,
+        reason,
+        triggerCondition: JSON.stringify({
+          reason,
+          severity: alert.severity,
+          previousLevel: lastEscalation?.level ?? 0,
+          dueAt,
+          role: next.role,
+        }),
+        notes,
+      })),
+    })
+    return true
+  })
+  if (!claimed) return null
+
+  const { notificationCount } = await queueAlertNotifications(
+    alert.id,
+    {
+      title: `ESCALATED: ${alert.title}`,
+      message: `${alert.message}\n\nEscalated to ${next.role.replace(/_/g, ' ').toLowerCase()} (level ${next.level}). ${notes}.`,
+      severity: alert.severity,
+      category: alert.category,
+      actionRequired: alert.actionRequired,
+      deadline: alert.deadline,
+      escalationLevel: next.level,
+    },
+    next.users.map((user) => user.id),
+    alertResponseUrl(alert.id),
+    prisma
+  )
+
+  await appendAuditLog(prisma, {
+    userId: null,
+    action: 'ESCALATE_ALERT',
+    resourceType: 'ALERT',
+    resourceId: alert.id,
+    oldValues: { status: alert.status, escalationLevel: lastEscalation?.level ?? 0 },
+    newValues: { status: 'ESCALATED', escalationLevel: next.level, reason, role: next.role },
+  })
+
+  return {
+    alertId: alert.id,
+    severity: alert.severity,
+    reason,
+    level: next.level,
+    role: next.role,
+    recipients: next.users.length,
+    notificationCount,
+  }
+}
+
+/**
+ * Move one overdue action item up a level: it is marked OVERDUE and its assignee and
+ * the next role in line are notified. Claimed on escalationLevel like escalateAlert.
+ */
+export async function escalateActionItem(item: any, prisma: any, now: Date = new Date()) {
+  const interval = ACTION_ITEM_ESCALATION_INTERVALS[item.priority] ?? ACTION_ITEM_ESCALATION_INTERVALS.LOW
+  const dueAt = item.lastEscalatedAt
+    ? new Date(item.lastEscalatedAt).getTime() + interval
+    : new Date(item.dueDate).getTime()
+  if (dueAt > now.getTime()) return null
+
+  const next = await findNextLevel(ACTION_ITEM_ESCALATION_PATH, item.escalationLevel + 1, item.millId, prisma)
+  if (!next) return null
+
+  const { count } = await prisma.actionItem.updateMany({
+    where: { id: item.id, escalationLevel: item.escalationLevel },
+    data: { status: 'OVERDUE', escalationLevel: next.level, lastEscalatedAt: now },
+  })
+  if (count !== 1) return null
+
+  const overdueDays = Math.max(Math.floor((now.getTime() - new Date(item.dueDate).getTime()) / (24 * HOUR_MS)), 0)
+  const { notificationCount } = await queueAlertNotifications(
+    item.alertId,
+    {
+      title: `Overdue action item: ${item.title}`,
+      message: `"${item.title}" assigned to ${item.assignedToName} was due ${new Date(item.dueDate).toUTCString()} (${overdueDays} day(s) ago) and has been escalated to level ${next.level}.`,
+      severity: item.priority,
+      category: item.alert.category,
+      actionRequired: item.requiredAction,
+      deadline: item.dueDate,
+      escalationLevel: next.level,
+    },
+    [item.assignedToId, ...next.users.map((user) => user.id)],
+    alertResponseUrl(item.alertId),
+    prisma
+  )
+
+  await appendAuditLog(prisma, {
+    userId: null,
+    action: 'ESCALATE_ACTION_ITEM',
+    resourceType: 'ACTION_ITEM',
+    resourceId: item.id,
+    oldValues: { status: item.status, escalationLevel: item.escalationLevel },
+    newValues: { status: 'OVERDUE', escalationLevel: next.level, role: next.role },
+  })
+
+  return {
+    actionItemId: item.id,
+    alertId: item.alertId,
+    priority: item.priority,
+    level: next.level,
+    role: next.role,
+    recipients: next.users.length + 1,
+    notificationCount,
+  }
+}
+
+/**
+ * Call `handle` on every row matching `args`, read a page at a time in id order.
+ * The id cursor keeps later pages stable while rows are updated during the run.
+ */
+async function forEachPage(
+  model: any,
+  args: any,
+  pageSize: number,
+  handle: (row: any) => Promise<void>
+): Promise<number> {
+  let scanned = 0
+  let cursor: string | null = null
+  for (;;) {
+    const page: any[] = await model.findMany({
+      ...args,
+      orderBy: { id: 'asc' },
+      take: pageSize,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    })
+    for (const row of page) await handle(row)
+    scanned += page.length
+    if (page.length < pageSize) return scanned
+    cursor = page[page.length - 1].id
+  }
+}
+
+/**
+ * Scan every open alert and overdue action item and escalate whatever is due. Run
+ * on a short schedule (every few minutes) so CRITICAL thresholds are honoured.
+ */
+export async function runEscalations(prisma: any, options: { pageSize?: number; now?: Date } = {}) {
+  const now = options.now ?? new Date()
+  const pageSize = options.pageSize ?? ESCALATION_PAGE_SIZE
+
+  const alertResults: any[] = []
+  const actionItemResults: any[] = []
+  const errors: any[] = []
+  const escalatedAlertIds: string[] = []
+
+  const alertsScanned = await forEachPage(
+    prisma.alert,
+    {
+      where: {
+        status: { in: ['ACTIVE', 'ACKNOWLEDGED', 'ESCALATED'] },
+        isResolved: false,
+      },
+      include: {
+        escalations: {
+          orderBy: { level: 'desc' },
+          take: 1,
+          select: { level: true, reason: true, escalatedAt: true },
+        },
+      },
+    },
+    pageSize,
+    async (alert) => {
+      try {
+        const result = await escalateAlert(alert, prisma, now)
+        if (result) {
+          alertResults.push(result)
+          if (result.severity === 'CRITICAL') escalatedAlertIds.push(alert.id)
+        }
+      } catch (error) {
+        console.error(`Error escalating alert ${alert.id}:`, error)
+        errors.push({ alertId: alert.id, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+  )
+
+  // Items already at the top of their path have nowhere left to go
+  const actionItemsScanned = await forEachPage(
+    prisma.actionItem,
+    {
+      where: {
+        status: { in: ['PENDING', 'IN_PROGRESS', 'OVERDUE'] },
+        dueDate: { lt: now },
+        escalationLevel: { lt: ACTION_ITEM_ESCALATION_PATH.length },
+      },
+      include: { alert: { select: { category: true } } },
+    },
+    pageSize,
+    async (item) => {
+      try {
+        const result = await escalateActionItem(item, prisma, now)
+        if (result) actionItemResults.push(result)
+      } catch (error) {
+        console.error(`Error escalating action item ${item.id}:`, error)
+        errors.push({ actionItemId: item.id, error: error instanceof Error ? error.message : 'Unknown error' })
+      }
+    }
+  )
+
+  // Critical escalations go out now, like newly triggered critical alerts
+  for (const alertId of escalatedAlertIds) {
+    await processNotificationQueue(prisma, { alertId })
+  }
+
+  return {
+    summary: {
+      alertsScanned,
+      alertsEscalated: alertResults.length,
+      actionItemsScanned,
+      actionItemsEscalated: actionItemResults.length,
+      notificationsQueued: [...alertResults, ...actionItemResults].reduce((sum, r) => sum + r.notificationCount, 0),
+      errors: errors.length,
+    },
+    alerts: alertResults,
+    actionItems: actionItemResults,
+    errors,
+  }
+}
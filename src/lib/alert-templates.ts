@@ -0,0 +1,382 @@
+// Alert templates: the wording, deadline, recipients, channels and escalation path of
+// each alert type, editable by FWGA per country without code changes
+//
+// Title, message, summary and action text may contain {{placeholders}} that are filled
+// from the trigger data ({{batchId}}), the source ({{sourceId}}) or the mill ({{mill.name}}).
+
+import { z } from 'zod'
+import type { Prisma } from '@prisma/client'
+import type { EscalationRole } from '@/lib/alert-escalation'
+import type { NotificationChannelName } from '@/lib/notification-channels'
+import { ALERT_CATEGORIES, SEVERITY_CHANNELS } from '@/lib/notification-preferences'
+
+export const ALERT_TYPES = [
+  'QC_FAILURE',
+  'CONTAMINATION_RISK',
+  'COUNTERFEIT_SUSPECTED',
+  'PREMIX_EXPIRY',
+  'CRITICAL_NON_COMPLIANCE',
+  'COMPLIANCE_SCORE_DROP',
+  'CERTIFICATION_EXPIRY',
+  'CALIBRATION_DUE',
+  'CALIBRATION_OVERDUE',
+  'EQUIPMENT_DRIFT',
+  'PREMIX_USAGE_ANOMALY',
+  'LOW_PREMIX_INVENTORY',
+  'PRODUCTION_TARGET_MISS',
+  'NEW_RFP_MATCH',
+  'BID_DEADLINE_APPROACHING',
+  'DELIVERY_DELAY',
+  'DELIVERY_ISSUE',
+  'ORDER_REVIEW_REQUESTED',
+  'TRAINING_OVERDUE',
+  'NEW_TRAINING_AVAILABLE',
+] as const
+
+export type AlertTypeName = (typeof ALERT_TYPES)[number]
+
+export const ALERT_SEVERITIES = ['CRITICAL', 'HIGH', 'MEDIUM', 'LOW'] as const
+
+// Roles a template can notify or escalate to
+export const TEMPLATE_ROLES = ['MILL_OPERATOR', 'MILL_MANAGER', 'FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'] as const
+
+// Trigger types accepted by /api/alerts/[id]/trigger and the alert type each raises
+export const TRIGGER_ALERT_TYPES: Record<string, AlertTypeName> = {
+  QC_FAILURE: 'QC_FAILURE',
+  CONTAMINATION_RISK: 'CONTAMINATION_RISK',
+  PREMIX_EXPIRY: 'PREMIX_EXPIRY',
+  COMPLIANCE_FAILURE: 'CRITICAL_NON_COMPLIANCE',
+  CALIBRATION_DUE: 'CALIBRATION_DUE',
+  EQUIPMENT_DRIFT: 'EQUIPMENT_DRIFT',
+  PREMIX_USAGE_ANOMALY: 'PREMIX_USAGE_ANOMALY',
+  LOW_INVENTORY: 'LOW_PREMIX_INVENTORY',
+  PRODUCTION_MISS: 'PRODUCTION_TARGET_MISS',
+  TRAINING_OVERDUE: 'TRAINING_OVERDUE',
+}
+
+export const alertTemplateSchema = z.object({
+  type: z.enum(ALERT_TYPES),
+  category: z.enum(ALERT_CATEGORIES),
+  severity: z.enum(ALERT_SEVERITIES),
+  title: z.string().min(1),
+  message: z.string().min(1),
+  summary: z.string().nullable().optional(),
+  actionRequired: z.string().nullable().optional(),
+  deadlineHours: z.number().int().positive().nullable().optional(),
+  recipients: z.array(z.enum(TEMPLATE_ROLES)),
+  channels: z.array(z.enum(['IN_SYSTEM', 'PUSH', 'SMS', 'EMAIL'])).min(1),
+  escalationPath: z.array(z.enum(TEMPLATE_ROLES)).nullable().optional(), // null: the type's built-in path
+  country: z.string().min(1).nullable().optional(),
+  isActive: z.boolean().default(true),
+})
+
+export type AlertTemplateInput = z.infer<typeof alertTemplateSchema>
+
+export interface ResolvedAlertTemplate {
+  id: string | null // null for a built-in default
+  type: AlertTypeName
+  category: string
+  severity: string
+  title: string
+  message: string
+  summary: string | null
+  actionRequired: string | null
+  deadlineHours: number | null
+  recipients: EscalationRole[]
+  channels: NotificationChannelName[]
+  escalationPath: EscalationRole[] | null
+}
+
+type DefaultAlertTemplate = Omit<ResolvedAlertTemplate, 'id' | 'escalationPath'>
+
+// The configurations alerts were raised with before templates were editable; seeded as
+// the country-independent templates and used for types that have no active template
+export const DEFAULT_ALERT_TEMPLATES: DefaultAlertTemplate[] = [
+  {
+    type: 'QC_FAILURE',
+    category: 'QUALITY_SAFETY',
+    severity: 'CRITICAL',
+    title: 'QC Test Failure - Immediate Action Required',
+    message: 'Batch {{batchId}} has failed quality control testing. Immediate investigation and corrective action required.',
+    summary: 'QC test results out of specification',
+    actionRequired: 'Investigate root cause and implement corrective action within 24 hours',
+    deadlineHours: 24,
+    recipients: ['MILL_OPERATOR', 'MILL_MANAGER', 'FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'],
+    channels: SEVERITY_CHANNELS.CRITICAL,
+  },
+  {
+    type: 'CONTAMINATION_RISK',
+    category: 'QUALITY_SAFETY',
+    severity: 'CRITICAL',
+    title: 'Contamination Risk Detected',
+    message: 'Contamination risk identified in batch {{batchId}}. Batch must be quarantined immediately.',
+    summary: 'Foreign matter or dangerous moisture level detected',
+    actionRequired: 'Quarantine batch and investigate contamination source',
+    deadlineHours: 4,
+    recipients: ['MILL_OPERATOR', 'MILL_MANAGER', 'FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'],
+    channels: SEVERITY_CHANNELS.CRITICAL,
+  },
+  {
+    type: 'PREMIX_EXPIRY',
+    category: 'QUALITY_SAFETY',
+    severity: 'HIGH',
+    title: 'Premix Expiry Alert',
+    message: 'Premix batch {{premixBatchId}} is nearing or has passed its expiry date.',
+    summary: 'Premix expiration requires immediate attention',
+    actionRequired: 'Stop using expired premix and source replacement',
+    deadlineHours: 48,
+    recipients: ['MILL_OPERATOR', 'MILL_MANAGER'],
+    channels: SEVERITY_CHANNELS.HIGH,
+  },
+  {
+    type: 'CRITICAL_NON_COMPLIANCE',
+    category: 'COMPLIANCE',
+    severity: 'HIGH',
+    title: 'Critical Non-Compliance Detected',
+    message: 'Compliance audit has identified critical failures that require immediate attention.',
+    summary: 'Audit results show critical non-compliance issues',
+    actionRequired: 'Develop and implement corrective action plan within 7 days',
+    deadlineHours: 7 * 24,
+    recipients: ['MILL_MANAGER', 'FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'],
+    channels: SEVERITY_CHANNELS.HIGH,
+  },
+  {
+    type: 'CALIBRATION_DUE',
+    category: 'MAINTENANCE',
+    severity: 'MEDIUM',
+    title: 'Equipment Calibration Due',
+    message: 'Equipment {{equipmentName}} requires calibration within 14 days.',
+    summary: 'Scheduled maintenance calibration required',
+    actionRequired: 'Schedule equipment calibration',
+    deadlineHours: 14 * 24,
+    recipients: ['MILL_OPERATOR', 'MILL_MANAGER'],
+    channels: SEVERITY_CHANNELS.MEDIUM,
+  },
+  {
+    type: 'EQUIPMENT_DRIFT',
+    category: 'MAINTENANCE',
+    severity: 'HIGH',
+    title: 'Equipment Drift Detected',
+    message: 'Sensor data indicates equipment drift for {{equipmentName}}. Output variance >5% detected.',
+    summary: 'Equipment performance drifting from calibration',
+    actionRequired: 'Investigate and recalibrate equipment immediately',
+    deadlineHours: 8,
+    recipients: ['MILL_OPERATOR', 'MILL_MANAGER'],
+    channels: SEVERITY_CHANNELS.HIGH,
+  },
+  {
+    type: 'PREMIX_USAGE_ANOMALY',
+    category: 'PRODUCTION',
+    severity: 'MEDIUM',
+    title: 'Premix Usage Anomaly Detected',
+    message: 'Actual premix usage differs from expected by {{variance}}%.',
+    summary: 'Unusual premix consumption pattern detected',
+    actionRequired: 'Verify measurements and check for equipment issues',
+    deadlineHours: 24,
+    recipients: ['MILL_OPERATOR', 'MILL_MANAGER'],
+    channels: SEVERITY_CHANNELS.MEDIUM,
+  },
+  {
+    type: 'LOW_PREMIX_INVENTORY',
+    category: 'PRODUCTION',
+    severity: 'MEDIUM',
+    title: 'Low Premix Inventory',
+    message: 'Premix inventory is below reorder threshold. Current stock: {{currentStock}}',
+    summary: 'Inventory levels require replenishment',
+    actionRequired: 'Place order for premix replenishment',
+    deadlineHours: 72,
+    recipients: ['MILL_OPERATOR', 'MILL_MANAGER'],
+    channels: SEVERITY_CHANNELS.MEDIUM,
+  },
+  {
+    type: 'PRODUCTION_TARGET_MISS',
+    category: 'PRODUCTION',
+    severity: 'MEDIUM',
+    title: 'Production Target Missed',
+    message: 'Daily production target missed. Achieved: {{actual}}%, Target: {{target}}%',
+    summary: 'Production below target for the day',
+    actionRequired: 'Review production issues and adjust plan',
+    deadlineHours: 24,
+    recipients: ['MILL_OPERATOR', 'MILL_MANAGER'],
+    channels: SEVERITY_CHANNELS.MEDIUM,
+  },
+  {
+    type: 'TRAINING_OVERDUE',
+    category: 'TRAINING_COMPLIANCE',
+    severity: 'LOW',
+    title: 'Training Overdue',
+    message: 'Mandatory training "{{courseName}}" is overdue.',
+    summary: 'Required training not completed on time',
+    actionRequired: 'Complete overdue training module',
+    deadlineHours: 7 * 24,
+    recipients: [],
+    channels: SEVERITY_CHANNELS.LOW,
+  },
+]
+
+// Types with neither an active nor a built-in template
+const FALLBACK_TEMPLATE: Omit<DefaultAlertTemplate, 'type'> = {
+  category: 'QUALITY_SAFETY',
+  severity: 'MEDIUM',
+  title: 'System Alert',
+  message: 'An alert has been triggered.',
+  summary: 'System-generated alert',
+  actionRequired: 'Review alert details',
+  deadlineHours: 24,
+  recipients: [],
+  channels: SEVERITY_CHANNELS.MEDIUM,
+}
+
+/**
+ * Replace each {{path}} with the value at that (dotted) path in data. Missing
+ * values read "Unknown" so a partly filled trigger still produces a usable alert.
+ */
+export function interpolate(text: string, data: Record<string, unknown>): string {
+  return text.replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, path: string) => {
+    const value = path
+      .split('.')
+      .reduce<unknown>((obj, key) => (obj && typeof obj === 'object' ? (obj as any)[key] : undefined), data)
+    return value === undefined || value === null || value === '' ? 'Unknown' : String(value)
+  })
+}
+
+function parseJsonArray<T>(value: string | null): T[] | null {
+  if (!value) return null
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Template row (JSON columns as stored) to a resolved template
+ */
+export function toResolvedTemplate(template: any): ResolvedAlertTemplate {
+  return {
+    id: template.id,
+    type: template.type,
+    category: template.category,
+    severity: template.severity,
+    title: template.title,
+    message: template.message,
+    summary: template.summary,
+    actionRequired: template.actionRequired,
+    deadlineHours: template.deadlineHours,
+    recipients: parseJsonArray<EscalationRole>(template.recipients) ?? [],
+    channels: parseJsonArray<NotificationChannelName>(template.channels) ?? ['IN_SYSTEM'],
+    escalationPath: parseJsonArray<EscalationRole>(template.escalationPath),
+  }
+}
+
+/**
+ * Template row data for a new template, with the list fields stored as JSON
+ */
+export function toTemplateCreateData(input: AlertTemplateInput): Prisma.AlertTemplateUncheckedCreateInput {
+  const { recipients, channels, escalationPath, ...fields } = input
+  return {
+    ...fields,
+    recipients: JSON.stringify(recipients),
+    channels: JSON.stringify(channels),
+    escalationPath: escalationPath ? JSON.stringify(escalationPath) : null,
+  }
+}
+
+/**
+ * Template row changes for the update API: only the fields given, lists stored as JSON
+ */
+export function toTemplateUpdateData(input: Partial<AlertTemplateInput>): Prisma.AlertTemplateUncheckedUpdateInput {
+  const { recipients, channels, escalationPath, ...fields } = input
+  return {
+    ...fields,
+    ...(recipients !== undefined ? { recipients: JSON.stringify(recipients) } : {}),
+    ...(channels !== undefined ? { channels: JSON.stringify(channels) } : {}),
+    ...(escalationPath !== undefined
+      ? { escalationPath: escalationPath ? JSON.stringify(escalationPath) : null }
+      : {}),
+  }
+}
+
+/**
+ * Deactivate the active template(s) for a type and country, so at most one is active
+ * after a template is activated. Returns the query for use inside $transaction.
+ */
+export function deactivateActiveTemplates(prisma: any, type: string, country: string | null, exceptId?: string) {
+  return prisma.alertTemplate.updateMany({
+    where: { type, country, isActive: true, ...(exceptId ? { id: { not: exceptId } } : {}) },
+    data: { isActive: false },
+  })
+}
+
+/**
+ * The template to raise an alert of this type with: the active template for the
+ * mill's country, else the active country-independent one, else the built-in default
+ */
+export async function resolveAlertTemplate(
+  prisma: any,
+  type: AlertTypeName,
+  country?: string | null
+): Promise<ResolvedAlertTemplate> {
+  const templates = await prisma.alertTemplate.findMany({
+    where: {
+      type,
+      isActive: true,
+      OR: [{ country: null }, ...(country ? [{ country }] : [])],
+    },
+    orderBy: { updatedAt: 'desc' },
+  })
+
+  const template =
+    (country && templates.find((t: any) => t.country === country)) ||
+    templates.find((t: any) => t.country === null)
+  if (template) return toResolvedTemplate(template)
+
+  const builtIn = DEFAULT_ALERT_TEMPLATES.find((t) => t.type === type)
+  return { id: null, type, ...(builtIn ?? FALLBACK_TEMPLATE), escalationPath: null }
+}
+
+/**
+ * Fill in a template's placeholders and work out the deadline
+ */
+export function renderAlertTemplate(
+  template: ResolvedAlertTemplate,
+  data: Record<string, unknown>,
+  now: Date = new Date()
+) {
+  return {
+    type: template.type,
+    category: template.category,
+    severity: template.severity,
+    title: interpolate(template.title, data),
+    message: interpolate(template.message, data),
+    summary: template.summary ? interpolate(template.summary, data) : null,
+    actionRequired: template.actionRequired ? interpolate(template.actionRequired, data) : null,
+    deadline: template.deadlineHours ? new Date(now.getTime() + template.deadlineHours * 60 * 60 * 1000) : null,
+  }
+}
+
+/**
+ * Create the built-in templates that do not exist yet as country-independent
+ * templates. Existing templates, including edited ones, are left alone.
+ */
+export async function seedDefaultAlertTemplates(prisma: any, createdBy?: string) {
+  const existing = await prisma.alertTemplate.findMany({
+    where: { country: null },
+    select: { type: true },
+  })
+  const missing = DEFAULT_ALERT_TEMPLATES.filter(
+    (template) => !existing.some((t: any) => t.type === template.type)
+  )
+
+  if (missing.length > 0) {
+    await prisma.alertTemplate.createMany({
+      data: missing.map((template) => ({
+        ...toTemplateCreateData(template as AlertTemplateInput),
+        createdBy,
+      })),
+    })
+  }
+
+  return missing.length
+}
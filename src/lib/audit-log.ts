@@ -0,0 +1,231 @@
+// Append-only, hash-chained audit trail
+//
+// Each row carries a sequence number, the hash of the row before it and a hash over
+// its own contents. Editing a row changes its hash, deleting or inserting one breaks
+// the sequence or the link, so verifyAuditChain can point at the first tampered row.
+
+import { createHash } from 'crypto'
+import type { RequestMeta } from '@/lib/auth'
+
+export const AUDIT_GENESIS_HASH = '0'.repeat(64)
+
+const APPEND_ATTEMPTS = 5
+const VERIFY_PAGE_SIZE = 500
+
+export interface AuditEntry {
+  userId: string | null
+  action: string
+  resourceType: string
+  resourceId?: string | null
+  oldValues?: Record<string, unknown> | null
+  newValues?: Record<string, unknown> | null
+  meta?: RequestMeta
+}
+
+interface ChainedFields {
+  sequence: number
+  previousHash: string
+  userId: string | null
+  action: string
+  resourceType: string
+  resourceId: string | null
+  oldValues: string | null
+  newValues: string | null
+  ipAddress: string | null
+  userAgent: string | null
+  createdAt: Date
+}
+
+export type AuditChainIssueType = 'GAP' | 'BROKEN_LINK' | 'HASH_MISMATCH' | 'UNCHAINED_ROW'
+
+export interface AuditChainIssue {
+  type: AuditChainIssueType
+  id: string | null
+  sequence: number | null
+  detail: string
+}
+
+export function computeAuditHash(row: ChainedFields): string {
+  // Fixed field order so the hash never depends on object key order
+  const canonical = JSON.stringify([
+    row.sequence,
+    row.previousHash,
+    row.userId,
+    row.action,
+    row.resourceType,
+    row.resourceId,
+    row.oldValues,
+    row.newValues,
+    row.ipAddress,
+    row.userAgent,
+    row.createdAt.toISOString(),
+  ])
+  return createHash('sha256').update(canonical).digest('hex')
+}
+
+/**
+ * Old and new values of just the fields that changed between two snapshots
+ */
+export function diffValues(
+  before: Record<string, any>,
+  after: Record<string, any>
+): { oldValues: Record<string, unknown>; newValues: Record<string, unknown> } {
+  const oldValues: Record<string, unknown> = {}
+  const newValues: Record<string, unknown> = {}
+
+  const normalise = (value: unknown) => (value instanceof Date ? value.toISOString() : value)
+
+  for (const key of Object.keys(after)) {
+    const value = after[key]
+    const isRelation = typeof value === 'object' && value !== null && !(value instanceof Date)
+    if (key === 'updatedAt' || isRelation) continue
+
+    if (normalise(before[key]) !== normalise(value)) {
+      oldValues[key] = before[key] ?? null
+      newValues[key] = value ?? null
+    }
+  }
+
+  return { oldValues, newValues }
+}
+
+/**
+ * Scalar fields of a record, for the newValues of a create or oldValues of a delete
+ */
+export function auditSnapshot(record: Record<string, any>): Record<string, unknown> {
+  return diffValues({}, record).newValues
+}
+
+/**
+ * Append an entry to the chain. Concurrent writers racing for the same sequence
+ * number hit its unique constraint and retry against the new tail.
+ */
+export async function appendAuditLog(prisma: any, entry: AuditEntry) {
+  for (let attempt = 1; ; attempt++) {
+    try {
+      return await prisma.$transaction(async (tx: any) => {
+        const tail = await tx.auditLog.findFirst({
+          where: { sequence: { not: null } },
+          orderBy: { sequence: 'desc' },
+          select: { sequence: true, hash: true },
+        })
+
+        const row: ChainedFields = {
+          sequence: (tail?.sequence ?? 0) + 1,
+          previousHash: tail?.hash ?? AUDIT_GENESIS_HASH,
+          userId: entry.userId,
+          action: entry.action,
+          resourceType: entry.resourceType,
+          resourceId: entry.resourceId ?? null,
+          oldValues: entry.oldValues ? JSON.stringify(entry.oldValues) : null,
+          newValues: entry.newValues ? JSON.stringify(entry.newValues) : null,
+          ipAddress: entry.meta?.ipAddress || 'unknown',
+          userAgent: entry.meta?.userAgent || 'unknown',
+          createdAt: new Date(),
+        }
+
+        return tx.auditLog.create({
+          data: { ...row, hash: computeAuditHash(row) },
+        })
+      })
+    } catch (error: any) {
+      if (error?.code === 'P2002' && attempt < APPEND_ATTEMPTS) continue
+      throw error
+    }
+  }
+}
+
+/**
+ * Walk the whole chain in sequence order and report every break: missing sequence
+ * numbers, rows whose previousHash does not match their predecessor, rows whose
+ * contents no longer match their hash, and unchained rows written after chaining began.
+ */
+export async function verifyAuditChain(prisma: any, maxIssues = 100) {
+  const issues: AuditChainIssue[] = []
+  let expectedSequence = 1
+  let previousHash = AUDIT_GENESIS_HASH
+  let firstChainedAt: Date | null = null
+  let rowsChecked = 0
+  let cursor = 0
+
+  while (issues.length < maxIssues) {
+    const rows = await prisma.auditLog.findMany({
+      where: { sequence: { gt: cursor } },
+      orderBy: { sequence: 'asc' },
+      take: VERIFY_PAGE_SIZE,
+    })
+    if (rows.length === 0) break
+
+    for (const row of rows) {
+      if (!firstChainedAt) firstChainedAt = row.createdAt
+
+      if (row.sequence !== expectedSequence) {
+        issues.push({
+          type: 'GAP',
+          id: row.id,
+          sequence: row.sequence,
+          detail: `Expected sequence ${expectedSequence}, found ${row.sequence}`,
+        })
+      }
+
+      if (row.previousHash !== previousHash) {
+        issues.push({
+          type: 'BROKEN_LINK',
+          id: row.id,
+          sequence: row.sequence,
+          detail: 'previousHash does not match the hash of the preceding row',
+        })
+      }
+
+      if (computeAuditHash(row) !== row.hash) {
+        issues.push({
+          type: 'HASH_MISMATCH',
+          id: row.id,
+          sequence: row.sequence,
+          detail: 'Row contents do not match its hash',
+        })
+      }
+
+      expectedSequence = row.sequence + 1
+      previousHash = row.hash
+      rowsChecked++
+    }
+
+    cursor = rows[rows.length - 1].sequence
+  }
+
+  // Rows from before chaining was introduced are legacy; any later one was slipped in
+  const unchained = firstChainedAt
+    ? await prisma.auditLog.findMany({
+        where: { sequence: null, createdAt: { gte: firstChainedAt } },
+        select: { id: true, createdAt: true },
+        take: maxIssues,
+      })
+    : []
+  unchained.forEach((row: any) =>
+    issues.push({
+      type: 'UNCHAINED_ROW',
+      id: row.id,
+      sequence: null,
+      detail: `Row created ${row.createdAt.toISOString()} is outside the chain`,
+    })
+  )
+
+  const legacyRows = await prisma.auditLog.count({
+    where: {
+      sequence: null,
+      ...(firstChainedAt ? { createdAt: { lt: firstChainedAt } } : {}),
+    },
+  })
+
+  return {
+    valid: issues.length === 0,
+    rowsChecked,
+    legacyRows,
+    headSequence: expectedSequence - 1,
+    headHash: rowsChecked > 0 ? previousHash : null,
+    issues: issues.slice(0, maxIssues),
+    truncated: issues.length >= maxIssues,
+    verifiedAt: new Date().toISOString(),
+  }
+}
@@ -0,0 +1,314 @@
+// Authentication: credential verification, lockout and signed sessions
+
+import { NextRequest } from 'next/server'
+import { NextAuthOptions } from 'next-auth'
+import CredentialsProvider from 'next-auth/providers/credentials'
+import { encode, decode } from 'next-auth/jwt'
+import bcrypt from 'bcryptjs'
+import { prisma } from '@/lib/db'
+import { appendAuditLog } from '@/lib/audit-log'
+
+export interface User {
+  id: string
+  email: string
+  name?: string | null
+  role: string
+  millId?: string | null
+  // Buyers only: whether FWGA has verified their organisation (see VERIFIED_BUYER_PERMISSIONS)
+  buyerVerified?: boolean
+}
+
+export interface RequestMeta {
+  ipAddress?: string
+  userAgent?: string
+}
+
+export type CredentialCheckResult =
+  | { success: true; user: User }
+  | { success: false; reason: 'INVALID_CREDENTIALS' | 'ACCOUNT_LOCKED' | 'ACCOUNT_INACTIVE'; lockedUntil?: Date }
+
+export const SESSION_MAX_AGE = 24 * 60 * 60 // 24 hours, in seconds
+export const MAX_FAILED_LOGIN_ATTEMPTS = 5
+export const LOGIN_LOCKOUT_MINUTES = 15
+
+const useSecureCookies = process.env.NODE_ENV === 'production'
+
+// Shared by the NextAuth handler and /api/auth/login so both issue the same session
+export const SESSION_COOKIE_NAME = `${useSecureCookies ? '__Secure-' : ''}next-auth.session-token`
+
+// Compared against when the email is unknown so response timing does not reveal valid accounts
+const DUMMY_PASSWORD_HASH = '$2a$12$V5KVr4dyF1oIEmkL8bICrOOh3TvsDRrlVOrK7QawmEflgn.LL2GAG'
+
+export function getRequestMeta(request: NextRequest): RequestMeta {
+  return {
+    ipAddress: request.ip || request.headers.get('x-forwarded-for')?.split(',')[0].trim() || undefined,
+    userAgent: request.headers.get('user-agent') || undefined,
+  }
+}
+
+function getSecret(): string {
+  const secret = process.env.NEXTAUTH_SECRET
+  if (!secret) throw new Error('NEXTAUTH_SECRET is not configured')
+  return secret
+}
+
+async function logAuthEvent(
+  userId: string,
+  action: string,
+  meta: RequestMeta,
+  details?: Record<string, unknown>
+) {
+  await appendAuditLog(prisma, {
+    userId,
+    action,
+    resourceType: 'USER',
+    resourceId: userId,
+    newValues: details,
+    meta,
+  })
+}
+
+/**
+ * Verify an email/password pair against the User table.
+ * Repeated failures lock the account for LOGIN_LOCKOUT_MINUTES.
+ */
+export async function verifyCredentials(
+  email: string,
+  password: string,
+  meta: RequestMeta = {}
+): Promise<CredentialCheckResult> {
+  const user = await prisma.user.findUnique({
+    where: { email: email.trim().toLowerCase() },
+    include: { buyerProfile: { select: { verificationStatus: true } } },
+  })
+
+  if (!user || !user.password) {
+    await bcrypt.compare(password, DUMMY_PASSWORD_HASH)
+    return { success: false, reason: 'INVALID_CREDENTIALS' }
+  }
+
+  const now = new Date()
+  if (user.lockedUntil && user.lockedUntil > now) {
+    return { success: false, reason: 'ACCOUNT_LOCKED', lockedUntil: user.lockedUntil }
+  }
+
+  const passwordValid = await bcrypt.compare(password, user.password)
+
+  if (!passwordValid) {
+    const attempts = user.failedLoginAttempts + 1
+    const lockedUntil =
+      attempts >= MAX_FAILED_LOGIN_ATTEMPTS
+        ? new Date(now.getTime() + LOGIN_LOCKOUT_MINUTES * 60 * 1000)
+        : null
+
+    await prisma.user.update({
+      where: { id: user.id },
+      data: {
+        failedLoginAttempts: lockedUntil ? 0 : attempts,
+        lockedUntil,
+      },
+    })
+
+    await logAuthEvent(user.id, lockedUntil ? 'USER_LOCKED_OUT' : 'USER_LOGIN_FAILED', meta, {
+      failedAttempts: attempts,
+      lockedUntil,
+    })
+
+    return lockedUntil
+      ? { success: false, reason: 'ACCOUNT_LOCKED', lockedUntil }
+      : { success: false, reason: 'INVALID_CREDENTIALS' }
+  }
+
+  // Only reveal deactivation once the password has been proven
+  if (!user.isActive) {
+    return { success: false, reason: 'ACCOUNT_INACTIVE' }
+  }
+
+  await prisma.user.update({
+    where: { id: user.id },
+    data: {
+      failedLoginAttempts: 0,
+      lockedUntil: null,
+      lastLoginAt: now,
+    },
+  })
+
+  await logAuthEvent(user.id, 'USER_LOGIN', meta)
+
+  return {
+    success: true,
+    user: {
+      id: user.id,
+      email: user.email,
+      name: user.name,
+      role: user.role,
+      millId: user.millId,
+      buyerVerified: user.buyerProfile?.verificationStatus === 'VERIFIED',
+    },
+  }
+}
+
+function createSessionRecord(userId: string, meta: RequestMeta) {
+  return prisma.userSession.create({
+    data: {
+      userId,
+      expiresAt: new Date(Date.now() + SESSION_MAX_AGE * 1000),
+      ipAddress: meta.ipAddress,
+      userAgent: meta.userAgent,
+    },
+  })
+}
+
+/**
+ * Load the user behind a session, or null if the session was revoked,
+ * has expired or the account has since been deactivated.
+ */
+async function resolveSessionUser(sessionId: string): Promise<User | null> {
+  const session = await prisma.userSession.findUnique({
+    where: { id: sessionId },
+    include: {
+      user: {
+        select: {
+          id: true,
+          email: true,
+          name: true,
+          role: true,
+          millId: true,
+          isActive: true,
+          buyerProfile: { select: { verificationStatus: true } },
+        },
+      },
+    },
+  })
+
+  if (!session || session.revokedAt || session.expiresAt < new Date() || !session.user.isActive) {
+    return null
+  }
+
+  const { isActive: _isActive, buyerProfile, ...user } = session.user
+  return { ...user, buyerVerified: buyerProfile?.verificationStatus === 'VERIFIED' }
+}
+
+export class AuthManager {
+  /**
+   * Record a server-side session and return a signed token for it.
+   * The token is a NextAuth JWT, so getServerSession accepts it as well.
+   */
+  static async createSession(user: User, meta: RequestMeta = {}): Promise<string> {
+    const session = await createSessionRecord(user.id, meta)
+
+    return encode({
+      token: {
+        sub: user.id,
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        role: user.role,
+        millId: user.millId,
+        buyerVerified: user.buyerVerified,
+        sessionId: session.id,
+      },
+      secret: getSecret(),
+      maxAge: SESSION_MAX_AGE,
+    })
+  }
+
+  static async validateSession(token: string): Promise<User | null> {
+    const decoded = await decode({ token, secret: getSecret() }).catch(() => null)
+    if (!decoded?.sessionId) return null
+    return resolveSessionUser(decoded.sessionId)
+  }
+
+  static async removeSession(token: string, meta: RequestMeta = {}): Promise<void> {
+    const decoded = await decode({ token, secret: getSecret() }).catch(() => null)
+    if (!decoded?.sessionId) return
+
+    const result = await prisma.userSession.updateMany({
+      where: { id: decoded.sessionId, revokedAt: null },
+      data: { revokedAt: new Date() },
+    })
+
+    if (result.count > 0 && decoded.sub) {
+      await logAuthEvent(decoded.sub, 'USER_LOGOUT', meta)
+    }
+  }
+}
+
+export const authOptions: NextAuthOptions = {
+  secret: process.env.NEXTAUTH_SECRET,
+  session: {
+    strategy: 'jwt',
+    maxAge: SESSION_MAX_AGE,
+  },
+  cookies: {
+    sessionToken: {
+      name: SESSION_COOKIE_NAME,
+      options: {
+        httpOnly: true,
+        sameSite: 'lax',
+        path: '/',
+        secure: useSecureCookies,
+      },
+    },
+  },
+  providers: [
+    CredentialsProvider({
+      name: 'Credentials',
+      credentials: {
+        email: { label: 'Email', type: 'email' },
+        password: { label: 'Password', type: 'password' },
+      },
+      async authorize(credentials, req) {
+        if (!credentials?.email || !credentials?.password) return null
+
+        const meta: RequestMeta = {
+          ipAddress: (req.headers?.['x-forwarded-for'] as string | undefined)?.split(',')[0].trim(),
+          userAgent: req.headers?.['user-agent'] as string | undefined,
+        }
+
+        const result = await verifyCredentials(credentials.email, credentials.password, meta)
+        if (!result.success) {
+          if (result.reason === 'ACCOUNT_LOCKED') {
+            throw new Error('Account temporarily locked after repeated failed logins')
+          }
+          return null
+        }
+
+        const session = await createSessionRecord(result.user.id, meta)
+
+        return { ...result.user, sessionId: session.id }
+      },
+    }),
+  ],
+  callbacks: {
+    async jwt({ token, user }) {
+      if (user) {
+        token.id = user.id
+        token.role = user.role
+        token.millId = user.millId
+        token.buyerVerified = user.buyerVerified
+        token.sessionId = user.sessionId
+        return token
+      }
+
+      // Re-check the session on every request so logout and deactivation take effect immediately
+      const current = token.sessionId ? await resolveSessionUser(token.sessionId) : null
+      if (!current) throw new Error('Session revoked or expired')
+
+      token.role = current.role
+      token.millId = current.millId
+      token.buyerVerified = current.buyerVerified
+      return token
+    },
+    async session({ session, token }) {
+      session.user = {
+        ...session.user,
+        id: token.id as string,
+        role: token.role as string,
+        millId: token.millId ?? null,
+        buyerVerified: token.buyerVerified ?? false,
+      }
+      return session
+    },
+  },
+}
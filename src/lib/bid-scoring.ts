@@ -0,0 +1,334 @@
+// Bid evaluation and scoring utilities
+
+import { getMillReputation } from '@/lib/review-utils'
+
+export interface EvaluationCriteria {
+  price: number // Weight for unit price vs maxUnitPrice and competing bids
+  leadTime: number // Weight for days to first delivery
+  compliance: number // Weight for latest compliance audit score
+  qualityControl: number // Weight for recent QC test pass rate
+  reputation: number // Weight for buyer ratings of the mill
+  capacity: number // Weight for production capacity vs requirement
+}
+
+export const DEFAULT_EVALUATION_CRITERIA: EvaluationCriteria = {
+  price: 30,
+  leadTime: 10,
+  compliance: 20,
+  qualityControl: 20,
+  reputation: 10,
+  capacity: 10,
+}
+
+export interface BidScoringInput {
+  bidId: string
+  millId: string
+  unitPrice: number
+  leadTime: number | null // Days
+  complianceScore: number | null // Latest audit score (0-100)
+  qcPassRate: number | null // Percentage of recent QC tests passed
+  averageRating: number | null // Mill review average (1-5)
+  dailyCapacity: number | null // kg per day
+}
+
+export interface RFPScoringContext {
+  maxUnitPrice: number | null
+  capacityRequirement: number | null
+}
+
+export interface CriterionScore {
+  criterion: keyof EvaluationCriteria
+  weight: number // Normalized weight (0-1)
+  score: number // 0-100
+  weightedScore: number
+  note: string
+}
+
+export interface BidScore {
+  bidId: string
+  millId: string
+  evaluationScore: number // Weighted score against buyer criteria (0-100)
+  matchScore: number // Percentage of RFP hard requirements met (0-100)
+  breakdown: CriterionScore[]
+  unmetRequirements: string[]
+  rank: number
+}
+
+// Score used when the mill has no data for a criterion
+const NEUTRAL_SCORE = 50
+
+/**
+ * Parse RFP.evaluationCriteria JSON into normalized weights.
+ * Accepts either { price: 40, ... } or [{ criterion: 'price', weight: 40 }, ...].
+ * Missing or invalid criteria fall back to the defaults.
+ */
+export function parseEvaluationCriteria(value: string | null | undefined): EvaluationCriteria {
+  if (!value) return { ...DEFAULT_EVALUATION_CRITERIA }
+
+  let parsed: any
+  try {
+    parsed = JSON.parse(value)
+  } catch {
+    return { ...DEFAULT_EVALUATION_CRITERIA }
+  }
+
+  const weights: Record<string, number> = {}
+  if (Array.isArray(parsed)) {
+    parsed.forEach((c) => {
+      if (c && typeof c.criterion === 'string' && typeof c.weight === 'number') {
+        weights[c.criterion] = c.weight
+      }
+    })
+  } else if (parsed && typeof parsed === 'object') {
+    Object.assign(weights, parsed)
+  }
+
+  const criteria = { ...DEFAULT_EVALUATION_CRITERIA }
+  let hasCustomWeight = false
+  ;(Object.keys(criteria) as (keyof EvaluationCriteria)[]).forEach((key) => {
+    const weight = weights[key]
+    if (typeof weight === 'number' && weight >= 0) {
+      hasCustomWeight = true
+      criteria[key] = weight
+    } else if (Object.keys(weights).length > 0) {
+      criteria[key] = 0
+    }
+  })
+
+  return hasCustomWeight ? criteria : { ...DEFAULT_EVALUATION_CRITERIA }
+}
+
+export function normalizeWeights(criteria: EvaluationCriteria): EvaluationCriteria {
+  const total = Object.values(criteria).reduce((sum, w) => sum + w, 0)
+  if (total <= 0) return normalizeWeights(DEFAULT_EVALUATION_CRITERIA)
+
+  return {
+    price: criteria.price / total,
+    leadTime: criteria.leadTime / total,
+    compliance: criteria.compliance / total,
+    qualityControl: criteria.qualityControl / total,
+    reputation: criteria.reputation / total,
+    capacity: criteria.capacity / total,
+  }
+}
+
+/**
+ * Price score: lowest competing price earns 100, others proportionally less.
+ * Bids above the RFP's maxUnitPrice score 0.
+ */
+export function scorePrice(
+  unitPrice: number,
+  lowestUnitPrice: number,
+  maxUnitPrice: number | null
+): { score: number; note: string } {
+  if (maxUnitPrice && unitPrice > maxUnitPrice) {
+    return { score: 0, note: `Unit price ${unitPrice} exceeds maximum ${maxUnitPrice}` }
+  }
+  if (unitPrice <= 0) return { score: 0, note: 'Invalid unit price' }
+
+  return {
+    score: (lowestUnitPrice / unitPrice) * 100,
+    note: unitPrice === lowestUnitPrice ? 'Lowest price' : `Lowest price is ${lowestUnitPrice}`,
+  }
+}
+
+/**
+ * Lead time score: shortest competing lead time earns 100.
+ */
+export function scoreLeadTime(
+  leadTime: number | null,
+  shortestLeadTime: number | null
+): { score: number; note: string } {
+  if (leadTime === null) return { score: NEUTRAL_SCORE, note: 'Lead time not stated' }
+  if (shortestLeadTime === null || leadTime <= shortestLeadTime) {
+    return { score: 100, note: `${leadTime} days` }
+  }
+
+  // Treat same-day delivery as one day to avoid division by zero
+  return {
+    score: (Math.max(shortestLeadTime, 1) / Math.max(leadTime, 1)) * 100,
+    note: `${leadTime} days (shortest ${shortestLeadTime})`,
+  }
+}
+
+export function scoreCapacity(
+  dailyCapacity: number | null,
+  capacityRequirement: number | null
+): { score: number; note: string } {
+  if (dailyCapacity === null) return { score: NEUTRAL_SCORE, note: 'Capacity not stated' }
+  if (!capacityRequirement) return { score: 100, note: `${dailyCapacity} kg/day` }
+
+  return {
+    score: Math.min(100, (dailyCapacity / capacityRequirement) * 100),
+    note: `${dailyCapacity} of ${capacityRequirement} kg/day required`,
+  }
+}
+
+/**
+ * Check hard RFP requirements and return the unmet ones
+ */
+export function checkRequirements(
+  input: BidScoringInput,
+  context: RFPScoringContext
+): { met: number; total: number; unmet: string[] } {
+  const unmet: string[] = []
+  let total = 0
+
+  if (context.maxUnitPrice) {
+    total++
+    if (input.unitPrice > context.maxUnitPrice) unmet.push('Unit price above maximum')
+  }
+  if (context.capacityRequirement) {
+    total++
+    if (input.dailyCapacity === null || input.dailyCapacity < context.capacityRequirement) {
+      unmet.push('Production capacity below requirement')
+    }
+  }
+
+  // Every mill is expected to hold a passing compliance audit and clean QC record
+  total++
+  if (input.complianceScore === null || input.complianceScore < 75) {
+    unmet.push('No passing compliance audit')
+  }
+  total++
+  if (input.qcPassRate === null || input.qcPassRate < 80) {
+    unmet.push('QC pass rate below 80%')
+  }
+
+  return { met: total - unmet.length, total, unmet }
+}
+
+export function scoreBid(
+  input: BidScoringInput,
+  context: RFPScoringContext,
+  criteria: EvaluationCriteria,
+  competition: { lowestUnitPrice: number; shortestLeadTime: number | null }
+): Omit<BidScore, 'rank'> {
+  const weights = normalizeWeights(criteria)
+
+  const components: Record<keyof EvaluationCriteria, { score: number; note: string }> = {
+    price: scorePrice(input.unitPrice, competition.lowestUnitPrice, context.maxUnitPrice),
+    leadTime: scoreLeadTime(input.leadTime, competition.shortestLeadTime),
+    compliance:
+      input.complianceScore === null
+        ? { score: 0, note: 'No compliance audit on record' }
+        : { score: input.complianceScore, note: `Latest audit ${input.complianceScore.toFixed(1)}%` },
+    qualityControl:
+      input.qcPassRate === null
+        ? { score: NEUTRAL_SCORE, note: 'No recent QC tests' }
+        : { score: input.qcPassRate, note: `${input.qcPassRate.toFixed(1)}% of recent tests passed` },
+    reputation:
+      input.averageRating === null
+        ? { score: NEUTRAL_SCORE, note: 'No buyer reviews yet' }
+        : { score: (input.averageRating / 5) * 100, note: `${input.averageRating.toFixed(1)} / 5` },
+    capacity: scoreCapacity(input.dailyCapacity, context.capacityRequirement),
+  }
+
+  const breakdown: CriterionScore[] = (Object.keys(components) as (keyof EvaluationCriteria)[])
+    .map((criterion) => ({
+      criterion,
+      weight: weights[criterion],
+      score: Math.round(components[criterion].score * 100) / 100,
+      weightedScore: Math.round(components[criterion].score * weights[criterion] * 100) / 100,
+      note: components[criterion].note,
+    }))
+
+  const evaluationScore = breakdown.reduce((sum, c) => sum + c.weightedScore, 0)
+  const requirements = checkRequirements(input, context)
+
+  return {
+    bidId: input.bidId,
+    millId: input.millId,
+    evaluationScore: Math.round(evaluationScore * 100) / 100,
+    matchScore: Math.round((requirements.met / requirements.total) * 10000) / 100,
+    breakdown,
+    unmetRequirements: requirements.unmet,
+  }
+}
+
+/**
+ * Score and rank all bids on an RFP, highest evaluation score first
+ */
+export function rankBids(
+  inputs: BidScoringInput[],
+  context: RFPScoringContext,
+  criteria: EvaluationCriteria
+): BidScore[] {
+  if (inputs.length === 0) return []
+
+  const lowestUnitPrice = Math.min(...inputs.map((i) => i.unitPrice))
+  const leadTimes = inputs.map((i) => i.leadTime).filter((l): l is number => l !== null)
+  const shortestLeadTime = leadTimes.length > 0 ? Math.min(...leadTimes) : null
+
+  return inputs
+    .map((input) => scoreBid(input, context, criteria, { lowestUnitPrice, shortestLeadTime }))
+    .sort((a, b) => b.evaluationScore - a.evaluationScore || b.matchScore - a.matchScore)
+    .map((score, index) => ({ ...score, rank: index + 1 }))
+}
+
+/**
+ * Extract daily capacity (kg/day) from Bid.productionCapacity JSON
+ */
+export function parseDailyCapacity(productionCapacity: string | null | undefined): number | null {
+  if (!productionCapacity) return null
+  try {
+    const parsed = JSON.parse(productionCapacity)
+    const value = parsed?.dailyCapacity ?? parsed?.daily ?? parsed?.capacityPerDay
+    return typeof value === 'number' ? value : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Gather mill performance data needed to score a set of bids
+ */
+export async function loadBidScoringInputs(
+  bids: Array<{
+    id: string
+    millId: string
+    unitPrice: number
+    leadTime: number | null
+    productionCapacity: string | null
+  }>,
+  prisma: any,
+  qcLookbackDays: number = 90
+): Promise<BidScoringInput[]> {
+  const since = new Date(Date.now() - qcLookbackDays * 24 * 60 * 60 * 1000)
+
+  return Promise.all(
+    bids.map(async (bid) => {
+      const [latestAudit, qcTests, reputation] = await Promise.all([
+        prisma.complianceAudit.findFirst({
+          where: { millId: bid.millId, score: { not: null } },
+          orderBy: { auditDate: 'desc' },
+          select: { score: true },
+        }),
+        prisma.qCTest.findMany({
+          where: {
+            batch: { millId: bid.millId },
+            testDate: { gte: since },
+          },
+          select: { status: true },
+        }),
+        getMillReputation(bid.millId, prisma),
+      ])
+
+      const qcPassRate =
+        qcTests.length > 0
+          ? (qcTests.filter((t: { status: string }) => t.status === 'PASS').length / qcTests.length) * 100
+          : null
+
+      return {
+        bidId: bid.id,
+        millId: bid.millId,
+        unitPrice: bid.unitPrice,
+        leadTime: bid.leadTime,
+        complianceScore: latestAudit?.score ?? null,
+        qcPassRate,
+        averageRating: reputation.overallRating,
+        dailyCapacity: parseDailyCapacity(bid.productionCapacity),
+      }
+    })
+  )
+}
@@ -1,13 +1,40 @@
 import { PrismaClient } from '@prisma/client'
+import { applyMillScope } from '@/lib/mill-scope'
 
-const globalForPrisma = globalThis as unknown as {
-  prisma: PrismaClient | undefined
+// The audit trail is append-only: any attempt to rewrite or remove it is refused
+function rejectAuditLogMutation(): never {
+  throw new Error('AuditLog is append-only')
 }
 
-export const prisma =
-  globalForPrisma.prisma ??
-  new PrismaClient({
+function createPrismaClient() {
+  return new PrismaClient({
     log: process.env.NODE_ENV === 'development' ? ['query', 'error', 'warn'] : ['error'],
+  }).$extends({
+    query: {
+      auditLog: {
+        update: rejectAuditLogMutation,
+        updateMany: rejectAuditLogMutation,
+        upsert: rejectAuditLogMutation,
+        delete: rejectAuditLogMutation,
+        deleteMany: rejectAuditLogMutation,
+      },
+    },
+  }).$extends({
+    query: {
+      $allModels: {
+        // Mill-bound users' queries never leave their own mill (see mill-scope.ts)
+        $allOperations({ model, operation, args, query }) {
+          return query(applyMillScope(model, operation, args))
+        },
+      },
+    },
   })
+}
+
+const globalForPrisma = globalThis as unknown as {
+  prisma: ReturnType<typeof createPrismaClient> | undefined
+}
+
+export const prisma = globalForPrisma.prisma ?? createPrismaClient()
 
 if (process.env.NODE_ENV !== 'production') globalForPrisma.prisma = prisma
@@ -0,0 +1,227 @@
+// Lot genealogy: trace inputs forward to batches, storage, orders and deliveries,
+// and deliveries back to the lots that went into them
+
+import { parseJsonArray } from '@/lib/procurement-utils'
+
+export type GenealogyOrigin = 'rawMaterialLot' | 'premixBatchNumber' | 'batchId' | 'lotId'
+
+export const GENEALOGY_ORIGINS: GenealogyOrigin[] = [
+  'rawMaterialLot',
+  'premixBatchNumber',
+  'batchId',
+  'lotId',
+]
+
+const BATCH_SELECT = {
+  id: true,
+  batchId: true,
+  millId: true,
+  batchDateTime: true,
+  productionLine: true,
+  cropType: true,
+  productType: true,
+  rawMaterialLot: true,
+  rawMaterialSource: true,
+  premixType: true,
+  premixBatchNumber: true,
+  premixManufacturer: true,
+  premixExpiryDate: true,
+  outputWeight: true,
+  numberOfUnits: true,
+  storageLocation: true,
+  packagingDate: true,
+  status: true,
+  qcStatus: true,
+  mill: { select: { id: true, name: true, code: true } },
+}
+
+// Movement events that place a batch somewhere after production
+const MOVEMENT_EVENTS = ['TRANSFER', 'DELIVERY']
+
+async function findOrdersForBatches(batchIds: string[], prisma: any) {
+  if (batchIds.length === 0) return []
+
+  const orders = await prisma.purchaseOrder.findMany({
+    where: { OR: batchIds.map((id) => ({ batchLinkage: { contains: id } })) },
+    select: {
+      id: true,
+      poNumber: true,
+      status: true,
+      millId: true,
+      batchLinkage: true,
+      buyer: { select: { id: true, organizationName: true } },
+      deliveries: {
+        select: {
+          id: true,
+          locationId: true,
+          quantity: true,
+          status: true,
+          scheduledDate: true,
+          actualDate: true,
+          receivedBy: true,
+        },
+        orderBy: { scheduledDate: 'asc' },
+      },
+    },
+  })
+
+  // `contains` can match a longer ID, so confirm against the parsed linkage
+  return orders
+    .map((order: any) => ({
+      ...order,
+      linkedBatchIds: parseJsonArray(order.batchLinkage).filter((id) => batchIds.includes(id)),
+    }))
+    .filter((order: any) => order.linkedBatchIds.length > 0)
+}
+
+/**
+ * Everything downstream of a raw material lot, premix lot, batch or aggregated lot:
+ * the batches it went into, where they were stored and moved, and the purchase
+ * orders and deliveries that carried them
+ */
+export async function traceForward(
+  origin: GenealogyOrigin,
+  value: string,
+  scope: Record<string, any>,
+  prisma: any
+) {
+  let where: any
+  if (origin === 'lotId') {
+    const records = await prisma.traceabilityRecord.findMany({
+      where: { lotId: value },
+      select: { batchId: true },
+    })
+    where = { id: { in: Array.from(new Set(records.map((r: any) => r.batchId))) } }
+  } else {
+    where = { [origin]: value }
+  }
+
+  const batches = await prisma.batchLog.findMany({
+    where: { ...where, ...scope },
+    select: BATCH_SELECT,
+    orderBy: { batchDateTime: 'asc' },
+  })
+  const batchIds = batches.map((b: any) => b.id)
+
+  const [movements, orders] = await Promise.all([
+    prisma.traceabilityRecord.findMany({
+      where: { batchId: { in: batchIds }, eventType: { in: MOVEMENT_EVENTS } },
+      select: {
+        batchId: true,
+        lotId: true,
+        eventType: true,
+        eventLocation: true,
+        eventTime: true,
+        description: true,
+      },
+      orderBy: { eventTime: 'asc' },
+    }),
+    findOrdersForBatches(batchIds, prisma),
+  ])
+
+  const storageLocations = new Set<string>()
+  batches.forEach((b: any) => b.storageLocation && storageLocations.add(b.storageLocation))
+  movements.forEach((m: any) => m.eventLocation && storageLocations.add(m.eventLocation))
+
+  const deliveries = orders.flatMap((order: any) =>
+    order.deliveries.map((d: any) => ({ ...d, poNumber: order.poNumber }))
+  )
+
+  return {
+    origin: { type: origin, value },
+    summary: {
+      batchCount: batches.length,
+      millCount: new Set(batches.map((b: any) => b.millId)).size,
+      totalOutputWeight: batches.reduce((sum: number, b: any) => sum + (b.outputWeight || 0), 0),
+      storageLocationCount: storageLocations.size,
+      orderCount: orders.length,
+      buyerCount: new Set(orders.map((o: any) => o.buyer.id)).size,
+      deliveryCount: deliveries.length,
+    },
+    batches: batches.map((b: any) => ({
+      ...b,
+      movements: movements.filter((m: any) => m.batchId === b.id),
+      poNumbers: orders
+        .filter((o: any) => o.linkedBatchIds.includes(b.id))
+        .map((o: any) => o.poNumber),
+    })),
+    storageLocations: Array.from(storageLocations),
+    orders: orders.map(({ batchLinkage, deliveries, ...order }: any) => ({
+      ...order,
+      linkedBatches: order.linkedBatchIds.map(
+        (id: string) => batches.find((b: any) => b.id === id)?.batchId || id
+      ),
+      deliveryIds: deliveries.map((d: any) => d.id),
+    })),
+    deliveries,
+  }
+}
+
+/**
+ * Walk a delivery back through its purchase order to the batches that filled it
+ * and every input lot, supplier and piece of equipment behind those batches
+ */
+export async function traceBackward(delivery: any, prisma: any) {
+  const batchIds = parseJsonArray(delivery.purchaseOrder.batchLinkage)
+
+  const batches = await prisma.batchLog.findMany({
+    where: { id: { in: batchIds } },
+    select: {
+      ...BATCH_SELECT,
+      doserId: true,
+      mixerId: true,
+      operator: { select: { id: true, name: true } },
+      qcTests: {
+        select: { testType: true, result: true, unit: true, status: true, testDate: true },
+      },
+      traceabilityRecords: {
+        where: { lotId: { not: null } },
+        select: { lotId: true },
+      },
+    },
+    orderBy: { batchDateTime: 'asc' },
+  })
+
+  const distinct = (values: (string | null | undefined)[]) =>
+    Array.from(new Set(values.filter((v): v is string => !!v)))
+
+  return {
+    delivery: {
+      id: delivery.id,
+      status: delivery.status,
+      quantity: delivery.quantity,
+      scheduledDate: delivery.scheduledDate,
+      actualDate: delivery.actualDate,
+      locationId: delivery.locationId,
+    },
+    purchaseOrder: {
+      id: delivery.purchaseOrder.id,
+      poNumber: delivery.purchaseOrder.poNumber,
+      status: delivery.purchaseOrder.status,
+      buyer: delivery.purchaseOrder.buyer.organizationName,
+      mill: delivery.purchaseOrder.mill,
+    },
+    // Deliveries are not tied to individual batches, so every batch linked to the order is a candidate
+    batches: batches.map(({ traceabilityRecords, ...b }: any) => ({
+      ...b,
+      lotIds: distinct(traceabilityRecords.map((r: any) => r.lotId)),
+    })),
+    inputs: {
+      rawMaterialLots: distinct(batches.map((b: any) => b.rawMaterialLot)),
+      rawMaterialSources: distinct(batches.map((b: any) => b.rawMaterialSource)),
+      premixLots: distinct(batches.map((b: any) => b.premixBatchNumber)).map((lot) => {
+        const batch = batches.find((b: any) => b.premixBatchNumber === lot)
+        return {
+          premixBatchNumber: lot,
+          premixType: batch.premixType,
+          premixManufacturer: batch.premixManufacturer,
+          premixExpiryDate: batch.premixExpiryDate,
+        }
+      }),
+      equipmentIds: distinct(batches.flatMap((b: any) => [b.doserId, b.mixerId])),
+      lotIds: distinct(
+        batches.flatMap((b: any) => b.traceabilityRecords.map((r: any) => r.lotId))
+      ),
+    },
+  }
+}
@@ -0,0 +1,208 @@
+// Delivery & logistics utilities
+
+export type DeliveryStatus = 'SCHEDULED' | 'DISPATCHED' | 'IN_TRANSIT' | 'DELIVERED' | 'FAILED'
+
+/**
+ * Allowed delivery status transitions.
+ * SCHEDULED → DISPATCHED → IN_TRANSIT → DELIVERED, with FAILED possible before delivery.
+ */
+export const DELIVERY_STATUS_TRANSITIONS: Record<DeliveryStatus, DeliveryStatus[]> = {
+  SCHEDULED: ['DISPATCHED', 'FAILED'],
+  DISPATCHED: ['IN_TRANSIT', 'DELIVERED', 'FAILED'],
+  IN_TRANSIT: ['DELIVERED', 'FAILED'],
+  DELIVERED: [],
+  FAILED: [],
+}
+
+export function canTransitionDelivery(from: string, to: DeliveryStatus): boolean {
+  const allowed = DELIVERY_STATUS_TRANSITIONS[from as DeliveryStatus]
+  return allowed ? allowed.includes(to) : false
+}
+
+export interface DeliveryLocation {
+  id: string
+  name: string
+  address?: string
+  latitude?: number
+  longitude?: number
+  contactName?: string
+  contactPhone?: string
+}
+
+/**
+ * Parse RFP.deliveryLocations JSON.
+ * Locations without an explicit id are keyed by their position in the list.
+ */
+export function parseDeliveryLocations(value: string | null | undefined): DeliveryLocation[] {
+  if (!value) return []
+  try {
+    const parsed = JSON.parse(value)
+    if (!Array.isArray(parsed)) return []
+    return parsed.map((location: any, index: number) => ({
+      ...location,
+      id: String(location.id ?? index),
+      name: location.name || location.address || `Location ${index + 1}`,
+    }))
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Whether a user may schedule and dispatch deliveries for a purchase order.
+ * Logistics planners tied to a mill only handle that mill's orders.
+ */
+export function canManageDeliveries(
+  order: { millId: string },
+  user: { role: string; millId?: string | null }
+): boolean {
+  if (user.role === 'LOGISTICS_PLANNER') {
+    return !user.millId || user.millId === order.millId
+  }
+  return user.role === 'MILL_MANAGER' && user.millId === order.millId
+}
+
+/**
+ * Evaluate a proof of delivery against the scheduled quantity
+ */
+export function assessDeliveryShortfall(
+  scheduledQuantity: number,
+  receivedQuantity: number
+): {
+  shortfall: number
+  shortfallPercent: number
+  isShort: boolean
+  severity: 'HIGH' | 'MEDIUM' | null
+} {
+  const shortfall = Math.max(0, scheduledQuantity - receivedQuantity)
+  const shortfallPercent = scheduledQuantity > 0 ? (shortfall / scheduledQuantity) * 100 : 0
+
+  return {
+    shortfall,
+    shortfallPercent,
+    isShort: shortfall > 0,
+    severity: shortfall === 0 ? null : shortfallPercent > 10 ? 'HIGH' : 'MEDIUM',
+  }
+}
+
+// Straight-line distance understates road travel; inflate it for ETA purposes
+const ROAD_DISTANCE_FACTOR = 1.3
+
+// Speed assumed when the trail is too short to estimate one (km/h)
+export const DEFAULT_TRAVEL_SPEED_KMH = 40
+
+// How far past scheduledDate the ETA may slip before raising DELIVERY_DELAY
+export const DELIVERY_DELAY_MARGIN_MINUTES = parseInt(
+  process.env.DELIVERY_DELAY_MARGIN_MINUTES || '60'
+)
+
+export interface GpsPoint {
+  latitude: number
+  longitude: number
+  recordedAt: Date
+  speed?: number | null // km/h
+}
+
+/**
+ * Great-circle distance between two coordinates in kilometres (haversine)
+ */
+export function calculateDistanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  const toRadians = (degrees: number) => (degrees * Math.PI) / 180
+  const dLat = toRadians(to.latitude - from.latitude)
+  const dLon = toRadians(to.longitude - from.longitude)
+
+  const a =
+    Math.sin(dLat / 2) ** 2 +
+    Math.cos(toRadians(from.latitude)) * Math.cos(toRadians(to.latitude)) * Math.sin(dLon / 2) ** 2
+
+  return 6371 * 2 * Math.atan2(Math.sqrt(a), Math.sqrt(1 - a))
+}
+
+/**
+ * Approximate road distance in kilometres from straight-line distance
+ */
+export function estimateRoadDistanceKm(
+  from: { latitude: number; longitude: number },
+  to: { latitude: number; longitude: number }
+): number {
+  return Math.round(calculateDistanceKm(from, to) * ROAD_DISTANCE_FACTOR * 100) / 100
+}
+
+/**
+ * Estimated road distance remaining from the driver's position to the drop-off
+ */
+export function calculateDistanceRemaining(
+  position: { latitude: number; longitude: number },
+  destination: DeliveryLocation
+): number | null {
+  if (destination.latitude === undefined || destination.longitude === undefined) return null
+  return estimateRoadDistanceKm(position, {
+    latitude: destination.latitude,
+    longitude: destination.longitude,
+  })
+}
+
+/**
+ * Rolling average speed over the recent breadcrumb trail (km/h).
+ * Uses distance covered between pings, falling back to device-reported speed
+ * and finally to DEFAULT_TRAVEL_SPEED_KMH.
+ */
+export function estimateTravelSpeed(trail: GpsPoint[], windowMinutes: number = 30): number {
+  const sorted = [...trail].sort((a, b) => a.recordedAt.getTime() - b.recordedAt.getTime())
+  if (sorted.length === 0) return DEFAULT_TRAVEL_SPEED_KMH
+
+  const latest = sorted[sorted.length - 1].recordedAt.getTime()
+  const recent = sorted.filter((p) => latest - p.recordedAt.getTime() <= windowMinutes * 60 * 1000)
+
+  if (recent.length >= 2) {
+    let distance = 0
+    for (let i = 1; i < recent.length; i++) {
+      distance += calculateDistanceKm(recent[i - 1], recent[i])
+    }
+    const hours = (latest - recent[0].recordedAt.getTime()) / (60 * 60 * 1000)
+    // Ignore near-stationary windows (loading, traffic lights) rather than predicting no arrival
+    if (hours > 0 && distance / hours >= 5) {
+      return (distance * ROAD_DISTANCE_FACTOR) / hours
+    }
+  }
+
+  const reported = recent.map((p) => p.speed).filter((s): s is number => typeof s === 'number' && s > 0)
+  if (reported.length > 0) {
+    return reported.reduce((sum, s) => sum + s, 0) / reported.length
+  }
+
+  return DEFAULT_TRAVEL_SPEED_KMH
+}
+
+export function estimateArrival(
+  distanceRemainingKm: number,
+  speedKmh: number,
+  from: Date
+): Date {
+  const hours = distanceRemainingKm / Math.max(speedKmh, 1)
+  return new Date(from.getTime() + hours * 60 * 60 * 1000)
+}
+
+/**
+ * Compare an ETA against the scheduled delivery date
+ */
+export function assessDeliveryDelay(
+  estimatedArrival: Date,
+  scheduledDate: Date,
+  marginMinutes: number = DELIVERY_DELAY_MARGIN_MINUTES
+): { delayMinutes: number; isDelayed: boolean; severity: 'HIGH' | 'MEDIUM' | null } {
+  const delayMinutes = Math.max(
+    0,
+    Math.round((estimatedArrival.getTime() - scheduledDate.getTime()) / (60 * 1000))
+  )
+  const isDelayed = delayMinutes > marginMinutes
+
+  return {
+    delayMinutes,
+    isDelayed,
+    severity: !isDelayed ? null : delayMinutes > 24 * 60 ? 'HIGH' : 'MEDIUM',
+  }
+}
@@ -0,0 +1,93 @@
+// Mill scope enforced at the data layer: queries made while handling a mill-bound
+// user's request are confined to that user's mill, whatever the route itself filters on
+
+import { AsyncLocalStorage } from 'async_hooks'
+
+// Scope for users who belong to no mill; as a millId it matches no row
+export const NO_MILL_SCOPE = '<no-mill>'
+
+// Models carrying a millId that mill users may only see for their own mill.
+// Procurement models are excluded: buyers and mills are both parties to those rows.
+export const MILL_SCOPED_MODELS = [
+  'ComplianceAudit',
+  'BatchLog',
+  'PremixLot',
+  'Equipment',
+  'MaintenanceSchedule',
+  'MaintenanceTask',
+  'MaintenanceAlert',
+  'MaintenanceWindow',
+  'MaintenanceEvidence',
+  'Alert',
+  'ActionItem',
+]
+
+const FILTERED_OPERATIONS = [
+  'findUnique',
+  'findUniqueOrThrow',
+  'findFirst',
+  'findFirstOrThrow',
+  'findMany',
+  'count',
+  'aggregate',
+  'groupBy',
+  'update',
+  'updateMany',
+  'delete',
+  'deleteMany',
+  'upsert',
+]
+
+export class MillScopeError extends Error {
+  constructor(model: string, millId: unknown) {
+    super(`Cannot write ${model} for mill ${String(millId)} outside the caller's mill`)
+    this.name = 'MillScopeError'
+  }
+}
+
+const millScopeStorage = new AsyncLocalStorage<{ millId: string }>()
+
+/**
+ * Run a callback with every scoped query confined to the given mill
+ */
+export function runWithMillScope<T>(millId: string, callback: () => T): T {
+  return millScopeStorage.run({ millId }, callback)
+}
+
+export function getCurrentMillScope(): string | null {
+  return millScopeStorage.getStore()?.millId ?? null
+}
+
+function assertOwnMill(model: string, millId: string, data: any) {
+  const written = data?.millId ?? data?.mill?.connect?.id
+  if (written !== undefined && written !== millId) {
+    throw new MillScopeError(model, written)
+  }
+}
+
+/**
+ * Rewrite query arguments so they cannot reach another mill's rows. Reads, updates
+ * and deletes gain a millId filter; writes naming another mill are refused.
+ * Arguments pass through untouched outside a mill scope.
+ */
+export function applyMillScope(model: string | undefined, operation: string, args: any) {
+  const millId = getCurrentMillScope()
+  if (!millId || !model || !MILL_SCOPED_MODELS.includes(model)) return args
+
+  if (operation === 'create' || operation === 'update' || operation === 'updateMany') {
+    assertOwnMill(model, millId, args?.data)
+  }
+  if (operation === 'upsert') {
+    assertOwnMill(model, millId, args?.create)
+    assertOwnMill(model, millId, args?.update)
+  }
+  if (operation === 'createMany' || operation === 'createManyAndReturn') {
+    const rows = Array.isArray(args?.data) ? args.data : [args?.data]
+    rows.forEach((row: any) => assertOwnMill(model, millId, row))
+  }
+  if (!FILTERED_OPERATIONS.includes(operation)) return args
+
+  const where = args?.where ?? {}
+  const and = where.AND === undefined ? [] : Array.isArray(where.AND) ? where.AND : [where.AND]
+  return { ...args, where: { ...where, AND: [...and, { millId }] } }
+}
@@ -0,0 +1,389 @@
+// Notification channel adapters: how a queued notification or digest actually reaches someone
+//
+// Each channel has one adapter. Real transports are used when configured (SMTP_HOST,
+// SMS_GATEWAY_URL, PUSH_GATEWAY_URL); otherwise messages go to a local file sink so
+// delivery can be exercised offline.
+
+import { appendFile, mkdir } from 'fs/promises'
+import net from 'net'
+import path from 'path'
+import tls from 'tls'
+
+export type NotificationChannelName = 'EMAIL' | 'SMS' | 'PUSH' | 'IN_SYSTEM'
+
+export interface NotificationRecipient {
+  id: string
+  email: string
+  name?: string | null
+  phone?: string | null
+}
+
+export interface NotificationMessage {
+  notificationId: string
+  alertId?: string // Unset for digests
+  title: string
+  message: string
+  severity?: string
+  actionRequired?: string | null
+  deadline?: string | null
+  responseUrl?: string | null
+}
+
+export interface ChannelDeliveryResult {
+  status: 'SENT' | 'DELIVERED' // DELIVERED when the adapter knows the message reached the user
+  providerMessageId?: string
+  metadata?: Record<string, unknown>
+}
+
+export interface ChannelAdapter {
+  name: string
+  channel: NotificationChannelName
+  // Address for this channel (email, phone, user ID), or null if the user has none
+  resolveAddress(recipient: NotificationRecipient): string | null
+  send(address: string, message: NotificationMessage): Promise<ChannelDeliveryResult>
+}
+
+/**
+ * Delivery failure. Permanent failures (bad address, rejected by the provider)
+ * are not retried.
+ */
+export class ChannelDeliveryError extends Error {
+  constructor(message: string, public permanent = false) {
+    super(message)
+    this.name = 'ChannelDeliveryError'
+  }
+}
+
+const SMS_MAX_LENGTH = 320
+
+export function formatEmail(message: NotificationMessage) {
+  const lines = [
+    message.message,
+    '',
+    message.actionRequired ? `Action required: ${message.actionRequired}` : null,
+    message.deadline ? `Deadline: ${new Date(message.deadline).toUTCString()}` : null,
+    message.responseUrl ? `Respond: ${message.responseUrl}` : null,
+  ].filter((line): line is string => line !== null)
+
+  return {
+    subject: message.severity ? `[${message.severity}] ${message.title}` : message.title,
+    text: lines.join('\n'),
+  }
+}
+
+export function formatSms(message: NotificationMessage): string {
+  const link = message.responseUrl ? ` ${message.responseUrl}` : ''
+  const text = `${message.severity ? `${message.severity}: ` : ''}${message.title}. ${message.message}`
+  const room = SMS_MAX_LENGTH - link.length
+  return (text.length > room ? `${text.slice(0, room - 3)}...` : text) + link
+}
+
+export function formatPush(message: NotificationMessage) {
+  return {
+    title: message.title,
+    body: message.actionRequired || message.message,
+    url: message.responseUrl || undefined,
+    tag: message.alertId || message.notificationId,
+    requireInteraction: message.severity === 'CRITICAL',
+  }
+}
+
+// In-system notifications are read from AlertNotification itself; storing it is delivery
+export const inSystemAdapter: ChannelAdapter = {
+  name: 'in-system',
+  channel: 'IN_SYSTEM',
+  resolveAddress: (recipient) => recipient.id,
+  async send() {
+    return { status: 'DELIVERED' }
+  },
+}
+
+/**
+ * Local sink: appends each message as a JSON line to NOTIFICATION_SINK_DIR/<channel>.jsonl
+ */
+export function createFileSinkAdapter(
+  channel: Exclude<NotificationChannelName, 'IN_SYSTEM'>
+): ChannelAdapter {
+  const resolveAddress: ChannelAdapter['resolveAddress'] =
+    channel === 'EMAIL'
+      ? (recipient) => recipient.email
+      : channel === 'SMS'
+      ? (recipient) => recipient.phone || null
+      : (recipient) => recipient.id
+
+  return {
+    name: 'file-sink',
+    channel,
+    resolveAddress,
+    async send(address, message) {
+      const payload =
+        channel === 'EMAIL' ? formatEmail(message) : channel === 'SMS' ? { text: formatSms(message) } : formatPush(message)
+
+      const dir = process.env.NOTIFICATION_SINK_DIR || path.join(process.cwd(), '.notifications')
+      const file = path.join(dir, `${channel.toLowerCase()}.jsonl`)
+      await mkdir(dir, { recursive: true })
+      await appendFile(
+        file,
+        JSON.stringify({ at: new Date().toISOString(), to: address, notificationId: message.notificationId, ...payload }) + '\n'
+      )
+
+      return { status: 'SENT', metadata: { file } }
+    },
+  }
+}
+
+/**
+ * Minimal SMTP client (RFC 5321): one message per connection, optional implicit TLS
+ * and AUTH PLAIN. Enough for a relay or a local catcher such as `npm run notifications:smtp-catcher`.
+ */
+export function createSmtpEmailAdapter(config: {
+  host: string
+  port: number
+  secure: boolean
+  user?: string
+  password?: string
+  from: string
+}): ChannelAdapter {
+  return {
+    name: 'smtp',
+    channel: 'EMAIL',
+    resolveAddress: (recipient) => recipient.email,
+    async send(address, message) {
+      // A line break in the address would let it inject headers or SMTP commands
+      if (/[\r\n<>]/.test(address)) {
+        throw new ChannelDeliveryError(`Invalid email address: ${JSON.stringify(address)}`, true)
+      }
+
+      const { subject, text } = formatEmail(message)
+      const messageId = `<${message.notificationId}@${config.host}>`
+      const body = [
+        `From: ${headerValue(config.from)}`,
+        `To: ${address}`,
+        `Subject: ${encodeHeaderWord(subject)}`,
+        `Message-ID: ${messageId}`,
+        `Date: ${new Date().toUTCString()}`,
+        'MIME-Version: 1.0',
+        'Content-Type: text/plain; charset=utf-8',
+        '',
+        // Dot-stuffing so a line starting with "." does not end the message early
+        ...text.split('\n').map((line) => (line.startsWith('.') ? `.${line}` : line)),
+      ].join('\r\n')
+
+      const commands: [string | null, number][] = [
+        [null, 220],
+        [`EHLO ${process.env.SMTP_HELO_NAME || 'localhost'}`, 250],
+        ...(config.user
+          ? [[`AUTH PLAIN ${Buffer.from(`\0${config.user}\0${config.password || ''}`).toString('base64')}`, 235] as [string, number]]
+          : []),
+        [`MAIL FROM:<${extractAddress(config.from)}>`, 250],
+        [`RCPT TO:<${address}>`, 250],
+        ['DATA', 354],
+        [`${body}\r\n.`, 250],
+        ['QUIT', 221],
+      ]
+
+      await runSmtpSession(config, commands)
+      return { status: 'SENT', providerMessageId: messageId }
+    },
+  }
+}
+
+// Header values are single lines: folding CR/LF into spaces stops header injection
+function headerValue(value: string): string {
+  return value.replace(/[\r\n]+/g, ' ')
+}
+
+/**
+ * Subject header value: plain ASCII as is, anything else as RFC 2047 encoded words.
+ * Each word carries at most 45 bytes, staying within 75 characters encoded, and never splits a character.
+ */
+export function encodeHeaderWord(value: string): string {
+  const line = headerValue(value)
+  if (/^[\x20-\x7e]*$/.test(line)) return line
+
+  const words: string[] = []
+  let chunk = ''
+  for (const char of Array.from(line)) {
+    if (Buffer.byteLength(chunk + char, 'utf8') > 45) {
+      words.push(chunk)
+      chunk = ''
+    }
+    chunk += char
+  }
+  words.push(chunk)
+
+  return words
+    .map((word) => `=?UTF-8?B?${Buffer.from(word, 'utf8').toString('base64')}?=`)
+    .join('\r\n ')
+}
+
+function extractAddress(from: string): string {
+  const match = from.match(/<([^>]+)>/)
+  return match ? match[1] : from
+}
+
+// Idle time allowed between replies, and the most a whole session may take
+const SMTP_IDLE_TIMEOUT_MS = 15000
+const SMTP_SESSION_TIMEOUT_MS = 60000
+
+function runSmtpSession(
+  config: { host: string; port: number; secure: boolean },
+  commands: [string | null, number][]
+): Promise<void> {
+  return new Promise((resolve, reject) => {
+    const socket = config.secure
+      ? tls.connect({ host: config.host, port: config.port, servername: config.host })
+      : net.connect({ host: config.host, port: config.port })
+
+    let buffer = ''
+    let step = 0
+    let settled = false
+    const sessionTimer = setTimeout(
+      () => fail(new ChannelDeliveryError('SMTP session timed out')),
+      SMTP_SESSION_TIMEOUT_MS
+    )
+
+    const finish = (error?: ChannelDeliveryError) => {
+      if (settled) return
+      settled = true
+      clearTimeout(sessionTimer)
+      if (error) reject(error)
+      else resolve()
+    }
+    const fail = (error: ChannelDeliveryError) => {
+      finish(error)
+      socket.destroy()
+    }
+
+    socket.setEncoding('utf8')
+    socket.setTimeout(SMTP_IDLE_TIMEOUT_MS, () => fail(new ChannelDeliveryError('SMTP timeout')))
+    socket.on('error', (error) =>
+      fail(error instanceof ChannelDeliveryError ? error : new ChannelDeliveryError(error.message))
+    )
+    // A server that hangs up mid-session must not leave the delivery pending forever
+    socket.on('end', () => fail(new ChannelDeliveryError('SMTP server closed the connection')))
+    socket.on('close', () => fail(new ChannelDeliveryError('SMTP connection closed')))
+
+    socket.on('data', (chunk: string) => {
+      buffer += chunk
+      // A reply is complete once its last line has a space after the code ("250 OK")
+      const lines = buffer.split('\r\n')
+      const last = lines.length > 1 ? lines[lines.length - 2] : ''
+      if (!/^\d{3} /.test(last)) return
+      buffer = ''
+
+      const code = parseInt(last.slice(0, 3))
+      const expected = commands[step][1]
+      if (code !== expected) {
+        // 5xx replies (unknown mailbox, rejected content) will not succeed on retry
+        fail(new ChannelDeliveryError(`SMTP ${code}: ${last.slice(4)}`, code >= 500))
+        return
+      }
+
+      step++
+      if (step >= commands.length) {
+        finish()
+        socket.end()
+        return
+      }
+      socket.write(`${commands[step][0]}\r\n`)
+    })
+  })
+}
+
+/**
+ * SMS or push through an HTTP gateway: POSTs JSON with the address and rendered
+ * message, authenticated with a bearer token when one is configured
+ */
+export function createHttpGatewayAdapter(
+  channel: 'SMS' | 'PUSH',
+  config: { url: string; token?: string }
+): ChannelAdapter {
+  return {
+    name: `${channel.toLowerCase()}-gateway`,
+    channel,
+    resolveAddress: channel === 'SMS' ? (recipient) => recipient.phone || null : (recipient) => recipient.id,
+    async send(address, message) {
+      const payload =
+        channel === 'SMS'
+          ? { to: address, text: formatSms(message), reference: message.notificationId }
+          : { userId: address, notification: formatPush(message), reference: message.notificationId }
+
+      let response: Response
+      try {
+        response = await fetch(config.url, {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json',
+            ...(config.token ? { Authorization: `Bearer ${config.token}` } : {}),
+          },
+          body: JSON.stringify(payload),
+        })
+      } catch (error) {
+        throw new ChannelDeliveryError(error instanceof Error ? error.message : 'Gateway unreachable')
+      }
+
+      if (!response.ok) {
+        const detail = await response.text().catch(() => '')
+        // 4xx other than rate limiting means the request itself is wrong
+        const permanent = response.status >= 400 && response.status < 500 && response.status !== 429
+        throw new ChannelDeliveryError(`Gateway responded ${response.status}${detail ? `: ${detail.slice(0, 200)}` : ''}`, permanent)
+      }
+
+      const result = await response.json().catch(() => ({}))
+      return { status: 'SENT', providerMessageId: result.id || result.messageId }
+    },
+  }
+}
+
+const registeredAdapters = new Map<NotificationChannelName, ChannelAdapter>()
+
+/**
+ * Replace the adapter used for a channel (e.g. a provider SDK wrapper)
+ */
+export function registerChannelAdapter(adapter: ChannelAdapter) {
+  registeredAdapters.set(adapter.channel, adapter)
+}
+
+export function getChannelAdapter(channel: NotificationChannelName): ChannelAdapter {
+  const registered = registeredAdapters.get(channel)
+  if (registered) return registered
+
+  let adapter: ChannelAdapter
+  switch (channel) {
+    case 'IN_SYSTEM':
+      adapter = inSystemAdapter
+      break
+    case 'EMAIL':
+      adapter = process.env.SMTP_HOST
+        ? createSmtpEmailAdapter({
+            host: process.env.SMTP_HOST,
+            port: parseInt(process.env.SMTP_PORT || '25'),
+            secure: process.env.SMTP_SECURE === 'true',
+            user: process.env.SMTP_USER || undefined,
+            password: process.env.SMTP_PASSWORD || undefined,
+            from: process.env.NOTIFICATION_EMAIL_FROM || 'FortifyMIS <alerts@localhost>',
+          })
+        : createFileSinkAdapter('EMAIL')
+      break
+    case 'SMS':
+      adapter = process.env.SMS_GATEWAY_URL
+        ? createHttpGatewayAdapter('SMS', {
+            url: process.env.SMS_GATEWAY_URL,
+            token: process.env.SMS_GATEWAY_TOKEN || undefined,
+          })
+        : createFileSinkAdapter('SMS')
+      break
+    case 'PUSH':
+      adapter = process.env.PUSH_GATEWAY_URL
+        ? createHttpGatewayAdapter('PUSH', {
+            url: process.env.PUSH_GATEWAY_URL,
+            token: process.env.PUSH_GATEWAY_TOKEN || undefined,
+          })
+        : createFileSinkAdapter('PUSH')
+      break
+  }
+
+  registeredAdapters.set(channel, adapter)
+  return adapter
+}
@@ -0,0 +1,273 @@
+// Notification delivery: drains the AlertNotification and NotificationDigest queues through
+// the channel adapters, retrying failures with exponential backoff and logging every attempt
+
+import {
+  ChannelDeliveryError,
+  getChannelAdapter,
+  NotificationChannelName,
+  NotificationMessage,
+} from '@/lib/notification-channels'
+import { formatDigestMessage } from '@/lib/notification-digest'
+
+export const DELIVERY_BATCH_SIZE = 100
+const RETRY_BASE_DELAY_MS = 60 * 1000 // 1, 2, 4, ... minutes between attempts
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000
+const CLAIM_LEASE_MS = 5 * 60 * 1000 // Hides a claimed notification from other workers while it is sent
+
+export type DeliveryOutcome = 'SENT' | 'DELIVERED' | 'RETRY' | 'FAILED'
+
+// Both queues share the delivery fields (status, retryCount, scheduledFor, ...)
+type DeliveryQueue = 'alertNotification' | 'notificationDigest'
+
+export interface DeliveryAttemptResult {
+  notificationId: string
+  kind: 'ALERT' | 'DIGEST'
+  channel: string
+  outcome: DeliveryOutcome
+  attempt: number
+  error?: string
+  nextAttemptAt?: Date
+}
+
+const RECIPIENT_INCLUDE = {
+  user: {
+    select: {
+      id: true,
+      email: true,
+      name: true,
+      isActive: true,
+      profile: { select: { phone: true } },
+    },
+  },
+}
+
+/**
+ * Wait before the next attempt after `failures` failed ones
+ */
+export function getRetryDelayMs(failures: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * 2 ** Math.max(failures - 1, 0), RETRY_MAX_DELAY_MS)
+}
+
+function toMessage(notification: any): NotificationMessage {
+  const content = notification.content ? JSON.parse(notification.content) : {}
+  return {
+    notificationId: notification.id,
+    alertId: notification.alertId,
+    title: content.title || 'FortifyMIS alert',
+    message: content.message || '',
+    severity: content.severity,
+    actionRequired: content.actionRequired,
+    deadline: content.deadline,
+    responseUrl: notification.responseUrl || content.responseUrl,
+  }
+}
+
+/**
+ * Take a pending item for this worker by pushing its scheduledFor past the lease.
+ * Fails if another worker claimed it first; a crashed worker's claim expires.
+ */
+async function claim(queue: DeliveryQueue, item: any, prisma: any): Promise<boolean> {
+  const { count } = await prisma[queue].updateMany({
+    where: { id: item.id, status: 'PENDING', scheduledFor: item.scheduledFor },
+    data: { scheduledFor: new Date(Date.now() + CLAIM_LEASE_MS) },
+  })
+  return count === 1
+}
+
+/**
+ * Send one queued item through its channel adapter and record the attempt.
+ * Transient failures are rescheduled until maxRetries retries have been used;
+ * permanent ones (no address, rejected by the provider) fail straight away.
+ */
+async function deliver(
+  queue: DeliveryQueue,
+  notification: any,
+  message: NotificationMessage,
+  prisma: any
+): Promise<DeliveryAttemptResult> {
+  const kind = queue === 'notificationDigest' ? 'DIGEST' : 'ALERT'
+  const adapter = getChannelAdapter(notification.channel as NotificationChannelName)
+  const user = notification.user
+  const address = user.isActive
+    ? adapter.resolveAddress({
+        id: user.id,
+        email: user.email,
+        name: user.name,
+        phone: user.profile?.phone,
+      })
+    : null
+  const attempt = notification.retryCount + 1
+  const attemptedAt = new Date()
+
+  try {
+    if (!address) {
+      throw new ChannelDeliveryError(
+        user.isActive ? `No ${notification.channel} address for user` : 'User is inactive',
+        true
+      )
+    }
+
+    const result = await adapter.send(address, message)
+    const deliveredAt = result.status === 'DELIVERED' ? new Date() : null
+
+    await prisma.$transaction([
+      prisma[queue].update({
+        where: { id: notification.id },
+        data: {
+          status: result.status,
+          sentAt: attemptedAt,
+          deliveredAt,
+          failureReason: null,
+        },
+      }),
+      prisma.notificationDeliveryLog.create({
+        data: {
+          alertId: notification.alertId ?? null,
+          notificationId: notification.id,
+          channel: notification.channel,
+          recipient: address,
+          status: result.status,
+          sentAt: attemptedAt,
+          deliveredAt,
+          metadata: JSON.stringify({
+            kind,
+            attempt,
+            adapter: adapter.name,
+            providerMessageId: result.providerMessageId,
+            ...result.metadata,
+          }),
+        },
+      }),
+    ])
+
+    return { notificationId: notification.id, kind, channel: notification.channel, outcome: result.status, attempt }
+  } catch (error) {
+    const reason = error instanceof Error ? error.message : 'Unknown delivery error'
+    const permanent = error instanceof ChannelDeliveryError && error.permanent
+    const exhausted = permanent || attempt > notification.maxRetries
+    const nextAttemptAt = exhausted ? undefined : new Date(Date.now() + getRetryDelayMs(attempt))
+
+    await prisma.$transaction([
+      prisma[queue].update({
+        where: { id: notification.id },
+        data: {
+          status: exhausted ? 'FAILED' : 'PENDING',
+          retryCount: attempt,
+          failedAt: attemptedAt,
+          failureReason: reason,
+          ...(nextAttemptAt ? { scheduledFor: nextAttemptAt } : {}),
+        },
+      }),
+      prisma.notificationDeliveryLog.create({
+        data: {
+          alertId: notification.alertId ?? null,
+          notificationId: notification.id,
+          channel: notification.channel,
+          recipient: address || user.email,
+          status: 'FAILED',
+          sentAt: attemptedAt,
+          error: reason,
+          metadata: JSON.stringify({
+            kind,
+            attempt,
+            adapter: adapter.name,
+            permanent,
+            nextAttemptAt,
+          }),
+        },
+      }),
+    ])
+
+    return {
+      notificationId: notification.id,
+      kind,
+      channel: notification.channel,
+      outcome: exhausted ? 'FAILED' : 'RETRY',
+      attempt,
+      error: reason,
+      nextAttemptAt,
+    }
+  }
+}
+
+export function deliverNotification(notification: any, prisma: any) {
+  return deliver('alertNotification', notification, toMessage(notification), prisma)
+}
+
+export function deliverDigest(digest: any, prisma: any) {
+  return deliver('notificationDigest', digest, formatDigestMessage(digest), prisma)
+}
+
+/**
+ * Deliver every pending notification and digest that is due, oldest first. Pass
+ * alertId to push out one alert's notifications immediately (digests are skipped).
+ */
+export async function processNotificationQueue(
+  prisma: any,
+  options: { alertId?: string; limit?: number } = {}
+) {
+  const now = new Date()
+  const limit = options.limit ?? DELIVERY_BATCH_SIZE
+
+  const notifications = await prisma.alertNotification.findMany({
+    where: {
+      status: 'PENDING',
+      scheduledFor: { lte: now },
+      ...(options.alertId ? { alertId: options.alertId } : {}),
+    },
+    include: RECIPIENT_INCLUDE,
+    orderBy: { scheduledFor: 'asc' },
+    take: limit,
+  })
+
+  const digests = options.alertId
+    ? []
+    : await prisma.notificationDigest.findMany({
+        where: { status: 'PENDING', scheduledFor: { lte: now } },
+        include: RECIPIENT_INCLUDE,
+        orderBy: { scheduledFor: 'asc' },
+        take: Math.max(limit - notifications.length, 0),
+      })
+
+  const due: [DeliveryQueue, any][] = [
+    ...notifications.map((n: any) => ['alertNotification', n] as [DeliveryQueue, any]),
+    ...digests.map((d: any) => ['notificationDigest', d] as [DeliveryQueue, any]),
+  ]
+
+  const results: DeliveryAttemptResult[] = []
+  const errors: any[] = []
+
+  for (const [queue, item] of due) {
+    try {
+      if (!(await claim(queue, item, prisma))) continue
+      results.push(
+        queue === 'notificationDigest'
+          ? await deliverDigest(item, prisma)
+          : await deliverNotification(item, prisma)
+      )
+    } catch (error) {
+      console.error(`Error delivering ${queue === 'notificationDigest' ? 'digest' : 'notification'} ${item.id}:`, error)
+      errors.push({
+        notificationId: item.id,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  const count = (outcome: DeliveryOutcome) => results.filter((r) => r.outcome === outcome).length
+
+  return {
+    summary: {
+      due: due.length,
+      digests: digests.length,
+      attempted: results.length,
+      sent: count('SENT'),
+      delivered: count('DELIVERED'),
+      retrying: count('RETRY'),
+      failed: count('FAILED'),
+      errors: errors.length,
+    },
+    results,
+    errors,
+  }
+}
@@ -0,0 +1,241 @@
+// Daily and weekly digests of LOW/MEDIUM alerts, grouped by mill and category
+
+import type { NotificationMessage } from '@/lib/notification-channels'
+import {
+  DIGEST_SEVERITIES,
+  DigestSettings,
+  getLocalTimeParts,
+  isChannelEnabled,
+  minutesOfDay,
+  toPreferenceSettings,
+} from '@/lib/notification-preferences'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const TOP_UNRESOLVED_PER_CATEGORY = 5
+
+// Unresolved items first by severity, then by whichever deadline is closest
+const SEVERITY_RANK: Record<string, number> = { MEDIUM: 0, LOW: 1 }
+
+/**
+ * The most recent scheduled send time at or before `now`, and the period it covers
+ */
+export function getDigestPeriod(
+  settings: DigestSettings,
+  timeZone: string,
+  now: Date = new Date()
+): { periodStart: Date; periodEnd: Date } | null {
+  if (settings.frequency === 'NONE') return null
+
+  const local = getLocalTimeParts(timeZone, now)
+  const sendAt = minutesOfDay(settings.sendAt)
+  let scheduled =
+    Date.UTC(local.year, local.month - 1, local.day) + (sendAt - local.offsetMinutes) * 60 * 1000
+
+  const periodDays = settings.frequency === 'WEEKLY' ? 7 : 1
+  if (settings.frequency === 'WEEKLY') {
+    scheduled -= ((local.weekday - settings.weekday + 7) % 7) * DAY_MS
+  }
+  if (scheduled > now.getTime()) scheduled -= periodDays * DAY_MS
+
+  return {
+    periodStart: new Date(scheduled - periodDays * DAY_MS),
+    periodEnd: new Date(scheduled),
+  }
+}
+
+function categoryLabel(category: string): string {
+  const words = category.toLowerCase().replace(/_/g, ' ')
+  return words.charAt(0).toUpperCase() + words.slice(1)
+}
+
+/**
+ * Group the in-system notifications of a period by mill, then category, with
+ * counts and the most pressing unresolved alerts linked through their responseUrl
+ */
+export function buildDigestContent(
+  frequency: string,
+  period: { periodStart: Date; periodEnd: Date },
+  notifications: any[]
+) {
+  // One entry per alert even if it was notified more than once
+  const alerts = new Map<string, any>()
+  notifications.forEach((n) => {
+    if (!alerts.has(n.alert.id)) alerts.set(n.alert.id, { ...n.alert, responseUrl: n.responseUrl })
+  })
+
+  const mills = new Map<string, { millId: string | null; millName: string; alerts: any[] }>()
+  alerts.forEach((alert) => {
+    const key = alert.millId || 'none'
+    if (!mills.has(key)) {
+      mills.set(key, { millId: alert.millId, millName: alert.mill?.name || 'No mill', alerts: [] })
+    }
+    mills.get(key)!.alerts.push(alert)
+  })
+
+  const all = Array.from(alerts.values())
+
+  return {
+    frequency,
+    periodStart: period.periodStart,
+    periodEnd: period.periodEnd,
+    totalCount: all.length,
+    unresolvedCount: all.filter((a) => !a.isResolved).length,
+    mills: Array.from(mills.values()).map((mill) => {
+      const categories = Array.from(new Set<string>(mill.alerts.map((a) => a.category)))
+
+      return {
+        millId: mill.millId,
+        millName: mill.millName,
+        count: mill.alerts.length,
+        categories: categories.map((category) => {
+          const items = mill.alerts.filter((a) => a.category === category)
+          const unresolved = items
+            .filter((a) => !a.isResolved)
+            .sort(
+              (a, b) =>
+                (SEVERITY_RANK[a.severity] ?? 2) - (SEVERITY_RANK[b.severity] ?? 2) ||
+                (a.deadline ? new Date(a.deadline).getTime() : Infinity) -
+                  (b.deadline ? new Date(b.deadline).getTime() : Infinity) ||
+                new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+            )
+
+          return {
+            category,
+            label: categoryLabel(category),
+            count: items.length,
+            unresolvedCount: unresolved.length,
+            bySeverity: Object.fromEntries(
+              DIGEST_SEVERITIES.map((severity) => [
+                severity,
+                items.filter((a) => a.severity === severity).length,
+              ])
+            ),
+            topUnresolved: unresolved.slice(0, TOP_UNRESOLVED_PER_CATEGORY).map((a) => ({
+              alertId: a.id,
+              title: a.title,
+              severity: a.severity,
+              deadline: a.deadline,
+              createdAt: a.createdAt,
+              responseUrl: a.responseUrl,
+            })),
+          }
+        }),
+      }
+    }),
+  }
+}
+
+/**
+ * Render a stored digest as a message for the channel adapters
+ */
+export function formatDigestMessage(digest: any): NotificationMessage {
+  const content = JSON.parse(digest.content)
+  const label = content.frequency === 'WEEKLY' ? 'Weekly' : 'Daily'
+
+  const lines: string[] = [
+    `${content.totalCount} alert(s) between ${new Date(content.periodStart).toUTCString()} and ${new Date(content.periodEnd).toUTCString()}.`,
+  ]
+  content.mills.forEach((mill: any) => {
+    lines.push('', `${mill.millName} (${mill.count})`)
+    mill.categories.forEach((category: any) => {
+      lines.push(`  ${category.label}: ${category.count} alert(s), ${category.unresolvedCount} unresolved`)
+      category.topUnresolved.forEach((item: any) => {
+        lines.push(`    - [${item.severity}] ${item.title}${item.responseUrl ? ` ${item.responseUrl}` : ''}`)
+      })
+    })
+  })
+
+  return {
+    notificationId: digest.id,
+    title: `${label} alert digest: ${content.totalCount} alert(s), ${content.unresolvedCount} unresolved`,
+    message: lines.join('\n'),
+    responseUrl: `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/alerts`,
+  }
+}
+
+/**
+ * Build the digest that is due for each user on a daily or weekly digest. A digest
+ * is created once per scheduled send time; periods with nothing to report are skipped.
+ * The digests are queued PENDING and sent by the notification delivery worker.
+ */
+export async function generateDigests(prisma: any, now: Date = new Date()) {
+  const preferences = await prisma.notificationPreference.findMany({
+    where: { digestSettings: { not: null }, user: { isActive: true } },
+  })
+
+  const results = []
+  const errors: any[] = []
+
+  for (const preference of preferences) {
+    const settings = toPreferenceSettings(preference)
+    const { timezone, digestSettings } = settings
+    const period = digestSettings && getDigestPeriod(digestSettings, timezone, now)
+    if (!digestSettings || !period) continue
+
+    // Digest channels the user has since switched off are not sent
+    const channels = digestSettings.channels.filter((channel) => isChannelEnabled(channel, settings))
+    if (channels.length === 0) continue
+
+    try {
+      const existing = await prisma.notificationDigest.findFirst({
+        where: { userId: preference.userId, periodEnd: period.periodEnd },
+        select: { id: true },
+      })
+      if (existing) continue
+
+      const notifications = await prisma.alertNotification.findMany({
+        where: {
+          userId: preference.userId,
+          channel: 'IN_SYSTEM',
+          createdAt: { gt: period.periodStart, lte: period.periodEnd },
+          alert: { severity: { in: DIGEST_SEVERITIES } },
+        },
+        select: {
+          responseUrl: true,
+          alert: {
+            select: {
+              id: true,
+              title: true,
+              severity: true,
+              category: true,
+              millId: true,
+              isResolved: true,
+              deadline: true,
+              createdAt: true,
+              mill: { select: { name: true } },
+            },
+          },
+        },
+      })
+      if (notifications.length === 0) continue
+
+      const content = buildDigestContent(digestSettings.frequency, period, notifications)
+      await prisma.notificationDigest.createMany({
+        data: channels.map((channel) => ({
+          userId: preference.userId,
+          frequency: digestSettings.frequency,
+          channel,
+          periodStart: period.periodStart,
+          periodEnd: period.periodEnd,
+          itemCount: content.totalCount,
+          content: JSON.stringify(content),
+        })),
+      })
+
+      results.push({
+        userId: preference.userId,
+        frequency: digestSettings.frequency,
+        itemCount: content.totalCount,
+        channels,
+      })
+    } catch (error) {
+      console.error(`Error building digest for user ${preference.userId}:`, error)
+      errors.push({
+        userId: preference.userId,
+        error: error instanceof Error ? error.message : 'Unknown error',
+      })
+    }
+  }
+
+  return { usersChecked: preferences.length, results, errors }
+}
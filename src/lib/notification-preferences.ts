@@ -0,0 +1,294 @@
+// Per-user notification preferences: channel toggles, per-category overrides, quiet hours and digests
+
+import { z } from 'zod'
+import type { NotificationChannelName } from '@/lib/notification-channels'
+
+export const ALERT_CATEGORIES = [
+  'QUALITY_SAFETY',
+  'COMPLIANCE',
+  'MAINTENANCE',
+  'PRODUCTION',
+  'PROCUREMENT_DELIVERY',
+  'TRAINING_COMPLIANCE',
+] as const
+
+export const NOTIFICATION_CHANNELS: NotificationChannelName[] = ['IN_SYSTEM', 'PUSH', 'SMS', 'EMAIL']
+
+// Channels that reach the user outside the app and so are held back during quiet hours
+const INTERRUPTING_CHANNELS: NotificationChannelName[] = ['PUSH', 'SMS', 'EMAIL']
+
+// Severities that users on a digest receive in the digest instead of one by one
+export const DIGEST_SEVERITIES = ['LOW', 'MEDIUM']
+
+// Severity defaults, before preferences are applied
+export const SEVERITY_CHANNELS: Record<string, NotificationChannelName[]> = {
+  CRITICAL: ['IN_SYSTEM', 'PUSH', 'SMS', 'EMAIL'],
+  HIGH: ['IN_SYSTEM', 'PUSH', 'EMAIL'],
+  MEDIUM: ['IN_SYSTEM', 'PUSH', 'EMAIL'],
+  LOW: ['IN_SYSTEM', 'EMAIL'],
+}
+
+const timeOfDay = z.string().regex(/^([01]\d|2[0-3]):[0-5]\d$/, 'Use HH:MM (24-hour)')
+
+const categorySettingSchema = z.object({
+  enabled: z.boolean().default(true), // false: in-system only for this category
+  channels: z.array(z.enum(['IN_SYSTEM', 'PUSH', 'SMS', 'EMAIL'])).optional(), // replaces the severity default
+})
+
+export const categorySettingsSchema = z.record(z.enum(ALERT_CATEGORIES), categorySettingSchema)
+
+export type CategorySettings = z.infer<typeof categorySettingsSchema>
+
+export const digestSettingsSchema = z.object({
+  frequency: z.enum(['NONE', 'DAILY', 'WEEKLY']),
+  sendAt: timeOfDay.default('07:00'), // Local time in the user's timezone
+  weekday: z.number().int().min(0).max(6).default(1), // Weekly digests: 0 = Sunday
+  channels: z.array(z.enum(['EMAIL', 'PUSH'])).min(1).default(['EMAIL']),
+})
+
+export type DigestSettings = z.infer<typeof digestSettingsSchema>
+
+export const notificationPreferenceSchema = z
+  .object({
+    emailEnabled: z.boolean(),
+    smsEnabled: z.boolean(),
+    pushEnabled: z.boolean(),
+    quietHoursEnabled: z.boolean(),
+    quietHoursStart: timeOfDay.nullable(),
+    quietHoursEnd: timeOfDay.nullable(),
+    timezone: z.string().refine(isValidTimeZone, 'Unknown timezone'),
+    language: z.string().min(2),
+    categorySettings: categorySettingsSchema,
+    digestSettings: digestSettingsSchema.nullable(),
+  })
+  .partial()
+
+export interface NotificationPreferenceSettings {
+  emailEnabled: boolean
+  smsEnabled: boolean
+  pushEnabled: boolean
+  quietHoursEnabled: boolean
+  quietHoursStart: string | null
+  quietHoursEnd: string | null
+  timezone: string
+  categorySettings: CategorySettings
+  digestSettings: DigestSettings | null
+}
+
+// Matches the NotificationPreference column defaults, for users who never saved any
+export const DEFAULT_NOTIFICATION_PREFERENCES: NotificationPreferenceSettings = {
+  emailEnabled: true,
+  smsEnabled: true,
+  pushEnabled: true,
+  quietHoursEnabled: false,
+  quietHoursStart: null,
+  quietHoursEnd: null,
+  timezone: 'UTC',
+  categorySettings: {},
+  digestSettings: null,
+}
+
+export function isValidTimeZone(timeZone: string): boolean {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone })
+    return true
+  } catch {
+    return false
+  }
+}
+
+function parseJsonSetting<T>(value: string | null, schema: z.ZodType<T, any, any>): T | null {
+  if (!value) return null
+  try {
+    const parsed = schema.safeParse(JSON.parse(value))
+    return parsed.success ? parsed.data : null
+  } catch {
+    // Malformed JSON: behave as if nothing was saved
+    return null
+  }
+}
+
+/**
+ * Preference row (JSON columns as stored) to settings, falling back to defaults
+ * and ignoring JSON settings that no longer parse
+ */
+export function toPreferenceSettings(preference: any | null): NotificationPreferenceSettings {
+  if (!preference) return DEFAULT_NOTIFICATION_PREFERENCES
+
+  return {
+    emailEnabled: preference.emailEnabled,
+    smsEnabled: preference.smsEnabled,
+    pushEnabled: preference.pushEnabled,
+    quietHoursEnabled: preference.quietHoursEnabled,
+    quietHoursStart: preference.quietHoursStart,
+    quietHoursEnd: preference.quietHoursEnd,
+    timezone: isValidTimeZone(preference.timezone) ? preference.timezone : 'UTC',
+    categorySettings: parseJsonSetting(preference.categorySettings, categorySettingsSchema) ?? {},
+    digestSettings: parseJsonSetting(preference.digestSettings, digestSettingsSchema),
+  }
+}
+
+/**
+ * Channels to notify a user on: the severity default (or the alert template's list,
+ * or the category's own list), minus channels the user switched off. In-system is
+ * always kept so the alert still shows up in the app. Opting out of a category
+ * silences everything but CRITICAL alerts, which keep their default channels.
+ */
+export function resolveNotificationChannels(
+  severity: string,
+  category: string,
+  settings: NotificationPreferenceSettings,
+  defaults?: NotificationChannelName[] | null
+): NotificationChannelName[] {
+  const override = settings.categorySettings[category as keyof CategorySettings]
+  let channels = override?.channels ?? defaults ?? SEVERITY_CHANNELS[severity] ?? ['IN_SYSTEM']
+  if (override && !override.enabled) {
+    channels = severity === 'CRITICAL' ? defaults ?? SEVERITY_CHANNELS.CRITICAL : []
+  }
+
+  return NOTIFICATION_CHANNELS.filter(
+    (channel) => channel === 'IN_SYSTEM' || (channels.includes(channel) && isChannelEnabled(channel, settings))
+  )
+}
+
+/**
+ * Whether the user's channel toggles allow a channel; in-system cannot be switched off
+ */
+export function isChannelEnabled(
+  channel: NotificationChannelName,
+  settings: NotificationPreferenceSettings
+): boolean {
+  const toggles: Record<NotificationChannelName, boolean> = {
+    IN_SYSTEM: true,
+    EMAIL: settings.emailEnabled,
+    SMS: settings.smsEnabled,
+    PUSH: settings.pushEnabled,
+  }
+  return toggles[channel]
+}
+
+/**
+ * Wall-clock date and time in a timezone, plus its current UTC offset
+ */
+export function getLocalTimeParts(timeZone: string, date: Date = new Date()) {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone,
+    year: 'numeric',
+    month: 'numeric',
+    day: 'numeric',
+    hour: 'numeric',
+    minute: 'numeric',
+    weekday: 'short',
+    hourCycle: 'h23',
+  }).formatToParts(date)
+  const get = (type: string) => parts.find((p) => p.type === type)!.value
+
+  const local = {
+    year: parseInt(get('year')),
+    month: parseInt(get('month')),
+    day: parseInt(get('day')),
+    hour: parseInt(get('hour')),
+    minute: parseInt(get('minute')),
+    weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday')),
+  }
+  const asUtc = Date.UTC(local.year, local.month - 1, local.day, local.hour, local.minute)
+  const offsetMinutes = Math.round((asUtc - Math.floor(date.getTime() / 60000) * 60000) / 60000)
+
+  return { ...local, offsetMinutes }
+}
+
+export function minutesOfDay(time: string): number {
+  const [hours, minutes] = time.split(':').map(Number)
+  return hours * 60 + minutes
+}
+
+/**
+ * When the user's current quiet hours end, or null if they are not in quiet hours.
+ * Times are wall-clock in the user's timezone; windows may span midnight (22:00-06:00).
+ */
+export function getQuietHoursEnd(settings: NotificationPreferenceSettings, now: Date = new Date()): Date | null {
+  if (!settings.quietHoursEnabled || !settings.quietHoursStart || !settings.quietHoursEnd) return null
+
+  const start = minutesOfDay(settings.quietHoursStart)
+  const end = minutesOfDay(settings.quietHoursEnd)
+  if (start === end) return null
+
+  const { hour, minute } = getLocalTimeParts(settings.timezone, now)
+  const local = hour * 60 + minute
+
+  const inQuietHours = start < end ? local >= start && local < end : local >= start || local < end
+  if (!inQuietHours) return null
+
+  const minutesLeft = (end - local + 24 * 60) % (24 * 60)
+  const endsAt = new Date(now.getTime() + minutesLeft * 60 * 1000)
+  endsAt.setSeconds(0, 0)
+  return endsAt
+}
+
+/**
+ * Queue an alert's notifications for each user according to their preferences.
+ * Interrupting channels are deferred to the end of quiet hours through scheduledFor,
+ * except for CRITICAL alerts which always go out immediately. Users on a digest get
+ * LOW/MEDIUM alerts in-system only; the digest job rolls those up for them. Escalations
+ * (content.escalationLevel set) are never held for the digest.
+ */
+export async function queueAlertNotifications(
+  alertId: string,
+  content: {
+    title: string
+    message: string
+    severity: string
+    category: string
+    actionRequired?: string | null
+    deadline?: Date | null
+    escalationLevel?: number
+    channels?: NotificationChannelName[] | null // From the alert template, in place of the severity default
+  },
+  userIds: string[],
+  responseUrl: string,
+  prisma: any
+) {
+  const recipients = Array.from(new Set(userIds))
+  const preferences = await prisma.notificationPreference.findMany({
+    where: { userId: { in: recipients } },
+  })
+
+  const now = new Date()
+  const data = recipients.flatMap((userId) => {
+    const settings = toPreferenceSettings(preferences.find((p: any) => p.userId === userId) || null)
+    const quietUntil = content.severity === 'CRITICAL' ? null : getQuietHoursEnd(settings, now)
+    const digestFrequency = settings.digestSettings?.frequency ?? 'NONE'
+    const digested =
+      digestFrequency !== 'NONE' && !content.escalationLevel && DIGEST_SEVERITIES.includes(content.severity)
+
+    const channels = digested
+      ? (['IN_SYSTEM'] as NotificationChannelName[])
+      : resolveNotificationChannels(content.severity, content.category, settings, content.channels)
+
+    return channels.map((channel) => ({
+      alertId,
+      userId,
+      channel,
+      scheduledFor: quietUntil && INTERRUPTING_CHANNELS.includes(channel) ? quietUntil : now,
+      content: JSON.stringify({
+        title: content.title,
+        message: content.message,
+        severity: content.severity,
+        actionRequired: content.actionRequired,
+        deadline: content.deadline,
+        escalationLevel: content.escalationLevel,
+        responseUrl,
+      }),
+      responseUrl,
+    }))
+  })
+
+  if (data.length > 0) {
+    await prisma.alertNotification.createMany({ data })
+  }
+
+  return {
+    notificationCount: data.length,
+    deferredCount: data.filter((n) => n.scheduledFor !== now).length,
+  }
+}
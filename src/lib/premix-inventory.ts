@@ -0,0 +1,294 @@
+// Premix inventory: receipts, stock per lot, FEFO picking and reorder/expiry alerts
+
+import { z } from 'zod'
+import { queueAlertNotifications } from '@/lib/notification-preferences'
+
+export type PremixLotStatus = 'AVAILABLE' | 'EXPIRING' | 'EXPIRED' | 'DEPLETED'
+
+export const PREMIX_EXPIRY_WARNING_DAYS = 30
+export const PREMIX_REORDER_COVER_DAYS = 14 // Reorder when stock covers fewer days of usage than this
+export const PREMIX_MIN_REORDER_LEVEL_KG = 10 // Floor for mills with little usage history
+const USAGE_LOOKBACK_DAYS = 30
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export const premixReceiptSchema = z.object({
+  millId: z.string(),
+  premixType: z.string().min(1),
+  premixBatchNumber: z.string().min(1),
+  manufacturer: z.string().min(1),
+  expiryDate: z.string(),
+  quantity: z.number().positive(), // kg
+  reference: z.string().optional(),
+  notes: z.string().optional(),
+})
+
+export const premixAdjustmentSchema = z.object({
+  type: z.enum(['ADJUSTMENT', 'WRITE_OFF']),
+  quantity: z.number().refine((q) => q !== 0, 'Quantity cannot be zero'), // kg; negative removes stock
+  notes: z.string().min(1),
+})
+
+/**
+ * Day-level expiry check: a lot is usable through the end of its expiry date
+ */
+export function isPremixExpired(expiryDate: Date, on: Date = new Date()): boolean {
+  const endOfExpiryDay = new Date(expiryDate)
+  endOfExpiryDay.setUTCHours(23, 59, 59, 999)
+  return on > endOfExpiryDay
+}
+
+export function getPremixLotStatus(
+  lot: { quantityOnHand: number; expiryDate: Date },
+  now: Date = new Date()
+): PremixLotStatus {
+  if (lot.quantityOnHand <= 0) return 'DEPLETED'
+  if (isPremixExpired(lot.expiryDate, now)) return 'EXPIRED'
+  if (lot.expiryDate.getTime() - now.getTime() <= PREMIX_EXPIRY_WARNING_DAYS * DAY_MS) {
+    return 'EXPIRING'
+  }
+  return 'AVAILABLE'
+}
+
+/**
+ * First-expiry-first-out picking: usable lots in expiry order, with how much to
+ * draw from each when a quantity is given
+ */
+export async function suggestFefoLots(
+  millId: string,
+  premixType: string | null,
+  quantityNeeded: number | null,
+  prisma: any
+) {
+  const now = new Date()
+  const lots = await prisma.premixLot.findMany({
+    where: {
+      millId,
+      ...(premixType ? { premixType } : {}),
+      quantityOnHand: { gt: 0 },
+    },
+    orderBy: [{ expiryDate: 'asc' }, { firstReceivedAt: 'asc' }],
+  })
+
+  let remaining = quantityNeeded ?? 0
+  const suggestions = lots
+    .filter((lot: any) => !isPremixExpired(lot.expiryDate, now))
+    .map((lot: any) => {
+      const allocate = quantityNeeded ? Math.min(lot.quantityOnHand, Math.max(remaining, 0)) : null
+      if (allocate) remaining -= allocate
+      return {
+        lotId: lot.id,
+        premixType: lot.premixType,
+        premixBatchNumber: lot.premixBatchNumber,
+        manufacturer: lot.manufacturer,
+        expiryDate: lot.expiryDate,
+        quantityOnHand: lot.quantityOnHand,
+        status: getPremixLotStatus(lot, now),
+        suggestedQuantity: allocate,
+      }
+    })
+
+  return {
+    suggestions,
+    shortfall: quantityNeeded ? Math.max(remaining, 0) : null,
+  }
+}
+
+/**
+ * Draw premix used by a batch from its lot. Stock is decremented in the database so
+ * concurrent batches cannot overwrite each other's draws, and never goes below zero;
+ * the transaction still records the full quantity so the discrepancy stays visible.
+ * Call with the transaction client that creates the batch, so both commit together.
+ */
+export async function consumePremix(
+  lot: { id: string; premixBatchNumber: string },
+  quantity: number,
+  batch: { id: string; batchId: string },
+  userId: string,
+  tx: any
+): Promise<string | null> {
+  const drawn = await tx.premixLot.updateMany({
+    where: { id: lot.id, quantityOnHand: { gte: quantity } },
+    data: { quantityOnHand: { decrement: quantity } },
+  })
+
+  let onHand: number
+  let balanceAfter: number
+  if (drawn.count > 0) {
+    const updated = await tx.premixLot.findUniqueOrThrow({
+      where: { id: lot.id },
+      select: { quantityOnHand: true },
+    })
+    balanceAfter = updated.quantityOnHand
+    onHand = balanceAfter + quantity
+  } else {
+    // Not enough on hand: empty the lot, failing if its stock moved since it was read
+    const current = await tx.premixLot.findUniqueOrThrow({
+      where: { id: lot.id },
+      select: { quantityOnHand: true },
+    })
+    await tx.premixLot.update({
+      where: { id: lot.id, quantityOnHand: current.quantityOnHand },
+      data: { quantityOnHand: 0 },
+    })
+    balanceAfter = 0
+    onHand = current.quantityOnHand
+  }
+
+  const shortfall = quantity - onHand
+  await tx.premixLotTransaction.create({
+    data: {
+      lotId: lot.id,
+      type: 'CONSUMPTION',
+      quantity: -quantity,
+      balanceAfter,
+      batchId: batch.id,
+      userId,
+      reference: batch.batchId,
+      notes: shortfall > 0 ? `Used ${shortfall.toFixed(3)} kg more than recorded stock` : null,
+    },
+  })
+
+  return quantity > onHand
+    ? `Premix lot ${lot.premixBatchNumber} had ${onHand.toFixed(3)} kg on hand but ${quantity.toFixed(3)} kg was used; stock set to zero`
+    : null
+}
+
+async function notifyMillManagers(alert: any, millId: string, prisma: any) {
+  const managers = await prisma.user.findMany({
+    where: { millId, role: 'MILL_MANAGER', isActive: true },
+    select: { id: true },
+  })
+
+  const responseUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/production/premix`
+  await queueAlertNotifications(
+    alert.id,
+    {
+      title: alert.title,
+      message: alert.message,
+      severity: alert.severity,
+      category: alert.category,
+      actionRequired: alert.actionRequired,
+      deadline: alert.deadline,
+    },
+    managers.map((manager: any) => manager.id),
+    responseUrl,
+    prisma
+  )
+}
+
+/**
+ * Raise LOW_PREMIX_INVENTORY per premix type whose usable stock has fallen below
+ * its reorder level, and PREMIX_EXPIRY per lot with stock that is expired or
+ * close to expiry. Open alerts are not duplicated.
+ */
+export async function checkPremixAlerts(millId: string, prisma: any) {
+  const now = new Date()
+  const lots = await prisma.premixLot.findMany({
+    where: { millId },
+    select: {
+      id: true,
+      premixType: true,
+      premixBatchNumber: true,
+      expiryDate: true,
+      quantityOnHand: true,
+    },
+  })
+
+  const openAlerts = await prisma.alert.findMany({
+    where: {
+      millId,
+      type: { in: ['LOW_PREMIX_INVENTORY', 'PREMIX_EXPIRY'] },
+      isResolved: false,
+    },
+    select: { type: true, sourceId: true },
+  })
+  const hasOpenAlert = (type: string, sourceId: string) =>
+    openAlerts.some((a: any) => a.type === type && a.sourceId === sourceId)
+
+  const raised: any[] = []
+
+  // Expiry: one alert per lot still holding stock
+  for (const lot of lots) {
+    const status = getPremixLotStatus(lot, now)
+    if (status !== 'EXPIRED' && status !== 'EXPIRING') continue
+    if (hasOpenAlert('PREMIX_EXPIRY', lot.id)) continue
+
+    const daysLeft = Math.ceil((lot.expiryDate.getTime() - now.getTime()) / DAY_MS)
+    const alert = await prisma.alert.create({
+      data: {
+        type: 'PREMIX_EXPIRY',
+        category: 'QUALITY_SAFETY',
+        severity: status === 'EXPIRED' ? 'HIGH' : 'MEDIUM',
+        title: status === 'EXPIRED'
+          ? `Premix lot ${lot.premixBatchNumber} has expired`
+          : `Premix lot ${lot.premixBatchNumber} expires in ${daysLeft} day(s)`,
+        message: `${lot.quantityOnHand.toFixed(1)} kg of ${lot.premixType} (lot ${lot.premixBatchNumber}) ${status === 'EXPIRED' ? 'is past its expiry date and can no longer be used' : `expires on ${lot.expiryDate.toISOString().split('T')[0]}`}.`,
+        actionRequired: status === 'EXPIRED'
+          ? 'Quarantine and write off the expired premix'
+          : 'Use this lot first or arrange its return',
+        sourceType: 'PREMIX_LOT',
+        sourceId: lot.id,
+        millId,
+        metadata: JSON.stringify({
+          premixBatchNumber: lot.premixBatchNumber,
+          premixType: lot.premixType,
+          expiryDate: lot.expiryDate,
+          quantityOnHand: lot.quantityOnHand,
+        }),
+      },
+    })
+    await notifyMillManagers(alert, millId, prisma)
+    raised.push(alert)
+  }
+
+  // Reorder: usable stock per premix type against recent daily usage
+  const since = new Date(now.getTime() - USAGE_LOOKBACK_DAYS * DAY_MS)
+  const premixTypes = Array.from(new Set<string>(lots.map((lot: any) => lot.premixType)))
+
+  for (const premixType of premixTypes) {
+    const typeLots = lots.filter((lot: any) => lot.premixType === premixType)
+    const usable = typeLots
+      .filter((lot: any) => !isPremixExpired(lot.expiryDate, now))
+      .reduce((sum: number, lot: any) => sum + Math.max(lot.quantityOnHand, 0), 0)
+
+    const usage = await prisma.premixLotTransaction.aggregate({
+      where: {
+        lotId: { in: typeLots.map((lot: any) => lot.id) },
+        type: 'CONSUMPTION',
+        createdAt: { gte: since },
+      },
+      _sum: { quantity: true },
+    })
+    const dailyUsage = Math.abs(usage._sum.quantity || 0) / USAGE_LOOKBACK_DAYS
+    const reorderLevel = Math.max(dailyUsage * PREMIX_REORDER_COVER_DAYS, PREMIX_MIN_REORDER_LEVEL_KG)
+
+    if (usable >= reorderLevel || hasOpenAlert('LOW_PREMIX_INVENTORY', premixType)) continue
+
+    const daysOfCover = dailyUsage > 0 ? Math.floor(usable / dailyUsage) : null
+    const alert = await prisma.alert.create({
+      data: {
+        type: 'LOW_PREMIX_INVENTORY',
+        category: 'PRODUCTION',
+        severity: usable === 0 ? 'CRITICAL' : 'HIGH',
+        title: `Low premix stock: ${premixType}`,
+        message: `${usable.toFixed(1)} kg of usable ${premixType} on hand (reorder level ${reorderLevel.toFixed(1)} kg)${daysOfCover !== null ? `, about ${daysOfCover} day(s) of production` : ''}.`,
+        actionRequired: 'Place a premix order',
+        sourceType: 'PREMIX_INVENTORY',
+        sourceId: premixType,
+        millId,
+        metadata: JSON.stringify({
+          premixType,
+          usableQuantity: usable,
+          reorderLevel,
+          dailyUsage,
+          daysOfCover,
+        }),
+      },
+    })
+    await notifyMillManagers(alert, millId, prisma)
+    raised.push(alert)
+  }
+
+  return raised
+}
@@ -0,0 +1,561 @@
+// Institutional procurement utilities
+
+import type { Prisma } from '@prisma/client'
+import { z } from 'zod'
+
+export type RFPStatus = 'DRAFT' | 'OPEN' | 'CLOSED' | 'AWARDED' | 'CANCELLED'
+export type RFPVisibility = 'PUBLIC' | 'INVITATION_ONLY'
+
+export const rfpSchema = z.object({
+  title: z.string().min(1),
+  description: z.string().optional(),
+  commodity: z.string(),
+  totalVolume: z.number().positive(),
+  unitPackaging: z.string(),
+  numberOfUnits: z.number().int().positive().optional(),
+
+  // Quality Specifications
+  qualitySpecs: z.string().optional(), // JSON
+  certificationRequired: z.string().optional(), // JSON
+  dietaryRequirements: z.string().optional(), // JSON
+
+  // Delivery Requirements
+  deliveryLocations: z.string().optional(), // JSON
+  deliverySchedule: z.string().optional(), // JSON
+  deliveryConditions: z.string().optional(), // JSON
+
+  // Pricing & Payment
+  maxUnitPrice: z.number().positive().optional(),
+  totalBudget: z.number().positive().optional(),
+  preferredPaymentTerms: z.string().optional(),
+  priceInclusions: z.string().optional(), // JSON
+
+  // Additional Requirements
+  packagingLabeling: z.string().optional(), // JSON
+  documentationRequired: z.string().optional(), // JSON
+  samplingRequirements: z.string().optional(), // JSON
+
+  // Eligibility & Selection Criteria
+  geographicRestriction: z.string().optional(), // JSON
+  millCertification: z.string().optional(), // JSON
+  capacityRequirement: z.number().positive().optional(),
+  trackRecordRequirement: z.string().optional(), // JSON
+  evaluationCriteria: z.string().optional(), // JSON
+
+  // Timeline
+  openDate: z.string().optional(),
+  bidDeadline: z.string(),
+  estimatedAwardDate: z.string().optional(),
+
+  // Visibility
+  visibility: z.enum(['PUBLIC', 'INVITATION_ONLY']).default('PUBLIC'),
+  invitedMills: z.array(z.string()).optional(),
+})
+
+/**
+ * Allowed RFP status transitions.
+ * DRAFT → OPEN → CLOSED → AWARDED, with cancellation possible until award.
+ */
+export const RFP_STATUS_TRANSITIONS: Record<RFPStatus, RFPStatus[]> = {
+  DRAFT: ['OPEN', 'CANCELLED'],
+  OPEN: ['CLOSED', 'CANCELLED'],
+  CLOSED: ['AWARDED', 'CANCELLED'],
+  AWARDED: [],
+  CANCELLED: [],
+}
+
+export function canTransitionRFP(from: string, to: RFPStatus): boolean {
+  const allowed = RFP_STATUS_TRANSITIONS[from as RFPStatus]
+  return allowed ? allowed.includes(to) : false
+}
+
+/**
+ * Generate unique RFP reference number with format: RFP-[YYYYMM]-[Seq]
+ * Example: "RFP-202511-0007"
+ */
+export async function generateRFPReferenceNumber(
+  date: Date,
+  prisma: any
+): Promise<string> {
+  const period = date.toISOString().substring(0, 7).replace('-', '')
+  const prefix = `RFP-${period}-`
+
+  const count = await prisma.rFP.count({
+    where: {
+      referenceNumber: { startsWith: prefix },
+    },
+  })
+
+  const sequence = (count + 1).toString().padStart(4, '0')
+  return `${prefix}${sequence}`
+}
+
+/**
+ * Validate RFP timeline: bid deadline must fall after the open date,
+ * and (when publishing) must still be in the future.
+ */
+export function validateRFPTimeline(
+  openDate: Date,
+  bidDeadline: Date,
+  requireFutureDeadline: boolean = false
+): string | null {
+  if (isNaN(openDate.getTime()) || isNaN(bidDeadline.getTime())) {
+    return 'Invalid open date or bid deadline'
+  }
+  if (bidDeadline <= openDate) {
+    return 'Bid deadline must be after the open date'
+  }
+  if (requireFutureDeadline && bidDeadline <= new Date()) {
+    return 'Bid deadline has already passed'
+  }
+  return null
+}
+
+/**
+ * Derive number of units from total volume and packaging
+ * Example: 10,000 kg in 25KG_BAGS → 400 units
+ */
+export function calculateNumberOfUnits(
+  totalVolume: number,
+  unitPackaging: string
+): number | null {
+  const match = unitPackaging.match(/^(\d+(?:\.\d+)?)KG_BAGS$/)
+  if (!match) return null
+
+  const unitSize = parseFloat(match[1])
+  return unitSize > 0 ? Math.ceil(totalVolume / unitSize) : null
+}
+
+export function parseJsonArray(value: string | null | undefined): string[] {
+  if (!value) return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Check whether a user may see an RFP.
+ * Buyers see their own RFPs in any status, FWGA and admins see everything,
+ * mills only see non-draft RFPs that are public or that invited their mill.
+ */
+export function canViewRFP(
+  rfp: {
+    status: string
+    visibility: string
+    invitedMills?: string | null
+    buyer?: { userId: string } | null
+  },
+  user: { id: string; role: string; millId?: string | null }
+): boolean {
+  if (rfp.buyer?.userId === user.id) return true
+  if (isProcurementAdmin(user.role)) return true
+  if (rfp.status === 'DRAFT') return false
+
+  if (rfp.visibility === 'INVITATION_ONLY') {
+    return !!user.millId && parseJsonArray(rfp.invitedMills).includes(user.millId)
+  }
+
+  return true
+}
+
+export function isProcurementAdmin(role: string): boolean {
+  return role === 'FWGA_PROGRAM_MANAGER' || role === 'FWGA_INSPECTOR' || role === 'SYSTEM_ADMIN'
+}
+
+export const buyerProfileSchema = z.object({
+  organizationName: z.string().min(1),
+  organizationType: z.enum([
+    'SCHOOL',
+    'NGO',
+    'GOVERNMENT_AGENCY',
+    'HOSPITAL',
+    'CORPORATE_CAFETERIA',
+    'OTHER',
+  ]),
+  registrationId: z.string().optional(),
+  primaryContactName: z.string().min(1),
+  primaryContactTitle: z.string().optional(),
+  primaryContactPhone: z.string().optional(),
+  primaryContactEmail: z.string().email().optional(),
+  billingAddress: z.string().optional(), // JSON
+  deliveryAddresses: z.string().optional(), // JSON
+  averageOrderVolume: z.number().positive().optional(),
+  deliveryFrequency: z.enum(['WEEKLY', 'MONTHLY', 'QUARTERLY']).optional(),
+  qualitySpecs: z.string().optional(), // JSON
+  budgetConstraints: z.string().optional(), // JSON
+  preferredPaymentTerms: z
+    .enum(['ADVANCE', 'ON_DELIVERY', 'NET_30', 'NET_60', 'ESCROW'])
+    .optional(),
+  currency: z.string().length(3).optional(),
+})
+
+// Changing any of these on a verified profile sends it back for review
+export const BUYER_IDENTITY_FIELDS = ['organizationName', 'organizationType', 'registrationId'] as const
+
+export const BUYER_DOCUMENT_TYPES = [
+  'REGISTRATION_CERTIFICATE',
+  'TAX_CLEARANCE',
+  'AUTHORIZATION_LETTER',
+  'OTHER',
+] as const
+
+// Documents that must be verified before a buyer profile can be approved
+export const REQUIRED_BUYER_DOCUMENTS = ['REGISTRATION_CERTIFICATE', 'TAX_CLEARANCE']
+
+export const BUYER_DOCUMENT_MIME_TYPES = ['application/pdf', 'image/jpeg', 'image/png']
+
+// Relative to the app root; kept outside /public and served through the download route
+export const BUYER_DOCUMENT_UPLOAD_DIR = 'uploads'
+
+/**
+ * Required document types that have no verified upload yet
+ */
+export function getMissingBuyerDocuments(
+  documents: Array<{ documentType: string; status: string }>
+): string[] {
+  return REQUIRED_BUYER_DOCUMENTS.filter(
+    (type) => !documents.some((d) => d.documentType === type && d.status === 'VERIFIED')
+  )
+}
+
+export const bidSchema = z.object({
+  // Pricing
+  unitPrice: z.number().positive(),
+  deliveryCost: z.number().min(0).optional(),
+  additionalCosts: z.number().min(0).optional(),
+  priceValidity: z.number().int().positive(),
+  paymentTerms: z.string().optional(),
+
+  // Delivery Proposal
+  deliverySchedule: z.string().optional(), // JSON
+  leadTime: z.number().int().min(0).optional(),
+  deliveryMethod: z.enum(['OWN_FLEET', 'THIRD_PARTY', 'BUYER_PICKUP']).optional(),
+  vehicleType: z.string().optional(),
+  contingencyPlan: z.string().optional(),
+
+  // Quality Assurance
+  complianceDocs: z.string().optional(), // JSON
+  recentQCResults: z.string().optional(), // JSON
+  premixSource: z.string().optional(),
+  qualityGuarantee: z.string().optional(),
+  sampleOffer: z.boolean().optional(),
+
+  // Capacity & Profile
+  productionCapacity: z.string().optional(), // JSON
+  currentUtilization: z.number().min(0).max(100).optional(),
+  availableCapacity: z.string().optional(),
+  simultaneousOrders: z.boolean().optional(),
+  scaleUpCapability: z.boolean().optional(),
+
+  // Track Record
+  previousOrders: z.string().optional(), // JSON
+  references: z.string().optional(), // JSON
+  certifications: z.string().optional(), // JSON
+  awards: z.string().optional(), // JSON
+
+  // Additional Information
+  valueAddedServices: z.string().optional(), // JSON
+  sustainability: z.string().optional(),
+  socialImpact: z.string().optional(),
+  riskMitigation: z.string().optional(),
+  supportingDocs: z.string().optional(), // JSON
+})
+
+/**
+ * Calculate bid totals
+ * Product cost is the unit price (per kg) applied to the RFP's total volume.
+ */
+export function calculateBidTotals(
+  unitPrice: number,
+  totalVolume: number,
+  deliveryCost?: number | null,
+  additionalCosts?: number | null
+): { totalProductCost: number; totalBidAmount: number } {
+  const totalProductCost = Math.round(unitPrice * totalVolume * 100) / 100
+  const totalBidAmount =
+    Math.round((totalProductCost + (deliveryCost || 0) + (additionalCosts || 0)) * 100) / 100
+
+  return { totalProductCost, totalBidAmount }
+}
+
+export type BidParty = 'BUYER' | 'MILL' | 'ADMIN'
+
+/**
+ * Determine which side of a bid a user is on.
+ * Buyers only see bids once they have been submitted.
+ */
+export function getBidParty(
+  bid: {
+    millId: string
+    status: string
+    rfp: { buyer: { userId: string } }
+  },
+  user: { id: string; role: string; millId?: string | null }
+): BidParty | null {
+  if (user.millId && user.millId === bid.millId) return 'MILL'
+  if (bid.status === 'DRAFT') return null
+  if (bid.rfp.buyer.userId === user.id) return 'BUYER'
+  if (isProcurementAdmin(user.role)) return 'ADMIN'
+  return null
+}
+
+/**
+ * Decide whether a bid deadline reminder is due.
+ * Reminders go out 72 and 24 hours before the deadline, once each.
+ */
+export function shouldSendBidDeadlineReminder(
+  bidDeadline: Date,
+  remindersSent: number[],
+  now: Date = new Date()
+): { shouldSend: boolean; reminderHours: number } {
+  const hoursRemaining = (bidDeadline.getTime() - now.getTime()) / (1000 * 60 * 60)
+  if (hoursRemaining <= 0) return { shouldSend: false, reminderHours: 0 }
+
+  const reminderHours = [24, 72] // Hours before deadline, most urgent first
+
+  const window = reminderHours.find((hours) => hoursRemaining <= hours)
+  if (window === undefined) return { shouldSend: false, reminderHours: 0 }
+
+  // Skip if this or a more urgent reminder already went out
+  if (remindersSent.some((sent) => sent <= window)) {
+    return { shouldSend: false, reminderHours: 0 }
+  }
+
+  return { shouldSend: true, reminderHours: window }
+}
+
+export const offerDetailsSchema = z
+  .object({
+    unitPrice: z.number().positive().optional(),
+    volume: z.number().positive().optional(), // kg
+    deliverySchedule: z
+      .array(
+        z.object({
+          date: z.string(),
+          quantity: z.number().positive(),
+          locationId: z.string().optional(),
+        })
+      )
+      .optional(),
+    paymentTerms: z.string().optional(),
+    notes: z.string().optional(),
+  })
+  .refine(
+    (offer) =>
+      offer.unitPrice !== undefined ||
+      offer.volume !== undefined ||
+      offer.deliverySchedule !== undefined ||
+      offer.paymentTerms !== undefined,
+    { message: 'Offer must change at least one term' }
+  )
+
+export type OfferDetails = z.infer<typeof offerDetailsSchema>
+
+// Default lifetime of a negotiation round before it expires
+export const NEGOTIATION_EXPIRY_HOURS = 72
+
+/**
+ * Mark active negotiation rounds past their expiry as EXPIRED
+ */
+export async function expireStaleNegotiations(bidId: string, prisma: any): Promise<number> {
+  const result = await prisma.negotiation.updateMany({
+    where: {
+      bidId,
+      status: 'ACTIVE',
+      expiresAt: { lt: new Date() },
+    },
+    data: { status: 'EXPIRED' },
+  })
+  return result.count
+}
+
+/**
+ * Build bid updates from accepted negotiation terms.
+ * The negotiated volume (if any) replaces the RFP volume in the totals.
+ */
+export function applyOfferToBid(
+  bid: {
+    unitPrice: number
+    deliveryCost: number | null
+    additionalCosts: number | null
+  },
+  offer: OfferDetails,
+  rfpVolume: number
+): Record<string, any> {
+  const unitPrice = offer.unitPrice ?? bid.unitPrice
+  const volume = offer.volume ?? rfpVolume
+
+  const updates: Record<string, any> = {
+    unitPrice,
+    ...calculateBidTotals(unitPrice, volume, bid.deliveryCost, bid.additionalCosts),
+  }
+  if (offer.deliverySchedule) updates.deliverySchedule = JSON.stringify(offer.deliverySchedule)
+  if (offer.paymentTerms) updates.paymentTerms = offer.paymentTerms
+
+  return updates
+}
+
+/**
+ * Generate unique purchase order number with format: PO-[YYYYMM]-[Seq]
+ * Example: "PO-202511-0012"
+ */
+export async function generatePONumber(date: Date, prisma: any): Promise<string> {
+  const period = date.toISOString().substring(0, 7).replace('-', '')
+  const prefix = `PO-${period}-`
+
+  const count = await prisma.purchaseOrder.count({
+    where: {
+      poNumber: { startsWith: prefix },
+    },
+  })
+
+  const sequence = (count + 1).toString().padStart(4, '0')
+  return `${prefix}${sequence}`
+}
+
+function parseJsonValue(value: string | null | undefined): any {
+  if (!value) return null
+  try {
+    return JSON.parse(value)
+  } catch {
+    return value
+  }
+}
+
+export interface PurchaseOrderSource {
+  id: string
+  millId: string
+  unitPrice: number
+  totalBidAmount: number
+  deliverySchedule: string | null
+  paymentTerms: string | null
+  premixSource: string | null
+  qualityGuarantee: string | null
+  recentQCResults: string | null
+  certifications: string | null
+  rfp: {
+    id: string
+    buyerId: string
+    commodity: string
+    totalVolume: number
+    unitPackaging: string
+    numberOfUnits: number | null
+    qualitySpecs: string | null
+    certificationRequired: string | null
+    dietaryRequirements: string | null
+    packagingLabeling: string | null
+    samplingRequirements: string | null
+    deliverySchedule: string | null
+    preferredPaymentTerms: string | null
+  }
+}
+
+/**
+ * Derive purchase order terms from a bid and its RFP.
+ * Product specs and quality standards combine what the buyer asked for
+ * with what the mill committed to in its bid.
+ */
+export function buildPurchaseOrderTerms(
+  bid: PurchaseOrderSource,
+  overrides: { quantity?: number } = {}
+): Omit<Prisma.PurchaseOrderUncheckedCreateInput, 'poNumber' | 'status'> {
+  const quantity = overrides.quantity ?? bid.rfp.totalVolume
+
+  return {
+    rfpId: bid.rfp.id,
+    bidId: bid.id,
+    buyerId: bid.rfp.buyerId,
+    millId: bid.millId,
+    productSpecs: JSON.stringify({
+      commodity: bid.rfp.commodity,
+      unitPackaging: bid.rfp.unitPackaging,
+      numberOfUnits:
+        overrides.quantity !== undefined
+          ? calculateNumberOfUnits(quantity, bid.rfp.unitPackaging)
+          : bid.rfp.numberOfUnits,
+      dietaryRequirements: parseJsonValue(bid.rfp.dietaryRequirements),
+      packagingLabeling: parseJsonValue(bid.rfp.packagingLabeling),
+      premixSource: bid.premixSource,
+    }),
+    quantity,
+    unitPrice: bid.unitPrice,
+    totalAmount: bid.totalBidAmount,
+    deliverySchedule: bid.deliverySchedule || bid.rfp.deliverySchedule || '[]',
+    paymentTerms: bid.paymentTerms || bid.rfp.preferredPaymentTerms || 'ON_DELIVERY',
+    qualityStandards: JSON.stringify({
+      specifications: parseJsonValue(bid.rfp.qualitySpecs),
+      certificationRequired: parseJsonValue(bid.rfp.certificationRequired),
+      samplingRequirements: parseJsonValue(bid.rfp.samplingRequirements),
+      millCertifications: parseJsonValue(bid.certifications),
+      recentQCResults: parseJsonValue(bid.recentQCResults),
+      qualityGuarantee: bid.qualityGuarantee,
+    }),
+  }
+}
+
+/**
+ * Build a DRAFT purchase order from a bid and its RFP
+ */
+export async function buildPurchaseOrderFromBid(
+  bid: PurchaseOrderSource,
+  prisma: any,
+  overrides: { quantity?: number } = {}
+): Promise<Prisma.PurchaseOrderUncheckedCreateInput> {
+  return {
+    poNumber: await generatePONumber(new Date(), prisma),
+    ...buildPurchaseOrderTerms(bid, overrides),
+    status: 'DRAFT',
+  }
+}
+
+export type PurchaseOrderStatus =
+  | 'DRAFT'
+  | 'CONFIRMED'
+  | 'IN_PRODUCTION'
+  | 'READY'
+  | 'DELIVERED'
+  | 'COMPLETED'
+  | 'CANCELLED'
+
+/**
+ * Allowed purchase order transitions and the party that may perform each.
+ * DRAFT → CONFIRMED → IN_PRODUCTION → READY → DELIVERED → COMPLETED
+ */
+export const PO_STATUS_TRANSITIONS: Record<
+  PurchaseOrderStatus,
+  Partial<Record<PurchaseOrderStatus, 'BUYER' | 'MILL'>>
+> = {
+  DRAFT: { CONFIRMED: 'MILL', CANCELLED: 'BUYER' },
+  CONFIRMED: { IN_PRODUCTION: 'MILL', CANCELLED: 'BUYER' },
+  IN_PRODUCTION: { READY: 'MILL' },
+  READY: { DELIVERED: 'MILL' },
+  DELIVERED: { COMPLETED: 'BUYER' },
+  COMPLETED: {},
+  CANCELLED: {},
+}
+
+export function getPOTransitionActor(
+  from: string,
+  to: PurchaseOrderStatus
+): 'BUYER' | 'MILL' | null {
+  return PO_STATUS_TRANSITIONS[from as PurchaseOrderStatus]?.[to] ?? null
+}
+
+// Only batches that passed QC may be linked to a purchase order
+export const PO_ELIGIBLE_QC_STATUSES = ['PASS', 'EXCELLENT']
+
+/**
+ * Determine which side of a purchase order a user is on
+ */
+export function getPurchaseOrderParty(
+  order: { millId: string; buyer: { userId: string } },
+  user: { id: string; role: string; millId?: string | null }
+): BidParty | null {
+  if (user.millId && user.millId === order.millId) return 'MILL'
+  if (order.buyer.userId === user.id) return 'BUYER'
+  if (isProcurementAdmin(user.role)) return 'ADMIN'
+  return null
+}
@@ -0,0 +1,188 @@
+// Batch QR signatures (Ed25519)
+//
+// A QR code carries `<payload>.<signature>`, both base64url. The signature covers the
+// exact payload bytes, and the payload names the key that signed it, so anyone holding
+// the public keys from /api/qr-keys can verify a code without calling back to us.
+
+import { createPrivateKey, createPublicKey, sign, verify, KeyObject } from 'crypto'
+
+export const QR_PAYLOAD_VERSION = 1
+
+export type QrKeyStatus = 'ACTIVE' | 'RETIRED' | 'REVOKED'
+
+export interface QrPayload {
+  v: number
+  kid: string
+  batchId: string
+  millCode: string
+  cropType: string
+  productType: string
+  productionDate: string
+  qcStatus: string
+  certificationStatus: string | null
+  issuedAt: string
+}
+
+export type QrPayloadFields = Omit<QrPayload, 'v' | 'kid' | 'issuedAt'>
+
+export type QrVerificationFailure =
+  | 'MALFORMED'
+  | 'UNKNOWN_KEY'
+  | 'KEY_REVOKED'
+  | 'INVALID_SIGNATURE'
+
+// payload on a failure is whatever the code claims and must not be trusted
+export type QrVerificationResult =
+  | { valid: true; payload: QrPayload; keyStatus: QrKeyStatus }
+  | { valid: false; reason: QrVerificationFailure; payload?: QrPayload }
+
+interface SigningKey {
+  keyId: string
+  privateKey: KeyObject
+  publicKeyPem: string
+}
+
+function loadSigningKey(): SigningKey {
+  const keyId = process.env.QR_SIGNING_KEY_ID
+  // Allow the PEM to be stored on one line with escaped newlines
+  const pem = process.env.QR_SIGNING_PRIVATE_KEY?.replace(/\\n/g, '\n')
+
+  if (!keyId || !pem) {
+    throw new Error('QR_SIGNING_KEY_ID and QR_SIGNING_PRIVATE_KEY must be set to sign QR codes')
+  }
+
+  const privateKey = createPrivateKey(pem)
+  if (privateKey.asymmetricKeyType !== 'ed25519') {
+    throw new Error('QR_SIGNING_PRIVATE_KEY must be an Ed25519 key')
+  }
+
+  const publicKeyPem = createPublicKey(privateKey).export({ type: 'spki', format: 'pem' }).toString()
+  return { keyId, privateKey, publicKeyPem }
+}
+
+/**
+ * Publish the configured key's public half and make it the active key.
+ * Deploying a new QR_SIGNING_KEY_ID retires the previous key; codes it signed keep
+ * verifying until the key is revoked.
+ */
+async function ensureActiveSigningKey(prisma: any): Promise<SigningKey> {
+  const key = loadSigningKey()
+  const existing = await prisma.qrSigningKey.findUnique({ where: { keyId: key.keyId } })
+
+  if (existing?.status === 'REVOKED') {
+    throw new Error(`QR signing key ${key.keyId} has been revoked; configure a new key`)
+  }
+  if (existing && existing.publicKey.trim() !== key.publicKeyPem.trim()) {
+    throw new Error(`QR signing key ${key.keyId} does not match its registered public key`)
+  }
+
+  if (existing?.status !== 'ACTIVE') {
+    const now = new Date()
+    await prisma.$transaction([
+      prisma.qrSigningKey.updateMany({
+        where: { status: 'ACTIVE', keyId: { not: key.keyId } },
+        data: { status: 'RETIRED', retiredAt: now },
+      }),
+      prisma.qrSigningKey.upsert({
+        where: { keyId: key.keyId },
+        create: { keyId: key.keyId, publicKey: key.publicKeyPem, activatedAt: now },
+        update: { status: 'ACTIVE', activatedAt: now, retiredAt: null },
+      }),
+    ])
+  }
+
+  return key
+}
+
+/**
+ * Sign a batch payload with the active key
+ */
+export async function signQrPayload(
+  fields: QrPayloadFields,
+  prisma: any
+): Promise<{ token: string; payload: QrPayload }> {
+  const key = await ensureActiveSigningKey(prisma)
+
+  const payload: QrPayload = {
+    v: QR_PAYLOAD_VERSION,
+    kid: key.keyId,
+    ...fields,
+    issuedAt: new Date().toISOString(),
+  }
+
+  const payloadBytes = Buffer.from(JSON.stringify(payload), 'utf8')
+  const signature = sign(null, payloadBytes, key.privateKey)
+
+  return {
+    token: `${payloadBytes.toString('base64url')}.${signature.toString('base64url')}`,
+    payload,
+  }
+}
+
+/**
+ * Split a token into its payload and signature without checking the signature
+ */
+export function decodeQrToken(
+  token: string
+): { payload: QrPayload; payloadBytes: Buffer; signature: Buffer } | null {
+  const parts = token.split('.')
+  if (parts.length !== 2 || !parts[0] || !parts[1]) return null
+
+  try {
+    const payloadBytes = Buffer.from(parts[0], 'base64url')
+    const payload = JSON.parse(payloadBytes.toString('utf8'))
+
+    if (
+      payload?.v !== QR_PAYLOAD_VERSION ||
+      typeof payload.kid !== 'string' ||
+      typeof payload.batchId !== 'string'
+    ) {
+      return null
+    }
+
+    return { payload, payloadBytes, signature: Buffer.from(parts[1], 'base64url') }
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Check a token against a public key (SPKI PEM). Needs no database, so scanners and
+ * partners can verify offline with keys fetched earlier from /api/qr-keys.
+ */
+export function verifyQrSignature(token: string, publicKeyPem: string): QrPayload | null {
+  const decoded = decodeQrToken(token)
+  if (!decoded) return null
+
+  try {
+    const valid = verify(null, decoded.payloadBytes, createPublicKey(publicKeyPem), decoded.signature)
+    return valid ? decoded.payload : null
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Full server-side check: known key, valid signature, key not revoked
+ */
+export async function verifyQrToken(token: string, prisma: any): Promise<QrVerificationResult> {
+  const decoded = decodeQrToken(token)
+  if (!decoded) {
+    return { valid: false, reason: 'MALFORMED' }
+  }
+
+  const { payload } = decoded
+  const key = await prisma.qrSigningKey.findUnique({ where: { keyId: payload.kid } })
+
+  if (!key) {
+    return { valid: false, reason: 'UNKNOWN_KEY', payload }
+  }
+  if (!verifyQrSignature(token, key.publicKey)) {
+    return { valid: false, reason: 'INVALID_SIGNATURE', payload }
+  }
+  if (key.status === 'REVOKED') {
+    return { valid: false, reason: 'KEY_REVOKED', payload }
+  }
+
+  return { valid: true, payload, keyStatus: key.status }
+}
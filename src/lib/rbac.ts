@@ -0,0 +1,384 @@
+// Role-based access control: permission matrix and route handler wrapper
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getServerSession, Session } from 'next-auth'
+import { authOptions } from '@/lib/auth'
+import { NO_MILL_SCOPE, runWithMillScope } from '@/lib/mill-scope'
+
+export type UserRole =
+  | 'MILL_OPERATOR'
+  | 'MILL_MANAGER'
+  | 'FWGA_INSPECTOR'
+  | 'FWGA_PROGRAM_MANAGER'
+  | 'INSTITUTIONAL_BUYER'
+  | 'LOGISTICS_PLANNER'
+  | 'SYSTEM_ADMIN'
+
+export type Permission =
+  // Production & QC
+  | 'batch:read'
+  | 'batch:create'
+  | 'batch:update'
+  | 'batch:delete'
+  | 'batch:recall'
+  | 'premix:read'
+  | 'premix:manage'
+  | 'qc:create'
+  | 'certificate:download'
+  // Compliance
+  | 'compliance:read'
+  | 'compliance:create'
+  | 'compliance:submit'
+  | 'compliance:review'
+  | 'compliance:template:manage'
+  // Maintenance
+  | 'maintenance:read'
+  | 'maintenance:manage'
+  | 'equipment:manage'
+  // Alerts & action items
+  | 'alert:read'
+  | 'alert:create'
+  | 'alert:acknowledge'
+  | 'alert:trigger'
+  | 'alert:template:manage'
+  | 'action-item:read'
+  | 'action-item:update'
+  | 'action-item:approve'
+  | 'action-item:delete'
+  // Analytics & reporting
+  | 'analytics:read'
+  | 'analytics:export'
+  | 'report:manage'
+  // Dashboards
+  | 'dashboard:mill-operator'
+  | 'dashboard:mill-manager'
+  | 'dashboard:inspector'
+  | 'dashboard:program-manager'
+  | 'dashboard:buyer'
+  // Diagnostics
+  | 'diagnostics:read'
+  | 'diagnostics:submit'
+  // Procurement
+  | 'rfp:read'
+  | 'rfp:manage'
+  | 'bid:read'
+  | 'bid:manage'
+  | 'bid:negotiate'
+  | 'purchase-order:read'
+  | 'purchase-order:manage'
+  | 'delivery:read'
+  | 'delivery:manage'
+  | 'delivery:track'
+  | 'delivery:confirm'
+  | 'review:create'
+  | 'buyer:register'
+  | 'buyer:verify'
+  // User administration
+  | 'user:invite'
+  | 'user:manage'
+  // Batch QR signing keys
+  | 'qr-key:manage'
+  // Audit trail
+  | 'audit-log:read'
+  // Scheduled jobs
+  | 'job:run'
+
+const MILL_SHARED: Permission[] = [
+  'batch:read',
+  'batch:create',
+  'batch:update',
+  'premix:read',
+  'premix:manage',
+  'qc:create',
+  'certificate:download',
+  'compliance:read',
+  'compliance:create',
+  'maintenance:read',
+  'maintenance:manage',
+  'alert:read',
+  'alert:acknowledge',
+  'action-item:read',
+  'action-item:update',
+  'diagnostics:read',
+  'diagnostics:submit',
+]
+
+const FWGA_SHARED: Permission[] = [
+  'batch:read',
+  'batch:recall',
+  'premix:read',
+  'certificate:download',
+  'compliance:read',
+  'maintenance:read',
+  'alert:read',
+  'alert:create',
+  'alert:acknowledge',
+  'alert:trigger',
+  'action-item:read',
+  'analytics:read',
+  'analytics:export',
+  'report:manage',
+  'diagnostics:read',
+  'rfp:read',
+  'bid:read',
+  'purchase-order:read',
+  'delivery:read',
+  'buyer:verify',
+  'audit-log:read',
+]
+
+/**
+ * What each role may do. Resource-level rules (own mill, own RFP, party to an order)
+ * are still checked inside the handlers.
+ */
+export const ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  MILL_OPERATOR: [
+    ...MILL_SHARED,
+    'dashboard:mill-operator',
+    'delivery:track',
+  ],
+  MILL_MANAGER: [
+    ...MILL_SHARED,
+    'batch:delete',
+    'batch:recall',
+    'compliance:submit',
+    'equipment:manage',
+    'alert:create',
+    'action-item:approve',
+    'action-item:delete',
+    'analytics:read',
+    'analytics:export',
+    'report:manage',
+    'dashboard:mill-manager',
+    'rfp:read',
+    'bid:read',
+    'bid:manage',
+    'bid:negotiate',
+    'purchase-order:read',
+    'purchase-order:manage',
+    'delivery:read',
+    'delivery:manage',
+    'delivery:track',
+    'delivery:confirm',
+    'review:create',
+    'user:invite',
+  ],
+  FWGA_INSPECTOR: [
+    ...FWGA_SHARED,
+    'compliance:create',
+    'compliance:submit',
+    'compliance:review',
+    'compliance:template:manage',
+    'action-item:update',
+    'dashboard:inspector',
+  ],
+  FWGA_PROGRAM_MANAGER: [
+    ...FWGA_SHARED,
+    'alert:template:manage',
+    'dashboard:program-manager',
+    'delivery:manage',
+    'user:invite',
+    'job:run',
+  ],
+  INSTITUTIONAL_BUYER: [
+    'alert:read',
+    'alert:acknowledge',
+    'certificate:download',
+    'dashboard:buyer',
+    'rfp:read',
+    'rfp:manage',
+    'bid:read',
+    'bid:negotiate',
+    'purchase-order:read',
+    'purchase-order:manage',
+    'delivery:read',
+    'delivery:confirm',
+    'review:create',
+    'buyer:register',
+  ],
+  LOGISTICS_PLANNER: [
+    'alert:read',
+    'alert:acknowledge',
+    'purchase-order:read',
+    'delivery:read',
+    'delivery:manage',
+    'delivery:track',
+    'delivery:confirm',
+  ],
+  SYSTEM_ADMIN: [
+    ...FWGA_SHARED,
+    'batch:create',
+    'batch:update',
+    'batch:delete',
+    'premix:manage',
+    'qc:create',
+    'compliance:create',
+    'compliance:submit',
+    'compliance:template:manage',
+    'maintenance:manage',
+    'equipment:manage',
+    'alert:template:manage',
+    'action-item:update',
+    'action-item:delete',
+    'dashboard:mill-operator',
+    'dashboard:mill-manager',
+    'dashboard:inspector',
+    'dashboard:program-manager',
+    'dashboard:buyer',
+    'delivery:manage',
+    'user:invite',
+    'user:manage',
+    'qr-key:manage',
+    'job:run',
+  ],
+}
+
+// Roles that work across every mill. Mill roles are confined to their own User.millId;
+// buyers and logistics planners belong to no mill and only see what they are party to.
+export const CROSS_MILL_ROLES: UserRole[] = ['FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER', 'SYSTEM_ADMIN']
+
+// Roles that cannot act at all without a mill assignment
+export const MILL_ROLES: UserRole[] = ['MILL_OPERATOR', 'MILL_MANAGER']
+
+export function hasPermission(role: string | null | undefined, permission: Permission): boolean {
+  if (!role) return false
+  return ROLE_PERMISSIONS[role as UserRole]?.includes(permission) ?? false
+}
+
+// Buyer permissions withheld until FWGA verifies the buyer's organisation. Until then a
+// buyer can only set up and document their buyer profile; this is where self-registration lands.
+export const VERIFIED_BUYER_PERMISSIONS: Permission[] = [
+  'rfp:read',
+  'rfp:manage',
+  'bid:read',
+  'bid:negotiate',
+  'purchase-order:read',
+  'purchase-order:manage',
+  'delivery:read',
+  'delivery:confirm',
+  'review:create',
+]
+
+/**
+ * Whether a signed-in user holds a permission: their role's permissions, less
+ * VERIFIED_BUYER_PERMISSIONS for buyers whose profile is not verified yet
+ */
+export function userHasPermission(
+  user: { role: string; buyerVerified?: boolean },
+  permission: Permission
+): boolean {
+  if (
+    user.role === 'INSTITUTIONAL_BUYER' &&
+    !user.buyerVerified &&
+    VERIFIED_BUYER_PERMISSIONS.includes(permission)
+  ) {
+    return false
+  }
+  return hasPermission(user.role, permission)
+}
+
+export function isCrossMillRole(role: string | null | undefined): boolean {
+  return CROSS_MILL_ROLES.includes(role as UserRole)
+}
+
+export function isMillRole(role: string | null | undefined): boolean {
+  return MILL_ROLES.includes(role as UserRole)
+}
+
+/**
+ * The mill a user is confined to, or null when they have cross-mill scope.
+ * Users without a mill, whatever their role, get NO_MILL_SCOPE, which matches no mill.
+ */
+export function getMillScope(user: { role: string; millId?: string | null }): string | null {
+  if (isCrossMillRole(user.role)) return null
+  if (isMillRole(user.role)) return user.millId || NO_MILL_SCOPE
+  return NO_MILL_SCOPE
+}
+
+/**
+ * Mill to filter or write by: the caller's own mill when they are mill-scoped,
+ * otherwise the requested one (undefined meaning all mills).
+ */
+export function resolveMillId(session: Session, requested?: string | null): string | undefined {
+  return getMillScope(session.user) ?? requested ?? undefined
+}
+
+export function canAccessMill(session: Session, millId: string | null | undefined): boolean {
+  const scope = getMillScope(session.user)
+  return scope === null || scope === millId
+}
+
+/**
+ * Prisma where fragment confining a query to the caller's mill, optionally through
+ * a relation (e.g. 'batch' for QC records). Empty for cross-mill roles.
+ */
+export function millScopeWhere(session: Session, relation?: string): Record<string, any> {
+  const millId = getMillScope(session.user)
+  if (!millId) return {}
+  return relation ? { [relation]: { millId } } : { millId }
+}
+
+/**
+ * Like millScopeWhere for alerts, except that users without a mill see the alerts
+ * they were notified of (order and delivery alerts for buyers and planners).
+ */
+export function alertScopeWhere(session: Session, relation?: string): Record<string, any> {
+  if (getMillScope(session.user) !== NO_MILL_SCOPE) return millScopeWhere(session, relation)
+  const where = { notifications: { some: { userId: session.user.id } } }
+  return relation ? { [relation]: where } : where
+}
+
+export interface RouteContext<P = {}> {
+  params: P
+  session: Session
+}
+
+/**
+ * Wrap a route handler with session and permission checks.
+ * Responds 401 without a session and 403 when the role lacks every listed permission;
+ * pass null to only require a signed-in user. Mill-scoped users are also refused a
+ * millId query parameter naming another mill, and mill users' handlers run inside
+ * their mill scope so every query on a mill-owned model stays in their mill. The
+ * handler receives the session alongside the route params.
+ */
+export function withAuth<P = {}>(
+  permission: Permission | Permission[] | null,
+  handler: (request: NextRequest, context: RouteContext<P>) => Promise<Response>
+) {
+  const required = permission === null ? [] : Array.isArray(permission) ? permission : [permission]
+
+  const wrapped = async (request: NextRequest, context: { params: P }): Promise<Response> => {
+    const session = await getServerSession(authOptions)
+    if (!session?.user?.id) {
+      return NextResponse.json({ error: 'Unauthorized' }, { status: 401 })
+    }
+
+    if (required.length > 0 && !required.some((p) => userHasPermission(session.user, p))) {
+      return NextResponse.json(
+        { error: 'Forbidden', requiredPermission: required.join(' | ') },
+        { status: 403 }
+      )
+    }
+
+    if (isMillRole(session.user.role) && !session.user.millId) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'No mill is assigned to this account' },
+        { status: 403 }
+      )
+    }
+
+    const requestedMillId = new URL(request.url).searchParams.get('millId')
+    if (requestedMillId && !canAccessMill(session, requestedMillId)) {
+      return NextResponse.json(
+        { error: 'Forbidden', message: 'Access to this mill is not permitted' },
+        { status: 403 }
+      )
+    }
+
+    const run = () => handler(request, { params: context?.params, session })
+    return isMillRole(session.user.role) ? runWithMillScope(session.user.millId!, run) : run()
+  }
+
+  // Exposed so the permission matrix can be checked route by route
+  return Object.assign(wrapped, { requiredPermissions: required })
+}
@@ -0,0 +1,292 @@
+// Batch recall: scoping, affected orders and buyers, alerts and the recall report
+
+import { z } from 'zod'
+import { processNotificationQueue } from '@/lib/notification-delivery'
+import { queueAlertNotifications } from '@/lib/notification-preferences'
+import { parseJsonArray } from '@/lib/procurement-utils'
+
+export const recallSchema = z
+  .object({
+    batchIds: z.array(z.string()).min(1).optional(), // BatchLog record IDs
+    premixBatchNumber: z.string().min(1).optional(), // Recall every batch made with this premix lot
+    reason: z.string().min(1),
+    severity: z.enum(['CRITICAL', 'HIGH']).default('CRITICAL'),
+  })
+  .refine((data) => !data.batchIds !== !data.premixBatchNumber, {
+    message: 'Provide either batchIds or premixBatchNumber',
+  })
+
+export type RecallInput = z.infer<typeof recallSchema>
+
+// Fields the report and alerts need from each recalled batch
+export const RECALL_BATCH_SELECT = {
+  id: true,
+  batchId: true,
+  millId: true,
+  batchDateTime: true,
+  cropType: true,
+  productType: true,
+  premixBatchNumber: true,
+  outputWeight: true,
+  numberOfUnits: true,
+  status: true,
+  qrCodeGenerated: true,
+  mill: { select: { id: true, name: true, code: true } },
+}
+
+/**
+ * Generate unique recall number with format: RCL-[YYYYMM]-[Seq]
+ * Example: "RCL-202611-0003"
+ */
+export async function generateRecallNumber(date: Date, prisma: any): Promise<string> {
+  const period = date.toISOString().substring(0, 7).replace('-', '')
+  const prefix = `RCL-${period}-`
+
+  const count = await prisma.batchRecall.count({
+    where: {
+      recallNumber: { startsWith: prefix },
+    },
+  })
+
+  const sequence = (count + 1).toString().padStart(4, '0')
+  return `${prefix}${sequence}`
+}
+
+/**
+ * Purchase orders that were filled (wholly or partly) from any of the given batches,
+ * found through PurchaseOrder.batchLinkage
+ */
+export async function findAffectedOrders(batchIds: string[], prisma: any) {
+  if (batchIds.length === 0) return []
+
+  const orders = await prisma.purchaseOrder.findMany({
+    where: {
+      status: { not: 'CANCELLED' },
+      OR: batchIds.map((id) => ({ batchLinkage: { contains: id } })),
+    },
+    include: {
+      buyer: {
+        select: {
+          id: true,
+          userId: true,
+          organizationName: true,
+          primaryContactName: true,
+          primaryContactEmail: true,
+          primaryContactPhone: true,
+        },
+      },
+      deliveries: {
+        select: {
+          id: true,
+          status: true,
+          quantity: true,
+          receivedQuantity: true,
+          actualDate: true,
+        },
+      },
+    },
+  })
+
+  // `contains` can match a longer ID, so confirm against the parsed linkage
+  return orders
+    .map((order: any) => ({
+      ...order,
+      recalledBatchIds: parseJsonArray(order.batchLinkage).filter((id) => batchIds.includes(id)),
+    }))
+    .filter((order: any) => order.recalledBatchIds.length > 0)
+}
+
+/**
+ * Build the recall report stored on the recall: what was pulled, which orders
+ * shipped it and which buyers must be contacted
+ */
+export function buildRecallReport(
+  recall: {
+    recallNumber: string
+    scope: string
+    premixBatchNumber?: string | null
+    reason: string
+    severity: string
+    createdAt: Date
+  },
+  batches: any[],
+  orders: any[]
+) {
+  const batchLabel = new Map<string, string>(batches.map((b) => [b.id, b.batchId]))
+
+  const buyers = new Map<string, any>()
+  orders.forEach((order) => {
+    const existing = buyers.get(order.buyer.id)
+    if (existing) {
+      existing.poNumbers.push(order.poNumber)
+      return
+    }
+    buyers.set(order.buyer.id, {
+      buyerId: order.buyer.id,
+      organizationName: order.buyer.organizationName,
+      contactName: order.buyer.primaryContactName,
+      contactEmail: order.buyer.primaryContactEmail,
+      contactPhone: order.buyer.primaryContactPhone,
+      poNumbers: [order.poNumber],
+    })
+  })
+
+  const deliveredQuantity = orders.reduce(
+    (sum, order) =>
+      sum +
+      order.deliveries
+        .filter((d: any) => d.status === 'DELIVERED')
+        .reduce((total: number, d: any) => total + (d.receivedQuantity ?? d.quantity), 0),
+    0
+  )
+
+  return {
+    recallNumber: recall.recallNumber,
+    scope: recall.scope,
+    premixBatchNumber: recall.premixBatchNumber || null,
+    reason: recall.reason,
+    severity: recall.severity,
+    initiatedAt: recall.createdAt,
+    summary: {
+      batchCount: batches.length,
+      millCount: new Set(batches.map((b) => b.millId)).size,
+      totalUnits: batches.reduce((sum, b) => sum + (b.numberOfUnits || 0), 0),
+      totalOutputWeight: batches.reduce((sum, b) => sum + (b.outputWeight || 0), 0),
+      affectedOrderCount: orders.length,
+      affectedBuyerCount: buyers.size,
+      deliveredQuantity,
+    },
+    batches: batches.map((b) => ({
+      id: b.id,
+      batchId: b.batchId,
+      mill: b.mill,
+      productionDate: b.batchDateTime,
+      cropType: b.cropType,
+      productType: b.productType,
+      premixBatchNumber: b.premixBatchNumber,
+      numberOfUnits: b.numberOfUnits,
+      outputWeight: b.outputWeight,
+      previousStatus: b.status,
+      qrCodeIssued: b.qrCodeGenerated,
+    })),
+    orders: orders.map((order) => ({
+      poId: order.id,
+      poNumber: order.poNumber,
+      status: order.status,
+      millId: order.millId,
+      buyer: order.buyer.organizationName,
+      recalledBatches: order.recalledBatchIds.map((id: string) => batchLabel.get(id) || id),
+      deliveriesCompleted: order.deliveries.filter((d: any) => d.status === 'DELIVERED').length,
+      deliveriesOutstanding: order.deliveries.filter(
+        (d: any) => d.status !== 'DELIVERED' && d.status !== 'FAILED'
+      ).length,
+    })),
+    buyers: Array.from(buyers.values()),
+    generatedAt: new Date().toISOString(),
+  }
+}
+
+/**
+ * Raise one CONTAMINATION_RISK alert per affected mill and notify its managers,
+ * FWGA staff and the buyers whose orders carried the recalled batches
+ */
+export async function createRecallAlerts(
+  recall: { id: string; recallNumber: string; reason: string; severity: string },
+  batches: any[],
+  orders: any[],
+  prisma: any
+) {
+  const fwgaUsers = await prisma.user.findMany({
+    where: { role: { in: ['FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'] }, isActive: true },
+    select: { id: true },
+  })
+
+  const responseUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/production/recalls/${recall.id}`
+  const millIds = Array.from(new Set(batches.map((b) => b.millId)))
+  const alerts = []
+
+  for (const millId of millIds) {
+    const millBatches = batches.filter((b) => b.millId === millId)
+    const millOrders = orders.filter((order) => order.millId === millId)
+
+    const alert = await prisma.alert.create({
+      data: {
+        type: 'CONTAMINATION_RISK',
+        category: 'QUALITY_SAFETY',
+        severity: recall.severity,
+        title: `Batch recall ${recall.recallNumber}`,
+        message: `${millBatches.length} batch(es) from ${millBatches[0].mill.name} recalled: ${recall.reason}. ${millOrders.length} purchase order(s) affected.`,
+        actionRequired: 'Withdraw recalled stock and contact affected buyers',
+        deadline: new Date(Date.now() + 24 * 60 * 60 * 1000), // 24 hours
+        sourceType: 'BATCH_RECALL',
+        sourceId: recall.id,
+        millId,
+        metadata: JSON.stringify({
+          recallNumber: recall.recallNumber,
+          batchIds: millBatches.map((b) => b.batchId),
+          poNumbers: millOrders.map((order) => order.poNumber),
+        }),
+      },
+    })
+
+    const managers = await prisma.user.findMany({
+      where: { millId, role: 'MILL_MANAGER', isActive: true },
+      select: { id: true },
+    })
+
+    const recipients = Array.from(
+      new Set([
+        ...managers.map((m: any) => m.id),
+        ...fwgaUsers.map((u: any) => u.id),
+        ...millOrders.map((order) => order.buyer.userId),
+      ])
+    )
+
+    await queueAlertNotifications(
+      alert.id,
+      {
+        title: alert.title,
+        message: alert.message,
+        severity: alert.severity,
+        category: alert.category,
+        actionRequired: alert.actionRequired,
+        deadline: alert.deadline,
+      },
+      recipients,
+      responseUrl,
+      prisma
+    )
+
+    // Critical recalls go out now, like newly triggered critical alerts
+    if (alert.severity === 'CRITICAL') {
+      await processNotificationQueue(prisma, { alertId: alert.id })
+    }
+
+    alerts.push(alert)
+  }
+
+  return alerts
+}
+
+/**
+ * Trim a stored recall report to one mill's batches, orders and buyers for
+ * mill-scoped users looking at a recall that spans several mills
+ */
+export function scopeRecallReport(report: any, millId: string | null) {
+  if (!report || !millId) return report
+
+  const orders = report.orders.filter((order: any) => order.millId === millId)
+  const poNumbers = new Set(orders.map((order: any) => order.poNumber))
+
+  return {
+    ...report,
+    batches: report.batches.filter((b: any) => b.mill.id === millId),
+    orders,
+    buyers: report.buyers
+      .map((buyer: any) => ({
+        ...buyer,
+        poNumbers: buyer.poNumbers.filter((po: string) => poNumbers.has(po)),
+      }))
+      .filter((buyer: any) => buyer.poNumbers.length > 0),
+  }
+}
@@ -0,0 +1,113 @@
+// Buyer/mill review and reputation utilities
+
+import { z } from 'zod'
+
+const ratingField = z.number().min(1).max(5)
+
+export const orderReviewSchema = z.object({
+  overallRating: ratingField,
+  productQuality: ratingField.optional(),
+  deliveryReliability: ratingField.optional(),
+  communication: ratingField.optional(),
+  valueForMoney: ratingField.optional(),
+  paymentPromptness: ratingField.optional(),
+  requirementsReasonableness: ratingField.optional(),
+  review: z.string().max(2000).optional(),
+  wouldRecommend: z.boolean().optional(),
+  wouldWorkAgain: z.boolean().optional(),
+})
+
+export type OrderReviewInput = z.infer<typeof orderReviewSchema>
+
+// Dimensions each party rates the other on
+export const MILL_REVIEW_DIMENSIONS = [
+  'productQuality',
+  'deliveryReliability',
+  'communication',
+  'valueForMoney',
+] as const
+
+export const BUYER_REVIEW_DIMENSIONS = [
+  'paymentPromptness',
+  'requirementsReasonableness',
+  'communication',
+] as const
+
+/**
+ * Dimensions that do not apply to the party being reviewed
+ */
+export function getInapplicableDimensions(
+  reviewerType: 'BUYER' | 'MILL',
+  input: OrderReviewInput
+): string[] {
+  const allowed: readonly string[] =
+    reviewerType === 'BUYER' ? MILL_REVIEW_DIMENSIONS : BUYER_REVIEW_DIMENSIONS
+  const all = new Set<string>([...MILL_REVIEW_DIMENSIONS, ...BUYER_REVIEW_DIMENSIONS])
+
+  return Array.from(all).filter(
+    (dimension) => !allowed.includes(dimension) && (input as any)[dimension] !== undefined
+  )
+}
+
+export interface Reputation {
+  overallRating: number | null
+  reviewCount: number
+  dimensions: Record<string, number | null>
+  recommendRate: number | null // Percentage who would recommend / work again
+}
+
+function roundRating(value: number | null | undefined): number | null {
+  return value === null || value === undefined ? null : Math.round(value * 100) / 100
+}
+
+async function aggregateOrderReviews(
+  where: any,
+  dimensions: readonly string[],
+  prisma: any
+): Promise<Reputation> {
+  const avg: Record<string, boolean> = { overallRating: true }
+  dimensions.forEach((d) => {
+    avg[d] = true
+  })
+
+  const [aggregate, recommended, answered] = await Promise.all([
+    prisma.orderReview.aggregate({
+      where,
+      _avg: avg,
+      _count: { _all: true },
+    }),
+    prisma.orderReview.count({ where: { ...where, wouldWorkAgain: true } }),
+    prisma.orderReview.count({ where: { ...where, wouldWorkAgain: { not: null } } }),
+  ])
+
+  return {
+    overallRating: roundRating(aggregate._avg.overallRating),
+    reviewCount: aggregate._count._all,
+    dimensions: Object.fromEntries(
+      dimensions.map((d) => [d, roundRating(aggregate._avg[d])])
+    ),
+    recommendRate: answered > 0 ? Math.round((recommended / answered) * 10000) / 100 : null,
+  }
+}
+
+/**
+ * Reputation of a mill from buyer reviews of its completed orders
+ */
+export async function getMillReputation(millId: string, prisma: any): Promise<Reputation> {
+  return aggregateOrderReviews(
+    { reviewerType: 'BUYER', purchaseOrder: { millId } },
+    MILL_REVIEW_DIMENSIONS,
+    prisma
+  )
+}
+
+/**
+ * Reputation of a buyer from mill reviews of its completed orders
+ */
+export async function getBuyerReputation(buyerId: string, prisma: any): Promise<Reputation> {
+  return aggregateOrderReviews(
+    { reviewerType: 'MILL', purchaseOrder: { buyerId } },
+    BUYER_REVIEW_DIMENSIONS,
+    prisma
+  )
+}
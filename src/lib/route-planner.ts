@@ -0,0 +1,256 @@
+// Multi-stop delivery route planning (nearest neighbour + 2-opt, computed locally)
+
+import { estimateRoadDistanceKm } from '@/lib/logistics-utils'
+
+export interface Coordinates {
+  latitude: number
+  longitude: number
+}
+
+export interface RouteStopInput extends Coordinates {
+  deliveryId: string
+  locationId: string
+  name: string
+  quantity: number // kg
+  windowStart?: Date | null // Earliest acceptable arrival
+  windowEnd?: Date | null // Latest acceptable arrival
+}
+
+export interface RoutePlanOptions {
+  depot: Coordinates
+  departureTime: Date
+  vehicleCapacity: number // kg per trip
+  averageSpeedKmh: number
+  serviceMinutes: number // Unloading time at each stop
+}
+
+export interface PlannedStop extends RouteStopInput {
+  sequence: number
+  distanceFromPreviousKm: number
+  arrivalTime: Date
+  departureTime: Date
+  waitMinutes: number
+  lateMinutes: number
+}
+
+export interface PlannedTrip {
+  tripNumber: number
+  load: number
+  departureTime: Date
+  returnTime: Date
+  distanceKm: number // Including the return leg to the depot
+  stops: PlannedStop[]
+}
+
+export interface RoutePlan {
+  trips: PlannedTrip[]
+  totalDistanceKm: number
+  totalDurationMinutes: number
+  totalLateMinutes: number
+  unassigned: Array<{ deliveryId: string; reason: string }>
+}
+
+const MINUTE_MS = 60 * 1000
+
+// Guard against pathological inputs; 2-opt converges well before this on realistic routes
+const MAX_TWO_OPT_PASSES = 50
+
+function travelMinutes(distanceKm: number, speedKmh: number): number {
+  return (distanceKm / Math.max(speedKmh, 1)) * 60
+}
+
+/**
+ * Walk a trip in order and compute arrival times, waiting and lateness per stop
+ */
+export function scheduleTrip(
+  stops: RouteStopInput[],
+  startTime: Date,
+  options: RoutePlanOptions
+): { stops: PlannedStop[]; distanceKm: number; returnTime: Date; lateMinutes: number } {
+  let position: Coordinates = options.depot
+  let clock = startTime.getTime()
+  let distanceKm = 0
+  let lateMinutes = 0
+
+  const planned = stops.map((stop, index) => {
+    const legKm = estimateRoadDistanceKm(position, stop)
+    distanceKm += legKm
+    clock += travelMinutes(legKm, options.averageSpeedKmh) * MINUTE_MS
+
+    let waitMinutes = 0
+    if (stop.windowStart && clock < stop.windowStart.getTime()) {
+      waitMinutes = (stop.windowStart.getTime() - clock) / MINUTE_MS
+      clock = stop.windowStart.getTime()
+    }
+
+    const arrivalTime = new Date(clock)
+    const late = stop.windowEnd ? Math.max(0, (clock - stop.windowEnd.getTime()) / MINUTE_MS) : 0
+    lateMinutes += late
+
+    clock += options.serviceMinutes * MINUTE_MS
+    position = stop
+
+    return {
+      ...stop,
+      sequence: index + 1,
+      distanceFromPreviousKm: legKm,
+      arrivalTime,
+      departureTime: new Date(clock),
+      waitMinutes: Math.round(waitMinutes),
+      lateMinutes: Math.round(late),
+    }
+  })
+
+  const returnKm = stops.length > 0 ? estimateRoadDistanceKm(position, options.depot) : 0
+  distanceKm += returnKm
+  clock += travelMinutes(returnKm, options.averageSpeedKmh) * MINUTE_MS
+
+  return {
+    stops: planned,
+    distanceKm: Math.round(distanceKm * 100) / 100,
+    returnTime: new Date(clock),
+    lateMinutes: Math.round(lateMinutes),
+  }
+}
+
+/**
+ * Greedily fill one vehicle trip, always driving to the nearest stop that fits.
+ * Stops that can still be reached inside their time window are preferred.
+ */
+function buildNearestNeighbourTrip(
+  remaining: RouteStopInput[],
+  startTime: Date,
+  options: RoutePlanOptions
+): RouteStopInput[] {
+  const trip: RouteStopInput[] = []
+  let position: Coordinates = options.depot
+  let clock = startTime.getTime()
+  let load = 0
+
+  while (true) {
+    const candidates = remaining.filter(
+      (stop) => !trip.includes(stop) && load + stop.quantity <= options.vehicleCapacity
+    )
+    if (candidates.length === 0) break
+
+    const scored = candidates.map((stop) => {
+      const distance = estimateRoadDistanceKm(position, stop)
+      const arrival = clock + travelMinutes(distance, options.averageSpeedKmh) * MINUTE_MS
+      const onTime = !stop.windowEnd || arrival <= stop.windowEnd.getTime()
+      return { stop, distance, arrival, onTime }
+    })
+
+    const pool = scored.some((s) => s.onTime) ? scored.filter((s) => s.onTime) : scored
+    const next = pool.reduce((best, s) => (s.distance < best.distance ? s : best))
+
+    trip.push(next.stop)
+    load += next.stop.quantity
+    position = next.stop
+    clock = Math.max(next.arrival, next.stop.windowStart?.getTime() ?? 0) +
+      options.serviceMinutes * MINUTE_MS
+  }
+
+  return trip
+}
+
+/**
+ * Improve a trip by reversing segments while that shortens it
+ * without adding lateness against time windows.
+ */
+export function improveWithTwoOpt(
+  stops: RouteStopInput[],
+  startTime: Date,
+  options: RoutePlanOptions
+): RouteStopInput[] {
+  if (stops.length < 3) return stops
+
+  let best = stops
+  let bestSchedule = scheduleTrip(best, startTime, options)
+
+  for (let pass = 0; pass < MAX_TWO_OPT_PASSES; pass++) {
+    let improved = false
+
+    for (let i = 0; i < best.length - 1; i++) {
+      for (let k = i + 1; k < best.length; k++) {
+        const candidate = [
+          ...best.slice(0, i),
+          ...best.slice(i, k + 1).reverse(),
+          ...best.slice(k + 1),
+        ]
+        const schedule = scheduleTrip(candidate, startTime, options)
+
+        const lessLate = schedule.lateMinutes < bestSchedule.lateMinutes
+        const shorter =
+          schedule.lateMinutes === bestSchedule.lateMinutes &&
+          schedule.distanceKm < bestSchedule.distanceKm - 0.001
+
+        if (lessLate || shorter) {
+          best = candidate
+          bestSchedule = schedule
+          improved = true
+        }
+      }
+    }
+
+    if (!improved) break
+  }
+
+  return best
+}
+
+/**
+ * Plan an ordered multi-stop route for a single vehicle.
+ * Loads exceeding vehicle capacity are split into consecutive trips from the depot.
+ */
+export function planDeliveryRoute(stops: RouteStopInput[], options: RoutePlanOptions): RoutePlan {
+  const unassigned: RoutePlan['unassigned'] = []
+  const remaining: RouteStopInput[] = []
+
+  stops.forEach((stop) => {
+    if (stop.quantity > options.vehicleCapacity) {
+      unassigned.push({
+        deliveryId: stop.deliveryId,
+        reason: `Quantity ${stop.quantity} kg exceeds vehicle capacity of ${options.vehicleCapacity} kg`,
+      })
+    } else {
+      remaining.push(stop)
+    }
+  })
+
+  const trips: PlannedTrip[] = []
+  let tripStart = options.departureTime
+
+  while (remaining.length > 0) {
+    const greedy = buildNearestNeighbourTrip(remaining, tripStart, options)
+    const ordered = improveWithTwoOpt(greedy, tripStart, options)
+    const schedule = scheduleTrip(ordered, tripStart, options)
+
+    trips.push({
+      tripNumber: trips.length + 1,
+      load: ordered.reduce((sum, s) => sum + s.quantity, 0),
+      departureTime: tripStart,
+      returnTime: schedule.returnTime,
+      distanceKm: schedule.distanceKm,
+      stops: schedule.stops,
+    })
+
+    ordered.forEach((stop) => remaining.splice(remaining.indexOf(stop), 1))
+    tripStart = schedule.returnTime
+  }
+
+  const totalDistanceKm = trips.reduce((sum, t) => sum + t.distanceKm, 0)
+  const lastReturn = trips.length > 0 ? trips[trips.length - 1].returnTime : options.departureTime
+
+  return {
+    trips,
+    totalDistanceKm: Math.round(totalDistanceKm * 100) / 100,
+    totalDurationMinutes: Math.round(
+      (lastReturn.getTime() - options.departureTime.getTime()) / MINUTE_MS
+    ),
+    totalLateMinutes: trips.reduce(
+      (sum, t) => sum + t.stops.reduce((s, stop) => s + stop.lateMinutes, 0),
+      0
+    ),
+    unassigned,
+  }
+}
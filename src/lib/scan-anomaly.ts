@@ -0,0 +1,234 @@
+// Counterfeit detection over the QR scan history of a batch
+
+import { calculateDistanceKm } from '@/lib/logistics-utils'
+import { queueAlertNotifications } from '@/lib/notification-preferences'
+
+export type ScanAnomalyType = 'IMPOSSIBLE_TRAVEL' | 'EXCESS_SCANS' | 'SCAN_AFTER_EXPIRY'
+
+export interface ScanAnomaly {
+  type: ScanAnomalyType
+  message: string
+  details: Record<string, unknown>
+}
+
+export const SCAN_ANOMALY_RULES = {
+  travelWindowHours: 24, // Only compare against scans this recent
+  minTravelDistanceKm: 50, // Ignore GPS noise and neighbouring towns
+  maxTravelSpeedKmh: 120, // Faster than the product could have been carried between scans
+  excessScanRatio: 3, // Scans per produced unit before the count is implausible
+}
+
+// Typical shelf life of packaged fortified product, used when a batch has no expiryDate
+export const SHELF_LIFE_MONTHS: Record<string, number> = {
+  'Parboiled rice': 12,
+  'Raw rice': 12,
+  'Whole grain maize': 6,
+  'Refined maize flour': 4,
+  'Wheat flour': 6,
+}
+
+const DEFAULT_SHELF_LIFE_MONTHS = 6
+
+/**
+ * Best-before date of a batch: the recorded expiry, else packaging (or production)
+ * date plus the typical shelf life of the crop
+ */
+export function getProductExpiry(batch: {
+  expiryDate?: Date | null
+  packagingDate?: Date | null
+  batchDateTime: Date
+  cropType: string
+}): Date {
+  if (batch.expiryDate) return batch.expiryDate
+
+  const expiry = new Date(batch.packagingDate || batch.batchDateTime)
+  expiry.setMonth(expiry.getMonth() + (SHELF_LIFE_MONTHS[batch.cropType] ?? DEFAULT_SHELF_LIFE_MONTHS))
+  return expiry
+}
+
+/**
+ * Parse a "lat,lng" eventLocation; named places cannot be compared and return null
+ */
+export function parseScanLocation(
+  location: string | null | undefined
+): { latitude: number; longitude: number } | null {
+  if (!location) return null
+
+  const match = location.trim().match(/^(-?\d+(?:\.\d+)?)\s*,\s*(-?\d+(?:\.\d+)?)$/)
+  if (!match) return null
+
+  const latitude = parseFloat(match[1])
+  const longitude = parseFloat(match[2])
+  if (Math.abs(latitude) > 90 || Math.abs(longitude) > 180) return null
+
+  return { latitude, longitude }
+}
+
+/**
+ * Check a new scan against the batch and its earlier scans (recentScans only needs
+ * scans inside the travel window). Returns every rule the scan breaks; an empty list
+ * means nothing looks wrong.
+ */
+export function detectScanAnomalies(
+  batch: {
+    numberOfUnits?: number | null
+    expiryDate?: Date | null
+    packagingDate?: Date | null
+    batchDateTime: Date
+    cropType: string
+  },
+  scan: { location: string | null; time: Date },
+  recentScans: { eventLocation: string | null; eventTime: Date }[],
+  previousScanCount: number
+): ScanAnomaly[] {
+  const anomalies: ScanAnomaly[] = []
+
+  // The same code turning up far apart faster than goods can travel
+  const here = parseScanLocation(scan.location)
+  if (here) {
+    const windowStart = scan.time.getTime() - SCAN_ANOMALY_RULES.travelWindowHours * 60 * 60 * 1000
+
+    for (const previous of recentScans) {
+      if (previous.eventTime.getTime() < windowStart) continue
+      const there = parseScanLocation(previous.eventLocation)
+      if (!there) continue
+
+      const distanceKm = calculateDistanceKm(there, here)
+      if (distanceKm < SCAN_ANOMALY_RULES.minTravelDistanceKm) continue
+
+      const hours = Math.max((scan.time.getTime() - previous.eventTime.getTime()) / (60 * 60 * 1000), 1 / 60)
+      const speedKmh = distanceKm / hours
+
+      if (speedKmh > SCAN_ANOMALY_RULES.maxTravelSpeedKmh) {
+        anomalies.push({
+          type: 'IMPOSSIBLE_TRAVEL',
+          message: `Scanned ${Math.round(distanceKm)} km from a scan ${Math.round(hours * 60)} minutes earlier`,
+          details: {
+            previousLocation: previous.eventLocation,
+            previousTime: previous.eventTime,
+            location: scan.location,
+            distanceKm: Math.round(distanceKm * 10) / 10,
+            impliedSpeedKmh: Math.round(speedKmh),
+          },
+        })
+        break
+      }
+    }
+  }
+
+  // Far more scans than there are packages in circulation
+  const scanCount = previousScanCount + 1
+  if (batch.numberOfUnits && scanCount > batch.numberOfUnits * SCAN_ANOMALY_RULES.excessScanRatio) {
+    anomalies.push({
+      type: 'EXCESS_SCANS',
+      message: `${scanCount} scans recorded for a batch of ${batch.numberOfUnits} units`,
+      details: {
+        scanCount,
+        numberOfUnits: batch.numberOfUnits,
+        ratio: Math.round((scanCount / batch.numberOfUnits) * 10) / 10,
+      },
+    })
+  }
+
+  // Product still being scanned (and so sold) after its best-before date
+  const expiry = getProductExpiry(batch)
+  if (scan.time > expiry) {
+    anomalies.push({
+      type: 'SCAN_AFTER_EXPIRY',
+      message: `Scanned ${Math.ceil((scan.time.getTime() - expiry.getTime()) / (24 * 60 * 60 * 1000))} day(s) after expiry`,
+      details: {
+        expiryDate: expiry,
+        expiryDerived: !batch.expiryDate,
+      },
+    })
+  }
+
+  return anomalies
+}
+
+/**
+ * Raise a counterfeit alert for the producing mill and notify its managers and FWGA.
+ * Only one open alert per batch is kept; repeat anomalies are appended to its metadata.
+ */
+export async function raiseScanAnomalyAlert(
+  batch: { id: string; batchId: string; millId: string },
+  anomalies: ScanAnomaly[],
+  scanRecordId: string,
+  prisma: any
+) {
+  const existing = await prisma.alert.findFirst({
+    where: {
+      type: 'COUNTERFEIT_SUSPECTED',
+      sourceType: 'BATCH_SCAN',
+      sourceId: batch.id,
+      isResolved: false,
+    },
+  })
+
+  if (existing) {
+    const metadata = existing.metadata ? JSON.parse(existing.metadata) : {}
+    await prisma.alert.update({
+      where: { id: existing.id },
+      data: {
+        metadata: JSON.stringify({
+          ...metadata,
+          suspiciousScanIds: [...(metadata.suspiciousScanIds || []), scanRecordId],
+          anomalyTypes: Array.from(
+            new Set([...(metadata.anomalyTypes || []), ...anomalies.map((a) => a.type)])
+          ),
+        }),
+      },
+    })
+    return existing
+  }
+
+  const alert = await prisma.alert.create({
+    data: {
+      type: 'COUNTERFEIT_SUSPECTED',
+      category: 'QUALITY_SAFETY',
+      severity: 'HIGH',
+      title: `Suspicious QR scans for batch ${batch.batchId}`,
+      message: `Scans of batch ${batch.batchId} look like counterfeit or diverted product: ${anomalies.map((a) => a.message).join('; ')}.`,
+      actionRequired: 'Review scan history and investigate the distribution channel',
+      deadline: new Date(Date.now() + 48 * 60 * 60 * 1000), // 48 hours
+      sourceType: 'BATCH_SCAN',
+      sourceId: batch.id,
+      millId: batch.millId,
+      metadata: JSON.stringify({
+        batchId: batch.batchId,
+        suspiciousScanIds: [scanRecordId],
+        anomalyTypes: anomalies.map((a) => a.type),
+        anomalies,
+      }),
+    },
+  })
+
+  const recipients = await prisma.user.findMany({
+    where: {
+      isActive: true,
+      OR: [
+        { millId: batch.millId, role: 'MILL_MANAGER' },
+        { role: { in: ['FWGA_INSPECTOR', 'FWGA_PROGRAM_MANAGER'] } },
+      ],
+    },
+    select: { id: true },
+  })
+
+  const responseUrl = `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/production/batches/${batch.id}`
+  await queueAlertNotifications(
+    alert.id,
+    {
+      title: alert.title,
+      message: alert.message,
+      severity: alert.severity,
+      category: alert.category,
+      actionRequired: alert.actionRequired,
+      deadline: alert.deadline,
+    },
+    recipients.map((user: any) => user.id),
+    responseUrl,
+    prisma
+  )
+
+  return alert
+}
@@ -0,0 +1,133 @@
+// User accounts: self-registration, invitations and admin role changes
+
+import { createHash, randomBytes } from 'crypto'
+import bcrypt from 'bcryptjs'
+import { z } from 'zod'
+import { RequestMeta } from '@/lib/auth'
+import { appendAuditLog } from '@/lib/audit-log'
+import { UserRole, MILL_ROLES } from '@/lib/rbac'
+
+export const USER_ROLES: UserRole[] = [
+  'MILL_OPERATOR',
+  'MILL_MANAGER',
+  'FWGA_INSPECTOR',
+  'FWGA_PROGRAM_MANAGER',
+  'INSTITUTIONAL_BUYER',
+  'LOGISTICS_PLANNER',
+  'SYSTEM_ADMIN',
+]
+
+// Self-registered accounts start here. It must stay a role without mill data or cross-mill
+// reads (getMillScope gives it NO_MILL_SCOPE), and buyers hold none of VERIFIED_BUYER_PERMISSIONS
+// until FWGA verifies their buyer profile
+export const SELF_REGISTRATION_ROLE: UserRole = 'INSTITUTIONAL_BUYER'
+
+/**
+ * Roles each inviter may grant. Mill managers only invite into their own mill.
+ */
+export const INVITABLE_ROLES: Partial<Record<UserRole, UserRole[]>> = {
+  MILL_MANAGER: ['MILL_OPERATOR'],
+  FWGA_PROGRAM_MANAGER: ['FWGA_INSPECTOR'],
+  SYSTEM_ADMIN: USER_ROLES,
+}
+
+export const INVITATION_TTL_DAYS = 7
+
+export const passwordSchema = z.string().min(8, 'Password must be at least 8 characters')
+
+// Emails are stored and looked up trimmed and lowercased
+export const emailSchema = z.string().trim().toLowerCase().email('Invalid email address')
+
+export function canInvite(inviterRole: string, role: UserRole): boolean {
+  return INVITABLE_ROLES[inviterRole as UserRole]?.includes(role) ?? false
+}
+
+export function requiresMill(role: string): boolean {
+  return MILL_ROLES.includes(role as UserRole)
+}
+
+export function hashInvitationToken(token: string): string {
+  return createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Random invitation token; only its hash is stored
+ */
+export function generateInvitationToken(): { token: string; tokenHash: string } {
+  const token = randomBytes(32).toString('base64url')
+  return { token, tokenHash: hashInvitationToken(token) }
+}
+
+export type InvitationStatus = 'PENDING' | 'ACCEPTED' | 'REVOKED' | 'EXPIRED'
+
+export function getInvitationStatus(invitation: {
+  acceptedAt: Date | null
+  revokedAt: Date | null
+  expiresAt: Date
+}): InvitationStatus {
+  if (invitation.acceptedAt) return 'ACCEPTED'
+  if (invitation.revokedAt) return 'REVOKED'
+  if (invitation.expiresAt < new Date()) return 'EXPIRED'
+  return 'PENDING'
+}
+
+export function getInvitationUrl(token: string): string {
+  return `${process.env.NEXT_PUBLIC_APP_URL || 'http://localhost:3000'}/invitations/${token}`
+}
+
+/**
+ * Create a user and their profile. Returns null if the email is already registered.
+ */
+export async function createUserAccount(
+  data: { name: string; email: string; password: string; role: UserRole; millId?: string | null },
+  prisma: any
+) {
+  const email = data.email.trim().toLowerCase()
+
+  const existing = await prisma.user.findUnique({ where: { email } })
+  if (existing) return null
+
+  const hashedPassword = await bcrypt.hash(data.password, 12)
+
+  return prisma.user.create({
+    data: {
+      name: data.name,
+      email,
+      password: hashedPassword,
+      role: data.role,
+      millId: data.millId ?? null,
+      profile: {
+        create: {
+          timezone: 'UTC',
+          language: 'en',
+        },
+      },
+    },
+  })
+}
+
+/**
+ * Record a change to a user account or invitation in the audit log
+ */
+export async function logUserChange(
+  prisma: any,
+  entry: {
+    actorId: string | null
+    action: string
+    resourceType?: 'USER' | 'USER_INVITATION'
+    resourceId: string
+    oldValues?: Record<string, unknown>
+    newValues?: Record<string, unknown>
+    meta: RequestMeta
+  }
+) {
+  await appendAuditLog(prisma, {
+    userId: entry.actorId,
+    action: entry.action,
+    resourceType: entry.resourceType || 'USER',
+    resourceId: entry.resourceId,
+    oldValues: entry.oldValues,
+    newValues: entry.newValues,
+    meta: entry.meta,
+  })
+}
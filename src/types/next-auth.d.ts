@@ -0,0 +1,29 @@
+import { DefaultSession } from 'next-auth'
+
+declare module 'next-auth' {
+  interface Session {
+    user: DefaultSession['user'] & {
+      id: string
+      role: string
+      millId?: string | null
+      buyerVerified?: boolean
+    }
+  }
+
+  interface User {
+    role: string
+    millId?: string | null
+    buyerVerified?: boolean
+    sessionId?: string
+  }
+}
+
+declare module 'next-auth/jwt' {
+  interface JWT {
+    id?: string
+    role?: string
+    millId?: string | null
+    buyerVerified?: boolean
+    sessionId?: string
+  }
+}
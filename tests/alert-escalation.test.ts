@@ -0,0 +1,48 @@
+// Escalation runs page through every open row rather than the oldest few
+
+import { describe, expect, it, vi } from 'vitest'
+import { runEscalations } from '@/lib/alert-escalation'
+
+const now = new Date('2026-03-10T09:00:00Z')
+
+// Rows served in id order from `cursor`, the way Prisma pages with cursor + skip
+function pagedModel(rows: any[]) {
+  return {
+    findMany: vi.fn(async (args: any) => {
+      const start = args.cursor ? rows.findIndex((row) => row.id === args.cursor.id) + args.skip : 0
+      return rows.slice(start, start + args.take)
+    }),
+  }
+}
+
+// Raised a minute ago, so nothing is due yet and no further queries are made
+function freshAlert(id: string) {
+  return {
+    id,
+    type: 'QC_FAILURE',
+    severity: 'LOW',
+    isAcknowledged: false,
+    createdAt: new Date(now.getTime() - 60 * 1000),
+    escalations: [],
+  }
+}
+
+describe('runEscalations', () => {
+  it('scans every open alert, a page at a time', async () => {
+    const alerts = ['a1', 'a2', 'a3', 'a4', 'a5'].map(freshAlert)
+    const prisma = { alert: pagedModel(alerts), actionItem: pagedModel([]) }
+
+    const { summary } = await runEscalations(prisma, { pageSize: 2, now })
+
+    expect(summary.alertsScanned).toBe(5)
+    expect(prisma.alert.findMany.mock.calls.map(([args]) => args.cursor?.id ?? null)).toEqual([null, 'a2', 'a4'])
+  })
+
+  it('leaves out action items already at the top of their path', async () => {
+    const prisma = { alert: pagedModel([]), actionItem: pagedModel([]) }
+
+    await runEscalations(prisma, { now })
+
+    expect(prisma.actionItem.findMany.mock.calls[0][0].where.escalationLevel).toEqual({ lt: 3 })
+  })
+})
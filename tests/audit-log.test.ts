@@ -0,0 +1,115 @@
+// Hash-chained audit trail: rows appended through appendAuditLog verify, and
+// edited, removed or slipped-in rows are reported
+
+import { describe, expect, it } from 'vitest'
+import { appendAuditLog, computeAuditHash, diffValues, verifyAuditChain } from '@/lib/audit-log'
+
+// Just enough of the AuditLog table for appending and verifying
+function fakePrisma() {
+  const rows: any[] = []
+  const client: any = {
+    rows,
+    $transaction: async (callback: (tx: any) => Promise<unknown>) => callback(client),
+    auditLog: {
+      findFirst: async () => {
+        const chained = rows.filter((row) => row.sequence !== null)
+        return chained.sort((a, b) => b.sequence - a.sequence)[0] ?? null
+      },
+      create: async ({ data }: any) => {
+        const row = { id: `log-${rows.length + 1}`, ...data }
+        rows.push(row)
+        return row
+      },
+      findMany: async ({ where, take }: any) => {
+        if (where.sequence === null) {
+          return rows.filter((row) => row.sequence === null && row.createdAt >= where.createdAt.gte).slice(0, take)
+        }
+        return rows
+          .filter((row) => row.sequence !== null && row.sequence > where.sequence.gt)
+          .sort((a, b) => a.sequence - b.sequence)
+          .slice(0, take)
+      },
+      count: async () => 0, // No rows from before chaining began
+    },
+  }
+  return client
+}
+
+async function chainOf(length: number) {
+  const prisma = fakePrisma()
+  for (let i = 1; i <= length; i++) {
+    await appendAuditLog(prisma, {
+      userId: 'user-1',
+      action: 'UPDATE_BATCH',
+      resourceType: 'BATCH',
+      resourceId: `batch-${i}`,
+      oldValues: { status: 'QC_PENDING' },
+      newValues: { status: 'PASSED' },
+    })
+  }
+  return prisma
+}
+
+describe('verifyAuditChain', () => {
+  it('accepts an untouched chain', async () => {
+    const prisma = await chainOf(3)
+    const result = await verifyAuditChain(prisma)
+
+    expect(result).toMatchObject({ valid: true, rowsChecked: 3, headSequence: 3, issues: [] })
+    expect(prisma.rows[1].previousHash).toBe(prisma.rows[0].hash)
+  })
+
+  it('reports a row whose contents were edited', async () => {
+    const prisma = await chainOf(3)
+    prisma.rows[1].newValues = JSON.stringify({ status: 'FAILED' })
+
+    const { valid, issues } = await verifyAuditChain(prisma)
+
+    expect(valid).toBe(false)
+    expect(issues).toEqual([expect.objectContaining({ type: 'HASH_MISMATCH', sequence: 2 })])
+  })
+
+  it('reports a removed row as a gap and a broken link', async () => {
+    const prisma = await chainOf(3)
+    prisma.rows.splice(1, 1)
+
+    const { issues } = await verifyAuditChain(prisma)
+
+    expect(issues.map((issue: any) => [issue.type, issue.sequence])).toEqual([
+      ['GAP', 3],
+      ['BROKEN_LINK', 3],
+    ])
+  })
+
+  it('reports an edited row whose hash was recomputed at the link from the next row', async () => {
+    const prisma = await chainOf(3)
+    const forged = { ...prisma.rows[1], action: 'DELETE_BATCH' }
+    prisma.rows[1] = { ...forged, hash: computeAuditHash(forged) }
+
+    const { issues } = await verifyAuditChain(prisma)
+
+    expect(issues).toEqual([expect.objectContaining({ type: 'BROKEN_LINK', sequence: 3 })])
+  })
+
+  it('reports rows written outside the chain after it began', async () => {
+    const prisma = await chainOf(2)
+    prisma.rows.push({ id: 'slipped-in', sequence: null, createdAt: new Date(Date.now() + 1000) })
+
+    const { valid, issues } = await verifyAuditChain(prisma)
+
+    expect(valid).toBe(false)
+    expect(issues).toEqual([expect.objectContaining({ type: 'UNCHAINED_ROW', id: 'slipped-in' })])
+  })
+})
+
+describe('diffValues', () => {
+  it('keeps only changed scalar fields', () => {
+    const before = { status: 'QC_PENDING', grade: 'A', updatedAt: new Date(1) }
+    const after = { status: 'PASSED', grade: 'A', updatedAt: new Date(2), mill: { name: 'Nakuru' } }
+
+    expect(diffValues(before, after)).toEqual({
+      oldValues: { status: 'QC_PENDING' },
+      newValues: { status: 'PASSED' },
+    })
+  })
+})
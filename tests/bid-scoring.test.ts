@@ -0,0 +1,119 @@
+// Bid scoring: criteria weights, per-criterion scores and ranking
+
+import { describe, expect, it } from 'vitest'
+import {
+  BidScoringInput,
+  DEFAULT_EVALUATION_CRITERIA,
+  parseEvaluationCriteria,
+  rankBids,
+  scoreBid,
+} from '@/lib/bid-scoring'
+
+const context = { maxUnitPrice: 600, capacityRequirement: 1000 }
+
+function bid(overrides: Partial<BidScoringInput> = {}): BidScoringInput {
+  return {
+    bidId: 'bid-1',
+    millId: 'mill-1',
+    unitPrice: 500,
+    leadTime: 10,
+    complianceScore: 90,
+    qcPassRate: 95,
+    averageRating: 4,
+    dailyCapacity: 2000,
+    ...overrides,
+  }
+}
+
+function criterion(score: ReturnType<typeof scoreBid>, name: string) {
+  return score.breakdown.find((c) => c.criterion === name)!
+}
+
+describe('parseEvaluationCriteria', () => {
+  it('reads object and array forms, zeroing criteria left out', () => {
+    expect(parseEvaluationCriteria('{"price":60,"compliance":40}')).toEqual({
+      price: 60,
+      leadTime: 0,
+      compliance: 40,
+      qualityControl: 0,
+      reputation: 0,
+      capacity: 0,
+    })
+    expect(parseEvaluationCriteria('[{"criterion":"price","weight":100}]').price).toBe(100)
+  })
+
+  it('falls back to the defaults for missing or unreadable criteria', () => {
+    expect(parseEvaluationCriteria(null)).toEqual(DEFAULT_EVALUATION_CRITERIA)
+    expect(parseEvaluationCriteria('not json')).toEqual(DEFAULT_EVALUATION_CRITERIA)
+  })
+})
+
+describe('scoreBid', () => {
+  const competition = { lowestUnitPrice: 400, shortestLeadTime: 5 }
+
+  it('weights each criterion by its share of the total weight', () => {
+    const score = scoreBid(bid(), context, DEFAULT_EVALUATION_CRITERIA, competition)
+
+    // price 80, lead time 50, compliance 90, QC 95, reputation 80, capacity 100
+    expect(criterion(score, 'price')).toMatchObject({ weight: 0.3, score: 80, weightedScore: 24 })
+    expect(criterion(score, 'leadTime')).toMatchObject({ weight: 0.1, score: 50, weightedScore: 5 })
+    expect(score.evaluationScore).toBe(24 + 5 + 18 + 19 + 8 + 10)
+  })
+
+  it('scores only the criteria the buyer weighted', () => {
+    const priceOnly = parseEvaluationCriteria('{"price":1}')
+
+    expect(scoreBid(bid(), context, priceOnly, competition).evaluationScore).toBe(80)
+    expect(scoreBid(bid({ unitPrice: 400 }), context, priceOnly, competition).evaluationScore).toBe(100)
+  })
+
+  it('scores a price above the maximum as zero and reports unmet requirements', () => {
+    const score = scoreBid(
+      bid({ unitPrice: 700, dailyCapacity: 500, complianceScore: null }),
+      context,
+      DEFAULT_EVALUATION_CRITERIA,
+      competition
+    )
+
+    expect(criterion(score, 'price').score).toBe(0)
+    expect(criterion(score, 'compliance').score).toBe(0)
+    expect(score.unmetRequirements).toEqual([
+      'Unit price above maximum',
+      'Production capacity below requirement',
+      'No passing compliance audit',
+    ])
+    expect(score.matchScore).toBe(25)
+  })
+
+  it('gives a neutral score where the mill has no data', () => {
+    const score = scoreBid(
+      bid({ leadTime: null, qcPassRate: null, averageRating: null, dailyCapacity: null }),
+      context,
+      DEFAULT_EVALUATION_CRITERIA,
+      competition
+    )
+
+    const scores = ['leadTime', 'qualityControl', 'reputation', 'capacity'].map((c) => criterion(score, c).score)
+    expect(scores).toEqual([50, 50, 50, 50])
+  })
+})
+
+describe('rankBids', () => {
+  it('ranks by evaluation score against the cheapest and fastest competing bids', () => {
+    const ranked = rankBids(
+      [
+        bid({ bidId: 'pricey', unitPrice: 550, leadTime: 5 }),
+        bid({ bidId: 'cheap', unitPrice: 450, leadTime: 10 }),
+      ],
+      context,
+      parseEvaluationCriteria('{"price":80,"leadTime":20}')
+    )
+
+    expect(ranked.map((r) => [r.bidId, r.rank])).toEqual([
+      ['cheap', 1],
+      ['pricey', 2],
+    ])
+    // cheap: 100 * 0.8 + 50 * 0.2
+    expect(ranked[0].evaluationScore).toBe(90)
+  })
+})
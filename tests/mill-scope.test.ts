@@ -0,0 +1,140 @@
+// Mill scope per role, and the data-layer rewrite applied to mill users' queries
+
+import { describe, expect, it } from 'vitest'
+import { Session } from 'next-auth'
+import {
+  Permission,
+  UserRole,
+  alertScopeWhere,
+  canAccessMill,
+  getMillScope,
+  hasPermission,
+  millScopeWhere,
+  resolveMillId,
+} from '@/lib/rbac'
+import { MillScopeError, NO_MILL_SCOPE, applyMillScope, runWithMillScope } from '@/lib/mill-scope'
+
+function sessionFor(role: UserRole, millId: string | null): Session {
+  return {
+    user: { id: 'user-1', email: 'user@example.com', name: 'User', role, millId },
+    expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  } as Session
+}
+
+describe('getMillScope', () => {
+  it.each<[UserRole, string | null, string | null]>([
+    ['MILL_OPERATOR', 'mill-1', 'mill-1'],
+    ['MILL_MANAGER', 'mill-1', 'mill-1'],
+    ['MILL_OPERATOR', null, NO_MILL_SCOPE],
+    ['MILL_MANAGER', null, NO_MILL_SCOPE],
+    ['FWGA_INSPECTOR', null, null],
+    ['FWGA_PROGRAM_MANAGER', null, null],
+    ['SYSTEM_ADMIN', null, null],
+    ['INSTITUTIONAL_BUYER', null, NO_MILL_SCOPE],
+    ['LOGISTICS_PLANNER', null, NO_MILL_SCOPE],
+    ['INSTITUTIONAL_BUYER', 'mill-1', NO_MILL_SCOPE],
+  ])('%s with millId %s is scoped to %s', (role, millId, scope) => {
+    expect(getMillScope({ role, millId })).toBe(scope)
+  })
+
+  it('gives users without a mill no mill at all', () => {
+    const buyer = sessionFor('INSTITUTIONAL_BUYER', null)
+    expect(resolveMillId(buyer, 'mill-2')).toBe(NO_MILL_SCOPE)
+    expect(canAccessMill(buyer, 'mill-2')).toBe(false)
+    expect(millScopeWhere(buyer)).toEqual({ millId: NO_MILL_SCOPE })
+  })
+
+  it('leaves cross-mill roles unfiltered', () => {
+    const inspector = sessionFor('FWGA_INSPECTOR', null)
+    expect(resolveMillId(inspector, 'mill-2')).toBe('mill-2')
+    expect(canAccessMill(inspector, 'mill-2')).toBe(true)
+    expect(millScopeWhere(inspector, 'batch')).toEqual({})
+  })
+})
+
+describe('alertScopeWhere', () => {
+  it('confines mill users to their mill', () => {
+    expect(alertScopeWhere(sessionFor('MILL_MANAGER', 'mill-1'))).toEqual({ millId: 'mill-1' })
+  })
+
+  it('confines users without a mill to alerts they were notified of', () => {
+    expect(alertScopeWhere(sessionFor('LOGISTICS_PLANNER', null), 'alert')).toEqual({
+      alert: { notifications: { some: { userId: 'user-1' } } },
+    })
+  })
+
+  it('leaves cross-mill roles unfiltered', () => {
+    expect(alertScopeWhere(sessionFor('SYSTEM_ADMIN', null))).toEqual({})
+  })
+})
+
+describe('roles without a mill', () => {
+  const MILL_DATA_READS: Permission[] = [
+    'batch:read',
+    'premix:read',
+    'compliance:read',
+    'maintenance:read',
+    'action-item:read',
+    'analytics:read',
+    'diagnostics:read',
+  ]
+
+  it.each<UserRole>(['INSTITUTIONAL_BUYER', 'LOGISTICS_PLANNER'])('%s cannot read mill data', (role) => {
+    expect(MILL_DATA_READS.filter((permission) => hasPermission(role, permission))).toEqual([])
+  })
+})
+
+describe('applyMillScope', () => {
+  it('passes queries through outside a mill scope', () => {
+    const args = { where: { id: 'batch-1' } }
+    expect(applyMillScope('BatchLog', 'findUnique', args)).toBe(args)
+  })
+
+  it('leaves models without mill ownership alone', () => {
+    runWithMillScope('mill-1', () => {
+      const args = { where: { id: 'po-1' } }
+      expect(applyMillScope('PurchaseOrder', 'findUnique', args)).toBe(args)
+    })
+  })
+
+  it('adds the mill to reads, updates and deletes', () => {
+    runWithMillScope('mill-1', () => {
+      expect(applyMillScope('BatchLog', 'findMany', { where: { status: 'QC_PENDING' } })).toEqual({
+        where: { status: 'QC_PENDING', AND: [{ millId: 'mill-1' }] },
+      })
+      expect(applyMillScope('Alert', 'count', undefined)).toEqual({
+        where: { AND: [{ millId: 'mill-1' }] },
+      })
+      expect(
+        applyMillScope('Equipment', 'update', { where: { id: 'eq-1', AND: { isActive: true } }, data: {} })
+      ).toEqual({
+        where: { id: 'eq-1', AND: [{ isActive: true }, { millId: 'mill-1' }] },
+        data: {},
+      })
+    })
+  })
+
+  it('refuses writes into another mill', () => {
+    runWithMillScope('mill-1', () => {
+      expect(() => applyMillScope('BatchLog', 'create', { data: { millId: 'mill-2' } })).toThrow(
+        MillScopeError
+      )
+      expect(() =>
+        applyMillScope('PremixLot', 'createMany', { data: [{ millId: 'mill-1' }, { millId: 'mill-2' }] })
+      ).toThrow(MillScopeError)
+      expect(() =>
+        applyMillScope('ActionItem', 'update', { where: { id: 'ai-1' }, data: { millId: 'mill-2' } })
+      ).toThrow(MillScopeError)
+      expect(() =>
+        applyMillScope('Alert', 'create', { data: { mill: { connect: { id: 'mill-2' } } } })
+      ).toThrow(MillScopeError)
+    })
+  })
+
+  it("allows writes into the caller's own mill", () => {
+    runWithMillScope('mill-1', () => {
+      const args = { data: { millId: 'mill-1', batchId: 'B-1' } }
+      expect(applyMillScope('BatchLog', 'create', args)).toBe(args)
+    })
+  })
+})
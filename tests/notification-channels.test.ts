@@ -0,0 +1,110 @@
+// SMTP adapter against a local socket server: header encoding and sessions that end early
+
+import net from 'net'
+import { afterEach, describe, expect, it } from 'vitest'
+import { ChannelDeliveryError, createSmtpEmailAdapter, encodeHeaderWord } from '@/lib/notification-channels'
+
+const message = {
+  notificationId: 'notification-1',
+  alertId: 'alert-1',
+  title: 'Batch failed QC\r\nBcc: attacker@example.com',
+  message: 'Iron below target',
+  severity: 'HIGH',
+}
+
+let server: net.Server | null = null
+
+afterEach(async () => {
+  await new Promise((resolve) => (server ? server.close(resolve) : resolve(undefined)))
+  server = null
+})
+
+// Replies to each command in turn; returns what the client sent
+async function startServer(onLine: (line: string, socket: net.Socket) => void) {
+  const received: string[] = []
+  server = net.createServer((socket) => {
+    socket.write('220 test ready\r\n')
+    let buffer = ''
+    socket.on('data', (chunk) => {
+      buffer += chunk.toString()
+      const lines = buffer.split('\r\n')
+      buffer = lines.pop()!
+      lines.forEach((line) => {
+        received.push(line)
+        onLine(line, socket)
+      })
+    })
+  })
+  await new Promise<void>((resolve) => server!.listen(0, '127.0.0.1', resolve))
+  const port = (server!.address() as net.AddressInfo).port
+  const adapter = createSmtpEmailAdapter({ host: '127.0.0.1', port, secure: false, from: 'FortifyMIS <alerts@example.com>' })
+  return { adapter, received }
+}
+
+function replyLikeARelay(line: string, socket: net.Socket, state: { inData: boolean }) {
+  if (state.inData) {
+    if (line === '.') {
+      state.inData = false
+      socket.write('250 queued\r\n')
+    }
+    return
+  }
+  if (line.startsWith('DATA')) {
+    state.inData = true
+    socket.write('354 go ahead\r\n')
+  } else if (line.startsWith('QUIT')) {
+    socket.end('221 bye\r\n')
+  } else {
+    socket.write('250 ok\r\n')
+  }
+}
+
+describe('encodeHeaderWord', () => {
+  it('leaves plain ASCII alone', () => {
+    expect(encodeHeaderWord('[HIGH] Batch failed QC')).toBe('[HIGH] Batch failed QC')
+  })
+
+  it('folds line breaks into spaces', () => {
+    expect(encodeHeaderWord('one\r\ntwo\nthree')).toBe('one two three')
+  })
+
+  it('encodes non-ASCII as UTF-8 encoded words of at most 75 characters', () => {
+    const subject = 'Lote de premezcla caducó — acción requerida en el molino de Nakuru 🚨'
+    const words = encodeHeaderWord(subject).split('\r\n ')
+    expect(words.length).toBeGreaterThan(1)
+    words.forEach((word) => {
+      expect(word).toMatch(/^=\?UTF-8\?B\?[A-Za-z0-9+/=]+\?=$/)
+      expect(word.length).toBeLessThanOrEqual(75)
+    })
+    const decoded = words.map((word) => Buffer.from(word.slice(10, -2), 'base64').toString('utf8')).join('')
+    expect(decoded).toBe(subject)
+  })
+})
+
+describe('createSmtpEmailAdapter', () => {
+  it('sends a message without letting the title add headers', async () => {
+    const state = { inData: false }
+    const { adapter, received } = await startServer((line, socket) => replyLikeARelay(line, socket, state))
+
+    await expect(adapter.send('ops@example.com', message)).resolves.toMatchObject({ status: 'SENT' })
+    expect(received).toContain('Subject: [HIGH] Batch failed QC Bcc: attacker@example.com')
+    expect(received.some((line) => line.startsWith('Bcc:'))).toBe(false)
+  })
+
+  it('refuses addresses that would inject commands', async () => {
+    const { adapter, received } = await startServer(() => {})
+
+    await expect(adapter.send('ops@example.com>\r\nRCPT TO:<other@example.com', message)).rejects.toMatchObject({
+      permanent: true,
+    })
+    expect(received).toEqual([])
+  })
+
+  it('rejects when the server hangs up mid-session', async () => {
+    const { adapter } = await startServer((line, socket) => {
+      if (line.startsWith('EHLO')) socket.end()
+    })
+
+    await expect(adapter.send('ops@example.com', message)).rejects.toBeInstanceOf(ChannelDeliveryError)
+  })
+})
@@ -0,0 +1,78 @@
+// Digest generation against an in-memory stand-in for the database
+
+import { describe, expect, it, vi } from 'vitest'
+import { generateDigests } from '@/lib/notification-digest'
+
+const now = new Date('2026-03-10T09:00:00Z')
+
+function preferenceRow(overrides: Record<string, unknown> = {}) {
+  return {
+    userId: 'user-1',
+    emailEnabled: true,
+    smsEnabled: true,
+    pushEnabled: true,
+    quietHoursEnabled: false,
+    quietHoursStart: null,
+    quietHoursEnd: null,
+    timezone: 'UTC',
+    categorySettings: null,
+    digestSettings: JSON.stringify({ frequency: 'DAILY', sendAt: '07:00', channels: ['EMAIL', 'PUSH'] }),
+    ...overrides,
+  }
+}
+
+function fakePrisma(preference: Record<string, unknown>) {
+  return {
+    notificationPreference: { findMany: vi.fn(async () => [preference]) },
+    notificationDigest: {
+      findFirst: vi.fn(async () => null),
+      createMany: vi.fn(async (_args: { data: any[] }) => ({ count: 1 })),
+    },
+    alertNotification: {
+      findMany: vi.fn(async () => [
+        {
+          responseUrl: 'http://localhost:3000/alerts/alert-1',
+          alert: {
+            id: 'alert-1',
+            title: 'Premix lot expiring',
+            severity: 'MEDIUM',
+            category: 'INVENTORY',
+            millId: 'mill-1',
+            isResolved: false,
+            deadline: null,
+            createdAt: new Date('2026-03-10T01:00:00Z'),
+            mill: { name: 'Nakuru' },
+          },
+        },
+      ]),
+    },
+  }
+}
+
+describe('generateDigests', () => {
+  it('queues one digest per digest channel', async () => {
+    const prisma = fakePrisma(preferenceRow())
+    const { results } = await generateDigests(prisma, now)
+
+    expect(results).toEqual([expect.objectContaining({ channels: ['EMAIL', 'PUSH'], itemCount: 1 })])
+    const rows = prisma.notificationDigest.createMany.mock.calls[0][0].data
+    expect(rows.map((row: any) => row.channel)).toEqual(['EMAIL', 'PUSH'])
+  })
+
+  it('leaves out digest channels the user switched off', async () => {
+    const prisma = fakePrisma(preferenceRow({ emailEnabled: false }))
+    const { results } = await generateDigests(prisma, now)
+
+    expect(results).toEqual([expect.objectContaining({ channels: ['PUSH'] })])
+    const rows = prisma.notificationDigest.createMany.mock.calls[0][0].data
+    expect(rows.map((row: any) => row.channel)).toEqual(['PUSH'])
+  })
+
+  it('builds no digest when every digest channel is switched off', async () => {
+    const prisma = fakePrisma(preferenceRow({ emailEnabled: false, pushEnabled: false }))
+    const { results } = await generateDigests(prisma, now)
+
+    expect(results).toEqual([])
+    expect(prisma.notificationDigest.createMany).not.toHaveBeenCalled()
+  })
+})
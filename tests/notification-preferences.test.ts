@@ -0,0 +1,45 @@
+// Channel resolution: severity defaults, category overrides and channel toggles
+
+import { describe, expect, it } from 'vitest'
+import {
+  DEFAULT_NOTIFICATION_PREFERENCES,
+  NotificationPreferenceSettings,
+  resolveNotificationChannels,
+} from '@/lib/notification-preferences'
+
+const optedOut: NotificationPreferenceSettings = {
+  ...DEFAULT_NOTIFICATION_PREFERENCES,
+  categorySettings: { MAINTENANCE: { enabled: false } },
+}
+
+describe('resolveNotificationChannels', () => {
+  it('uses the severity defaults without preferences', () => {
+    expect(resolveNotificationChannels('HIGH', 'MAINTENANCE', DEFAULT_NOTIFICATION_PREFERENCES)).toEqual([
+      'IN_SYSTEM',
+      'PUSH',
+      'EMAIL',
+    ])
+  })
+
+  it('keeps only in-system for a category the user opted out of', () => {
+    expect(resolveNotificationChannels('HIGH', 'MAINTENANCE', optedOut)).toEqual(['IN_SYSTEM'])
+  })
+
+  it('never lets a category opt-out silence CRITICAL alerts', () => {
+    expect(resolveNotificationChannels('CRITICAL', 'MAINTENANCE', optedOut)).toEqual([
+      'IN_SYSTEM',
+      'PUSH',
+      'SMS',
+      'EMAIL',
+    ])
+    expect(resolveNotificationChannels('CRITICAL', 'MAINTENANCE', optedOut, ['IN_SYSTEM', 'SMS'])).toEqual([
+      'IN_SYSTEM',
+      'SMS',
+    ])
+  })
+
+  it('still honours channels switched off for CRITICAL alerts', () => {
+    const settings = { ...optedOut, smsEnabled: false, pushEnabled: false }
+    expect(resolveNotificationChannels('CRITICAL', 'MAINTENANCE', settings)).toEqual(['IN_SYSTEM', 'EMAIL'])
+  })
+})
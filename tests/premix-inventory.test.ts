@@ -0,0 +1,110 @@
+// Premix expiry, FEFO picking and stock draws
+
+import { describe, expect, it, vi } from 'vitest'
+import { consumePremix, getPremixLotStatus, isPremixExpired, suggestFefoLots } from '@/lib/premix-inventory'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+function lot(id: string, quantityOnHand: number, expiresInDays: number) {
+  return {
+    id,
+    premixType: 'IRON_FOLIC',
+    premixBatchNumber: `PMX-${id}`,
+    manufacturer: 'DSM',
+    expiryDate: new Date(Date.now() + expiresInDays * DAY_MS),
+    quantityOnHand,
+  }
+}
+
+describe('isPremixExpired', () => {
+  it('keeps a lot usable through the end of its expiry day', () => {
+    const expiry = new Date('2026-03-10T00:00:00Z')
+    expect(isPremixExpired(expiry, new Date('2026-03-10T23:59:00Z'))).toBe(false)
+    expect(isPremixExpired(expiry, new Date('2026-03-11T00:00:00Z'))).toBe(true)
+  })
+})
+
+describe('getPremixLotStatus', () => {
+  it('reports depleted, expired, expiring and available lots', () => {
+    expect(getPremixLotStatus(lot('a', 0, 90))).toBe('DEPLETED')
+    expect(getPremixLotStatus(lot('b', 5, -2))).toBe('EXPIRED')
+    expect(getPremixLotStatus(lot('c', 5, 10))).toBe('EXPIRING')
+    expect(getPremixLotStatus(lot('d', 5, 90))).toBe('AVAILABLE')
+  })
+})
+
+describe('suggestFefoLots', () => {
+  it('draws from the earliest-expiring usable lots first and reports any shortfall', async () => {
+    // Served in the order the query asks for: earliest expiry first
+    const lots = [lot('expired', 40, -1), lot('soon', 10, 5), lot('later', 25, 60)]
+    const prisma = { premixLot: { findMany: vi.fn(async (_args: any) => lots) } }
+
+    const { suggestions, shortfall } = await suggestFefoLots('mill-1', 'IRON_FOLIC', 30, prisma)
+
+    expect(prisma.premixLot.findMany.mock.calls[0][0].orderBy).toEqual([
+      { expiryDate: 'asc' },
+      { firstReceivedAt: 'asc' },
+    ])
+    expect(suggestions.map((s: any) => [s.lotId, s.suggestedQuantity])).toEqual([
+      ['soon', 10],
+      ['later', 20],
+    ])
+    expect(shortfall).toBe(0)
+
+    const short = await suggestFefoLots('mill-1', 'IRON_FOLIC', 50, prisma)
+    expect(short.shortfall).toBe(15)
+  })
+
+  it('lists lots without allocations when no quantity is given', async () => {
+    const prisma = { premixLot: { findMany: vi.fn(async () => [lot('soon', 10, 5)]) } }
+    const { suggestions, shortfall } = await suggestFefoLots('mill-1', null, null, prisma)
+
+    expect(suggestions).toEqual([expect.objectContaining({ lotId: 'soon', suggestedQuantity: null })])
+    expect(shortfall).toBeNull()
+  })
+})
+
+describe('consumePremix', () => {
+  function fakeTx(onHand: number) {
+    const state = { onHand }
+    return {
+      state,
+      premixLot: {
+        updateMany: vi.fn(async ({ where, data }: any) => {
+          if (state.onHand < where.quantityOnHand.gte) return { count: 0 }
+          state.onHand -= data.quantityOnHand.decrement
+          return { count: 1 }
+        }),
+        findUniqueOrThrow: vi.fn(async () => ({ quantityOnHand: state.onHand })),
+        update: vi.fn(async ({ data }: any) => {
+          state.onHand = data.quantityOnHand
+        }),
+      },
+      premixLotTransaction: { create: vi.fn(async (_args: any) => ({})) },
+    }
+  }
+
+  const batch = { id: 'batch-1', batchId: 'B-1' }
+
+  it('decrements stock and records the draw', async () => {
+    const tx = fakeTx(20)
+    const warning = await consumePremix(lot('a', 20, 60), 5, batch, 'user-1', tx)
+
+    expect(warning).toBeNull()
+    expect(tx.state.onHand).toBe(15)
+    expect(tx.premixLotTransaction.create.mock.calls[0][0].data).toMatchObject({
+      type: 'CONSUMPTION',
+      quantity: -5,
+      balanceAfter: 15,
+    })
+  })
+
+  it('empties the lot and warns when more was used than is on hand', async () => {
+    const tx = fakeTx(3)
+    const warning = await consumePremix(lot('a', 3, 60), 5, batch, 'user-1', tx)
+
+    expect(warning).toMatch(/had 3\.000 kg on hand but 5\.000 kg was used/)
+    expect(tx.state.onHand).toBe(0)
+    expect(tx.premixLotTransaction.create.mock.calls[0][0].data).toMatchObject({ quantity: -5, balanceAfter: 0 })
+  })
+})
@@ -0,0 +1,140 @@
+// Ed25519 QR signatures: signing, offline and server-side verification, key rotation
+// and revocation
+
+import { generateKeyPairSync } from 'crypto'
+import { afterEach, describe, expect, it } from 'vitest'
+import { signQrPayload, verifyQrSignature, verifyQrToken } from '@/lib/qr-signing'
+
+const fields = {
+  batchId: 'NAK-2026-0001',
+  millCode: 'NAK',
+  cropType: 'MAIZE',
+  productType: 'FLOUR',
+  productionDate: '2026-03-01',
+  qcStatus: 'PASS',
+  certificationStatus: 'CERTIFIED',
+}
+
+function newKey() {
+  const { privateKey, publicKey } = generateKeyPairSync('ed25519')
+  return {
+    privatePem: privateKey.export({ type: 'pkcs8', format: 'pem' }).toString(),
+    publicPem: publicKey.export({ type: 'spki', format: 'pem' }).toString(),
+  }
+}
+
+function useSigningKey(keyId: string, key: { privatePem: string }) {
+  process.env.QR_SIGNING_KEY_ID = keyId
+  process.env.QR_SIGNING_PRIVATE_KEY = key.privatePem
+}
+
+// The QrSigningKey table, keyed by keyId
+function fakePrisma() {
+  const keys = new Map<string, any>()
+  return {
+    keys,
+    $transaction: (operations: Promise<unknown>[]) => Promise.all(operations),
+    qrSigningKey: {
+      findUnique: async ({ where }: any) => keys.get(where.keyId) ?? null,
+      updateMany: async ({ where, data }: any) => {
+        const rows = Array.from(keys.values()).filter(
+          (row) => row.status === where.status && row.keyId !== where.keyId.not
+        )
+        rows.forEach((row) => Object.assign(row, data))
+        return { count: rows.length }
+      },
+      upsert: async ({ where, create, update }: any) => {
+        const row = keys.has(where.keyId)
+          ? Object.assign(keys.get(where.keyId), update)
+          : { status: 'ACTIVE', ...create }
+        keys.set(where.keyId, row)
+        return row
+      },
+    },
+  }
+}
+
+afterEach(() => {
+  delete process.env.QR_SIGNING_KEY_ID
+  delete process.env.QR_SIGNING_PRIVATE_KEY
+})
+
+describe('signQrPayload', () => {
+  it('signs a payload that verifies offline and against the registered key', async () => {
+    const prisma = fakePrisma()
+    const key = newKey()
+    useSigningKey('key-1', key)
+
+    const { token, payload } = await signQrPayload(fields, prisma)
+
+    expect(payload).toMatchObject({ v: 1, kid: 'key-1', ...fields })
+    expect(verifyQrSignature(token, key.publicPem)).toEqual(payload)
+    expect(await verifyQrToken(token, prisma)).toEqual({ valid: true, payload, keyStatus: 'ACTIVE' })
+  })
+
+  it('refuses to sign with a revoked key', async () => {
+    const prisma = fakePrisma()
+    useSigningKey('key-1', newKey())
+    await signQrPayload(fields, prisma)
+    prisma.keys.get('key-1').status = 'REVOKED'
+
+    await expect(signQrPayload(fields, prisma)).rejects.toThrow(/has been revoked/)
+  })
+})
+
+describe('verifyQrToken', () => {
+  it('rejects an edited payload', async () => {
+    const prisma = fakePrisma()
+    useSigningKey('key-1', newKey())
+    const { token, payload } = await signQrPayload(fields, prisma)
+
+    const [, signature] = token.split('.')
+    const forged = Buffer.from(JSON.stringify({ ...payload, qcStatus: 'FAIL' })).toString('base64url')
+
+    expect(await verifyQrToken(`${forged}.${signature}`, prisma)).toMatchObject({
+      valid: false,
+      reason: 'INVALID_SIGNATURE',
+    })
+  })
+
+  it('rejects malformed codes and unknown keys', async () => {
+    const prisma = fakePrisma()
+    useSigningKey('key-1', newKey())
+    const { token } = await signQrPayload(fields, prisma)
+
+    expect(await verifyQrToken('not-a-token', prisma)).toEqual({ valid: false, reason: 'MALFORMED' })
+    expect(await verifyQrToken(token, fakePrisma())).toMatchObject({ valid: false, reason: 'UNKNOWN_KEY' })
+  })
+
+  it('keeps codes from a rotated-out key valid until that key is revoked', async () => {
+    const prisma = fakePrisma()
+    useSigningKey('key-1', newKey())
+    const old = await signQrPayload(fields, prisma)
+
+    useSigningKey('key-2', newKey())
+    const current = await signQrPayload(fields, prisma)
+
+    expect(current.payload.kid).toBe('key-2')
+    expect(prisma.keys.get('key-1').status).toBe('RETIRED')
+    expect(prisma.keys.get('key-2').status).toBe('ACTIVE')
+    expect(await verifyQrToken(old.token, prisma)).toMatchObject({ valid: true, keyStatus: 'RETIRED' })
+
+    prisma.keys.get('key-1').status = 'REVOKED'
+
+    expect(await verifyQrToken(old.token, prisma)).toMatchObject({ valid: false, reason: 'KEY_REVOKED' })
+    expect(await verifyQrToken(current.token, prisma)).toMatchObject({ valid: true, keyStatus: 'ACTIVE' })
+  })
+
+  it('does not accept one key signing as another', async () => {
+    const prisma = fakePrisma()
+    useSigningKey('key-1', newKey())
+    await signQrPayload(fields, prisma)
+
+    // A different private key claiming key-1's id
+    const impostor = fakePrisma()
+    useSigningKey('key-1', newKey())
+    const { token } = await signQrPayload(fields, impostor)
+
+    expect(await verifyQrToken(token, prisma)).toMatchObject({ valid: false, reason: 'INVALID_SIGNATURE' })
+  })
+})
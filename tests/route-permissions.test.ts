@@ -0,0 +1,221 @@
+// Route × role permission matrix: every API handler is called as each role and
+// checked against ROLE_PERMISSIONS, with the database replaced by a stub that
+// records the mill scope each query ran under.
+
+import fs from 'fs'
+import path from 'path'
+import { NextRequest } from 'next/server'
+import { beforeEach, describe, expect, it, vi } from 'vitest'
+import { Permission, ROLE_PERMISSIONS, UserRole, isMillRole, userHasPermission } from '@/lib/rbac'
+
+const state = vi.hoisted(() => ({
+  session: null as any,
+  queryScopes: [] as (string | null)[],
+}))
+
+vi.mock('next-auth', async (importOriginal) => ({
+  ...(await importOriginal<typeof import('next-auth')>()),
+  getServerSession: vi.fn(async () => state.session),
+}))
+
+vi.mock('@/lib/db', async () => {
+  const { getCurrentMillScope } = await import('@/lib/mill-scope')
+  const query = () => {
+    state.queryScopes.push(getCurrentMillScope())
+    const result = Promise.reject(new Error('No database in tests'))
+    result.catch(() => {})
+    return result
+  }
+  const model = new Proxy({}, { get: () => query })
+  return {
+    prisma: new Proxy({}, { get: (_target, key) => (String(key).startsWith('$') ? query : model) }),
+  }
+})
+
+const API_DIR = path.resolve(__dirname, '../src/app/api')
+const METHODS = ['GET', 'POST', 'PUT', 'PATCH', 'DELETE']
+const ROLES = Object.keys(ROLE_PERMISSIONS) as UserRole[]
+const MILL_ID = 'mill-1'
+
+// Routes that deliberately work without a session
+const PUBLIC_ROUTES = [
+  'auth/[...nextauth]',
+  'auth/invitations/[token]',
+  'auth/login',
+  'auth/logout',
+  'auth/me',
+  'auth/register',
+  'auth/session',
+  'auth/signup',
+  'batches/verify/[code]',
+  'certificates/verify',
+  'health',
+  'qr-keys',
+]
+
+// Routes importing modules that are missing from the tree; they cannot load until those exist
+const UNLOADABLE_ROUTES = [
+  'dashboards/inspector',
+  'dashboards/mill-manager',
+  'dashboards/mill-operator',
+  'dashboards/program-manager',
+]
+
+type AuthHandler = ((request: NextRequest, context: { params: any }) => Promise<Response>) & {
+  requiredPermissions?: Permission[]
+}
+
+function findRoutes(dir: string): string[] {
+  return fs.readdirSync(dir, { withFileTypes: true }).flatMap((entry) => {
+    const fullPath = path.join(dir, entry.name)
+    if (entry.isDirectory()) return findRoutes(fullPath)
+    return /^route\.tsx?$/.test(entry.name) ? [fullPath] : []
+  })
+}
+
+function routeName(file: string): string {
+  return path.relative(API_DIR, path.dirname(file)).split(path.sep).join('/')
+}
+
+function routeParams(route: string): Record<string, string> {
+  const params: Record<string, string> = {}
+  for (const match of Array.from(route.matchAll(/\[(\w+)\]/g))) params[match[1]] = `test-${match[1]}`
+  return params
+}
+
+// Buyers are verified unless a test says otherwise
+function sessionFor(
+  role: UserRole,
+  millId: string | null = isMillRole(role) ? MILL_ID : null,
+  buyerVerified = true
+) {
+  return {
+    user: {
+      id: `user-${role}`,
+      email: `${role.toLowerCase()}@example.com`,
+      name: role,
+      role,
+      millId,
+      buyerVerified,
+    },
+    expires: new Date(Date.now() + 60 * 60 * 1000).toISOString(),
+  }
+}
+
+async function call(handler: AuthHandler, method: string, route: string): Promise<Response | null> {
+  const params = routeParams(route)
+  const url = `http://localhost/api/${route.replace(/\[(\w+)\]/g, (_, name) => params[name])}`
+  const request = new NextRequest(url, {
+    method,
+    ...(method === 'GET' ? {} : { body: '{}', headers: { 'content-type': 'application/json' } }),
+  })
+  try {
+    return await handler(request, { params })
+  } catch {
+    // The handler ran and let the stubbed database error escape
+    return null
+  }
+}
+
+async function isPermissionDenial(response: Response | null): Promise<boolean> {
+  if (!response || response.status !== 403) return false
+  const body = await response.clone().json()
+  return body.requiredPermission !== undefined
+}
+
+const routes: { route: string; handlers: [string, AuthHandler][] }[] = []
+const unloadable: string[] = []
+for (const file of findRoutes(API_DIR).sort()) {
+  const route = routeName(file)
+  if (PUBLIC_ROUTES.includes(route)) continue
+  let mod: any
+  try {
+    mod = await import(file)
+  } catch {
+    unloadable.push(route)
+    continue
+  }
+  routes.push({
+    route,
+    handlers: METHODS.filter((method) => typeof mod[method] === 'function').map((method) => [
+      method,
+      mod[method],
+    ]),
+  })
+}
+
+beforeEach(() => {
+  state.session = null
+  state.queryScopes = []
+  // Handlers log the stubbed database error before responding 500
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+describe('API route permissions', () => {
+  it('lists every public route that still exists', () => {
+    const existing = findRoutes(API_DIR).map(routeName)
+    expect(existing).toEqual(expect.arrayContaining(PUBLIC_ROUTES))
+  })
+
+  it('loads every other route', () => {
+    expect(unloadable).toEqual(UNLOADABLE_ROUTES)
+  })
+
+  for (const { route, handlers } of routes) {
+    for (const [method, handler] of handlers) {
+      describe(`${method} /api/${route}`, () => {
+        it('is wrapped with withAuth', () => {
+          expect(handler.requiredPermissions).toBeInstanceOf(Array)
+        })
+
+        it('responds 401 without a session', async () => {
+          const response = await call(handler, method, route)
+          expect(response?.status).toBe(401)
+          expect(state.queryScopes).toEqual([])
+        })
+
+        it('refuses mill roles without a mill', async () => {
+          state.session = sessionFor('MILL_OPERATOR', null)
+          const response = await call(handler, method, route)
+          expect(response?.status).toBe(403)
+          expect(state.queryScopes).toEqual([])
+        })
+
+        for (const role of ROLES) {
+          const required = handler.requiredPermissions ?? []
+          const permitted =
+            required.length === 0 || required.some((p) => userHasPermission(sessionFor(role).user, p))
+
+          it(`${permitted ? 'admits' : 'refuses'} ${role}`, async () => {
+            state.session = sessionFor(role)
+            const response = await call(handler, method, route)
+
+            if (!permitted) {
+              expect(response?.status).toBe(403)
+              expect(await isPermissionDenial(response)).toBe(true)
+              expect(state.queryScopes).toEqual([])
+              return
+            }
+
+            expect(response?.status).not.toBe(401)
+            expect(await isPermissionDenial(response)).toBe(false)
+            // Mill users' queries run inside their mill scope; nobody else's do
+            const scope = isMillRole(role) ? MILL_ID : null
+            expect(state.queryScopes.every((s) => s === scope)).toBe(true)
+          })
+        }
+
+        const unverifiedBuyer = sessionFor('INSTITUTIONAL_BUYER', null, false)
+        const required = handler.requiredPermissions ?? []
+        if (required.length > 0 && !required.some((p) => userHasPermission(unverifiedBuyer.user, p))) {
+          it('refuses buyers whose profile is not verified', async () => {
+            state.session = unverifiedBuyer
+            const response = await call(handler, method, route)
+            expect(response?.status).toBe(403)
+            expect(await isPermissionDenial(response)).toBe(true)
+          })
+        }
+      })
+    }
+  }
+})
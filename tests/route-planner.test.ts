@@ -0,0 +1,96 @@
+// Route planning: 2-opt improvement, time windows and capacity-split trips
+
+import { describe, expect, it } from 'vitest'
+import {
+  RoutePlanOptions,
+  RouteStopInput,
+  improveWithTwoOpt,
+  planDeliveryRoute,
+  scheduleTrip,
+} from '@/lib/route-planner'
+
+const departure = new Date('2026-03-10T06:00:00Z')
+const MINUTE_MS = 60 * 1000
+
+const options: RoutePlanOptions = {
+  depot: { latitude: 0, longitude: 0 },
+  departureTime: departure,
+  vehicleCapacity: 1000,
+  averageSpeedKmh: 60,
+  serviceMinutes: 30,
+}
+
+function stop(
+  id: string,
+  latitude: number,
+  longitude: number,
+  extra: Partial<RouteStopInput> = {}
+): RouteStopInput {
+  return { deliveryId: id, locationId: `loc-${id}`, name: id, latitude, longitude, quantity: 100, ...extra }
+}
+
+const ids = (stops: { deliveryId: string }[]) => stops.map((s) => s.deliveryId)
+
+// Corners of a square next to the depot; visiting them around the edge is shortest
+const north = stop('north', 0.5, 0)
+const northEast = stop('north-east', 0.5, 0.5)
+const east = stop('east', 0, 0.5)
+
+describe('improveWithTwoOpt', () => {
+  it('uncrosses a route that doubles back on itself', () => {
+    const crossed = [northEast, north, east]
+    const improved = improveWithTwoOpt(crossed, departure, options)
+
+    expect([ids([north, northEast, east]), ids([east, northEast, north])]).toContainEqual(ids(improved))
+    expect(scheduleTrip(improved, departure, options).distanceKm).toBeLessThan(
+      scheduleTrip(crossed, departure, options).distanceKm
+    )
+  })
+
+  it('leaves routes of fewer than three stops alone', () => {
+    expect(improveWithTwoOpt([east, north], departure, options)).toEqual([east, north])
+  })
+
+  it('does not shorten a route at the cost of missing a time window', () => {
+    const urgent = stop('urgent', 0.5, 0.5, { windowEnd: new Date(departure.getTime() + 120 * MINUTE_MS) })
+    const nearby = [stop('near', 0.1, 0), stop('nearer', 0.05, 0)]
+    const improved = improveWithTwoOpt([...nearby, urgent], departure, options)
+
+    expect(improved[0]).toBe(urgent)
+    expect(scheduleTrip(improved, departure, options).lateMinutes).toBe(0)
+  })
+})
+
+describe('scheduleTrip', () => {
+  it('waits for a window to open and counts lateness after it closes', () => {
+    const at = (minutes: number) => new Date(departure.getTime() + minutes * MINUTE_MS)
+    const opensLate = stop('opens-late', 0.5, 0, { windowStart: at(180) })
+    const closesEarly = stop('closes-early', 0.5, 0.5, { windowEnd: at(60) })
+
+    const { stops, lateMinutes } = scheduleTrip([opensLate, closesEarly], departure, options)
+
+    expect(stops[0].arrivalTime).toEqual(opensLate.windowStart)
+    expect(stops[0].waitMinutes).toBeGreaterThan(0)
+    expect(stops[1].lateMinutes).toBeGreaterThan(0)
+    expect(lateMinutes).toBe(stops[1].lateMinutes)
+  })
+})
+
+describe('planDeliveryRoute', () => {
+  it('splits loads over capacity into consecutive trips and leaves out oversized stops', () => {
+    const plan = planDeliveryRoute(
+      [
+        stop('a', 0.1, 0, { quantity: 600 }),
+        stop('b', 0.2, 0, { quantity: 600 }),
+        stop('c', 0, 0.1, { quantity: 300 }),
+        stop('too-big', 0, 0.2, { quantity: 1500 }),
+      ],
+      options
+    )
+
+    expect(plan.unassigned).toEqual([expect.objectContaining({ deliveryId: 'too-big' })])
+    expect(plan.trips.map((t) => t.load)).toEqual([900, 600])
+    expect(plan.trips[1].departureTime).toEqual(plan.trips[0].returnTime)
+    expect(plan.trips.flatMap((t) => ids(t.stops)).sort()).toEqual(['a', 'b', 'c'])
+  })
+})
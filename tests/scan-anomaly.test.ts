@@ -0,0 +1,97 @@
+// Counterfeit signals in a batch's scan history: impossible travel, excess scans
+// and scans after expiry
+
+import { describe, expect, it } from 'vitest'
+import { detectScanAnomalies, getProductExpiry, parseScanLocation } from '@/lib/scan-anomaly'
+
+const NAIROBI = '-1.2921,36.8219'
+const THIKA = '-1.0333,37.0693' // About 40 km from Nairobi
+const MOMBASA = '-4.0435,39.6682' // About 440 km from Nairobi
+
+const HOUR_MS = 60 * 60 * 1000
+const scanTime = new Date('2026-03-10T12:00:00Z')
+
+const batch = {
+  numberOfUnits: 100,
+  expiryDate: new Date('2026-09-01T00:00:00Z'),
+  batchDateTime: new Date('2026-03-01T00:00:00Z'),
+  cropType: 'Wheat flour',
+}
+
+function earlierScan(location: string, hoursBefore: number) {
+  return { eventLocation: location, eventTime: new Date(scanTime.getTime() - hoursBefore * HOUR_MS) }
+}
+
+function types(anomalies: { type: string }[]) {
+  return anomalies.map((a) => a.type)
+}
+
+describe('parseScanLocation', () => {
+  it('reads "lat,lng" and rejects named or out-of-range places', () => {
+    expect(parseScanLocation(' -1.2921, 36.8219 ')).toEqual({ latitude: -1.2921, longitude: 36.8219 })
+    expect(parseScanLocation('Nairobi CBD')).toBeNull()
+    expect(parseScanLocation('91,36')).toBeNull()
+  })
+})
+
+describe('detectScanAnomalies', () => {
+  it('accepts an ordinary scan', () => {
+    const scan = { location: NAIROBI, time: scanTime }
+    expect(detectScanAnomalies(batch, scan, [earlierScan(NAIROBI, 2)], 10)).toEqual([])
+  })
+
+  it('flags a code scanned far away faster than goods can travel', () => {
+    const [anomaly] = detectScanAnomalies(
+      batch,
+      { location: MOMBASA, time: scanTime },
+      [earlierScan(NAIROBI, 1)],
+      1
+    )
+
+    expect(anomaly.type).toBe('IMPOSSIBLE_TRAVEL')
+    expect(anomaly.details.distanceKm).toBeGreaterThan(400)
+    expect(anomaly.details.impliedSpeedKmh).toBeGreaterThan(400)
+  })
+
+  it('allows travel at road speed, short hops and scans outside the window', () => {
+    const scan = { location: MOMBASA, time: scanTime }
+
+    expect(detectScanAnomalies(batch, scan, [earlierScan(NAIROBI, 6)], 1)).toEqual([])
+    expect(detectScanAnomalies(batch, scan, [earlierScan(NAIROBI, 30)], 1)).toEqual([])
+    const nearby = { location: THIKA, time: scanTime }
+    expect(detectScanAnomalies(batch, nearby, [earlierScan(NAIROBI, 0.1)], 1)).toEqual([])
+  })
+
+  it('skips the travel check for scans without coordinates', () => {
+    const named = { location: 'Mombasa', time: scanTime }
+    expect(detectScanAnomalies(batch, named, [earlierScan(NAIROBI, 1)], 1)).toEqual([])
+  })
+
+  it('flags more scans than the batch could plausibly see', () => {
+    expect(types(detectScanAnomalies(batch, { location: null, time: scanTime }, [], 299))).toEqual([])
+
+    const [anomaly] = detectScanAnomalies(batch, { location: null, time: scanTime }, [], 300)
+    expect(anomaly).toMatchObject({ type: 'EXCESS_SCANS', details: { scanCount: 301, numberOfUnits: 100 } })
+  })
+
+  it('flags scans after the recorded expiry', () => {
+    const late = new Date('2026-09-03T12:00:00Z')
+    const [anomaly] = detectScanAnomalies(batch, { location: null, time: late }, [], 1)
+
+    expect(anomaly).toMatchObject({ type: 'SCAN_AFTER_EXPIRY', details: { expiryDerived: false } })
+    expect(anomaly.message).toBe('Scanned 3 day(s) after expiry')
+  })
+
+  it('derives expiry from the shelf life when none is recorded', () => {
+    const undated = {
+      ...batch,
+      expiryDate: null,
+      packagingDate: new Date('2026-01-15T00:00:00Z'),
+      cropType: 'Refined maize flour',
+    }
+    const scan = { location: null, time: new Date('2026-05-16T00:00:00Z') }
+
+    expect(getProductExpiry(undated)).toEqual(new Date('2026-05-15T00:00:00Z'))
+    expect(types(detectScanAnomalies(undated, scan, [], 1))).toEqual(['SCAN_AFTER_EXPIRY'])
+  })
+})
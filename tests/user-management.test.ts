@@ -0,0 +1,42 @@
+// Self-registration must never hand out mill data, cross-mill scope or procurement rights
+
+import { describe, expect, it } from 'vitest'
+import { CROSS_MILL_ROLES, ROLE_PERMISSIONS, getMillScope, isMillRole, userHasPermission } from '@/lib/rbac'
+import { NO_MILL_SCOPE } from '@/lib/mill-scope'
+import { SELF_REGISTRATION_ROLE, emailSchema } from '@/lib/user-management'
+
+describe('SELF_REGISTRATION_ROLE', () => {
+  it('is neither a cross-mill nor a mill role', () => {
+    expect(CROSS_MILL_ROLES).not.toContain(SELF_REGISTRATION_ROLE)
+    expect(isMillRole(SELF_REGISTRATION_ROLE)).toBe(false)
+  })
+
+  it('has no mill scope, even if a millId were set', () => {
+    expect(getMillScope({ role: SELF_REGISTRATION_ROLE, millId: null })).toBe(NO_MILL_SCOPE)
+    expect(getMillScope({ role: SELF_REGISTRATION_ROLE, millId: 'mill-1' })).toBe(NO_MILL_SCOPE)
+  })
+
+  it('gets no user, key, job, audit-log or buyer verification permissions', () => {
+    expect(ROLE_PERMISSIONS[SELF_REGISTRATION_ROLE]).not.toEqual(
+      expect.arrayContaining([expect.stringMatching(/^(user|qr-key|job|audit-log|buyer:verify)/)])
+    )
+  })
+
+  it('gets no procurement permissions until the buyer profile is verified', () => {
+    const held = (buyerVerified: boolean) =>
+      ROLE_PERMISSIONS[SELF_REGISTRATION_ROLE].filter((permission) =>
+        userHasPermission({ role: SELF_REGISTRATION_ROLE, buyerVerified }, permission)
+      )
+    const procurement = /^(rfp|bid|purchase-order|delivery|review):/
+
+    expect(held(false).filter((permission) => procurement.test(permission))).toEqual([])
+    expect(held(true)).toEqual(expect.arrayContaining(['rfp:manage', 'purchase-order:manage']))
+  })
+})
+
+describe('emailSchema', () => {
+  it('trims and lowercases before validating', () => {
+    expect(emailSchema.parse('  Jane.Doe@Example.COM ')).toBe('jane.doe@example.com')
+    expect(emailSchema.safeParse('not an email').success).toBe(false)
+  })
+})